@@ -0,0 +1,464 @@
+import { type ArgumentConfig, parse } from 'ts-command-line-args';
+import BigNumber from 'bignumber.js';
+import { isEqual, isPlainObject, mapValues } from 'lodash-es';
+import { readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { getAmmsForChain, getChain } from './common/config.ts';
+import { loadJson, saveJson } from './common/files.ts';
+import { type RpcCallStub, RpcStubStore } from './common/rpc-stubs.ts';
+import { getUniswapLikePoolConstructor } from '../src/features/data/apis/amm/amm.ts';
+import type { IGammaPool, IUniswapLikePool } from '../src/features/data/apis/amm/types.ts';
+import type {
+  IBalancerAllPool,
+  IBalancerSinglePool,
+} from '../src/features/data/apis/amm/balancer/types.ts';
+import {
+  isBalancerAllPool,
+  isBalancerSinglePool,
+} from '../src/features/data/apis/amm/balancer/common/type-guards.ts';
+import type {
+  PoolConfig,
+  VaultConfig,
+} from '../src/features/data/apis/amm/balancer/vault/types.ts';
+import { GammaPool } from '../src/features/data/apis/amm/gamma/GammaPool.ts';
+import { GyroPool } from '../src/features/data/apis/amm/balancer/gyro/GyroPool.ts';
+import { WeightedPool } from '../src/features/data/apis/amm/balancer/weighted/WeightedPool.ts';
+import { MetaStablePool } from '../src/features/data/apis/amm/balancer/meta-stable/MetaStablePool.ts';
+import { ComposableStablePool } from '../src/features/data/apis/amm/balancer/composable-stable/ComposableStablePool.ts';
+import type { BalancerStrategyConfig } from '../src/features/data/apis/transact/strategies/strategy-configs.ts';
+import { getChainAddressBook } from '../src/features/data/apis/addressbook.ts';
+import { rpcClientManager } from '../src/features/data/apis/rpc-contract/rpc-manager.ts';
+import {
+  type AmmEntity,
+  type AmmEntityBalancer,
+  type AmmEntityGamma,
+  type AmmEntityUniswapLike,
+  isBalancerAmm,
+  isGammaAmm,
+  isUniswapLikeAmm,
+} from '../src/features/data/entities/zap.ts';
+import type { ChainEntity } from '../src/features/data/entities/chain.ts';
+import type { TokenEntity } from '../src/features/data/entities/token.ts';
+
+const FIXTURES_PATH = './scripts/fixtures/amm';
+
+type RunArgs = {
+  help?: boolean;
+  update: boolean;
+  fixtures?: string[];
+};
+
+type UniswapLikePoolConstructor = new (
+  address: string,
+  amm: AmmEntityUniswapLike,
+  chain: ChainEntity
+) => IUniswapLikePool;
+
+type BalancerPool = IBalancerAllPool | IBalancerSinglePool;
+
+type AmmPool = IUniswapLikePool | IGammaPool | BalancerPool;
+
+/** amounts in wei */
+type UniswapLikeFixtureCase =
+  | { op: 'swap'; args: [amountIn: string, tokenIn: string] }
+  | { op: 'getOptimalSwapAmount'; args: [fullAmountIn: string, tokenIn: string] }
+  | { op: 'addLiquidity'; args: [amountA: string, tokenA: string, amountB: string] }
+  | { op: 'removeLiquidity'; args: [amount: string] }
+  | { op: 'getAddLiquidityRatio'; args: [amountIn: string] };
+
+/** token amounts in decimal units, in the order of the fixture tokens; shares in wei */
+type GammaFixtureCase =
+  | { op: 'getHypervisorData'; args: [] }
+  | { op: 'getAddLiquidityRatio'; args: [amount0: string, amount1: string] }
+  | { op: 'getOptimalAddLiquidity'; args: [amount0: string, amount1: string] }
+  | { op: 'quoteRemoveLiquidity'; args: [sharesWei: string, tokenHolder: string] };
+
+/** amounts in wei, in the order of the fixture tokens */
+type BalancerFixtureCase =
+  | { op: 'getSwapRatios'; args: [] }
+  | { op: 'quoteAddLiquidity'; args: string[] }
+  | { op: 'quoteRemoveLiquidity'; args: [liquidityIn: string] }
+  | { op: 'quoteAddLiquidityOneToken'; args: [amountIn: string, tokenIn: string] }
+  | { op: 'quoteRemoveLiquidityOneToken'; args: [liquidityIn: string, tokenOut: string] };
+
+type FixtureCase = UniswapLikeFixtureCase | GammaFixtureCase | BalancerFixtureCase;
+
+type FixtureCaseWithExpected = FixtureCase & {
+  expected?: unknown;
+};
+
+type AmmFixture = {
+  /** what this fixture covers */
+  description: string;
+  chainId: string;
+  ammId: string;
+  address: string;
+  /** uniswap-like pools: fields normally loaded by updateAllData(); integer strings are revived as BigNumber */
+  state?: Record<string, Record<string, unknown>>;
+  /** gamma and balancer pools: contract reads are answered from these instead */
+  rpc?: RpcCallStub[];
+  /** gamma and balancer pools: token addresses in pool order (excluding the BPT) */
+  tokens?: string[];
+  /** balancer pools: as in the vault zap config */
+  balancer?: {
+    poolId: string;
+    poolType: BalancerStrategyConfig['poolType'];
+    bptIndex?: number;
+  };
+  cases: FixtureCaseWithExpected[];
+};
+
+const runArgsConfig: ArgumentConfig<RunArgs> = {
+  help: {
+    type: Boolean,
+    alias: 'h',
+    description: 'Display this usage guide.',
+    optional: true,
+  },
+  update: {
+    type: Boolean,
+    alias: 'u',
+    description: 'Overwrite expected results with the current output',
+    defaultValue: false,
+  },
+  fixtures: {
+    type: String,
+    multiple: true,
+    alias: 'f',
+    description: `Fixture names to check (default: all in ${FIXTURES_PATH})`,
+    optional: true,
+  },
+};
+
+function getRunArgs() {
+  return parse<RunArgs>(runArgsConfig, {
+    helpArg: 'help',
+    headerContentSections: [
+      {
+        header: 'npm run checkAmmFixtures',
+        content: 'Check AMM pool math against golden fixtures, offline',
+      },
+    ],
+  });
+}
+
+function reviveState(value: unknown): unknown {
+  if (typeof value === 'string' && /^[0-9]+$/.test(value)) {
+    return new BigNumber(value);
+  }
+  if (isPlainObject(value)) {
+    return mapValues(value as Record<string, unknown>, reviveState);
+  }
+  return value;
+}
+
+function serializeResult(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString(10);
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeResult);
+  }
+  if (isPlainObject(value)) {
+    return mapValues(value as Record<string, unknown>, serializeResult);
+  }
+  return value;
+}
+
+async function getFixtureTokens(fixture: AmmFixture, chain: ChainEntity): Promise<TokenEntity[]> {
+  if (!fixture.tokens || !fixture.tokens.length) {
+    throw new Error(`Fixture for ${fixture.ammId} pool ${fixture.address} needs tokens`);
+  }
+  const addressBook = Object.values(await getChainAddressBook(chain));
+  return fixture.tokens.map(address => {
+    const token = addressBook.find(token => token.address.toLowerCase() === address.toLowerCase());
+    if (!token) {
+      throw new Error(`Token ${address} not found in the ${chain.id} address book`);
+    }
+    return token;
+  });
+}
+
+function createUniswapLikePool(
+  fixture: AmmFixture,
+  amm: AmmEntityUniswapLike,
+  chain: ChainEntity
+): IUniswapLikePool {
+  // the constructor returned always matches amm.type
+  const Constructor = getUniswapLikePoolConstructor(amm) as UniswapLikePoolConstructor;
+  const pool = new Constructor(fixture.address, amm, chain);
+  // inject the recorded on-chain state instead of calling updateAllData()
+  Object.assign(pool, reviveState(fixture.state || {}));
+  return pool;
+}
+
+async function createGammaPool(
+  fixture: AmmFixture,
+  amm: AmmEntityGamma,
+  chain: ChainEntity
+): Promise<IGammaPool> {
+  const pool = new GammaPool(fixture.address, amm, chain);
+  await pool.updateAllData();
+  return pool;
+}
+
+async function createBalancerPool(
+  fixture: AmmFixture,
+  amm: AmmEntityBalancer,
+  chain: ChainEntity
+): Promise<BalancerPool> {
+  if (!fixture.balancer) {
+    throw new Error(`Fixture for balancer pool ${fixture.address} needs balancer config`);
+  }
+
+  const vault: VaultConfig = {
+    vaultAddress: amm.vaultAddress,
+    queryAddress: amm.queryAddress,
+  };
+  const pool: PoolConfig = {
+    poolAddress: fixture.address,
+    poolId: fixture.balancer.poolId,
+    tokens: await getFixtureTokens(fixture, chain),
+  };
+
+  switch (fixture.balancer.poolType) {
+    case 'gyro':
+    case 'gyroe': {
+      return new GyroPool(chain, vault, pool);
+    }
+    case 'weighted': {
+      return new WeightedPool(chain, vault, pool);
+    }
+    case 'meta-stable': {
+      return new MetaStablePool(chain, vault, pool);
+    }
+    case 'composable-stable': {
+      return new ComposableStablePool(chain, vault, {
+        ...pool,
+        bptIndex: fixture.balancer.bptIndex,
+      });
+    }
+    default: {
+      throw new Error(`Unsupported balancer pool type ${fixture.balancer.poolType}`);
+    }
+  }
+}
+
+async function getAmm(fixture: AmmFixture): Promise<AmmEntity> {
+  const amm = (await getAmmsForChain(fixture.chainId)).find(amm => amm.id === fixture.ammId);
+  if (!amm) {
+    throw new Error(`AMM ${fixture.ammId} not found on ${fixture.chainId}`);
+  }
+  return amm;
+}
+
+function getChainEntity(fixture: AmmFixture): ChainEntity {
+  const chainConfig = getChain(fixture.chainId);
+  return {
+    ...chainConfig,
+    networkChainId: chainConfig.chainId,
+    explorerTokenUrlTemplate: `${chainConfig.explorerUrl}/token/{address}`,
+    explorerAddressUrlTemplate: `${chainConfig.explorerUrl}/address/{address}`,
+    explorerTxUrlTemplate: `${chainConfig.explorerUrl}/tx/{hash}`,
+  };
+}
+
+async function createPool(
+  fixture: AmmFixture,
+  amm: AmmEntity,
+  chain: ChainEntity
+): Promise<AmmPool> {
+  if (isUniswapLikeAmm(amm)) {
+    return createUniswapLikePool(fixture, amm, chain);
+  }
+  if (isGammaAmm(amm)) {
+    return createGammaPool(fixture, amm, chain);
+  }
+  if (isBalancerAmm(amm)) {
+    return createBalancerPool(fixture, amm, chain);
+  }
+  // @ts-expect-error - if all amm types are handled
+  throw new Error(`Unsupported AMM type ${amm.type}`);
+}
+
+function runUniswapLikeCase(pool: IUniswapLikePool, testCase: UniswapLikeFixtureCase): unknown {
+  switch (testCase.op) {
+    case 'swap':
+      return pool.swap(new BigNumber(testCase.args[0]), testCase.args[1]);
+    case 'getOptimalSwapAmount':
+      return pool.getOptimalSwapAmount(new BigNumber(testCase.args[0]), testCase.args[1]);
+    case 'addLiquidity':
+      return pool.addLiquidity(
+        new BigNumber(testCase.args[0]),
+        testCase.args[1],
+        new BigNumber(testCase.args[2])
+      );
+    case 'removeLiquidity':
+      return pool.removeLiquidity(new BigNumber(testCase.args[0]));
+    case 'getAddLiquidityRatio':
+      return pool.getAddLiquidityRatio(new BigNumber(testCase.args[0]));
+    default:
+      // @ts-expect-error - if all cases are handled
+      throw new Error(`Unknown op ${testCase.op}`);
+  }
+}
+
+async function runGammaCase(
+  pool: IGammaPool,
+  tokens: TokenEntity[],
+  testCase: GammaFixtureCase
+): Promise<unknown> {
+  const toTokenAmounts = (amounts: string[]) =>
+    tokens.map((token, i) => ({ token, amount: new BigNumber(amounts[i]) }));
+
+  switch (testCase.op) {
+    case 'getHypervisorData':
+      return pool.getHypervisorData();
+    case 'getAddLiquidityRatio':
+      return pool.getAddLiquidityRatio(toTokenAmounts(testCase.args));
+    case 'getOptimalAddLiquidity':
+      return (await pool.getOptimalAddLiquidity(toTokenAmounts(testCase.args))).map(
+        ({ token, amount }) => ({ token: token.address, amount })
+      );
+    case 'quoteRemoveLiquidity':
+      return pool.quoteRemoveLiquidity(new BigNumber(testCase.args[0]), [testCase.args[1]]);
+    default:
+      // @ts-expect-error - if all cases are handled
+      throw new Error(`Unknown op ${testCase.op}`);
+  }
+}
+
+async function runBalancerCase(
+  pool: BalancerPool,
+  testCase: BalancerFixtureCase
+): Promise<unknown> {
+  switch (testCase.op) {
+    case 'getSwapRatios':
+    case 'quoteAddLiquidity':
+    case 'quoteRemoveLiquidity': {
+      if (!isBalancerAllPool(pool)) {
+        throw new Error('Pool does not support adding/removing liquidity with all tokens');
+      }
+      if (testCase.op === 'getSwapRatios') {
+        return pool.getSwapRatios();
+      }
+      if (testCase.op === 'quoteAddLiquidity') {
+        return pool.quoteAddLiquidity(testCase.args.map(amount => new BigNumber(amount)));
+      }
+      return pool.quoteRemoveLiquidity(new BigNumber(testCase.args[0]));
+    }
+    case 'quoteAddLiquidityOneToken':
+    case 'quoteRemoveLiquidityOneToken': {
+      if (!isBalancerSinglePool(pool)) {
+        throw new Error('Pool does not support adding/removing liquidity with one token');
+      }
+      if (testCase.op === 'quoteAddLiquidityOneToken') {
+        return pool.quoteAddLiquidityOneToken(new BigNumber(testCase.args[0]), testCase.args[1]);
+      }
+      return pool.quoteRemoveLiquidityOneToken(new BigNumber(testCase.args[0]), testCase.args[1]);
+    }
+    default:
+      // @ts-expect-error - if all cases are handled
+      throw new Error(`Unknown op ${testCase.op}`);
+  }
+}
+
+async function runCase(
+  fixture: AmmFixture,
+  amm: AmmEntity,
+  testCase: FixtureCase
+): Promise<unknown> {
+  // fresh pool per case as some ops mutate reserves
+  const chain = getChainEntity(fixture);
+  const pool = await createPool(fixture, amm, chain);
+  // the fixture cases are written for the pool type of the fixture amm
+  switch (pool.type) {
+    case 'gamma':
+      return runGammaCase(
+        pool as IGammaPool,
+        await getFixtureTokens(fixture, chain),
+        testCase as GammaFixtureCase
+      );
+    case 'balancer':
+      return runBalancerCase(pool as BalancerPool, testCase as BalancerFixtureCase);
+    default:
+      return runUniswapLikeCase(pool as IUniswapLikePool, testCase as UniswapLikeFixtureCase);
+  }
+}
+
+async function runCaseSafe(
+  fixture: AmmFixture,
+  amm: AmmEntity,
+  testCase: FixtureCase
+): Promise<unknown> {
+  try {
+    return serializeResult(await runCase(fixture, amm, testCase));
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function checkFixture(name: string, update: boolean): Promise<number> {
+  const path = join(FIXTURES_PATH, `${name}.json`);
+  const fixture = await loadJson<AmmFixture>(path);
+  const amm = await getAmm(fixture);
+  let failures = 0;
+
+  const chainConfig = getChain(fixture.chainId);
+  rpcClientManager.setFixtures({
+    mode: 'replay',
+    store: new RpcStubStore(chainConfig.chainId, fixture.rpc || []),
+  });
+  rpcClientManager.setClients(chainConfig, chainConfig.rpc);
+
+  for (const [i, testCase] of fixture.cases.entries()) {
+    const actual = await runCaseSafe(fixture, amm, testCase);
+    const label = `${name}#${i} ${testCase.op}(${testCase.args.join(', ')})`;
+
+    if (update) {
+      testCase.expected = actual;
+    } else if (testCase.expected === undefined) {
+      console.error(`✖ ${label}: no expected result, run with --update`);
+      ++failures;
+    } else if (!isEqual(actual, testCase.expected)) {
+      console.error(`✖ ${label}`);
+      console.error('  expected:', JSON.stringify(testCase.expected));
+      console.error('  actual:  ', JSON.stringify(actual));
+      ++failures;
+    } else {
+      console.log(`✔ ${label}`);
+    }
+  }
+
+  if (update) {
+    await saveJson(path, fixture, 'prettier');
+    console.log(`Updated ${fixture.cases.length} expected results in ${path}`);
+  }
+
+  return failures;
+}
+
+async function start() {
+  const args = getRunArgs();
+  const names =
+    args.fixtures && args.fixtures.length ?
+      args.fixtures
+    : (await readdir(FIXTURES_PATH))
+        .filter(file => file.endsWith('.json'))
+        .map(file => basename(file, '.json'));
+
+  let failures = 0;
+  for (const name of names) {
+    failures += await checkFixture(name, args.update);
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} case(s) failed`);
+    process.exit(1);
+  }
+}
+
+start().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
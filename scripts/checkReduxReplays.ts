@@ -0,0 +1,188 @@
+import { type ArgumentConfig, parse } from 'ts-command-line-args';
+import BigNumber from 'bignumber.js';
+import { isEqual, isPlainObject, mapValues } from 'lodash-es';
+import { readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { configureStore } from '@reduxjs/toolkit';
+import { fileExists, loadJson, saveJson } from './common/files.ts';
+import { rootReducer } from '../src/features/data/reducers/reducers.ts';
+import { replayDebugActions } from '../src/features/data/middlewares/debug/debug-actions.ts';
+import type { BeefyState } from '../src/redux-types.ts';
+import { selectFilteredVaults } from '../src/features/data/selectors/filtered-vaults.ts';
+import { selectUserDepositedVaultIds } from '../src/features/data/selectors/balance.ts';
+import { selectUserGlobalStats } from '../src/features/data/selectors/apy.ts';
+import { selectDashboardUserExposureByChain } from '../src/features/data/selectors/dashboard.ts';
+import { selectWalletAddress } from '../src/features/data/selectors/wallet.ts';
+
+const FIXTURES_PATH = './scripts/fixtures/redux';
+const SNAPSHOT_SUFFIX = '.snapshot.json';
+
+type RunArgs = {
+  help?: boolean;
+  update: boolean;
+  fixtures?: string[];
+  address?: string;
+};
+
+type ReplaySnapshot = {
+  /** Date.now() is frozen to this during replay, so time based selectors are stable */
+  now: number;
+  walletAddress: string | null;
+  selectors: Record<string, unknown>;
+};
+
+const runArgsConfig: ArgumentConfig<RunArgs> = {
+  help: {
+    type: Boolean,
+    alias: 'h',
+    description: 'Display this usage guide.',
+    optional: true,
+  },
+  update: {
+    type: Boolean,
+    alias: 'u',
+    description: 'Overwrite snapshots with the current output',
+    defaultValue: false,
+  },
+  fixtures: {
+    type: String,
+    multiple: true,
+    alias: 'f',
+    description: `Action log names to replay (default: all in ${FIXTURES_PATH})`,
+    optional: true,
+  },
+  address: {
+    type: String,
+    alias: 'a',
+    description: 'Wallet address for user selectors (default: connected address in the log)',
+    optional: true,
+  },
+};
+
+function getRunArgs() {
+  return parse<RunArgs>(runArgsConfig, {
+    helpArg: 'help',
+    headerContentSections: [
+      {
+        header: 'npm run checkReduxReplays',
+        content: `Replay exported redux_debug-*.json action logs from ${FIXTURES_PATH} through the root reducer and compare selector outputs against snapshots`,
+      },
+    ],
+  });
+}
+
+function serializeResult(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString(10);
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeResult);
+  }
+  if (isPlainObject(value)) {
+    return mapValues(value as Record<string, unknown>, serializeResult);
+  }
+  return value;
+}
+
+function snapshotSelectors(state: BeefyState, walletAddress: string | undefined) {
+  return serializeResult({
+    selectFilteredVaults: selectFilteredVaults(state),
+    selectUserDepositedVaultIds:
+      walletAddress ? selectUserDepositedVaultIds(state, walletAddress) : [],
+    selectUserGlobalStats: selectUserGlobalStats(state, walletAddress),
+    selectDashboardUserExposureByChain:
+      walletAddress ? selectDashboardUserExposureByChain(state, walletAddress) : [],
+  }) as Record<string, unknown>;
+}
+
+async function replay(
+  actions: unknown[],
+  now: number,
+  address: string | undefined
+): Promise<ReplaySnapshot> {
+  // middlewares are not added, same as replaying in the browser, so the log is the only source of actions
+  const store = configureStore({
+    reducer: rootReducer,
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware({ serializableCheck: false, immutableCheck: false }),
+  });
+
+  const realNow = Date.now;
+  Date.now = () => now;
+  try {
+    await replayDebugActions(store, actions, 0);
+    const state = store.getState();
+    const walletAddress = address || selectWalletAddress(state);
+    return {
+      now,
+      walletAddress: walletAddress || null,
+      selectors: snapshotSelectors(state, walletAddress),
+    };
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+async function checkFixture(name: string, update: boolean, address: string | undefined) {
+  const logPath = join(FIXTURES_PATH, `${name}.json`);
+  const snapshotPath = join(FIXTURES_PATH, `${name}${SNAPSHOT_SUFFIX}`);
+  const actions = await loadJson<unknown[]>(logPath);
+  const expected =
+    (await fileExists(snapshotPath)) ? await loadJson<ReplaySnapshot>(snapshotPath) : undefined;
+
+  if (update) {
+    const actual = await replay(actions, expected?.now ?? Date.now(), address);
+    await saveJson(snapshotPath, actual, 'prettier');
+    console.log(`Updated ${snapshotPath}`);
+    return 0;
+  }
+
+  if (!expected) {
+    console.error(`✖ ${name}: no snapshot, run with --update`);
+    return 1;
+  }
+
+  const actual = await replay(
+    actions,
+    expected.now,
+    address || expected.walletAddress || undefined
+  );
+  let failures = 0;
+  for (const [selector, expectedValue] of Object.entries(expected.selectors)) {
+    const actualValue = actual.selectors[selector];
+    if (isEqual(actualValue, expectedValue)) {
+      console.log(`✔ ${name} ${selector}`);
+    } else {
+      console.error(`✖ ${name} ${selector}`);
+      console.error('  expected:', JSON.stringify(expectedValue));
+      console.error('  actual:  ', JSON.stringify(actualValue));
+      ++failures;
+    }
+  }
+  return failures;
+}
+
+async function start() {
+  const args = getRunArgs();
+  const names =
+    args.fixtures && args.fixtures.length ?
+      args.fixtures
+    : (await readdir(FIXTURES_PATH))
+        .filter(file => file.endsWith('.json') && !file.endsWith(SNAPSHOT_SUFFIX))
+        .map(file => basename(file, '.json'));
+
+  let failures = 0;
+  for (const name of names) {
+    failures += await checkFixture(name, args.update, args.address);
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} selector(s) differ`);
+    process.exit(1);
+  }
+}
+
+start().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
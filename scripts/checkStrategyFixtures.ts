@@ -0,0 +1,548 @@
+import { type ArgumentConfig, parse } from 'ts-command-line-args';
+import BigNumber from 'bignumber.js';
+import { isEqual, isPlainObject, mapValues, omit } from 'lodash-es';
+import { readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { configureStore } from '@reduxjs/toolkit';
+import { BaseError, zeroAddress } from 'viem';
+import { loadJson, saveJson } from './common/files.ts';
+import { type RpcCallStub, RpcStubStore } from './common/rpc-stubs.ts';
+import { rootReducer } from '../src/features/data/reducers/reducers.ts';
+import type { BeefyState } from '../src/redux-types.ts';
+import { getConfigApi } from '../src/features/data/apis/instances.ts';
+import { rpcClientManager } from '../src/features/data/apis/rpc-contract/rpc-manager.ts';
+import { RpcFixtureMissingError } from '../src/features/data/apis/viem/transports/fixtureTransport.ts';
+import { fetchChainConfigs } from '../src/features/data/actions/chains.ts';
+import { fetchAllVaults } from '../src/features/data/actions/vaults.ts';
+import {
+  fetchZapAmmsAction,
+  fetchZapConfigsAction,
+  fetchZapSwapAggregatorsAction,
+} from '../src/features/data/actions/zap.ts';
+import { fetchAddressBookAction } from '../src/features/data/actions/tokens.ts';
+import { fetchAllPricesAction } from '../src/features/data/actions/prices.ts';
+import { fetchAllContractDataByChainAction } from '../src/features/data/actions/contract-data.ts';
+import { fetchAllBalanceAction } from '../src/features/data/actions/balance.ts';
+import { userDidConnect } from '../src/features/data/reducers/wallet/wallet.ts';
+import { selectVaultById } from '../src/features/data/selectors/vaults.ts';
+import { selectTokenByAddress } from '../src/features/data/selectors/tokens.ts';
+import { selectZapByChainId } from '../src/features/data/selectors/zap.ts';
+import {
+  isCowcentratedVault,
+  isStandardVault,
+  type VaultEntity,
+} from '../src/features/data/entities/vault.ts';
+import type { TokenEntity } from '../src/features/data/entities/token.ts';
+import type { ChainEntity } from '../src/features/data/entities/chain.ts';
+import { getVaultTypeBuilder } from '../src/features/data/apis/transact/vaults/vaults.ts';
+import { strategyLoadersById } from '../src/features/data/apis/transact/strategies/strategies.ts';
+import {
+  isComposableStrategy,
+  type IStrategy,
+  type IZapStrategyStatic,
+  type UserlessZapDepositBreakdown,
+  type UserlessZapWithdrawBreakdown,
+  type ZapTransactHelpers,
+} from '../src/features/data/apis/transact/strategies/IStrategy.ts';
+import type { ZapStrategyConfig } from '../src/features/data/apis/transact/strategies/strategy-configs.ts';
+import type {
+  DepositOption,
+  InputTokenAmount,
+  TransactQuote,
+  WithdrawOption,
+} from '../src/features/data/apis/transact/transact-types.ts';
+import type {
+  AggregatorSwapResponse,
+  ISwapAggregator,
+  TokenSupport,
+} from '../src/features/data/apis/transact/swap/ISwapAggregator.ts';
+import type {
+  QuoteRequest,
+  QuoteResponse,
+  SwapRequest,
+} from '../src/features/data/apis/transact/swap/ISwapProvider.ts';
+import { slipBy } from '../src/features/data/apis/transact/helpers/amounts.ts';
+import { BIG_ZERO } from '../src/helpers/big-number.ts';
+
+const FIXTURES_PATH = './scripts/fixtures/strategies';
+const STUB_SWAP_PROVIDER_ID = 'stub';
+const STUB_SWAP_FEE = 0.0005;
+
+/** Composable strategy of any id; each strategy checks the quote it is given matches */
+type GenericComposableStrategy = IStrategy & {
+  fetchDepositUserlessZapBreakdown(quote: TransactQuote): Promise<UserlessZapDepositBreakdown>;
+  fetchWithdrawUserlessZapBreakdown(quote: TransactQuote): Promise<UserlessZapWithdrawBreakdown>;
+};
+
+type RunArgs = {
+  help?: boolean;
+  update: boolean;
+  fixtures?: string[];
+};
+
+type FixtureCase = {
+  mode: 'deposit' | 'withdraw';
+  /** deposit: tokens sent; withdraw: amount of the vault deposit token */
+  inputs: { token: string; amount: string; max?: boolean }[];
+  /** withdraw only: tokens wanted out */
+  outputs?: string[];
+  expected?: unknown;
+};
+
+type StrategyFixture = {
+  /** what this fixture covers */
+  description: string;
+  chainId: ChainEntity['id'];
+  vaultId: string;
+  strategyId: ZapStrategyConfig['strategyId'];
+  walletAddress: string;
+  /** Date.now() is frozen to this, so swap and zap deadlines are stable */
+  now: number;
+  /** usd price by oracle id */
+  prices: Record<string, number>;
+  /** standard vault ppfs in units (1 = 1e18 on chain), default 1 */
+  pricePerFullShare?: string;
+  /** vault strategy contract, some strategies read it or simulate calls from it */
+  strategyAddress?: string;
+  /** wallet balance by token address, in token units */
+  balances: Record<string, string>;
+  /** token addresses the stub swap aggregator can swap between */
+  swapTokens: string[];
+  /** contract reads made while quoting or building the zap */
+  rpc: RpcCallStub[];
+  cases: FixtureCase[];
+};
+
+const runArgsConfig: ArgumentConfig<RunArgs> = {
+  help: {
+    type: Boolean,
+    alias: 'h',
+    description: 'Display this usage guide.',
+    optional: true,
+  },
+  update: {
+    type: Boolean,
+    alias: 'u',
+    description: 'Overwrite expected results with the current output',
+    defaultValue: false,
+  },
+  fixtures: {
+    type: String,
+    multiple: true,
+    alias: 'f',
+    description: `Fixture names to check (default: all in ${FIXTURES_PATH})`,
+    optional: true,
+  },
+};
+
+function getRunArgs() {
+  return parse<RunArgs>(runArgsConfig, {
+    helpArg: 'help',
+    headerContentSections: [
+      {
+        header: 'npm run checkStrategyFixtures',
+        content:
+          'Check zap strategy quotes and zap orders against golden fixtures, offline, using stubbed contract reads and swap aggregator',
+      },
+    ],
+  });
+}
+
+/**
+ * Quotes at the fixture prices minus a flat fee, so results only change when strategy code does
+ */
+class StubSwapAggregator implements ISwapAggregator {
+  constructor(protected readonly swapTokens: string[]) {}
+
+  protected supports(token: TokenEntity) {
+    return this.swapTokens.some(address => address.toLowerCase() === token.address.toLowerCase());
+  }
+
+  async fetchQuotes(request: QuoteRequest, state: BeefyState): Promise<QuoteResponse[]> {
+    const { fromToken, fromAmount, toToken } = request;
+    if (!this.supports(fromToken) || !this.supports(toToken)) {
+      return [];
+    }
+
+    const prices = state.entities.tokens.prices.byOracleId;
+    const fromPrice = prices[fromToken.oracleId];
+    const toPrice = prices[toToken.oracleId];
+    if (!fromPrice || !toPrice) {
+      throw new Error(`No fixture price for ${fromToken.oracleId} or ${toToken.oracleId}`);
+    }
+
+    const toAmount = fromAmount
+      .multipliedBy(fromPrice)
+      .dividedBy(toPrice)
+      .multipliedBy(1 - STUB_SWAP_FEE)
+      .decimalPlaces(toToken.decimals, BigNumber.ROUND_FLOOR);
+
+    return [
+      {
+        providerId: STUB_SWAP_PROVIDER_ID,
+        fromToken,
+        fromAmount,
+        toToken,
+        toAmount,
+        fee: { value: STUB_SWAP_FEE },
+      },
+    ];
+  }
+
+  async fetchSwap(
+    providerId: string,
+    { quote, fromAddress, slippage }: SwapRequest
+  ): Promise<AggregatorSwapResponse> {
+    return {
+      providerId,
+      fromToken: quote.fromToken,
+      fromAmount: quote.fromAmount,
+      toToken: quote.toToken,
+      toAmount: quote.toAmount,
+      toAmountMin: slipBy(quote.toAmount, slippage, quote.toToken.decimals),
+      fee: quote.fee,
+      tx: {
+        fromAddress,
+        toAddress: '0x000000000000000000000000000000000000dEaD',
+        data: `0x${quote.fromToken.address.slice(2)}${quote.toToken.address.slice(2)}`,
+        value: '0',
+        inputPosition: -1,
+      },
+    };
+  }
+
+  async fetchTokenSupport(
+    tokens: TokenEntity[],
+    _vaultId: VaultEntity['id'],
+    chainId: ChainEntity['id'],
+    state: BeefyState
+  ): Promise<TokenSupport> {
+    const chainTokens = this.swapTokens.map(address =>
+      selectTokenByAddress(state, chainId, address)
+    );
+    // like the real aggregator, a supported token lists every token it can be swapped with, itself included
+    return {
+      tokens: tokens.map(token => (this.supports(token) ? chainTokens : [])),
+      any: tokens.some(token => this.supports(token)) ? chainTokens : [],
+    };
+  }
+
+  getQuoteCacheStats() {
+    return {};
+  }
+}
+
+async function createStore(fixture: StrategyFixture) {
+  // middlewares are not added, the fixture is the only source of actions
+  const store = configureStore({
+    reducer: rootReducer,
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware({ serializableCheck: false, immutableCheck: false }),
+  });
+  const api = await getConfigApi();
+
+  const chainConfigs = await api.fetchChainConfigs();
+  const chainConfig = chainConfigs.find(chain => chain.id === fixture.chainId);
+  if (!chainConfig) {
+    throw new Error(`Chain ${fixture.chainId} not found`);
+  }
+  rpcClientManager.setFixtures({
+    mode: 'replay',
+    store: new RpcStubStore(chainConfig.chainId, fixture.rpc),
+  });
+  rpcClientManager.setClients(chainConfig, chainConfig.rpc);
+  store.dispatch(fetchChainConfigs.fulfilled({ chainConfigs, localRpcs: {} }, ''));
+
+  await store.dispatch(fetchAddressBookAction({ chainId: fixture.chainId }));
+  await store.dispatch(fetchAllVaults());
+  await store.dispatch(fetchZapConfigsAction());
+  await store.dispatch(fetchZapSwapAggregatorsAction());
+  await store.dispatch(fetchZapAmmsAction());
+  store.dispatch(fetchAllPricesAction.fulfilled({ prices: fixture.prices, breakdowns: {} }, ''));
+  store.dispatch(userDidConnect({ chainId: fixture.chainId, address: fixture.walletAddress }));
+
+  const vault = selectVaultById(store.getState(), fixture.vaultId);
+  const strategyAddress = fixture.strategyAddress || zeroAddress;
+  store.dispatch(
+    fetchAllContractDataByChainAction.fulfilled(
+      {
+        chainId: fixture.chainId,
+        data: {
+          boosts: [],
+          standardVaults:
+            isStandardVault(vault) ?
+              [
+                {
+                  id: vault.id,
+                  balance: BIG_ZERO,
+                  pricePerFullShare: new BigNumber(fixture.pricePerFullShare || '1'),
+                  strategy: strategyAddress,
+                  paused: false,
+                },
+              ]
+            : [],
+          govVaults: [],
+          govVaultsMulti: [],
+          cowVaults:
+            isCowcentratedVault(vault) ?
+              [
+                {
+                  id: vault.id,
+                  balances: [BIG_ZERO, BIG_ZERO],
+                  strategy: strategyAddress,
+                  paused: false,
+                },
+              ]
+            : [],
+          erc4626Vaults: [],
+        },
+        state: store.getState(),
+      },
+      '',
+      { chainId: fixture.chainId }
+    )
+  );
+
+  store.dispatch(
+    fetchAllBalanceAction.fulfilled(
+      {
+        chainId: fixture.chainId,
+        walletAddress: fixture.walletAddress,
+        data: {
+          tokens: Object.entries(fixture.balances).map(([tokenAddress, amount]) => ({
+            tokenAddress,
+            amount: new BigNumber(amount),
+          })),
+          govVaults: [],
+          boosts: [],
+          erc4626Pending: [],
+        },
+        state: store.getState(),
+      },
+      '',
+      { chainId: fixture.chainId, walletAddress: fixture.walletAddress }
+    )
+  );
+
+  return store;
+}
+
+async function createStrategy(fixture: StrategyFixture, getState: () => BeefyState) {
+  const state = getState();
+  const vault = selectVaultById(state, fixture.vaultId);
+  const zap = selectZapByChainId(state, vault.chainId);
+  if (!zap) {
+    throw new Error(`No zap config for ${vault.chainId}`);
+  }
+  const options = vault.zaps.find(zap => zap.strategyId === fixture.strategyId);
+  if (!options) {
+    throw new Error(`Vault ${vault.id} has no ${fixture.strategyId} zap`);
+  }
+
+  const helpers: ZapTransactHelpers = {
+    vault,
+    vaultType: await getVaultTypeBuilder(vault)(vault, getState),
+    zap,
+    swapAggregator: new StubSwapAggregator(fixture.swapTokens),
+    getState,
+  };
+  // composer strategies need an underlying strategy, which fixtures do not cover
+  const ctor = (await strategyLoadersById[fixture.strategyId]()) as IZapStrategyStatic;
+  return new ctor(options, helpers);
+}
+
+function isTokenEntity(value: unknown): value is TokenEntity {
+  return isPlainObject(value) && 'oracleId' in (value as object) && 'decimals' in (value as object);
+}
+
+/** tokens as symbols, numbers as strings, ids (which include random parts) and options dropped */
+function serializeResult(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString(10);
+  }
+  if (isTokenEntity(value)) {
+    return value.symbol;
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeResult);
+  }
+  if (isPlainObject(value)) {
+    return mapValues(omit(value as Record<string, unknown>, ['id', 'option']), serializeResult);
+  }
+  return value;
+}
+
+function serializeQuote(quote: TransactQuote) {
+  return serializeResult({
+    inputs: quote.inputs,
+    outputs: quote.outputs,
+    returned: quote.returned,
+    priceImpact: quote.priceImpact,
+    steps: 'steps' in quote ? quote.steps : [],
+  });
+}
+
+function sameAddresses(tokens: TokenEntity[], addresses: string[]) {
+  return isEqual(
+    tokens.map(token => token.address.toLowerCase()).sort(),
+    addresses.map(address => address.toLowerCase()).sort()
+  );
+}
+
+/** Zap order the strategy would send, for strategies that can build one without a wallet */
+async function fetchZap(strategy: IStrategy, mode: FixtureCase['mode'], quote: TransactQuote) {
+  if (!isComposableStrategy(strategy)) {
+    return undefined;
+  }
+  if (strategy.beforeStep) {
+    await strategy.beforeStep();
+  }
+
+  const composable = strategy as GenericComposableStrategy;
+  if (mode === 'withdraw') {
+    const { zapRequest, expectedTokens } =
+      await composable.fetchWithdrawUserlessZapBreakdown(quote);
+    return { ...zapRequest, expectedTokens };
+  }
+
+  const { zapRequest, expectedTokens, minBalances } =
+    await composable.fetchDepositUserlessZapBreakdown(quote);
+  return {
+    ...zapRequest,
+    expectedTokens,
+    // what a composer can rely on receiving from this zap
+    minBalances: expectedTokens.map(token => ({ token, amount: minBalances.get(token) })),
+  };
+}
+
+async function runCase(
+  fixture: StrategyFixture,
+  strategy: IStrategy,
+  testCase: FixtureCase,
+  state: BeefyState
+) {
+  const inputs: InputTokenAmount[] = testCase.inputs.map(input => ({
+    token: selectTokenByAddress(state, fixture.chainId, input.token),
+    amount: new BigNumber(input.amount),
+    max: input.max || false,
+  }));
+  if (strategy.beforeQuote) {
+    await strategy.beforeQuote();
+  }
+
+  let quote: TransactQuote;
+  if (testCase.mode === 'deposit') {
+    const options = await strategy.fetchDepositOptions();
+    const option = options.find(
+      (option: DepositOption) =>
+        option.strategyId === fixture.strategyId &&
+        sameAddresses(
+          option.inputs,
+          testCase.inputs.map(input => input.token)
+        )
+    );
+    if (!option) {
+      throw new Error(`No ${fixture.strategyId} deposit option for the inputs`);
+    }
+    quote = await strategy.fetchDepositQuote(inputs, option);
+  } else {
+    const options = await strategy.fetchWithdrawOptions();
+    const option = options.find(
+      (option: WithdrawOption) =>
+        option.strategyId === fixture.strategyId &&
+        sameAddresses(option.wantedOutputs, testCase.outputs || [])
+    );
+    if (!option) {
+      throw new Error(`No ${fixture.strategyId} withdraw option for the outputs`);
+    }
+    quote = await strategy.fetchWithdrawQuote(inputs, option);
+  }
+
+  return {
+    quote: serializeQuote(quote),
+    zap: serializeResult(await fetchZap(strategy, testCase.mode, quote)),
+  };
+}
+
+async function runCaseSafe(fixture: StrategyFixture, testCase: FixtureCase): Promise<unknown> {
+  const realNow = Date.now;
+  Date.now = () => fixture.now;
+  try {
+    // fresh store and strategy per case, as strategies cache pool state
+    const store = await createStore(fixture);
+    const strategy = await createStrategy(fixture, store.getState);
+    return await runCase(fixture, strategy, testCase, store.getState());
+  } catch (err) {
+    // a missing stub is a broken fixture, not an expected error
+    if (err instanceof BaseError && err.walk(e => e instanceof RpcFixtureMissingError)) {
+      throw err;
+    }
+    return {
+      error:
+        err instanceof BaseError ? err.shortMessage
+        : err instanceof Error ? err.message
+        : String(err),
+    };
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+async function checkFixture(name: string, update: boolean): Promise<number> {
+  const path = join(FIXTURES_PATH, `${name}.json`);
+  const fixture = await loadJson<StrategyFixture>(path);
+  let failures = 0;
+
+  for (const [i, testCase] of fixture.cases.entries()) {
+    const actual = await runCaseSafe(fixture, testCase);
+    const label = `${name}#${i} ${testCase.mode} ${testCase.inputs
+      .map(input => `${input.amount} ${input.token}`)
+      .join(' + ')}`;
+
+    if (update) {
+      testCase.expected = actual;
+    } else if (testCase.expected === undefined) {
+      console.error(`✖ ${label}: no expected result, run with --update`);
+      ++failures;
+    } else if (!isEqual(actual, testCase.expected)) {
+      console.error(`✖ ${label}`);
+      console.error('  expected:', JSON.stringify(testCase.expected));
+      console.error('  actual:  ', JSON.stringify(actual));
+      ++failures;
+    } else {
+      console.log(`✔ ${label}`);
+    }
+  }
+
+  if (update) {
+    await saveJson(path, fixture, 'prettier');
+    console.log(`Updated ${fixture.cases.length} expected results in ${path}`);
+  }
+
+  return failures;
+}
+
+async function start() {
+  const args = getRunArgs();
+  const names =
+    args.fixtures && args.fixtures.length ?
+      args.fixtures
+    : (await readdir(FIXTURES_PATH))
+        .filter(file => file.endsWith('.json'))
+        .map(file => basename(file, '.json'));
+
+  let failures = 0;
+  for (const name of names) {
+    failures += await checkFixture(name, args.update);
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} case(s) failed`);
+    process.exit(1);
+  }
+}
+
+start().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
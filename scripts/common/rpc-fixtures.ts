@@ -0,0 +1,44 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { createFactory } from '../../src/features/data/utils/factory-utils.ts';
+import {
+  RpcFixtureStore,
+  type RpcFixtureFile,
+} from '../../src/features/data/apis/viem/transports/fixtureTransport.ts';
+import type { RpcFixtures } from '../../src/features/data/apis/rpc-contract/rpc-manager.ts';
+
+const DEFAULT_FIXTURES_PATH = './.cache/rpc-fixtures.json';
+
+/**
+ * RPC_FIXTURES=record|replay [RPC_FIXTURES_PATH=./.cache/rpc-fixtures.json]
+ * Recorded fixtures are written (merged with any existing file) when the process exits.
+ */
+export const getRpcFixtures = createFactory((): RpcFixtures | false => {
+  const mode = process.env.RPC_FIXTURES;
+  if (!mode) {
+    return false;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`RPC_FIXTURES must be "record" or "replay", got "${mode}"`);
+  }
+
+  const path = process.env.RPC_FIXTURES_PATH || DEFAULT_FIXTURES_PATH;
+  const exists = existsSync(path);
+  if (mode === 'replay' && !exists) {
+    throw new Error(`RPC fixture file ${path} does not exist, record it first`);
+  }
+
+  const store = new RpcFixtureStore(
+    exists ? (JSON.parse(readFileSync(path, 'utf-8')) as RpcFixtureFile) : undefined
+  );
+
+  if (mode === 'record') {
+    process.on('exit', () => {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(store, null, 2), 'utf-8');
+      console.log(`Saved ${store.size} RPC fixtures to ${path}`);
+    });
+  }
+
+  return { mode, store };
+});
@@ -0,0 +1,157 @@
+import { isEqual, isPlainObject, mapValues } from 'lodash-es';
+import {
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+  decodeFunctionData,
+  encodeAbiParameters,
+  numberToHex,
+  parseAbiItem,
+  toFunctionSelector,
+} from 'viem';
+import {
+  RpcFixtureStore,
+  type RpcFixtureEntry,
+} from '../../src/features/data/apis/viem/transports/fixtureTransport.ts';
+
+/**
+ * A contract read answered without a recording, e.g.
+ * `{ "address": "0x..", "function": "function balanceOf(address) view returns (uint256)", "args": ["0x.."], "result": "1000" }`
+ * Integers are written as strings; `args` omitted matches any arguments.
+ */
+export type RpcCallStub = {
+  address: string;
+  function: string;
+  args?: unknown[];
+  result?: unknown;
+  /** revert reason instead of a result */
+  revert?: string;
+};
+
+type ParsedStub = RpcCallStub & {
+  abiItem: AbiFunction;
+  selector: Hex;
+};
+
+type CallParams = {
+  to?: string;
+  data?: Hex;
+  input?: Hex;
+};
+
+function toAbiValue(param: AbiParameter, value: unknown): unknown {
+  const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+  if (arrayMatch && Array.isArray(value)) {
+    const itemParam = { ...param, type: arrayMatch[1] };
+    return value.map(item => toAbiValue(itemParam, item));
+  }
+  if (param.type === 'tuple' && 'components' in param && value && typeof value === 'object') {
+    return param.components.map((component, i) =>
+      toAbiValue(
+        component,
+        Array.isArray(value) ? value[i] : (value as Record<string, unknown>)[component.name!]
+      )
+    );
+  }
+  if (/^u?int\d*$/.test(param.type) && (typeof value === 'string' || typeof value === 'number')) {
+    return BigInt(value);
+  }
+  return value;
+}
+
+function fromAbiValue(value: unknown): unknown {
+  if (typeof value === 'bigint' || typeof value === 'number') {
+    return value.toString(10);
+  }
+  if (typeof value === 'string') {
+    return value.toLowerCase();
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromAbiValue);
+  }
+  if (isPlainObject(value)) {
+    return mapValues(value as Record<string, unknown>, fromAbiValue);
+  }
+  return value;
+}
+
+function parseStub(stub: RpcCallStub): ParsedStub {
+  const abiItem = parseAbiItem(stub.function);
+  if (abiItem.type !== 'function') {
+    throw new Error(`RPC stub "${stub.function}" is not a function`);
+  }
+  return { ...stub, abiItem, selector: toFunctionSelector(abiItem) };
+}
+
+/**
+ * Replays recorded fixtures like {@link RpcFixtureStore}, but answers eth_call from
+ * hand-written {@link RpcCallStub}s when there is no recording, so fixtures stay readable.
+ */
+export class RpcStubStore extends RpcFixtureStore {
+  protected stubs: ParsedStub[];
+
+  constructor(
+    protected chainId: number,
+    stubs: RpcCallStub[]
+  ) {
+    super();
+    this.stubs = stubs.map(parseStub);
+  }
+
+  lookup(
+    chainId: number | undefined,
+    method: string,
+    params: unknown
+  ): RpcFixtureEntry | undefined {
+    const recorded = super.lookup(chainId, method, params);
+    if (recorded || chainId !== this.chainId) {
+      return recorded;
+    }
+
+    if (method === 'eth_chainId') {
+      return { result: numberToHex(this.chainId) };
+    }
+
+    if (method === 'eth_call' && Array.isArray(params) && params.length > 0) {
+      return this.call(params[0] as CallParams);
+    }
+
+    return undefined;
+  }
+
+  protected call({ to, data, input }: CallParams): RpcFixtureEntry | undefined {
+    const calldata = data || input;
+    if (!to || !calldata) {
+      return undefined;
+    }
+
+    const selector = calldata.slice(0, 10).toLowerCase();
+    const candidates = this.stubs.filter(
+      stub => stub.address.toLowerCase() === to.toLowerCase() && stub.selector === selector
+    );
+    if (!candidates.length) {
+      return undefined;
+    }
+
+    const { args = [] } = decodeFunctionData({ abi: [candidates[0].abiItem], data: calldata });
+    const decodedArgs = fromAbiValue(args);
+    const stub = candidates.find(
+      stub => stub.args === undefined || isEqual(fromAbiValue(stub.args), decodedArgs)
+    );
+    if (!stub) {
+      return undefined;
+    }
+
+    if (stub.revert !== undefined) {
+      return { error: { code: 3, message: `execution reverted: ${stub.revert}` } };
+    }
+
+    const outputs = stub.abiItem.outputs;
+    const values =
+      outputs.length === 1 ?
+        [toAbiValue(outputs[0], stub.result)]
+      : outputs.map((output, i) => toAbiValue(output, (stub.result as unknown[])[i]));
+
+    return { result: encodeAbiParameters(outputs, values) };
+  }
+}
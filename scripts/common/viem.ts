@@ -3,19 +3,28 @@ import { createCachedFactory } from '../../src/features/data/utils/factory-utils
 import { type AppChainId, getChain, getChainRpc } from './config.ts';
 import type { ChainConfig } from '../../src/features/data/apis/config-types.ts';
 import { uniq } from 'lodash-es';
-import { makeCustomFallbackTransport } from '../../src/features/data/apis/viem/transports/transports.ts';
+import {
+  makeCustomFallbackTransport,
+  makeFixtureTransport,
+} from '../../src/features/data/apis/viem/transports/transports.ts';
+import { getRpcFixtures } from './rpc-fixtures.ts';
 
 function createViemClient(chainId: AppChainId, chain: ChainConfig) {
   const primaryRpcUrl = getChainRpc(chainId);
   const rpcUrls = uniq([primaryRpcUrl, ...chain.rpc]);
+  const fixtures = getRpcFixtures();
 
   return createPublicClient({
-    batch: {
-      multicall: {
-        batchSize: 1028,
-        wait: 100,
-      },
-    },
+    // which calls get batched together depends on timing, so fixtures record each call on its own
+    batch:
+      fixtures ? undefined : (
+        {
+          multicall: {
+            batchSize: 1028,
+            wait: 100,
+          },
+        }
+      ),
     chain: {
       id: chain.chainId,
       name: chain.name,
@@ -37,7 +46,10 @@ function createViemClient(chainId: AppChainId, chain: ChainConfig) {
         },
       },
     },
-    transport: makeCustomFallbackTransport(rpcUrls, 5),
+    transport:
+      fixtures ?
+        makeFixtureTransport(rpcUrls, 5, fixtures)
+      : makeCustomFallbackTransport(rpcUrls, 5),
   });
 }
 
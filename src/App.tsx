@@ -24,6 +24,9 @@ const OnRampPage = lazy(() => import('./features/on-ramp/OnRampPage.tsx'));
 const BridgePage = lazy(() => import('./features/bridge/BridgePage.tsx'));
 const DashboardPage = lazy(() => import('./features/dashboard/DashboardPage.tsx'));
 const TreasuryPage = lazy(() => import('./features/treasury/TreasuryPage.tsx'));
+const WatchlistPage = lazy(() => import('./features/watchlist/WatchlistPage.tsx'));
+const ComparePage = lazy(() => import('./features/compare/ComparePage.tsx'));
+const BasketPage = lazy(() => import('./features/basket/BasketPage.tsx'));
 const NotFoundPage = lazy(() => import('./features/pagenotfound/NotFoundPage.tsx'));
 
 type BoundariesProps = {
@@ -108,6 +111,30 @@ export const App = memo(function App() {
                   </Boundaries>
                 }
               />
+              <Route
+                path="/watchlist"
+                element={
+                  <Boundaries>
+                    <WatchlistPage />
+                  </Boundaries>
+                }
+              />
+              <Route
+                path="/compare"
+                element={
+                  <Boundaries>
+                    <ComparePage />
+                  </Boundaries>
+                }
+              />
+              <Route
+                path="/basket"
+                element={
+                  <Boundaries>
+                    <BasketPage />
+                  </Boundaries>
+                }
+              />
               <Route
                 path="/treasury"
                 element={
@@ -0,0 +1,92 @@
+import { memo, type RefObject, useCallback } from 'react';
+import { styled } from '@repo/styles/jsx';
+import CompareArrowsIcon from '../../../../images/icons/mui/CompareArrows.svg?react';
+import { useAppSelector } from '../../../../store.ts';
+import {
+  selectBridgeTransfers,
+  selectPendingBridgeTransfersCount,
+} from '../../../../features/data/selectors/bridge-history.ts';
+import { DropdownProvider } from '../../../Dropdown/DropdownProvider.tsx';
+import { DropdownTrigger } from '../../../Dropdown/DropdownTrigger.tsx';
+import { DropdownContent } from '../../../Dropdown/DropdownContent.tsx';
+import { BridgeTransfersPanel } from './BridgeTransfersPanel.tsx';
+
+export const BridgeTransfers = memo(function BridgeTransfers({
+  anchorEl,
+  isOpen,
+  onOpen,
+  onClose,
+}: {
+  anchorEl: RefObject<HTMLElement>;
+  isOpen: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+}) {
+  const hasTransfers = useAppSelector(state => selectBridgeTransfers(state).length > 0);
+  const pendingCount = useAppSelector(selectPendingBridgeTransfersCount);
+
+  const handleChange = useCallback(
+    (shouldOpen: boolean) => {
+      if (shouldOpen) {
+        onOpen();
+      } else {
+        onClose();
+      }
+    },
+    [onOpen, onClose]
+  );
+
+  if (!hasTransfers) {
+    return null;
+  }
+
+  return (
+    <DropdownProvider
+      placement="bottom-end"
+      autoWidth={false}
+      open={isOpen}
+      onChange={handleChange}
+      reference={anchorEl}
+    >
+      <TransfersButton>
+        <CompareArrowsIcon height={24} width={24} />
+        {pendingCount > 0 && <PendingCount>{pendingCount}</PendingCount>}
+      </TransfersButton>
+      <DropdownContent padding="none">
+        <BridgeTransfersPanel handleClose={onClose} />
+      </DropdownContent>
+    </DropdownProvider>
+  );
+});
+
+const TransfersButton = styled(DropdownTrigger.button, {
+  base: {
+    position: 'relative',
+    display: 'flex',
+    alignItems: 'center',
+    color: 'text.middle',
+    _hover: {
+      cursor: 'pointer',
+      color: 'text.light',
+    },
+  },
+});
+
+const PendingCount = styled('div', {
+  base: {
+    position: 'absolute',
+    top: '0',
+    right: '0',
+    transform: 'translate(50%, -50%)',
+    minWidth: '16px',
+    height: '16px',
+    paddingInline: '4px',
+    borderRadius: '8px',
+    backgroundColor: 'indicators.warning',
+    color: 'text.light',
+    fontSize: '10px',
+    lineHeight: '16px',
+    textAlign: 'center',
+    pointerEvents: 'none',
+  },
+});
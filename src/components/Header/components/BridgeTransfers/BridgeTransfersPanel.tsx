@@ -0,0 +1,227 @@
+import { memo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { styled } from '@repo/styles/jsx';
+import CloseIcon from '../../../../images/icons/mui/Close.svg?react';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { selectBridgeTransfers } from '../../../../features/data/selectors/bridge-history.ts';
+import {
+  type BridgeTransfer,
+  bridgeHistoryActions,
+} from '../../../../features/data/reducers/bridge-history.ts';
+import { selectChainById } from '../../../../features/data/selectors/chains.ts';
+import { explorerTxUrl } from '../../../../helpers/url.ts';
+import { formatTokenDisplayCondensed } from '../../../../helpers/format.ts';
+import {
+  Panel,
+  PanelCloseButton,
+  PanelContent,
+  PanelHeader,
+  PanelTitle,
+} from '../UserSettings/Panel.tsx';
+
+export const BridgeTransfersPanel = memo(function BridgeTransfersPanel({
+  handleClose,
+}: {
+  handleClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const transfers = useAppSelector(selectBridgeTransfers);
+  const handleClear = useCallback(() => {
+    dispatch(bridgeHistoryActions.clearCompleted());
+  }, [dispatch]);
+
+  return (
+    <Panel>
+      <PanelHeader>
+        <PanelTitle>{t('Bridge-History-Title')}</PanelTitle>
+        <ClearButton onClick={handleClear}>{t('Bridge-History-Clear')}</ClearButton>
+        <PanelCloseButton onClick={handleClose}>
+          <CloseIcon />
+        </PanelCloseButton>
+      </PanelHeader>
+      <PanelContent>
+        {transfers.length ?
+          <List>
+            {transfers.map(transfer => (
+              <TransferItem key={transfer.id} transfer={transfer} />
+            ))}
+          </List>
+        : <Empty>{t('Bridge-History-Empty')}</Empty>}
+      </PanelContent>
+    </Panel>
+  );
+});
+
+type TransferItemProps = {
+  transfer: BridgeTransfer;
+};
+
+const TransferItem = memo(function TransferItem({ transfer }: TransferItemProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const fromChain = useAppSelector(state => selectChainById(state, transfer.fromChainId));
+  const toChain = useAppSelector(state => selectChainById(state, transfer.toChainId));
+  const handleRemove = useCallback(() => {
+    dispatch(bridgeHistoryActions.removeTransfer(transfer.id));
+  }, [dispatch, transfer.id]);
+
+  return (
+    <Item>
+      <ItemHeader>
+        <div>
+          {t('Bridge-History-Transfer', {
+            amount: formatTokenDisplayCondensed(transfer.amount, transfer.token.decimals),
+            token: transfer.token.symbol,
+            from: fromChain.name,
+            to: toChain.name,
+          })}
+        </div>
+        <RemoveButton onClick={handleRemove} title={t('Bridge-History-Remove')}>
+          <CloseIcon height={16} width={16} />
+        </RemoveButton>
+      </ItemHeader>
+      <Status data-status={transfer.status}>
+        {t(`Bridge-History-Status-${transfer.status}`)}
+        {transfer.balanceConfirmed ? ` · ${t('Bridge-History-BalanceConfirmed')}` : null}
+      </Status>
+      {transfer.untracked && transfer.status !== 'delivered' ?
+        <Note>{t('Bridge-History-Untracked', { chain: toChain.name })}</Note>
+      : null}
+      <Links>
+        <Time>{formatDistanceToNowStrict(transfer.createdAt, { addSuffix: true })}</Time>
+        <a href={explorerTxUrl(fromChain, transfer.id)} target="_blank" rel="noopener">
+          {t('Bridge-History-Source')}
+        </a>
+        {transfer.explorerUrl ?
+          <a href={transfer.explorerUrl} target="_blank" rel="noopener">
+            {t('Bridge-History-Track')}
+          </a>
+        : null}
+        {transfer.destinationHash ?
+          <a href={explorerTxUrl(toChain, transfer.destinationHash)} target="_blank" rel="noopener">
+            {t('Bridge-History-Destination')}
+          </a>
+        : null}
+      </Links>
+    </Item>
+  );
+});
+
+const ClearButton = styled(
+  'button',
+  {
+    base: {
+      textStyle: 'body.sm',
+      color: 'text.dark',
+      marginLeft: 'auto',
+      _hover: {
+        color: 'text.light',
+        cursor: 'pointer',
+      },
+    },
+  },
+  {
+    defaultProps: {
+      type: 'button',
+    },
+  }
+);
+
+const RemoveButton = styled(
+  'button',
+  {
+    base: {
+      display: 'flex',
+      color: 'text.dark',
+      flexShrink: 0,
+      _hover: {
+        color: 'text.light',
+        cursor: 'pointer',
+      },
+    },
+  },
+  {
+    defaultProps: {
+      type: 'button',
+    },
+  }
+);
+
+const List = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    overflowY: 'auto',
+  },
+});
+
+const Item = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    padding: '10px 12px',
+    textStyle: 'body.sm',
+    color: 'text.middle',
+    borderBottom: 'solid 1px {colors.background.content.dark}',
+  },
+});
+
+const ItemHeader = styled('div', {
+  base: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: '8px',
+    color: 'text.light',
+  },
+});
+
+const Status = styled('div', {
+  base: {
+    color: 'text.middle',
+    '&[data-status=delivered]': {
+      color: 'indicators.success',
+    },
+    '&[data-status=failed], &[data-status=stuck]': {
+      color: 'indicators.error',
+    },
+  },
+});
+
+const Note = styled('div', {
+  base: {
+    color: 'text.dark',
+  },
+});
+
+const Links = styled('div', {
+  base: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '2px 12px',
+    '& a': {
+      color: 'text.dark',
+      textDecoration: 'underline',
+      _hover: {
+        color: 'text.light',
+      },
+    },
+  },
+});
+
+const Time = styled('div', {
+  base: {
+    color: 'text.dark',
+  },
+});
+
+const Empty = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'text.dark',
+    padding: '12px',
+  },
+});
@@ -2,13 +2,23 @@ import { lazy, memo, Suspense, useCallback, useRef, useState } from 'react';
 import { styled } from '@repo/styles/jsx';
 import { NetworkStatus } from '../../../NetworkStatus/NetworkStatus.tsx';
 import { UserSettings } from '../UserSettings/UserSettings.tsx';
+import { NotificationCenter } from '../NotificationCenter/NotificationCenter.tsx';
+import { BridgeTransfers } from '../BridgeTransfers/BridgeTransfers.tsx';
 
 // lazy load web3 related stuff, as libs are quite heavy
 const WalletContainer = lazy(() => import('../WalletContainer/WalletContainer.tsx'));
 
 export const ConnectionStatus = memo(function ConnectionStatus() {
   const anchorEl = useRef<HTMLDivElement>(null);
-  const [open, setOpen] = useState<null | 'rpc' | 'status'>(null);
+  const [open, setOpen] = useState<null | 'bridge' | 'alerts' | 'rpc' | 'status'>(null);
+
+  const handleOpenBridge = useCallback(() => {
+    setOpen('bridge');
+  }, [setOpen]);
+
+  const handleOpenAlerts = useCallback(() => {
+    setOpen('alerts');
+  }, [setOpen]);
 
   const handleOpenRpc = useCallback(() => {
     setOpen('rpc');
@@ -25,6 +35,18 @@ export const ConnectionStatus = memo(function ConnectionStatus() {
   return (
     <Holder ref={anchorEl}>
       <Icons>
+        <BridgeTransfers
+          anchorEl={anchorEl}
+          isOpen={open === 'bridge'}
+          onOpen={handleOpenBridge}
+          onClose={handleClose}
+        />
+        <NotificationCenter
+          anchorEl={anchorEl}
+          isOpen={open === 'alerts'}
+          onOpen={handleOpenAlerts}
+          onClose={handleClose}
+        />
         <UserSettings
           anchorEl={anchorEl}
           isOpen={open === 'rpc'}
@@ -0,0 +1,67 @@
+import { memo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { styled } from '@repo/styles/jsx';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { LabelledCheckbox } from '../../../LabelledCheckbox/LabelledCheckbox.tsx';
+import { selectBrowserAlertNotificationsEnabled } from '../../../../features/data/selectors/alerts.ts';
+import { alertsActions } from '../../../../features/data/reducers/alerts.ts';
+import { isBrowserNotificationSupported } from './hooks.ts';
+
+export const BrowserNotificationsToggle = memo(function BrowserNotificationsToggle() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const enabled = useAppSelector(selectBrowserAlertNotificationsEnabled);
+  const [denied, setDenied] = useState(
+    () => isBrowserNotificationSupported() && Notification.permission === 'denied'
+  );
+  const handleChange = useCallback(
+    (checked: boolean) => {
+      if (!checked || Notification.permission === 'granted') {
+        dispatch(alertsActions.setBrowserNotifications(checked));
+        return;
+      }
+      Notification.requestPermission()
+        .then(permission => {
+          setDenied(permission === 'denied');
+          dispatch(alertsActions.setBrowserNotifications(permission === 'granted'));
+        })
+        .catch(err => console.error('Failed to request notification permission', err));
+    },
+    [dispatch]
+  );
+
+  if (!isBrowserNotificationSupported()) {
+    return null;
+  }
+
+  return (
+    <Footer>
+      <LabelledCheckbox
+        checked={enabled && !denied}
+        onChange={handleChange}
+        label={t('Alerts-Center-Browser')}
+      />
+      <Explainer>
+        {t(denied ? 'Alerts-Center-Browser-Denied' : 'Alerts-Center-Browser-Explainer')}
+      </Explainer>
+    </Footer>
+  );
+});
+
+const Footer = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '12px',
+    color: 'text.light',
+    borderTop: 'solid 2px {colors.background.content.dark}',
+  },
+});
+
+const Explainer = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'text.dark',
+  },
+});
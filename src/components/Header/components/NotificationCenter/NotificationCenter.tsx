@@ -0,0 +1,75 @@
+import { memo, type RefObject, useCallback } from 'react';
+import { styled } from '@repo/styles/jsx';
+import NotificationsIcon from '../../../../images/icons/mui/Notifications.svg?react';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { selectUnreadAlertNotificationsCount } from '../../../../features/data/selectors/alerts.ts';
+import { alertsActions } from '../../../../features/data/reducers/alerts.ts';
+import { DropdownProvider } from '../../../Dropdown/DropdownProvider.tsx';
+import { DropdownTrigger } from '../../../Dropdown/DropdownTrigger.tsx';
+import { DropdownContent } from '../../../Dropdown/DropdownContent.tsx';
+import { NotificationDot } from '../Badges/NotificationDot.tsx';
+import { NotificationCenterPanel } from './NotificationCenterPanel.tsx';
+import { useBrowserAlertNotifications } from './hooks.ts';
+
+export const NotificationCenter = memo(function NotificationCenter({
+  anchorEl,
+  isOpen,
+  onOpen,
+  onClose,
+}: {
+  anchorEl: RefObject<HTMLElement>;
+  isOpen: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+}) {
+  const dispatch = useAppDispatch();
+  const unreadCount = useAppSelector(selectUnreadAlertNotificationsCount);
+  useBrowserAlertNotifications();
+
+  const handleChange = useCallback(
+    (shouldOpen: boolean) => {
+      if (shouldOpen) {
+        onOpen();
+      } else {
+        dispatch(alertsActions.markAllRead());
+        onClose();
+      }
+    },
+    [dispatch, onOpen, onClose]
+  );
+
+  const handleClose = useCallback(() => {
+    handleChange(false);
+  }, [handleChange]);
+
+  return (
+    <DropdownProvider
+      placement="bottom-end"
+      autoWidth={false}
+      open={isOpen}
+      onChange={handleChange}
+      reference={anchorEl}
+    >
+      <NotificationsButton>
+        <NotificationsIcon height={24} width={24} />
+        {unreadCount > 0 && <NotificationDot />}
+      </NotificationsButton>
+      <DropdownContent padding="none">
+        <NotificationCenterPanel handleClose={handleClose} />
+      </DropdownContent>
+    </DropdownProvider>
+  );
+});
+
+const NotificationsButton = styled(DropdownTrigger.button, {
+  base: {
+    position: 'relative',
+    display: 'flex',
+    alignItems: 'center',
+    color: 'text.middle',
+    _hover: {
+      cursor: 'pointer',
+      color: 'text.light',
+    },
+  },
+});
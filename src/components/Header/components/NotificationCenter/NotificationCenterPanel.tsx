@@ -0,0 +1,145 @@
+import { memo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { styled } from '@repo/styles/jsx';
+import CloseIcon from '../../../../images/icons/mui/Close.svg?react';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { selectAlertNotifications } from '../../../../features/data/selectors/alerts.ts';
+import {
+  type AlertNotification,
+  alertsActions,
+} from '../../../../features/data/reducers/alerts.ts';
+import {
+  Panel,
+  PanelCloseButton,
+  PanelContent,
+  PanelHeader,
+  PanelTitle,
+} from '../UserSettings/Panel.tsx';
+import { BrowserNotificationsToggle } from './BrowserNotificationsToggle.tsx';
+
+export const NotificationCenterPanel = memo(function NotificationCenterPanel({
+  handleClose,
+}: {
+  handleClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const notifications = useAppSelector(selectAlertNotifications);
+  const handleClear = useCallback(() => {
+    dispatch(alertsActions.clearNotifications());
+  }, [dispatch]);
+
+  return (
+    <Panel>
+      <PanelHeader>
+        <PanelTitle>{t('Alerts-Center-Title')}</PanelTitle>
+        {notifications.length > 0 && (
+          <ClearButton onClick={handleClear}>{t('Alerts-Center-Clear')}</ClearButton>
+        )}
+        <PanelCloseButton onClick={handleClose}>
+          <CloseIcon />
+        </PanelCloseButton>
+      </PanelHeader>
+      <PanelContent>
+        {notifications.length ?
+          <List>
+            {notifications.map(notification => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onNavigate={handleClose}
+              />
+            ))}
+          </List>
+        : <Empty>{t('Alerts-Center-Empty')}</Empty>}
+      </PanelContent>
+      <BrowserNotificationsToggle />
+    </Panel>
+  );
+});
+
+type NotificationItemProps = {
+  notification: AlertNotification;
+  onNavigate: () => void;
+};
+
+const NotificationItem = memo(function NotificationItem({
+  notification,
+  onNavigate,
+}: NotificationItemProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Item
+      to={`/vault/${notification.vaultId}`}
+      onClick={onNavigate}
+      data-unread={!notification.read}
+    >
+      <div>{t(notification.messageKey, notification.messageParams)}</div>
+      <Time>{formatDistanceToNowStrict(notification.createdAt, { addSuffix: true })}</Time>
+    </Item>
+  );
+});
+
+const ClearButton = styled(
+  'button',
+  {
+    base: {
+      textStyle: 'body.sm',
+      color: 'text.dark',
+      marginLeft: 'auto',
+      _hover: {
+        color: 'text.light',
+        cursor: 'pointer',
+      },
+    },
+  },
+  {
+    defaultProps: {
+      type: 'button',
+    },
+  }
+);
+
+const List = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    overflowY: 'auto',
+  },
+});
+
+const Item = styled(Link, {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    padding: '10px 12px',
+    textStyle: 'body.sm',
+    color: 'text.middle',
+    textDecoration: 'none',
+    borderBottom: 'solid 1px {colors.background.content.dark}',
+    _hover: {
+      backgroundColor: 'background.content.light',
+    },
+    '&[data-unread=true]': {
+      color: 'text.light',
+    },
+  },
+});
+
+const Time = styled('div', {
+  base: {
+    color: 'text.dark',
+  },
+});
+
+const Empty = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'text.dark',
+    padding: '12px',
+  },
+});
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppSelector } from '../../../../store.ts';
+import {
+  selectAlertNotifications,
+  selectBrowserAlertNotificationsEnabled,
+} from '../../../../features/data/selectors/alerts.ts';
+
+export function isBrowserNotificationSupported() {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Shows a browser notification for each alert notification added while the app is open,
+ * if enabled and permission was granted
+ */
+export function useBrowserAlertNotifications() {
+  const { t } = useTranslation();
+  const enabled = useAppSelector(selectBrowserAlertNotificationsEnabled);
+  const notifications = useAppSelector(selectAlertNotifications);
+  // notifications restored from storage are not shown again
+  const seenIds = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (seenIds.current === null) {
+      seenIds.current = new Set(notifications.map(notification => notification.id));
+      return;
+    }
+
+    for (const notification of notifications) {
+      if (seenIds.current.has(notification.id)) {
+        continue;
+      }
+      seenIds.current.add(notification.id);
+
+      if (
+        enabled &&
+        !notification.read &&
+        isBrowserNotificationSupported() &&
+        Notification.permission === 'granted'
+      ) {
+        new Notification(t('Alerts-Center-Title'), {
+          body: t(notification.messageKey, notification.messageParams),
+          tag: notification.id,
+        });
+      }
+    }
+  }, [notifications, enabled, t]);
+}
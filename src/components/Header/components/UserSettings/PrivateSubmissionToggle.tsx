@@ -0,0 +1,72 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { styled } from '@repo/styles/jsx';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { LabelledCheckbox } from '../../../LabelledCheckbox/LabelledCheckbox.tsx';
+import { selectPrivateSubmissionEnabled } from '../../../../features/data/selectors/user-settings.ts';
+import { userSettingsActions } from '../../../../features/data/reducers/user-settings.ts';
+import { selectWalletAddress } from '../../../../features/data/selectors/wallet.ts';
+import { getWalletConnectionApi } from '../../../../features/data/apis/instances.ts';
+
+export const PrivateSubmissionToggle = memo(function PrivateSubmissionToggle() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const enabled = useAppSelector(selectPrivateSubmissionEnabled);
+  const walletAddress = useAppSelector(selectWalletAddress);
+  const [canSign, setCanSign] = useState(false);
+  useEffect(() => {
+    let current = true;
+    getWalletConnectionApi()
+      .then(api => {
+        if (current) {
+          setCanSign(api.canSignTransactions());
+        }
+      })
+      .catch(err => console.error(err));
+    return () => {
+      current = false;
+    };
+  }, [walletAddress]);
+  const handleChange = useCallback(
+    (checked: boolean) => {
+      dispatch(userSettingsActions.setPrivateSubmission(checked));
+    },
+    [dispatch]
+  );
+
+  return (
+    <Footer>
+      <LabelledCheckbox
+        checked={enabled && canSign}
+        onChange={handleChange}
+        label={t('UserSettings-PrivateSubmission')}
+        disabled={!canSign}
+      />
+      <Explainer>
+        {t(
+          canSign ?
+            'UserSettings-PrivateSubmission-Explainer'
+          : 'UserSettings-PrivateSubmission-Unsupported'
+        )}
+      </Explainer>
+    </Footer>
+  );
+});
+
+const Footer = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    padding: '12px',
+    color: 'text.light',
+    borderTop: 'solid 2px {colors.background.content.dark}',
+  },
+});
+
+const Explainer = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'text.dark',
+  },
+});
@@ -5,6 +5,9 @@ import BackArrow from '../../../../images/back-arrow.svg?react';
 import CloseIcon from '../../../../images/icons/mui/Close.svg?react';
 import { RpcEdit } from './RpcEdit.tsx';
 import { RpcMenu } from './RpcMenu.tsx';
+import { PrivateSubmissionToggle } from './PrivateSubmissionToggle.tsx';
+import { WebhookSettings } from './WebhookSettings.tsx';
+import { WebhookSettingsButton } from './WebhookSettingsButton.tsx';
 import {
   PanelBackButton,
   PanelCloseButton,
@@ -21,10 +24,15 @@ export const RpcSettingsPanel = memo(function RpcSettingsModal({
 }) {
   const { t } = useTranslation();
   const [editChainId, setEditChainId] = useState<ChainEntity['id'] | null>(null);
+  const [showWebhooks, setShowWebhooks] = useState(false);
   const onBack = useCallback(() => {
     setEditChainId(null);
-  }, [setEditChainId]);
-  const showStepBack = editChainId !== null;
+    setShowWebhooks(false);
+  }, [setEditChainId, setShowWebhooks]);
+  const onShowWebhooks = useCallback(() => {
+    setShowWebhooks(true);
+  }, [setShowWebhooks]);
+  const showStepBack = editChainId !== null || showWebhooks;
 
   return (
     <Panel>
@@ -34,18 +42,26 @@ export const RpcSettingsPanel = memo(function RpcSettingsModal({
             <BackArrow width={12} height={9} />
           </PanelBackButton>
         )}
-        <PanelTitle>{t('RpcModal-Menu-Edit')}</PanelTitle>
+        <PanelTitle>{t(showWebhooks ? 'Webhooks-Title' : 'RpcModal-Menu-Edit')}</PanelTitle>
         <PanelCloseButton onClick={handleClose}>
           <CloseIcon />
         </PanelCloseButton>
       </PanelHeader>
       <PanelContent>
-        {editChainId ? (
+        {showWebhooks ? (
+          <WebhookSettings />
+        ) : editChainId ? (
           <RpcEdit chainId={editChainId} onBack={onBack} />
         ) : (
           <RpcMenu onSelect={setEditChainId} />
         )}
       </PanelContent>
+      {!showWebhooks && (
+        <>
+          <PrivateSubmissionToggle />
+          <WebhookSettingsButton onClick={onShowWebhooks} />
+        </>
+      )}
     </Panel>
   );
 });
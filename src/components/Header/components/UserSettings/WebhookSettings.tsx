@@ -0,0 +1,338 @@
+import { type ChangeEvent, memo, useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { styled } from '@repo/styles/jsx';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import {
+  selectWebhookDeliveries,
+  selectWebhookEndpoint,
+  selectWebhookTemplates,
+} from '../../../../features/data/selectors/webhooks.ts';
+import {
+  type WebhookDelivery,
+  type WebhookEventType,
+  webhooksActions,
+} from '../../../../features/data/reducers/webhooks.ts';
+import { deliverWebhook } from '../../../../features/data/actions/webhooks.ts';
+import {
+  getWebhookTestEvent,
+  renderWebhookTemplate,
+  WEBHOOK_EVENT_TYPES,
+} from '../../../../features/data/utils/webhook-utils.ts';
+import { BaseInput } from '../../../Form/Input/BaseInput.tsx';
+import { Button } from '../../../Button/Button.tsx';
+import { ToggleButtons } from '../../../ToggleButtons/ToggleButtons.tsx';
+import { isError } from '../../../../helpers/error.ts';
+
+const EVENT_LABEL_KEYS: Record<WebhookEventType, string> = {
+  'vault-status': 'Webhooks-Event-VaultStatus',
+  'new-boost': 'Webhooks-Event-NewBoost',
+  'clm-range': 'Webhooks-Event-ClmRange',
+};
+
+function isValidEndpoint(endpoint: string) {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+export const WebhookSettings = memo(function WebhookSettings() {
+  const { t } = useTranslation();
+
+  return (
+    <Layout>
+      <Explainer>{t('Webhooks-Explainer')}</Explainer>
+      <WebhookEndpoint />
+      <WebhookTemplate />
+      <WebhookDeliveryLog />
+    </Layout>
+  );
+});
+
+const WebhookEndpoint = memo(function WebhookEndpoint() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const endpoint = useAppSelector(selectWebhookEndpoint);
+  const [input, setInput] = useState(endpoint);
+  const isValid = !input || isValidEndpoint(input.trim());
+
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value;
+      setInput(value);
+      if (!value.trim() || isValidEndpoint(value.trim())) {
+        dispatch(webhooksActions.setEndpoint(value));
+      }
+    },
+    [dispatch]
+  );
+
+  return (
+    <Field>
+      <Label>{t('Webhooks-Endpoint')}</Label>
+      <BaseInput
+        value={input}
+        onChange={handleChange}
+        placeholder="https://"
+        error={!isValid}
+        fullWidth={true}
+      />
+      {!isValid && <Error>{t('Webhooks-Endpoint-Invalid')}</Error>}
+    </Field>
+  );
+});
+
+const WebhookTemplate = memo(function WebhookTemplate() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const endpoint = useAppSelector(selectWebhookEndpoint);
+  const templates = useAppSelector(selectWebhookTemplates);
+  const [eventType, setEventType] = useState<WebhookEventType>('vault-status');
+  const template = templates[eventType];
+  const options = useMemo(
+    () => WEBHOOK_EVENT_TYPES.map(value => ({ value, label: t(EVENT_LABEL_KEYS[value]) })),
+    [t]
+  );
+  const templateError = useMemo(() => {
+    try {
+      renderWebhookTemplate(template, getWebhookTestEvent(eventType).params);
+      return undefined;
+    } catch (err: unknown) {
+      return isError(err) ? err.message : String(err);
+    }
+  }, [template, eventType]);
+
+  const handleEventTypeChange = useCallback(
+    (newValue: string) => {
+      setEventType(newValue as WebhookEventType);
+    },
+    [setEventType]
+  );
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLTextAreaElement>) => {
+      dispatch(webhooksActions.setTemplate({ eventType, template: e.target.value }));
+    },
+    [dispatch, eventType]
+  );
+  const handleReset = useCallback(() => {
+    dispatch(webhooksActions.resetTemplate(eventType));
+  }, [dispatch, eventType]);
+  const handleTest = useCallback(() => {
+    dispatch(deliverWebhook(getWebhookTestEvent(eventType))).catch(console.error);
+  }, [dispatch, eventType]);
+
+  return (
+    <Field>
+      <Label>{t('Webhooks-Template')}</Label>
+      <ToggleButtons
+        value={eventType}
+        options={options}
+        onChange={handleEventTypeChange}
+        fullWidth={true}
+      />
+      <Template value={template} onChange={handleChange} spellCheck={false} rows={10} />
+      {templateError && <Error>{templateError}</Error>}
+      <Actions>
+        <Button size="sm" variant="light" onClick={handleReset}>
+          {t('Webhooks-Template-Reset')}
+        </Button>
+        <Button
+          size="sm"
+          variant="success"
+          onClick={handleTest}
+          disabled={!endpoint || !!templateError}
+        >
+          {t('Webhooks-Test')}
+        </Button>
+      </Actions>
+    </Field>
+  );
+});
+
+const WebhookDeliveryLog = memo(function WebhookDeliveryLog() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const deliveries = useAppSelector(selectWebhookDeliveries);
+  const handleClear = useCallback(() => {
+    dispatch(webhooksActions.clearDeliveries());
+  }, [dispatch]);
+
+  return (
+    <Field>
+      <LogHeader>
+        <Label>{t('Webhooks-Log')}</Label>
+        {deliveries.length > 0 && (
+          <ClearButton onClick={handleClear}>{t('Webhooks-Log-Clear')}</ClearButton>
+        )}
+      </LogHeader>
+      {deliveries.length ?
+        deliveries.map(delivery => <WebhookDeliveryItem key={delivery.id} delivery={delivery} />)
+      : <Explainer>{t('Webhooks-Log-Empty')}</Explainer>}
+    </Field>
+  );
+});
+
+function getDeliveryStatusKey({ status, attempts }: WebhookDelivery) {
+  switch (status) {
+    case 'pending':
+      return attempts > 0 ? 'Webhooks-Status-Retrying' : 'Webhooks-Status-Pending';
+    case 'delivered':
+      return 'Webhooks-Status-Delivered';
+    case 'failed':
+      return attempts > 1 ? 'Webhooks-Status-FailedAttempts' : 'Webhooks-Status-Failed';
+    default: {
+      // @ts-expect-error when all cases are covered
+      throw new Error(`Unknown webhook delivery status ${status}`);
+    }
+  }
+}
+
+const WebhookDeliveryItem = memo(function WebhookDeliveryItem({
+  delivery,
+}: {
+  delivery: WebhookDelivery;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <Delivery>
+      <DeliveryRow>
+        <span>{t(EVENT_LABEL_KEYS[delivery.eventType])}</span>
+        <DeliveryStatus data-status={delivery.status}>
+          {t(getDeliveryStatusKey(delivery), { attempts: delivery.attempts })}
+        </DeliveryStatus>
+      </DeliveryRow>
+      <DeliveryRow>
+        <span>{delivery.vaultId}</span>
+        <span>{formatDistanceToNowStrict(delivery.createdAt, { addSuffix: true })}</span>
+      </DeliveryRow>
+      {delivery.error && delivery.status !== 'delivered' && <Error>{delivery.error}</Error>}
+    </Delivery>
+  );
+});
+
+const Layout = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    padding: '12px',
+    color: 'text.light',
+    overflowY: 'auto',
+  },
+});
+
+const Field = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+});
+
+const Label = styled('div', {
+  base: {
+    textStyle: 'subline.sm',
+    color: 'text.dark',
+  },
+});
+
+const Explainer = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'text.dark',
+  },
+});
+
+const Error = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'indicators.error',
+    wordBreak: 'break-word',
+  },
+});
+
+const Template = styled('textarea', {
+  base: {
+    textStyle: 'body.sm',
+    fontFamily: 'monospace',
+    color: 'text.middle',
+    backgroundColor: 'background.content.dark',
+    border: 'none',
+    borderRadius: '8px',
+    padding: '8px',
+    resize: 'vertical',
+    outline: 'none',
+  },
+});
+
+const Actions = styled('div', {
+  base: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+  },
+});
+
+const LogHeader = styled('div', {
+  base: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+});
+
+const ClearButton = styled(
+  'button',
+  {
+    base: {
+      textStyle: 'body.sm',
+      color: 'text.dark',
+      _hover: {
+        color: 'text.light',
+        cursor: 'pointer',
+      },
+    },
+  },
+  {
+    defaultProps: {
+      type: 'button',
+    },
+  }
+);
+
+const Delivery = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    textStyle: 'body.sm',
+    color: 'text.middle',
+    paddingBlock: '8px',
+    borderTop: 'solid 1px {colors.background.content.dark}',
+  },
+});
+
+const DeliveryRow = styled('div', {
+  base: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+    wordBreak: 'break-all',
+  },
+});
+
+const DeliveryStatus = styled('span', {
+  base: {
+    flexShrink: 0,
+    '&[data-status=delivered]': {
+      color: 'indicators.success',
+    },
+    '&[data-status=failed]': {
+      color: 'indicators.error',
+    },
+  },
+});
@@ -0,0 +1,52 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { styled } from '@repo/styles/jsx';
+import { useAppSelector } from '../../../../store.ts';
+import { selectWebhookEndpoint } from '../../../../features/data/selectors/webhooks.ts';
+
+export const WebhookSettingsButton = memo(function WebhookSettingsButton({
+  onClick,
+}: {
+  onClick: () => void;
+}) {
+  const { t } = useTranslation();
+  const endpoint = useAppSelector(selectWebhookEndpoint);
+
+  return (
+    <Footer onClick={onClick}>
+      <span>{t('Webhooks-Title')}</span>
+      <State>{t(endpoint ? 'Webhooks-Enabled' : 'Webhooks-Disabled')}</State>
+    </Footer>
+  );
+});
+
+const Footer = styled(
+  'button',
+  {
+    base: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      width: '100%',
+      padding: '12px',
+      color: 'text.light',
+      borderTop: 'solid 2px {colors.background.content.dark}',
+      _hover: {
+        cursor: 'pointer',
+        backgroundColor: 'background.content.light',
+      },
+    },
+  },
+  {
+    defaultProps: {
+      type: 'button',
+    },
+  }
+);
+
+const State = styled('span', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'text.dark',
+  },
+});
@@ -12,6 +12,7 @@ export type LabelledCheckboxProps = {
   iconCss?: CssStyles;
   labelCss?: CssStyles;
   checkedIconCss?: CssStyles;
+  disabled?: boolean;
 };
 
 export const LabelledCheckbox = memo(function LabelledCheckbox({
@@ -21,18 +22,25 @@ export const LabelledCheckbox = memo(function LabelledCheckbox({
   iconCss,
   labelCss,
   checkedIconCss,
+  disabled = false,
 }: LabelledCheckboxProps) {
   const handleChange = useCallback<MouseEventHandler<HTMLLabelElement>>(
     e => {
       e.stopPropagation();
-      onChange(!checked);
+      if (!disabled) {
+        onChange(!checked);
+      }
     },
-    [onChange, checked]
+    [onChange, checked, disabled]
   );
   const Icon = checked ? CheckBoxOutlined : CheckBoxOutlineBlank;
 
   return (
-    <label onClick={handleChange} className={css(styles.checkbox)} data-checked={checked}>
+    <label
+      onClick={handleChange}
+      className={css(styles.checkbox, disabled && styles.disabled)}
+      data-checked={checked}
+    >
       <Icon
         className={css(
           styles.icon,
@@ -20,4 +20,8 @@ export const styles = {
   checkedIcon: css.raw({
     color: 'text.light',
   }),
+  disabled: css.raw({
+    cursor: 'default',
+    opacity: 0.5,
+  }),
 };
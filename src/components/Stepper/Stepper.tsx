@@ -13,6 +13,7 @@ import {
   StepsStartContent,
   SuccessContent,
   WaitingContent,
+  WaitingPrivateContent,
 } from './components/Content/Content.tsx';
 import { ProgressBar } from './components/ProgressBar/ProgressBar.tsx';
 import { styled } from '@repo/styles/jsx';
@@ -23,6 +24,7 @@ const stepToComponent: Record<StepContent, FC> = {
   [StepContent.WaitingTx]: WaitingContent,
   [StepContent.ErrorTx]: ErrorContent,
   [StepContent.SuccessTx]: SuccessContent,
+  [StepContent.WaitingPrivateTx]: WaitingPrivateContent,
 };
 
 const StepperImpl = () => {
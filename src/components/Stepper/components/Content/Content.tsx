@@ -12,6 +12,7 @@ import {
   selectStepperCurrentStep,
   selectStepperCurrentStepData,
   selectStepperItems,
+  selectStepperPreflight,
   selectZapReturned,
 } from '../../../../features/data/selectors/stepper.ts';
 import { formatTokenDisplayCondensed } from '../../../../helpers/format.ts';
@@ -49,7 +50,12 @@ export const StepsStartContent = memo(function StepsStartContent() {
       <div className={classes.message}>
         {currentStepData ? (
           <>
-            <CircularProgress size={16} /> {t(`Stepper-${currentStepData.step}-Building-Content`)}
+            <CircularProgress size={16} />{' '}
+            {currentStepData.extraInfo?.arrival ? (
+              <ArrivalContent {...currentStepData.extraInfo.arrival} />
+            ) : (
+              t(`Stepper-${currentStepData.step}-Building-Content`)
+            )}
           </>
         ) : (
           '...'
@@ -59,6 +65,24 @@ export const StepsStartContent = memo(function StepsStartContent() {
   );
 });
 
+const ArrivalContent = memo(function ArrivalContent({
+  token,
+  amount,
+}: NonNullable<NonNullable<Step['extraInfo']>['arrival']>) {
+  const { t } = useTranslation();
+  const chain = useAppSelector(state => selectChainById(state, token.chainId));
+
+  return (
+    <>
+      {t('Stepper-Arrival-Content', {
+        amount: formatTokenDisplayCondensed(amount, token.decimals),
+        token: token.symbol,
+        chain: chain.name,
+      })}
+    </>
+  );
+});
+
 export const StepsCountContent = memo(function StepsCountContent() {
   const { t } = useTranslation();
   const classes = useStyles();
@@ -70,10 +94,36 @@ export const StepsCountContent = memo(function StepsCountContent() {
     <>
       <Title text={t('Transactn-Confirmed', { currentStep, totalTxs: stepperItems.length })} />
       <div className={classes.message}>{currentStepData?.message}</div>
+      <PreflightContent />
     </>
   );
 });
 
+const PreflightContent = memo(function PreflightContent() {
+  const { t } = useTranslation();
+  const classes = useStyles();
+  const preflight = useAppSelector(selectStepperPreflight);
+
+  if (!preflight || !preflight.outputs.length) {
+    return null;
+  }
+
+  return (
+    <div className={classes.message}>
+      {preflight.outputs.map(({ token, amount, minAmount }) => (
+        <div key={token.id}>
+          {t(minAmount ? 'Transactn-Preflight-Min' : 'Transactn-Preflight', {
+            amount: formatTokenDisplayCondensed(amount, token.decimals),
+            minAmount:
+              minAmount ? formatTokenDisplayCondensed(minAmount, token.decimals) : undefined,
+            symbol: token.symbol,
+          })}
+        </div>
+      ))}
+    </div>
+  );
+});
+
 export const WaitingContent = memo(function WaitingContent() {
   const { t } = useTranslation();
   const classes = useStyles();
@@ -86,6 +136,18 @@ export const WaitingContent = memo(function WaitingContent() {
   );
 });
 
+export const WaitingPrivateContent = memo(function WaitingPrivateContent() {
+  const { t } = useTranslation();
+  const classes = useStyles();
+
+  return (
+    <>
+      <Title text={t('Transactn-ConfirmPending')} />
+      <div className={classes.message}>{t('Transactn-WaitPrivate')}</div>
+    </>
+  );
+});
+
 export const ErrorContent = memo(function ErrorContent() {
   const { t } = useTranslation();
   const classes = useStyles();
@@ -0,0 +1,52 @@
+import type { Abi } from 'viem';
+
+export const HyperlaneTokenRouterAbi = [
+  {
+    inputs: [
+      {
+        internalType: 'uint32',
+        name: '_destinationDomain',
+        type: 'uint32',
+      },
+    ],
+    name: 'quoteGasPayment',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint32',
+        name: '_destination',
+        type: 'uint32',
+      },
+      {
+        internalType: 'bytes32',
+        name: '_recipient',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'uint256',
+        name: '_amountOrId',
+        type: 'uint256',
+      },
+    ],
+    name: 'transferRemote',
+    outputs: [
+      {
+        internalType: 'bytes32',
+        name: 'messageId',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const satisfies Abi;
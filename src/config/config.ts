@@ -5,6 +5,7 @@ export const config = {
     name: 'Ethereum',
     chainId: 1,
     rpc: ['https://eth.llamarpc.com', 'https://eth.drpc.org'],
+    privateRpc: 'https://rpc.flashbots.net/fast',
     explorerUrl: 'https://etherscan.io',
     multicallAddress: '0x9dA9f3C6c45F1160b53D395b0A982aEEE1D212fE',
     multicall3Address: '0xcA11bde05977b3631167028862bE2a173976CA11',
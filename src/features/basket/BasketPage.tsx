@@ -0,0 +1,103 @@
+import { memo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../store.ts';
+import { selectIsConfigAvailable } from '../data/selectors/data-loader.ts';
+import { selectBasketItems, selectBasketOptionsStatus } from '../data/selectors/basket.ts';
+import { basketFetchOptions } from '../data/actions/basket.ts';
+import { TransactStatus } from '../data/reducers/wallet/transact-types.ts';
+import { Container } from '../../components/Container/Container.tsx';
+import { TechLoader } from '../../components/TechLoader/TechLoader.tsx';
+import { Card } from '../vault/components/Card/Card.tsx';
+import { CardContent } from '../vault/components/Card/CardContent.tsx';
+import { BasketModeTabs } from './components/BasketModeTabs.tsx';
+import { BasketVaultSelect } from './components/BasketVaultSelect.tsx';
+import { BasketItems } from './components/BasketItems.tsx';
+import { BasketSummary } from './components/BasketSummary.tsx';
+import { BasketActions } from './components/BasketActions.tsx';
+
+const BasketPage = memo(function BasketPage() {
+  const isConfigAvailable = useAppSelector(selectIsConfigAvailable);
+  if (!isConfigAvailable) {
+    return <TechLoader text="Loading..." />;
+  }
+  return <BasketContent />;
+});
+
+const BasketContent = memo(function BasketContent() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const items = useAppSelector(selectBasketItems);
+  const optionsStatus = useAppSelector(selectBasketOptionsStatus);
+
+  // options are reset whenever the mode or vaults change
+  useEffect(() => {
+    if (items.length > 0 && optionsStatus === TransactStatus.Idle) {
+      dispatch(basketFetchOptions());
+    }
+  }, [dispatch, items.length, optionsStatus]);
+
+  return (
+    <div className={pageClass}>
+      <div className={headerClass}>
+        <Container maxWidth="lg">
+          <div className={titleClass}>{t('Basket-Title')}</div>
+          <div className={descriptionClass}>{t('Basket-Description')}</div>
+        </Container>
+      </div>
+      <Container maxWidth="md">
+        <Card>
+          <BasketModeTabs />
+          <CardContent className={contentClass}>
+            <BasketVaultSelect />
+            {items.length > 0 ?
+              <>
+                <BasketItems />
+                <BasketSummary />
+                <BasketActions />
+              </>
+            : <div className={emptyClass}>{t('Basket-Empty')}</div>}
+          </CardContent>
+        </Card>
+      </Container>
+    </div>
+  );
+});
+
+const pageClass = css({
+  flex: '1 1 auto',
+  paddingBottom: '48px',
+});
+
+const headerClass = css({
+  backgroundColor: 'background.header',
+  padding: '24px 0px',
+  marginBottom: '24px',
+  lg: {
+    padding: '24px 0 48px 0',
+  },
+});
+
+const titleClass = css({
+  textStyle: 'h1',
+  marginBottom: '12px',
+});
+
+const descriptionClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+});
+
+const contentClass = css({
+  gap: '16px',
+});
+
+const emptyClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+  padding: '24px 0',
+  textAlign: 'center',
+});
+
+// eslint-disable-next-line no-restricted-syntax -- default export required for React.lazy()
+export default BasketPage;
@@ -0,0 +1,85 @@
+import { memo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../../store.ts';
+import {
+  selectBasketChainId,
+  selectBasketInputError,
+  selectBasketMode,
+  selectBasketQuotesReady,
+  selectBasketQuotesStatus,
+} from '../../data/selectors/basket.ts';
+import { selectIsStepperStepping } from '../../data/selectors/stepper.ts';
+import { basketFetchQuotes, basketSteps } from '../../data/actions/basket.ts';
+import { TransactMode, TransactStatus } from '../../data/reducers/wallet/transact-types.ts';
+import { errorToString } from '../../../helpers/format.ts';
+import { Button } from '../../../components/Button/Button.tsx';
+import { AlertError } from '../../../components/Alerts/Alerts.tsx';
+import { ActionConnectSwitch } from '../../vault/components/Actions/Transact/CommonActions/CommonActions.tsx';
+
+export const BasketActions = memo(function BasketActions() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const chainId = useAppSelector(selectBasketChainId);
+  const mode = useAppSelector(selectBasketMode);
+  const inputError = useAppSelector(selectBasketInputError);
+  const quotesStatus = useAppSelector(selectBasketQuotesStatus);
+  const isReady = useAppSelector(selectBasketQuotesReady);
+  const isTxInProgress = useAppSelector(selectIsStepperStepping);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const handlePreview = useCallback(() => {
+    setError(undefined);
+    dispatch(basketFetchQuotes());
+  }, [dispatch]);
+  const handleConfirm = useCallback(() => {
+    setError(undefined);
+    dispatch(basketSteps(t)).catch((err: unknown) => {
+      setError(errorToString(err));
+    });
+  }, [dispatch, t]);
+
+  return (
+    <div className={actionsClass}>
+      {inputError ?
+        <div className={inputErrorClass}>{t(inputError)}</div>
+      : null}
+      {error ?
+        <AlertError>{error}</AlertError>
+      : null}
+      <ActionConnectSwitch chainId={chainId}>
+        {isReady ?
+          <Button
+            variant="success"
+            disabled={isTxInProgress || !!inputError}
+            fullWidth={true}
+            borderless={true}
+            onClick={handleConfirm}
+          >
+            {t(mode === TransactMode.Deposit ? 'Transact-Deposit' : 'Transact-Withdraw')}
+          </Button>
+        : <Button
+            variant="success"
+            disabled={!!inputError || quotesStatus === TransactStatus.Pending}
+            fullWidth={true}
+            borderless={true}
+            onClick={handlePreview}
+          >
+            {t('Basket-Preview')}
+          </Button>
+        }
+      </ActionConnectSwitch>
+    </div>
+  );
+});
+
+const actionsClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '12px',
+});
+
+const inputErrorClass = css({
+  textStyle: 'body.sm',
+  color: 'indicators.error',
+});
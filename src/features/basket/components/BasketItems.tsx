@@ -0,0 +1,164 @@
+import { memo, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import BigNumber from 'bignumber.js';
+import { useAppDispatch, useAppSelector } from '../../../store.ts';
+import {
+  selectBasketItemBalance,
+  selectBasketItemInputToken,
+  selectBasketItems,
+  selectBasketQuotes,
+  selectBasketUnit,
+} from '../../data/selectors/basket.ts';
+import {
+  basketActions,
+  type BasketItem,
+  type BasketUnit,
+} from '../../data/reducers/wallet/basket.ts';
+import { BIG_ZERO } from '../../../helpers/big-number.ts';
+import { ToggleButtons } from '../../../components/ToggleButtons/ToggleButtons.tsx';
+import { VaultIdentity } from '../../../components/VaultIdentity/VaultIdentity.tsx';
+import { TokenAmountFromEntity } from '../../../components/TokenAmount/TokenAmount.tsx';
+import { AmountInput } from '../../vault/components/Actions/Transact/AmountInput/AmountInput.tsx';
+import CloseIcon from '../../../images/icons/mui/Close.svg?react';
+
+const BIG_HUNDRED = new BigNumber(100);
+
+export const BasketItems = memo(function BasketItems() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const items = useAppSelector(selectBasketItems);
+  const unit = useAppSelector(selectBasketUnit);
+  const unitOptions = useMemo(
+    () => [
+      { value: 'percent' as const, label: t('Basket-Unit-Percent') },
+      { value: 'amount' as const, label: t('Basket-Unit-Amount') },
+    ],
+    [t]
+  );
+  const handleUnit = useCallback(
+    (value: BasketUnit) => {
+      dispatch(basketActions.setUnit(value));
+    },
+    [dispatch]
+  );
+
+  return (
+    <div className={itemsClass}>
+      <ToggleButtons value={unit} options={unitOptions} onChange={handleUnit} fullWidth={true} />
+      {items.map(item => (
+        <BasketItemRow key={item.vaultId} item={item} />
+      ))}
+    </div>
+  );
+});
+
+type BasketItemRowProps = {
+  item: BasketItem;
+};
+
+const BasketItemRow = memo(function BasketItemRow({ item }: BasketItemRowProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const { vaultId } = item;
+  const unit = useAppSelector(selectBasketUnit);
+  const token = useAppSelector(state => selectBasketItemInputToken(state, vaultId));
+  const balance = useAppSelector(state => selectBasketItemBalance(state, vaultId));
+  const quote = useAppSelector(state =>
+    selectBasketQuotes(state).find(quote => quote.option.vaultId === vaultId)
+  );
+  // memo on the string, so typing a trailing '.' is not reset by the input
+  const value = useMemo(() => (item.value ? new BigNumber(item.value) : BIG_ZERO), [item.value]);
+  const isPercent = unit === 'percent';
+
+  const handleChange = useCallback(
+    (newValue: BigNumber) => {
+      dispatch(basketActions.setValue({ vaultId, value: newValue.toString(10) }));
+    },
+    [dispatch, vaultId]
+  );
+  const handleRemove = useCallback(() => {
+    dispatch(basketActions.removeVault(vaultId));
+  }, [dispatch, vaultId]);
+
+  return (
+    <div className={itemClass}>
+      <div className={itemHeaderClass}>
+        <VaultIdentity vaultId={vaultId} isLink={true} />
+        <button
+          type="button"
+          onClick={handleRemove}
+          className={removeClass}
+          title={t('Basket-Remove')}
+        >
+          <CloseIcon width={20} height={20} />
+        </button>
+      </div>
+      <AmountInput
+        value={value}
+        maxValue={isPercent ? BIG_HUNDRED : balance}
+        tokenDecimals={isPercent || !token ? 2 : token.decimals}
+        onChange={handleChange}
+        endAdornment={isPercent ? '%' : token?.symbol}
+        disabled={!token}
+        fullWidth={true}
+      />
+      <div className={itemFooterClass}>
+        {token ?
+          <span>
+            {t('Transact-Available')} <TokenAmountFromEntity amount={balance} token={token} />{' '}
+            {token.symbol}
+          </span>
+        : <span />}
+        {quote ?
+          <span>
+            {quote.outputs.map(({ token, amount }) => (
+              <span key={token.address}>
+                <TokenAmountFromEntity amount={amount} token={token} /> {token.symbol}
+              </span>
+            ))}
+          </span>
+        : null}
+      </div>
+    </div>
+  );
+});
+
+const itemsClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '16px',
+});
+
+const itemClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '8px',
+  padding: '16px',
+  borderRadius: '8px',
+  backgroundColor: 'background.content.dark',
+});
+
+const itemHeaderClass = css({
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '8px',
+});
+
+const itemFooterClass = css({
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: '8px',
+  textStyle: 'body.sm',
+  color: 'text.dark',
+});
+
+const removeClass = css({
+  flexShrink: 0,
+  color: 'text.dark',
+  _hover: {
+    color: 'text.light',
+    cursor: 'pointer',
+  },
+});
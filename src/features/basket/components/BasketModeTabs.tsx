@@ -0,0 +1,36 @@
+import { memo, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch, useAppSelector } from '../../../store.ts';
+import { selectBasketMode } from '../../data/selectors/basket.ts';
+import { basketActions } from '../../data/reducers/wallet/basket.ts';
+import { TransactMode } from '../../data/reducers/wallet/transact-types.ts';
+import { CardHeaderTabs } from '../../vault/components/Card/CardHeaderTabs.tsx';
+
+export const BasketModeTabs = memo(function BasketModeTabs() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const mode = useAppSelector(selectBasketMode);
+  const handleModeChange = useCallback(
+    (newMode: string) => {
+      dispatch(
+        basketActions.switchMode(
+          newMode === TransactMode.Withdraw.toString() ?
+            TransactMode.Withdraw
+          : TransactMode.Deposit
+        )
+      );
+    },
+    [dispatch]
+  );
+  const modeOptions = useMemo(
+    () => [
+      { value: TransactMode.Deposit.toString(), label: t('Transact-Deposit') },
+      { value: TransactMode.Withdraw.toString(), label: t('Transact-Withdraw') },
+    ],
+    [t]
+  );
+
+  return (
+    <CardHeaderTabs selected={mode.toString()} options={modeOptions} onChange={handleModeChange} />
+  );
+});
@@ -0,0 +1,126 @@
+import { memo, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppSelector } from '../../../store.ts';
+import type { TokenAmount } from '../../data/apis/transact/transact-types.ts';
+import {
+  selectBasketQuotesError,
+  selectBasketQuotesReady,
+  selectBasketQuotesStatus,
+  selectBasketSummary,
+} from '../../data/selectors/basket.ts';
+import { TransactStatus } from '../../data/reducers/wallet/transact-types.ts';
+import { formatLargePercent, formatLargeUsd } from '../../../helpers/format.ts';
+import { TokenAmountFromEntity } from '../../../components/TokenAmount/TokenAmount.tsx';
+import { AlertError } from '../../../components/Alerts/Alerts.tsx';
+import { ZapSlippage } from '../../vault/components/Actions/Transact/ZapSlippage/ZapSlippage.tsx';
+
+export const BasketSummary = memo(function BasketSummary() {
+  const { t } = useTranslation();
+  const status = useAppSelector(selectBasketQuotesStatus);
+  const error = useAppSelector(selectBasketQuotesError);
+  const isReady = useAppSelector(selectBasketQuotesReady);
+  const summary = useAppSelector(selectBasketSummary);
+
+  if (status === TransactStatus.Rejected) {
+    return (
+      <AlertError>
+        <p>{t('Transact-Quote-Error')}</p>
+        {error && 'message' in error && error.message ?
+          <p>{error.message}</p>
+        : null}
+      </AlertError>
+    );
+  }
+
+  if (status === TransactStatus.Pending) {
+    return <div className={loadingClass}>{t('Transact-Loading')}</div>;
+  }
+
+  if (!isReady || !summary) {
+    return <ZapSlippage />;
+  }
+
+  return (
+    <div className={summaryClass}>
+      <SummaryRow label={t('Basket-Summary-Send')}>
+        <TokenAmounts amounts={summary.inputs} />
+        <span>{formatLargeUsd(summary.inputValue)}</span>
+      </SummaryRow>
+      <SummaryRow label={t('Basket-Summary-Receive')}>
+        <TokenAmounts amounts={summary.outputs} />
+        <span>{formatLargeUsd(summary.outputValue)}</span>
+      </SummaryRow>
+      <SummaryRow label={t('Basket-Summary-MinReceive')}>
+        <TokenAmounts amounts={summary.minOutputs} />
+      </SummaryRow>
+      <SummaryRow label={t('Basket-Summary-PriceImpact')}>
+        {formatLargePercent(-summary.priceImpact, 2, '0.00%')}
+      </SummaryRow>
+      <SummaryRow label={t('Transact-Fee-Zap')}>
+        {formatLargePercent(summary.fee, 2, '0%')} ({formatLargeUsd(summary.feeValue)})
+      </SummaryRow>
+      <ZapSlippage />
+    </div>
+  );
+});
+
+type SummaryRowProps = {
+  label: string;
+  children: ReactNode;
+};
+
+const SummaryRow = memo(function SummaryRow({ label, children }: SummaryRowProps) {
+  return (
+    <div className={rowClass}>
+      <div className={labelClass}>{label}</div>
+      <div className={valueClass}>{children}</div>
+    </div>
+  );
+});
+
+type TokenAmountsProps = {
+  amounts: TokenAmount[];
+};
+
+const TokenAmounts = memo(function TokenAmounts({ amounts }: TokenAmountsProps) {
+  return (
+    <>
+      {amounts.map(({ token, amount }) => (
+        <span key={`${token.chainId}-${token.address}`}>
+          <TokenAmountFromEntity amount={amount} token={token} /> {token.symbol}
+        </span>
+      ))}
+    </>
+  );
+});
+
+const summaryClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '8px',
+});
+
+const rowClass = css({
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'flex-start',
+  gap: '8px',
+  textStyle: 'body',
+});
+
+const labelClass = css({
+  color: 'text.dark',
+});
+
+const valueClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'flex-end',
+  color: 'text.middle',
+});
+
+const loadingClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+});
@@ -0,0 +1,178 @@
+import { memo, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { createSelector } from '@reduxjs/toolkit';
+import { css } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../../store.ts';
+import type { BeefyState } from '../../../redux-types.ts';
+import type { ChainEntity } from '../../data/entities/chain.ts';
+import type { VaultEntity } from '../../data/entities/vault.ts';
+import { selectAllChains } from '../../data/selectors/chains.ts';
+import { selectAllVisibleVaultIds } from '../../data/selectors/vaults.ts';
+import {
+  selectBasketChainId,
+  selectBasketOptionsError,
+  selectBasketOptionsStatus,
+  selectBasketSelectionId,
+  selectBasketSelections,
+  selectBasketVaultIds,
+} from '../../data/selectors/basket.ts';
+import { basketActions } from '../../data/reducers/wallet/basket.ts';
+import { TransactStatus } from '../../data/reducers/wallet/transact-types.ts';
+import { Select } from '../../../components/Form/Select/Single/Select.tsx';
+import { SelectMultiple } from '../../../components/Form/Select/Multi/SelectMultiple.tsx';
+import type { SelectItem } from '../../../components/Form/Select/types.ts';
+import { AlertError } from '../../../components/Alerts/Alerts.tsx';
+
+const selectBasketChainOptions = createSelector(selectAllChains, chains =>
+  chains
+    .map((chain): SelectItem => ({ value: chain.id, label: chain.name }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+);
+
+const selectBasketVaultOptions = createSelector(
+  selectAllVisibleVaultIds,
+  (state: BeefyState) => state.entities.vaults.byId,
+  selectBasketChainId,
+  (vaultIds, vaultsById, chainId) =>
+    vaultIds
+      .map(id => vaultsById[id])
+      .filter(vault => !!vault)
+      .filter(vault => vault.chainId === chainId)
+      .map(vault => ({ value: vault.id, label: vault.names.list }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+);
+
+const selectBasketTokenOptions = createSelector(selectBasketSelections, selections =>
+  selections.map(({ selectionId, token }) => ({ value: selectionId, label: token.symbol }))
+);
+
+export const BasketVaultSelect = memo(function BasketVaultSelect() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const chainId = useAppSelector(selectBasketChainId);
+  const vaultIds = useAppSelector(selectBasketVaultIds);
+  const chainOptions = useAppSelector(selectBasketChainOptions);
+  const vaultOptions = useAppSelector(selectBasketVaultOptions);
+
+  const handleChain = useCallback(
+    (selected: string) => {
+      // options are only chain ids
+      dispatch(basketActions.switchChain(selected as ChainEntity['id']));
+    },
+    [dispatch]
+  );
+  const handleVaults = useCallback(
+    (selected: VaultEntity['id'][]) => {
+      if (!chainId) {
+        return;
+      }
+      // keep the existing order, new vaults are added at the end
+      vaultIds
+        .filter(id => !selected.includes(id))
+        .forEach(vaultId => dispatch(basketActions.removeVault(vaultId)));
+      selected
+        .filter(id => !vaultIds.includes(id))
+        .forEach(vaultId => dispatch(basketActions.addVault({ vaultId, chainId })));
+    },
+    [dispatch, chainId, vaultIds]
+  );
+
+  return (
+    <div className={selectsClass}>
+      <div className={rowClass}>
+        <Select
+          labelPrefix={t('Basket-Chain')}
+          unselectedLabel={t('Basket-Select')}
+          selected={chainId || ''}
+          options={chainOptions}
+          onChange={handleChain}
+          variant="light"
+          layer={1}
+        />
+        {chainId ?
+          <SelectMultiple
+            searchEnabled={true}
+            labelPrefix={t('Basket-Vaults')}
+            unselectedLabel={t('Basket-Select')}
+            onChange={handleVaults}
+            selected={vaultIds}
+            options={vaultOptions}
+            placement="bottom-end"
+            layer={1}
+            variant="light"
+          />
+        : null}
+      </div>
+      {vaultIds.length > 0 ?
+        <BasketTokenSelect />
+      : null}
+    </div>
+  );
+});
+
+const BasketTokenSelect = memo(function BasketTokenSelect() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const status = useAppSelector(selectBasketOptionsStatus);
+  const error = useAppSelector(selectBasketOptionsError);
+  const selectionId = useAppSelector(selectBasketSelectionId);
+  const tokenOptions = useAppSelector(selectBasketTokenOptions);
+  const selected = useMemo(
+    () => (selectionId && tokenOptions.some(o => o.value === selectionId) ? selectionId : ''),
+    [selectionId, tokenOptions]
+  );
+
+  const handleToken = useCallback(
+    (selected: string) => {
+      dispatch(basketActions.selectSelection(selected));
+    },
+    [dispatch]
+  );
+
+  if (status === TransactStatus.Rejected) {
+    return (
+      <AlertError>
+        <p>{t('Basket-Options-Error')}</p>
+        {error && error.message ?
+          <p>{error.message}</p>
+        : null}
+      </AlertError>
+    );
+  }
+
+  if (status !== TransactStatus.Fulfilled) {
+    return <div className={loadingClass}>{t('Transact-Loading')}</div>;
+  }
+
+  return (
+    <Select
+      labelPrefix={t('Basket-Token')}
+      unselectedLabel={t('Basket-Select')}
+      selected={selected}
+      options={tokenOptions}
+      onChange={handleToken}
+      variant="light"
+      fullWidth={true}
+    />
+  );
+});
+
+const selectsClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '12px',
+});
+
+const rowClass = css({
+  display: 'flex',
+  gap: '12px',
+  justifyContent: 'space-between',
+  mdDown: {
+    flexDirection: 'column',
+  },
+});
+
+const loadingClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+});
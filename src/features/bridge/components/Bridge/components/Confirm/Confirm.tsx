@@ -1,4 +1,4 @@
-import { memo, useCallback, useMemo } from 'react';
+import { Fragment, memo, useCallback, useMemo } from 'react';
 import { legacyMakeStyles } from '../../../../../../helpers/mui.ts';
 import { useTranslation } from 'react-i18next';
 import { Button } from '../../../../../../components/Button/Button.tsx';
@@ -12,6 +12,8 @@ import { askForNetworkChange, askForWalletConnection } from '../../../../../data
 import {
   selectBridgeConfirmQuote,
   selectBridgeConfirmStatus,
+  selectBridgeHopHasGas,
+  selectBridgeRouteHasGas,
 } from '../../../../../data/selectors/bridge.ts';
 import { selectChainById } from '../../../../../data/selectors/chains.ts';
 import {
@@ -30,6 +32,10 @@ import MonetizationOn from '../../../../../../images/icons/mui/MonetizationOn.sv
 import Timer from '../../../../../../images/icons/mui/Timer.svg?react';
 import { formatMinutesDuration } from '../../../../../../helpers/date.ts';
 import { selectTokenPriceByAddress } from '../../../../../data/selectors/tokens.ts';
+import type { IBridgeQuote } from '../../../../../data/apis/bridge/providers/provider-types.ts';
+import type { BeefyAnyBridgeConfig } from '../../../../../data/apis/config-types.ts';
+import type { ChainEntity } from '../../../../../data/entities/chain.ts';
+import { selectUserBalanceOfToken } from '../../../../../data/selectors/balance.ts';
 
 const useStyles = legacyMakeStyles(styles);
 
@@ -42,31 +48,111 @@ const ConfirmError = memo(function ConfirmError() {
   return <AlertError>{t('Bridge-Confirm-Error')}</AlertError>;
 });
 
+type ConfirmHopProps = {
+  hop: IBridgeQuote<BeefyAnyBridgeConfig>;
+};
+
+const ConfirmHop = memo(function ConfirmHop({ hop }: ConfirmHopProps) {
+  const { t } = useTranslation();
+  const classes = useStyles();
+  const timeEstimate = useMemo(() => {
+    return formatMinutesDuration(hop.timeEstimate);
+  }, [hop.timeEstimate]);
+  const tokenPrice = useAppSelector(state =>
+    selectTokenPriceByAddress(state, hop.fee.token.chainId, hop.fee.token.address)
+  );
+  const fee = useMemo(() => {
+    return `${formatTokenDisplayCondensed(hop.fee.amount, hop.fee.token.decimals, 6)} ${
+      hop.fee.token.symbol
+    }`;
+  }, [hop.fee]);
+  const usdFee = useMemo(() => {
+    return formatLargeUsd(hop.fee.amount.multipliedBy(tokenPrice));
+  }, [tokenPrice, hop.fee.amount]);
+
+  return (
+    <div className={css(styles.step, styles.stepBridge)}>
+      <div className={classes.via}>{t('Bridge-Via')}</div>
+      <div className={classes.provider}>
+        <img
+          src={getBridgeProviderLogo(hop.config.id)}
+          alt={hop.config.title}
+          height={24}
+          className={classes.providerLogo}
+        />
+      </div>
+      <div className={classes.providerDetails}>
+        <div className={classes.fee}>
+          <MonetizationOn className={classes.feeIcon} />
+          <div>
+            ~{fee} ({usdFee})
+          </div>
+        </div>
+        <div className={classes.time}>
+          <Timer className={classes.timeIcon} />
+          <div>~{timeEstimate}</div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+const ConfirmHopGas = memo(function ConfirmHopGas({ hop }: ConfirmHopProps) {
+  const { t } = useTranslation();
+  const { fee } = hop;
+  const chain = useAppSelector(state => selectChainById(state, fee.token.chainId));
+  const balance = useAppSelector(state =>
+    selectUserBalanceOfToken(state, fee.token.chainId, fee.token.address)
+  );
+  const hasGas = useAppSelector(state => selectBridgeHopHasGas(state, hop));
+
+  return (
+    <div className={css(styles.gas, !hasGas && styles.gasMissing)}>
+      {t('Bridge-Hop-Gas', {
+        amount: formatTokenDisplayCondensed(fee.amount, fee.token.decimals, 6),
+        balance: formatTokenDisplayCondensed(balance, fee.token.decimals, 6),
+        token: fee.token.symbol,
+        chain: chain.name,
+      })}
+    </div>
+  );
+});
+
+type ConfirmNetworkProps = {
+  chainId: ChainEntity['id'];
+};
+
+const ConfirmNetwork = memo(function ConfirmNetwork({ chainId }: ConfirmNetworkProps) {
+  const classes = useStyles();
+  const chain = useAppSelector(state => selectChainById(state, chainId));
+
+  return (
+    <div className={classes.network}>
+      <img
+        className={classes.networkIcon}
+        width={20}
+        height={20}
+        alt={chain.name}
+        src={getNetworkSrc(chain.id)}
+      />
+      <div> {chain.name}</div>
+    </div>
+  );
+});
+
 const ConfirmReady = memo(function ConfirmReady() {
   const { t } = useTranslation();
   const classes = useStyles();
   const dispatch = useAppDispatch();
   const quote = useAppSelector(selectBridgeConfirmQuote);
-  const fromChain = useAppSelector(state => selectChainById(state, quote.input.token.chainId));
-  const toChain = useAppSelector(state => selectChainById(state, quote.output.token.chainId));
+  const firstHop = quote.hops[0];
+  const lastHop = quote.hops[quote.hops.length - 1];
+  const fromChain = useAppSelector(state => selectChainById(state, firstHop.input.token.chainId));
   const currentChainId = useAppSelector(selectCurrentChainId);
   const isWalletConnected = useAppSelector(selectIsWalletConnected);
   const isWalletOnFromChain = currentChainId === fromChain.id;
   const isStepping = useAppSelector(selectIsStepperStepping);
-  const timeEstimate = useMemo(() => {
-    return formatMinutesDuration(quote.timeEstimate);
-  }, [quote.timeEstimate]);
-  const tokenPrice = useAppSelector(state =>
-    selectTokenPriceByAddress(state, quote.fee.token.chainId, quote.fee.token.address)
-  );
-  const fee = useMemo(() => {
-    return `${formatTokenDisplayCondensed(quote.fee.amount, quote.fee.token.decimals, 6)} ${
-      quote.fee.token.symbol
-    }`;
-  }, [quote.fee]);
-  const usdFee = useMemo(() => {
-    return formatLargeUsd(quote.fee.amount.multipliedBy(tokenPrice));
-  }, [tokenPrice, quote.fee.amount]);
+  const hasGas = useAppSelector(state => selectBridgeRouteHasGas(state, quote));
 
   const handleBridge = useCallback(() => {
     dispatch(performBridge({ t }));
@@ -86,67 +172,44 @@ const ConfirmReady = memo(function ConfirmReady() {
         <div className={css(styles.step)}>
           <div>
             {t('Bridge-From-Send', {
-              amount: formatTokenDisplay(quote.input.amount, quote.input.token.decimals),
-              token: quote.input.token.symbol,
+              amount: formatTokenDisplay(firstHop.input.amount, firstHop.input.token.decimals),
+              token: firstHop.input.token.symbol,
             })}
           </div>
           <div className={classes.via}>{t('Bridge-On')}</div>
-          <div className={classes.network}>
-            <img
-              className={classes.networkIcon}
-              width={20}
-              height={20}
-              alt={fromChain.name}
-              src={getNetworkSrc(fromChain.id)}
-            />
-            <div> {fromChain.name}</div>
-          </div>
+          <ConfirmNetwork chainId={fromChain.id} />
         </div>
-        <div className={css(styles.step, styles.stepBridge)}>
-          <div className={classes.via}>{t('Bridge-Via')}</div>
-          <div className={classes.provider}>
-            <img
-              src={getBridgeProviderLogo(quote.config.id)}
-              alt={quote.config.title}
-              height={24}
-              className={classes.providerLogo}
-            />
-          </div>
-          <div className={classes.providerDetails}>
-            <div className={classes.fee}>
-              <MonetizationOn className={classes.feeIcon} />
-              <div>
-                ~{fee} ({usdFee})
+        {quote.hops.map((hop, i) => (
+          <Fragment key={i}>
+            {i > 0 ? (
+              <div className={css(styles.step, styles.stepHop)}>
+                <div>
+                  {t('Bridge-Hop-Receive-Send', {
+                    amount: formatTokenDisplay(hop.input.amount, hop.input.token.decimals),
+                    token: hop.input.token.symbol,
+                  })}
+                </div>
+                <div className={classes.via}>{t('Bridge-On')}</div>
+                <ConfirmNetwork chainId={hop.input.token.chainId} />
+                <ConfirmHopGas hop={hop} />
               </div>
-            </div>
-            <div className={classes.time}>
-              <Timer className={classes.timeIcon} />
-              <div>~{timeEstimate}</div>
-            </div>
-          </div>
-        </div>
+            ) : null}
+            <ConfirmHop hop={hop} />
+          </Fragment>
+        ))}
         <div className={css(styles.step, styles.stepTo)}>
           <div>
             {t('Bridge-To-Receive', {
-              amount: formatTokenDisplay(quote.input.amount, quote.input.token.decimals),
-              token: quote.input.token.symbol,
+              amount: formatTokenDisplay(firstHop.input.amount, firstHop.input.token.decimals),
+              token: firstHop.input.token.symbol,
             })}
           </div>
           <div className={classes.via}>{t('Bridge-On')}</div>
-          <div className={classes.network}>
-            <img
-              className={classes.networkIcon}
-              width={20}
-              height={20}
-              alt={toChain.name}
-              src={getNetworkSrc(toChain.id)}
-            />
-            <div> {toChain.name}</div>
-          </div>
-          {quote.receiver ? (
+          <ConfirmNetwork chainId={lastHop.output.token.chainId} />
+          {lastHop.receiver ? (
             <>
               <div className={classes.via}>{t('Bridge-At')}</div>
-              <div className={classes.receiver}>{quote.receiver}</div>
+              <div className={classes.receiver}>{lastHop.receiver}</div>
             </>
           ) : null}
         </div>
@@ -156,7 +219,7 @@ const ConfirmReady = memo(function ConfirmReady() {
           isWalletOnFromChain ? (
             <Button
               onClick={handleBridge}
-              disabled={isStepping}
+              disabled={isStepping || !hasGas}
               variant="success"
               fullWidth={true}
               borderless={true}
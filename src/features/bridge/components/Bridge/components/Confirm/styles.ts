@@ -42,6 +42,9 @@ export const styles = {
       borderColor: '[{colors.bayOfMany} transparent transparent transparent]',
     },
   }),
+  stepHop: css.raw({
+    paddingTop: '32px',
+  }),
   stepTo: css.raw({
     paddingTop: '32px',
     '&::after': {
@@ -92,6 +95,14 @@ export const styles = {
     height: '16px',
     fill: 'text.light',
   }),
+  gas: css.raw({
+    textStyle: 'body.sm',
+    color: 'text.dark',
+    marginTop: '8px',
+  }),
+  gasMissing: css.raw({
+    color: 'indicators.warning',
+  }),
   receiver: css.raw({
     textStyle: 'subline.sm',
     textTransform: 'none',
@@ -4,7 +4,7 @@ import { useAppDispatch, useAppSelector } from '../../../../../../store.ts';
 import {
   selectBridgeConfigById,
   selectBridgeFormState,
-  selectBridgeIdsFromTo,
+  selectBridgeHopHasGas,
   selectBridgeLimitedQuoteById,
   selectBridgeLimitedQuoteIds,
   selectBridgeQuoteById,
@@ -12,6 +12,7 @@ import {
   selectBridgeQuoteIds,
   selectBridgeQuoteSelectedId,
   selectBridgeQuoteStatus,
+  selectBridgeRoutesFromTo,
 } from '../../../../../data/selectors/bridge.ts';
 import { formatLargeUsd, formatTokenDisplayCondensed } from '../../../../../../helpers/format.ts';
 import { bridgeActions } from '../../../../../data/reducers/wallet/bridge.ts';
@@ -20,19 +21,26 @@ import { getBridgeProviderIcon } from '../../../../../../helpers/bridgeProviderS
 import Lock from '../../../../../../images/icons/mui/Lock.svg?react';
 import MonetizationOn from '../../../../../../images/icons/mui/MonetizationOn.svg?react';
 import Timer from '../../../../../../images/icons/mui/Timer.svg?react';
+import ErrorOutline from '../../../../../../images/icons/mui/ErrorOutline.svg?react';
 import { styles } from './styles.ts';
 import { TextLoader } from '../../../../../../components/TextLoader/TextLoader.tsx';
 import type { BeefyAnyBridgeConfig } from '../../../../../data/apis/config-types.ts';
 import { AlertError } from '../../../../../../components/Alerts/Alerts.tsx';
 import { useTranslation } from 'react-i18next';
 import { formatMinutesDuration } from '../../../../../../helpers/date.ts';
-import { selectTokenPriceByAddress } from '../../../../../data/selectors/tokens.ts';
-import BigNumber from 'bignumber.js';
+import { selectChainById } from '../../../../../data/selectors/chains.ts';
+import type { ChainEntity } from '../../../../../data/entities/chain.ts';
+import type {
+  BridgeRouteHop,
+  IBridgeRouteQuote,
+} from '../../../../../data/apis/bridge/bridge-api-types.ts';
+import { getBridgeRouteHops } from '../../../../../data/apis/bridge/bridge-routes.ts';
+import type { IBridgeQuote } from '../../../../../data/apis/bridge/providers/provider-types.ts';
 
 const useStyles = legacyMakeStyles(styles);
 
 type QuoteLimitedProps = {
-  quoteId: BeefyAnyBridgeConfig['id'];
+  quoteId: IBridgeRouteQuote['id'];
   css?: CssStyles;
 };
 
@@ -40,31 +48,17 @@ const QuoteLimited = memo(function QuoteLimited({ quoteId }: QuoteLimitedProps)
   const { t } = useTranslation();
   const classes = useStyles();
   const quote = useAppSelector(state => selectBridgeLimitedQuoteById(state, quoteId));
-  const providerId = quote.config.id;
-  const config = useAppSelector(state => selectBridgeConfigById(state, providerId));
-  const providerIcon = useMemo(() => {
-    return getBridgeProviderIcon(providerId);
-  }, [providerId]);
-  const limit = useMemo(() => {
-    return BigNumber.min(quote.limits.from.current, quote.limits.to.current);
-  }, [quote.limits.from, quote.limits.to]);
+  const hops = useMemo(() => getBridgeRouteHops(quote), [quote]);
 
   return (
     <div className={css(styles.quote, styles.quoteLimited)}>
-      <div className={classes.quoteProvider}>
-        <img
-          src={providerIcon}
-          alt={providerId}
-          width={24}
-          height={24}
-          className={classes.quoteProviderIcon}
-        />
-        <div className={classes.quoteProviderTitle}>{config.title}</div>
-      </div>
+      <QuoteRoute hops={hops} />
       <div className={classes.quoteLimit}>
         <Lock className={classes.quoteLimitIcon} />
         <div>
-          {t('Bridge-Quote-RateLimited', { amount: formatTokenDisplayCondensed(limit, 18, 6) })}
+          {t('Bridge-Quote-RateLimited', {
+            amount: formatTokenDisplayCondensed(quote.limits.current, 18, 6),
+          })}
         </div>
       </div>
     </div>
@@ -72,7 +66,7 @@ const QuoteLimited = memo(function QuoteLimited({ quoteId }: QuoteLimitedProps)
 });
 
 type QuoteButtonProps = {
-  quoteId: BeefyAnyBridgeConfig['id'];
+  quoteId: IBridgeRouteQuote['id'];
   selected: boolean;
   css?: CssStyles;
 };
@@ -80,6 +74,7 @@ type QuoteButtonProps = {
 const QuoteButton = memo(function QuoteButton({ quoteId, selected }: QuoteButtonProps) {
   const dispatch = useAppDispatch();
   const quote = useAppSelector(state => selectBridgeQuoteById(state, quoteId));
+  const hops = useMemo(() => getBridgeRouteHops(quote), [quote]);
   const handleClick = useCallback(() => {
     if (selected) {
       dispatch(bridgeActions.unselectQuote());
@@ -90,12 +85,19 @@ const QuoteButton = memo(function QuoteButton({ quoteId, selected }: QuoteButton
   const timeEstimate = useMemo(() => {
     return formatMinutesDuration(quote.timeEstimate);
   }, [quote.timeEstimate]);
-  const tokenPrice = useAppSelector(state =>
-    selectTokenPriceByAddress(state, quote.fee.token.chainId, quote.fee.token.address)
-  );
   const usdFee = useMemo(() => {
-    return formatLargeUsd(quote.fee.amount.multipliedBy(tokenPrice));
-  }, [tokenPrice, quote.fee.amount]);
+    return formatLargeUsd(quote.feeUsd);
+  }, [quote.feeUsd]);
+  const tokenFees = useMemo(() => {
+    return quote.hops
+      .map(
+        hop =>
+          `${formatTokenDisplayCondensed(hop.fee.amount, hop.fee.token.decimals, 6)} ${
+            hop.fee.token.symbol
+          }`
+      )
+      .join(' + ');
+  }, [quote.hops]);
 
   return (
     <button
@@ -104,12 +106,19 @@ const QuoteButton = memo(function QuoteButton({ quoteId, selected }: QuoteButton
       className={css(styles.quote, styles.quoteButton, selected && styles.quoteButtonSelected)}
     >
       <QuoteButtonInner
-        providerId={quote.config.id}
+        hops={hops}
         fee={
-          <>
-            ~{formatTokenDisplayCondensed(quote.fee.amount, quote.fee.token.decimals, 6)}{' '}
-            {quote.fee.token.symbol} ({usdFee})
-          </>
+          // multi-hop fees are paid in different tokens, so only the usd total fits
+          hops.length === 1 ?
+            <>
+              ~{tokenFees} ({usdFee})
+            </>
+          : <>
+              <span title={tokenFees}>~{usdFee}</span>
+              {quote.hops.slice(1).map((hop, i) => (
+                <QuoteHopGas key={i} hop={hop} />
+              ))}
+            </>
         }
         time={<>~{timeEstimate}</>}
       />
@@ -117,34 +126,100 @@ const QuoteButton = memo(function QuoteButton({ quoteId, selected }: QuoteButton
   );
 });
 
-type QuoteButtonInnerProps = {
+type QuoteHopGasProps = {
+  hop: IBridgeQuote<BeefyAnyBridgeConfig>;
+};
+
+/** Later hops are sent from the wallet on the intermediate chain, which pays their fee and gas */
+const QuoteHopGas = memo(function QuoteHopGas({ hop }: QuoteHopGasProps) {
+  const { t } = useTranslation();
+  const classes = useStyles();
+  const chain = useAppSelector(state => selectChainById(state, hop.fee.token.chainId));
+  const hasGas = useAppSelector(state => selectBridgeHopHasGas(state, hop));
+
+  if (hasGas) {
+    return null;
+  }
+
+  return (
+    <span
+      className={classes.quoteGas}
+      title={t('Bridge-Quote-NoGas', { token: hop.fee.token.symbol, chain: chain.name })}
+    >
+      <ErrorOutline className={classes.quoteGasIcon} />
+    </span>
+  );
+});
+
+type QuoteRouteProps = {
+  hops: BridgeRouteHop[];
+};
+
+const QuoteRoute = memo(function QuoteRoute({ hops }: QuoteRouteProps) {
+  const classes = useStyles();
+
+  return (
+    <div className={classes.quoteProvider}>
+      <div className={classes.quoteProviderIcons}>
+        {hops.map((hop, i) => (
+          <img
+            key={i}
+            src={getBridgeProviderIcon(hop.bridgeId)}
+            alt={hop.bridgeId}
+            width={24}
+            height={24}
+            className={classes.quoteProviderIcon}
+          />
+        ))}
+      </div>
+      {hops.length === 1 ?
+        <QuoteProviderTitle providerId={hops[0].bridgeId} />
+      : <QuoteViaTitle chainId={hops[0].to} />}
+    </div>
+  );
+});
+
+const QuoteProviderTitle = memo(function QuoteProviderTitle({
+  providerId,
+}: {
   providerId: BeefyAnyBridgeConfig['id'];
+}) {
+  const classes = useStyles();
+  const config = useAppSelector(state => selectBridgeConfigById(state, providerId));
+
+  return <div className={classes.quoteProviderTitle}>{config.title}</div>;
+});
+
+const QuoteViaTitle = memo(function QuoteViaTitle({ chainId }: { chainId: ChainEntity['id'] }) {
+  const { t } = useTranslation();
+  const classes = useStyles();
+  const chain = useAppSelector(state => selectChainById(state, chainId));
+
+  return (
+    <div
+      className={classes.quoteProviderTitle}
+      title={t('Bridge-Quote-Via', { chain: chain.name })}
+    >
+      {t('Bridge-Quote-Via', { chain: chain.name })}
+    </div>
+  );
+});
+
+type QuoteButtonInnerProps = {
+  hops: BridgeRouteHop[];
   fee: ReactNode;
   time: ReactNode;
 };
 const QuoteButtonInner = memo(function QuoteButtonInner({
-  providerId,
+  hops,
   fee,
   time,
 }: QuoteButtonInnerProps) {
   const classes = useStyles();
-  const config = useAppSelector(state => selectBridgeConfigById(state, providerId));
-  const providerIcon = useMemo(() => {
-    return getBridgeProviderIcon(providerId);
-  }, [providerId]);
 
   return (
     <>
-      <div className={classes.quoteProvider}>
-        <img
-          src={providerIcon}
-          alt={providerId}
-          width={24}
-          height={24}
-          className={classes.quoteProviderIcon}
-        />
-        <div className={classes.quoteProviderTitle}>{config.title}</div>
-      </div>
+      <QuoteRoute hops={hops} />
       <div className={classes.quoteFee}>
         <MonetizationOn className={classes.quoteFeeIcon} />
         <div> {fee} </div>
@@ -158,17 +233,15 @@ const QuoteButtonInner = memo(function QuoteButtonInner({
 });
 
 type LoadingQuoteButtonProps = {
-  providerId: BeefyAnyBridgeConfig['id'];
+  hops: BridgeRouteHop[];
 };
-const LoadingQuoteButton = memo(function LoadingQuoteButton({
-  providerId,
-}: LoadingQuoteButtonProps) {
+const LoadingQuoteButton = memo(function LoadingQuoteButton({ hops }: LoadingQuoteButtonProps) {
   const classes = useStyles();
 
   return (
     <div className={classes.quote}>
       <QuoteButtonInner
-        providerId={providerId}
+        hops={hops}
         fee={<TextLoader placeholder="0.0000 ETH" />}
         time={<TextLoader placeholder="~30m" />}
       />
@@ -199,12 +272,12 @@ const Quotes = memo(function Quotes() {
 const QuotesLoading = memo(function QuotesLoading() {
   const classes = useStyles();
   const { from, to } = useAppSelector(selectBridgeFormState);
-  const bridgeIds = useAppSelector(state => selectBridgeIdsFromTo(state, from, to));
+  const routes = useAppSelector(state => selectBridgeRoutesFromTo(state, from, to));
 
   return (
     <div className={classes.quotes}>
-      {bridgeIds.map(id => (
-        <LoadingQuoteButton key={id} providerId={id} />
+      {routes.map((hops, i) => (
+        <LoadingQuoteButton key={i} hops={hops} />
       ))}
     </div>
   );
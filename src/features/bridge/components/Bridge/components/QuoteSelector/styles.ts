@@ -77,7 +77,14 @@ export const styles = {
     alignItems: 'center',
     flex: '0 0 114px',
     mdDown: {
-      flex: '0 0 24px',
+      flex: '0 0 auto',
+    },
+  }),
+  quoteProviderIcons: css.raw({
+    display: 'flex',
+    flexShrink: '0',
+    '& > img + img': {
+      marginLeft: '-8px',
     },
   }),
   quoteProviderIcon: css.raw({
@@ -85,6 +92,9 @@ export const styles = {
   }),
   quoteProviderTitle: css.raw({
     display: 'block',
+    minWidth: '0',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
     mdDown: {
       display: 'none',
     },
@@ -111,6 +121,16 @@ export const styles = {
     height: '16px',
     fill: 'text.light',
   }),
+  quoteGas: css.raw({
+    display: 'inline-flex',
+    verticalAlign: 'middle',
+    marginLeft: '4px',
+  }),
+  quoteGasIcon: css.raw({
+    width: '16px',
+    height: '16px',
+    fill: 'indicators.warning',
+  }),
   quoteTime: css.raw({
     display: 'flex',
     alignItems: 'center',
@@ -0,0 +1,110 @@
+import { memo, useCallback, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../store.ts';
+import type { VaultEntity } from '../data/entities/vault.ts';
+import { selectIsConfigAvailable } from '../data/selectors/data-loader.ts';
+import { selectShouldInitFees } from '../data/selectors/fees.ts';
+import { fetchFees } from '../data/actions/fees.ts';
+import { Container } from '../../components/Container/Container.tsx';
+import { TechLoader } from '../../components/TechLoader/TechLoader.tsx';
+import { CompareVaultSelect } from './components/CompareVaultSelect.tsx';
+import { CompareTable } from './components/CompareTable.tsx';
+import { CompareChart } from './components/CompareChart.tsx';
+import { MAX_COMPARE_VAULTS, useCompareVaultIds } from './hooks.ts';
+
+const ComparePage = memo(function ComparePage() {
+  const isConfigAvailable = useAppSelector(selectIsConfigAvailable);
+  if (!isConfigAvailable) {
+    return <TechLoader text="Loading..." />;
+  }
+  return <CompareContent />;
+});
+
+const CompareContent = memo(function CompareContent() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const { vaultIds, unknownIds, setVaultIds } = useCompareVaultIds();
+  const shouldInitFees = useAppSelector(selectShouldInitFees);
+  const handleRemove = useCallback(
+    (vaultId: VaultEntity['id']) => {
+      setVaultIds(vaultIds.filter(id => id !== vaultId));
+    },
+    [setVaultIds, vaultIds]
+  );
+
+  useEffect(() => {
+    if (shouldInitFees) {
+      dispatch(fetchFees());
+    }
+  }, [dispatch, shouldInitFees]);
+
+  return (
+    <div className={pageClass}>
+      <div className={headerClass}>
+        <Container maxWidth="lg">
+          <div className={titleSelectClass}>
+            <div className={titleClass}>{t('Compare-Title')}</div>
+            <CompareVaultSelect vaultIds={vaultIds} onChange={setVaultIds} />
+          </div>
+          <div className={descriptionClass}>
+            {t('Compare-Description', { max: MAX_COMPARE_VAULTS })}
+            {unknownIds > 0 ? ` ${t('Compare-Unknown', { count: unknownIds })}` : null}
+          </div>
+        </Container>
+      </div>
+      {vaultIds.length > 0 ?
+        <>
+          <CompareTable vaultIds={vaultIds} onRemove={handleRemove} />
+          <CompareChart vaultIds={vaultIds} />
+        </>
+      : <Container maxWidth="lg">
+          <div className={emptyClass}>{t('Compare-Empty')}</div>
+        </Container>
+      }
+    </div>
+  );
+});
+
+const pageClass = css({
+  flex: '1 1 auto',
+  paddingBottom: '48px',
+});
+
+const headerClass = css({
+  backgroundColor: 'background.header',
+  padding: '24px 0px',
+  lg: {
+    padding: '24px 0 48px 0',
+  },
+});
+
+const titleSelectClass = css({
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'flex-start',
+  marginBottom: '12px',
+  mdDown: {
+    flexDirection: 'column',
+    rowGap: '12px',
+  },
+});
+
+const titleClass = css({
+  textStyle: 'h1',
+});
+
+const descriptionClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+});
+
+const emptyClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+  padding: '48px 0',
+  textAlign: 'center',
+});
+
+// eslint-disable-next-line no-restricted-syntax -- default export required for React.lazy()
+export default ComparePage;
@@ -0,0 +1,354 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { shallowEqual } from 'react-redux';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  type TooltipProps,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { format, fromUnixTime } from 'date-fns';
+import { css } from '@repo/styles/css';
+import { token } from '@repo/styles/tokens';
+import { useAppSelector } from '../../../store.ts';
+import type { VaultEntity } from '../../data/entities/vault.ts';
+import type { ApiTimeBucket } from '../../data/apis/beefy/beefy-data-api-types.ts';
+import { selectVaultById } from '../../data/selectors/vaults.ts';
+import { selectDepositTokenByVaultId } from '../../data/selectors/tokens.ts';
+import {
+  selectHistoricalApyBucketData,
+  selectHistoricalTvlBucketData,
+} from '../../data/selectors/historical.ts';
+import { useHistoricalStatLoader } from '../../data/hooks/historical.tsx';
+import {
+  getBucketParams,
+  type TimeRange,
+  timeRangeToBucket,
+} from '../../vault/components/HistoricGraph/utils.ts';
+import { RangeSwitcher } from '../../vault/components/HistoricGraph/RangeSwitcher/RangeSwitcher.tsx';
+import { GraphLoader } from '../../vault/components/GraphLoader/Loader.tsx';
+import { Section } from '../../../components/Section/Section.tsx';
+import { ToggleButtons } from '../../../components/ToggleButtons/ToggleButtons.tsx';
+import { XAxisTick } from '../../../components/XAxisTick/XAxisTick.tsx';
+import { GraphNoData } from '../../../components/GraphNoData/GraphNoData.tsx';
+import { formatLargePercent, formatUsd } from '../../../helpers/format.ts';
+import { getXInterval } from '../../../helpers/graph/graph.ts';
+import { useBreakpoint } from '../../../components/MediaQueries/useBreakpoint.ts';
+
+type CompareStat = 'apy' | 'tvl';
+
+const ALL_RANGES: TimeRange[] = ['1Day', '1Week', '1Month', '1Year'];
+const LINE_COLORS = ['#5C70D6', '#4DB258', '#D6A85C'];
+
+type CompareChartRow = { t: number } & Record<VaultEntity['id'], number>;
+
+type CompareChartProps = {
+  vaultIds: VaultEntity['id'][];
+};
+
+export const CompareChart = memo(function CompareChart({ vaultIds }: CompareChartProps) {
+  const { t } = useTranslation();
+  const [stat, setStat] = useState<CompareStat>('apy');
+  const [range, setRange] = useState<TimeRange>('1Month');
+  const bucket = timeRangeToBucket[range];
+  const statOptions = useMemo(
+    () => [
+      { value: 'apy', label: t('Graph-apy') },
+      { value: 'tvl', label: t('Graph-tvl') },
+    ],
+    [t]
+  );
+  const handleStatChange = useCallback(
+    (newValue: string) => {
+      setStat(newValue as CompareStat);
+    },
+    [setStat]
+  );
+
+  return (
+    <Section title={t('Compare-History')}>
+      {vaultIds.map(vaultId => (
+        <CompareStatLoader key={vaultId} vaultId={vaultId} stat={stat} bucket={bucket} />
+      ))}
+      <div className={containerClass}>
+        <div className={headerClass}>
+          <ToggleButtons value={stat} options={statOptions} onChange={handleStatChange} />
+        </div>
+        <CompareGraph vaultIds={vaultIds} stat={stat} bucket={bucket} />
+        <div className={footerClass}>
+          <div className={legendClass}>
+            {vaultIds.map((vaultId, i) => (
+              <LegendItem key={vaultId} vaultId={vaultId} color={LINE_COLORS[i]} />
+            ))}
+          </div>
+          <RangeSwitcher range={range} availableRanges={ALL_RANGES} onChange={setRange} />
+        </div>
+      </div>
+    </Section>
+  );
+});
+
+type CompareStatLoaderProps = {
+  vaultId: VaultEntity['id'];
+  stat: CompareStat;
+  bucket: ApiTimeBucket;
+};
+
+const CompareStatLoader = memo(function CompareStatLoader({
+  vaultId,
+  stat,
+  bucket,
+}: CompareStatLoaderProps) {
+  const depositToken = useAppSelector(state => selectDepositTokenByVaultId(state, vaultId));
+  useHistoricalStatLoader(stat, vaultId, depositToken.oracleId, bucket);
+  return null;
+});
+
+type CompareGraphProps = {
+  vaultIds: VaultEntity['id'][];
+  stat: CompareStat;
+  bucket: ApiTimeBucket;
+};
+
+const CompareGraph = memo(function CompareGraph({ vaultIds, stat, bucket }: CompareGraphProps) {
+  const isMobile = useBreakpoint({ to: 'xs' });
+  const series = useAppSelector(
+    state =>
+      vaultIds.map(vaultId =>
+        stat === 'apy' ?
+          selectHistoricalApyBucketData(state, vaultId, bucket)
+        : selectHistoricalTvlBucketData(state, vaultId, bucket)
+      ),
+    shallowEqual
+  );
+  const data = useMemo(() => {
+    const { startEpoch } = getBucketParams(bucket);
+    const rowsByT = new Map<number, CompareChartRow>();
+    series.forEach((points, i) => {
+      for (const point of points || []) {
+        if (point.t < startEpoch) {
+          continue;
+        }
+        let row = rowsByT.get(point.t);
+        if (!row) {
+          row = { t: point.t } as CompareChartRow;
+          rowsByT.set(point.t, row);
+        }
+        row[vaultIds[i]] = point.v;
+      }
+    });
+    return Array.from(rowsByT.values()).sort((a, b) => a.t - b.t);
+  }, [series, vaultIds, bucket]);
+  const isLoading = series.some(points => points === undefined);
+
+  const valueFormatter = useMemo(
+    () =>
+      stat === 'apy' ?
+        (value: number) => formatLargePercent(value)
+      : (value: number) => formatUsd(value),
+    [stat]
+  );
+  const xTickFormatter = useCallback(
+    (value: number) => formatDateTimeTick(value, bucket),
+    [bucket]
+  );
+  const chartMargin = useMemo(
+    () => ({ top: 14, right: isMobile ? 16 : 24, bottom: 0, left: isMobile ? 16 : 24 }),
+    [isMobile]
+  );
+  const tooltipContentCreator = useCallback(
+    (props: TooltipProps<number, string>) => (
+      <CompareTooltip {...props} vaultIds={vaultIds} valueFormatter={valueFormatter} />
+    ),
+    [vaultIds, valueFormatter]
+  );
+
+  if (!data.length) {
+    return (
+      <div className={graphClass}>
+        {isLoading ?
+          <GraphLoader imgHeight={220} />
+        : <GraphNoData reason="wait-collect" />}
+      </div>
+    );
+  }
+
+  return (
+    <div className={graphClass}>
+      <ResponsiveContainer height={250}>
+        <LineChart data={data} margin={chartMargin} className={chartClass}>
+          <CartesianGrid strokeDasharray="2 2" stroke="#363B63" />
+          <XAxis
+            dataKey="t"
+            tickMargin={10}
+            tickFormatter={xTickFormatter}
+            interval={getXInterval(data.length, isMobile)}
+            stroke="#363B63"
+            tick={XAxisTick}
+            padding="no-gap"
+          />
+          <YAxis tickFormatter={valueFormatter} mirror={true} stroke="#363B63" />
+          {vaultIds.map((vaultId, i) => (
+            <Line
+              key={vaultId}
+              dataKey={vaultId}
+              stroke={LINE_COLORS[i]}
+              strokeWidth={1.5}
+              dot={false}
+              connectNulls={true}
+              isAnimationActive={false}
+            />
+          ))}
+          <Tooltip
+            content={tooltipContentCreator}
+            wrapperStyle={{ outline: 'none', zIndex: token('zIndex.tooltip') }}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+});
+
+type CompareTooltipProps = TooltipProps<number, string> & {
+  vaultIds: VaultEntity['id'][];
+  valueFormatter: (value: number) => string;
+};
+
+const CompareTooltip = memo(function CompareTooltip({
+  active,
+  payload,
+  vaultIds,
+  valueFormatter,
+}: CompareTooltipProps) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+  const row = payload[0].payload as CompareChartRow;
+
+  return (
+    <div className={tooltipClass}>
+      <div className={tooltipTimeClass}>{format(fromUnixTime(row.t), 'MMM d, yyyy h:mm a')}</div>
+      {vaultIds.map((vaultId, i) => (
+        <div key={vaultId} className={tooltipRowClass}>
+          <LegendItem vaultId={vaultId} color={LINE_COLORS[i]} />
+          <span>{row[vaultId] !== undefined ? valueFormatter(row[vaultId]) : '-'}</span>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+const LegendItem = memo(function LegendItem({
+  vaultId,
+  color,
+}: {
+  vaultId: VaultEntity['id'];
+  color: string;
+}) {
+  const vault = useAppSelector(state => selectVaultById(state, vaultId));
+
+  return (
+    <div className={legendItemClass}>
+      <div className={legendLineClass} style={{ backgroundColor: color }} />
+      {vault.names.list}
+    </div>
+  );
+});
+
+function formatDateTimeTick(timestamp: number, bucket: ApiTimeBucket) {
+  const date = fromUnixTime(timestamp);
+  if (bucket === '1h_1d') {
+    return format(date, 'HH:mm');
+  }
+  return date.toLocaleDateString(undefined, { month: 'numeric', day: 'numeric' });
+}
+
+const containerClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '1px',
+  borderRadius: '12px',
+  overflow: 'hidden',
+});
+
+const headerClass = css({
+  display: 'flex',
+  padding: '12px 24px',
+  backgroundColor: 'background.content.dark',
+  mdDown: {
+    padding: '8px 16px',
+  },
+});
+
+const graphClass = css({
+  backgroundColor: 'background.content',
+  padding: '16px 0px',
+});
+
+const chartClass = css({
+  '& text': {
+    textStyle: 'subline.sm',
+    fill: 'text.dark',
+  },
+});
+
+const footerClass = css({
+  display: 'flex',
+  flexWrap: 'wrap',
+  gap: '16px',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  padding: '12px 24px',
+  backgroundColor: 'background.content',
+  mdDown: {
+    padding: '8px 16px',
+  },
+});
+
+const legendClass = css({
+  display: 'flex',
+  flexWrap: 'wrap',
+  gap: '8px 24px',
+});
+
+const legendItemClass = css({
+  textStyle: 'subline.sm',
+  color: 'text.dark',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+});
+
+const legendLineClass = css({
+  height: '2px',
+  width: '12px',
+  flexShrink: 0,
+});
+
+const tooltipClass = css({
+  textStyle: 'body',
+  color: 'text.lightest',
+  padding: '12px 16px',
+  minWidth: '250px',
+  background: 'graphTooltipBackground',
+  borderRadius: '8px',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '8px',
+});
+
+const tooltipTimeClass = css({
+  textStyle: 'body.sm',
+  color: 'text.dark',
+});
+
+const tooltipRowClass = css({
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  gap: '16px',
+});
@@ -0,0 +1,318 @@
+import { type ReactNode, memo, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { css } from '@repo/styles/css';
+import { useAppSelector } from '../../../store.ts';
+import type { VaultEntity } from '../../data/entities/vault.ts';
+import { selectVaultById, selectVaultLastHarvestByVaultId } from '../../data/selectors/vaults.ts';
+import { selectVaultTotalApyOrUndefined } from '../../data/selectors/apy.ts';
+import { selectAreFeesLoaded, selectFeesByVaultId } from '../../data/selectors/fees.ts';
+import { selectVaultTvl } from '../../data/selectors/tvl.ts';
+import { selectVaultSupportsZap } from '../../data/selectors/zap.ts';
+import { SCORED_RISKS } from '../../../config/risk.ts';
+import { formatLargePercent, formatLargeUsd, formatTotalApy } from '../../../helpers/format.ts';
+import {
+  getApyComponents,
+  getApyLabelsForType,
+  getApyLabelsTypeForVault,
+} from '../../../helpers/apy.ts';
+import { Section } from '../../../components/Section/Section.tsx';
+import { VaultIdentity } from '../../../components/VaultIdentity/VaultIdentity.tsx';
+import { VaultPlatform } from '../../../components/VaultPlatform/VaultPlatform.tsx';
+import { SafetyScore } from '../../../components/SafetyScore/SafetyScore.tsx';
+import { TextLoader } from '../../../components/TextLoader/TextLoader.tsx';
+import CloseIcon from '../../../images/icons/mui/Close.svg?react';
+
+type CompareTableProps = {
+  vaultIds: VaultEntity['id'][];
+  onRemove: (vaultId: VaultEntity['id']) => void;
+};
+
+type CompareCellProps = {
+  vaultId: VaultEntity['id'];
+};
+
+type CompareRow = {
+  label: string;
+  Cell: (props: CompareCellProps) => ReactNode;
+};
+
+export const CompareTable = memo(function CompareTable({ vaultIds, onRemove }: CompareTableProps) {
+  const { t } = useTranslation();
+  const rows = useMemo(
+    (): CompareRow[] => [
+      { label: t('Compare-Row-Apy'), Cell: ApyCell },
+      { label: t('Compare-Row-Fees'), Cell: FeesCell },
+      { label: t('Safety-Score1'), Cell: SafetyCell },
+      { label: t('TVL'), Cell: TvlCell },
+      { label: t('Vault-platform'), Cell: PlatformCell },
+      { label: t('Vault-Strategy'), Cell: StrategyCell },
+      { label: t('Vault-LastHarvest'), Cell: LastHarvestCell },
+      { label: t('Compare-Row-Zap'), Cell: ZapCell },
+    ],
+    [t]
+  );
+  const gridStyle = useMemo(
+    () => ({ gridTemplateColumns: `160px repeat(${vaultIds.length}, minmax(220px, 1fr))` }),
+    [vaultIds.length]
+  );
+
+  return (
+    <Section>
+      <div className={scrollClass}>
+        <div className={gridClass} style={gridStyle}>
+          <div className={cornerClass} />
+          {vaultIds.map(vaultId => (
+            <VaultHeaderCell key={vaultId} vaultId={vaultId} onRemove={onRemove} />
+          ))}
+          {rows.map(({ label, Cell }) => (
+            <CompareTableRow key={label} label={label} vaultIds={vaultIds} Cell={Cell} />
+          ))}
+        </div>
+      </div>
+    </Section>
+  );
+});
+
+const CompareTableRow = memo(function CompareTableRow({
+  label,
+  vaultIds,
+  Cell,
+}: CompareRow & Pick<CompareTableProps, 'vaultIds'>) {
+  return (
+    <>
+      <div className={labelClass}>{label}</div>
+      {vaultIds.map(vaultId => (
+        <div key={vaultId} className={cellClass}>
+          <Cell vaultId={vaultId} />
+        </div>
+      ))}
+    </>
+  );
+});
+
+const VaultHeaderCell = memo(function VaultHeaderCell({
+  vaultId,
+  onRemove,
+}: CompareCellProps & Pick<CompareTableProps, 'onRemove'>) {
+  const { t } = useTranslation();
+  const handleRemove = useCallback(() => {
+    onRemove(vaultId);
+  }, [onRemove, vaultId]);
+
+  return (
+    <div className={headerClass}>
+      <VaultIdentity vaultId={vaultId} isLink={true} />
+      <button
+        type="button"
+        onClick={handleRemove}
+        className={removeClass}
+        title={t('Compare-Remove')}
+      >
+        <CloseIcon width={20} height={20} />
+      </button>
+    </div>
+  );
+});
+
+const ApyCell = memo(function ApyCell({ vaultId }: CompareCellProps) {
+  const { t } = useTranslation();
+  const vault = useAppSelector(state => selectVaultById(state, vaultId));
+  const values = useAppSelector(state => selectVaultTotalApyOrUndefined(state, vaultId));
+  const formatted = useMemo(() => (values ? formatTotalApy(values) : undefined), [values]);
+
+  if (!values || !formatted) {
+    return <TextLoader placeholder="00.00%" />;
+  }
+
+  const labels = getApyLabelsForType(getApyLabelsTypeForVault(vault, values.totalType));
+  const isBoosted = !!values.boostedTotalApy;
+
+  return (
+    <div className={listClass}>
+      <div className={totalClass}>{isBoosted ? formatted.boostedTotalApy : formatted.totalApy}</div>
+      {getApyComponents().yearly.map(key =>
+        values[key] ?
+          <div key={key} className={listRowClass}>
+            <span>{t(labels[key])}</span>
+            <span>{formatted[key]}</span>
+          </div>
+        : null
+      )}
+    </div>
+  );
+});
+
+const FeesCell = memo(function FeesCell({ vaultId }: CompareCellProps) {
+  const { t } = useTranslation();
+  const areFeesLoaded = useAppSelector(selectAreFeesLoaded);
+  const fees = useAppSelector(state => selectFeesByVaultId(state, vaultId));
+
+  if (!areFeesLoaded) {
+    return <TextLoader placeholder="0.0%" />;
+  }
+  if (!fees) {
+    return '?';
+  }
+
+  return (
+    <div className={listClass}>
+      <div className={listRowClass}>
+        <span>{t('Transact-Fee-TotalFee')}</span>
+        <span>{formatLargePercent(fees.total, 2, '0%')}</span>
+      </div>
+      <div className={listRowClass}>
+        <span>{t('Transact-Fee-Deposit')}</span>
+        <span>{formatLargePercent(fees.deposit ?? 0, 2, '0%')}</span>
+      </div>
+      <div className={listRowClass}>
+        <span>{t('Transact-Fee-Withdraw')}</span>
+        <span>{formatLargePercent(fees.withdraw, 2, '0%')}</span>
+      </div>
+    </div>
+  );
+});
+
+const SafetyCell = memo(function SafetyCell({ vaultId }: CompareCellProps) {
+  const { t } = useTranslation();
+  const vault = useAppSelector(state => selectVaultById(state, vaultId));
+
+  return (
+    <div className={listClass}>
+      <div className={scoreClass}>
+        {vault.safetyScore.toFixed(1)}
+        <SafetyScore score={vault.safetyScore} size="sm" />
+      </div>
+      {vault.risks.map(risk =>
+        SCORED_RISKS[risk] ?
+          <div
+            key={risk}
+            className={css(listRowCss, SCORED_RISKS[risk].score <= 0 ? riskUpCss : riskDownCss)}
+          >
+            {t(SCORED_RISKS[risk].title, { ns: 'risks' })}
+          </div>
+        : null
+      )}
+    </div>
+  );
+});
+
+const TvlCell = memo(function TvlCell({ vaultId }: CompareCellProps) {
+  const tvl = useAppSelector(state => selectVaultTvl(state, vaultId));
+  return <div className={totalClass}>{formatLargeUsd(tvl)}</div>;
+});
+
+const PlatformCell = memo(function PlatformCell({ vaultId }: CompareCellProps) {
+  return <VaultPlatform vaultId={vaultId} />;
+});
+
+const StrategyCell = memo(function StrategyCell({ vaultId }: CompareCellProps) {
+  const { t } = useTranslation();
+  const vault = useAppSelector(state => selectVaultById(state, vaultId));
+
+  return (
+    <div className={listClass}>
+      <div>{t(`Compare-VaultType-${vault.type}`)}</div>
+      <div className={mutedClass}>{vault.strategyTypeId}</div>
+    </div>
+  );
+});
+
+const LastHarvestCell = memo(function LastHarvestCell({ vaultId }: CompareCellProps) {
+  const lastHarvest = useAppSelector(state => selectVaultLastHarvestByVaultId(state, vaultId));
+  return lastHarvest ? formatDistanceToNowStrict(lastHarvest, { addSuffix: true }) : '-';
+});
+
+const ZapCell = memo(function ZapCell({ vaultId }: CompareCellProps) {
+  const { t } = useTranslation();
+  const supportsZap = useAppSelector(state => selectVaultSupportsZap(state, vaultId));
+  return t(supportsZap ? 'Compare-Zap-Yes' : 'Compare-Zap-No');
+});
+
+const scrollClass = css({
+  overflowX: 'auto',
+  borderRadius: '12px',
+});
+
+const gridClass = css({
+  display: 'grid',
+  backgroundColor: 'background.content',
+  minWidth: 'fit-content',
+});
+
+const headerClass = css({
+  display: 'flex',
+  alignItems: 'flex-start',
+  justifyContent: 'space-between',
+  gap: '8px',
+  padding: '16px',
+  backgroundColor: 'background.content.dark',
+});
+
+const cornerClass = css({
+  backgroundColor: 'background.content.dark',
+});
+
+const labelClass = css({
+  textStyle: 'subline.sm',
+  color: 'text.dark',
+  padding: '16px',
+  borderTop: 'solid 2px {colors.background.content.dark}',
+});
+
+const cellClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+  padding: '16px',
+  borderTop: 'solid 2px {colors.background.content.dark}',
+});
+
+const removeClass = css({
+  flexShrink: 0,
+  color: 'text.dark',
+  _hover: {
+    color: 'text.light',
+    cursor: 'pointer',
+  },
+});
+
+const listClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '4px',
+});
+
+const listRowCss = css.raw({
+  display: 'flex',
+  justifyContent: 'space-between',
+  gap: '8px',
+  textStyle: 'body.sm',
+});
+
+const listRowClass = css(listRowCss);
+
+const totalCss = css.raw({
+  textStyle: 'body.medium',
+  color: 'text.light',
+});
+
+const totalClass = css(totalCss);
+
+const scoreClass = css(totalCss, {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+});
+
+const mutedClass = css({
+  textStyle: 'body.sm',
+  color: 'text.dark',
+});
+
+const riskUpCss = css.raw({
+  color: 'indicators.success',
+});
+
+const riskDownCss = css.raw({
+  color: 'indicators.warning',
+});
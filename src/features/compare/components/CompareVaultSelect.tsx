@@ -0,0 +1,66 @@
+import { memo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { createSelector } from '@reduxjs/toolkit';
+import { useAppSelector } from '../../../store.ts';
+import type { BeefyState } from '../../../redux-types.ts';
+import type { VaultEntity } from '../../data/entities/vault.ts';
+import { selectAllVisibleVaultIds } from '../../data/selectors/vaults.ts';
+import { SelectMultiple } from '../../../components/Form/Select/Multi/SelectMultiple.tsx';
+import { MAX_COMPARE_VAULTS } from '../hooks.ts';
+
+const selectCompareVaultOptions = createSelector(
+  selectAllVisibleVaultIds,
+  (state: BeefyState) => state.entities.vaults.byId,
+  (state: BeefyState) => state.entities.chains.byId,
+  (vaultIds, vaultsById, chainsById) =>
+    vaultIds
+      .map(id => vaultsById[id])
+      .filter(vault => !!vault)
+      .map(vault => ({
+        value: vault.id,
+        label: `${vault.names.list} (${chainsById[vault.chainId]?.name || vault.chainId})`,
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+);
+
+type CompareVaultSelectProps = {
+  vaultIds: VaultEntity['id'][];
+  onChange: (vaultIds: VaultEntity['id'][]) => void;
+};
+
+export const CompareVaultSelect = memo(function CompareVaultSelect({
+  vaultIds,
+  onChange,
+}: CompareVaultSelectProps) {
+  const { t } = useTranslation();
+  const options = useAppSelector(selectCompareVaultOptions);
+
+  const handleChange = useCallback(
+    (selected: VaultEntity['id'][]) => {
+      // once the max is reached, vaults can only be removed
+      if (selected.length > MAX_COMPARE_VAULTS) {
+        return;
+      }
+      // keep the existing column order, new vaults are added at the end
+      onChange([
+        ...vaultIds.filter(id => selected.includes(id)),
+        ...selected.filter(id => !vaultIds.includes(id)),
+      ]);
+    },
+    [onChange, vaultIds]
+  );
+
+  return (
+    <SelectMultiple
+      searchEnabled={true}
+      labelPrefix={t('Compare-Vaults')}
+      unselectedLabel={t('Compare-Select')}
+      onChange={handleChange}
+      selected={vaultIds}
+      options={options}
+      placement="bottom-end"
+      layer={1}
+      variant="light"
+    />
+  );
+});
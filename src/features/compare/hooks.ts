@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router';
+import { shallowEqual } from 'react-redux';
+import { useAppSelector } from '../../store.ts';
+import type { VaultEntity } from '../data/entities/vault.ts';
+import { selectVaultByIdOrUndefined } from '../data/selectors/vaults.ts';
+
+export const MAX_COMPARE_VAULTS = 3;
+
+/** known vault ids from the `ids` query param, and a setter that updates the url */
+export function useCompareVaultIds() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const idsParam = searchParams.get('ids') || '';
+  const requestedIds = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          idsParam
+            .split(',')
+            .map(id => id.trim())
+            .filter(Boolean)
+        )
+      ).slice(0, MAX_COMPARE_VAULTS),
+    [idsParam]
+  );
+  const vaultIds = useAppSelector(
+    state => requestedIds.filter(id => !!selectVaultByIdOrUndefined(state, id)),
+    shallowEqual
+  );
+
+  const setVaultIds = useCallback(
+    (ids: VaultEntity['id'][]) => {
+      setSearchParams(
+        params => {
+          if (ids.length) {
+            params.set('ids', ids.slice(0, MAX_COMPARE_VAULTS).join(','));
+          } else {
+            params.delete('ids');
+          }
+          return params;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return { vaultIds, unknownIds: requestedIds.length - vaultIds.length, setVaultIds };
+}
@@ -9,6 +9,7 @@ import {
   NotConnected,
 } from './components/NoResults/NoResults.tsx';
 import { UserExposure } from './components/UserExposure/UserExposure.tsx';
+import { PortfolioGraph } from './components/PortfolioGraph/PortfolioGraph.tsx';
 import { UserVaults } from './components/UserVaults/UserVaults.tsx';
 import { styles } from './styles.ts';
 import { useInitDashboard } from './hooks.tsx';
@@ -23,6 +24,8 @@ import { DashboardMeta } from '../../components/Meta/DashboardMeta.tsx';
 import { UnstakedClmBannerDashboard } from '../../components/Banners/UnstakedClmBanner/UnstakedClmBannerDashboard.tsx';
 import { DepositSummary, DepositSummaryPlaceholder } from './components/DepositSummary.tsx';
 import { Header } from './components/Header.tsx';
+import { ExportPortfolio } from './components/ExportPortfolio/ExportPortfolio.tsx';
+import { WatchButton } from './components/WatchButton/WatchButton.tsx';
 
 const useStyles = legacyMakeStyles(styles);
 
@@ -121,7 +124,18 @@ const DashboardForAddress = memo(function DashboardForAddress({
     <DashboardContainer>
       <DashboardMeta wallet={addressLabel || address} />
       <UnstakedClmBannerDashboard address={address} />
-      <Header address={address} addressLabel={addressLabel}>
+      <Header
+        address={address}
+        addressLabel={addressLabel}
+        actions={
+          loading ? undefined : (
+            <>
+              <WatchButton address={address} addressLabel={addressLabel} />
+              {userVaults.length > 0 ? <ExportPortfolio address={address} /> : null}
+            </>
+          )
+        }
+      >
         {loading ? <DepositSummaryPlaceholder /> : <DepositSummary address={address} />}
       </Header>
       {loading ? (
@@ -129,6 +143,7 @@ const DashboardForAddress = memo(function DashboardForAddress({
       ) : userVaults.length > 0 ? (
         <>
           <UserExposure address={address} />
+          <PortfolioGraph address={address} />
           <UserVaults address={address} />
         </>
       ) : (
@@ -0,0 +1,98 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppStore } from '../../../../store.ts';
+import { Button } from '../../../../components/Button/Button.tsx';
+import { selectDashboardUserExport } from '../../../data/selectors/dashboard.ts';
+import { downloadObjectAsJsonFile, downloadRowsAsCsvFile } from '../../../../helpers/download.ts';
+import { selectUserTaxLots } from '../../../data/selectors/analytics.ts';
+import type { CostBasisMethod } from '../../../../helpers/pnl.ts';
+import { Select } from '../../../../components/Form/Select/Single/Select.tsx';
+import type { SelectItem } from '../../../../components/Form/Select/types.ts';
+import { taxLotsToCsvRows } from './tax-report.ts';
+
+type ExportPortfolioProps = {
+  address: string;
+};
+
+export const ExportPortfolio = memo(function ExportPortfolio({ address }: ExportPortfolioProps) {
+  const { t } = useTranslation();
+  const store = useAppStore();
+  const [taxMethod, setTaxMethod] = useState<CostBasisMethod>('fifo');
+  const taxMethodOptions = useMemo(
+    (): SelectItem<CostBasisMethod>[] => [
+      { value: 'fifo', label: t('Dashboard-Export-Tax-fifo') },
+      { value: 'lifo', label: t('Dashboard-Export-Tax-lifo') },
+      { value: 'hifo', label: t('Dashboard-Export-Tax-hifo') },
+    ],
+    [t]
+  );
+
+  const getExport = useCallback(() => {
+    const data = selectDashboardUserExport(store.getState(), address);
+    const date = new Date().toISOString().slice(0, 10);
+    return { data, filename: `beefy-${address}-${date}` };
+  }, [store, address]);
+
+  const handlePositionsCsv = useCallback(() => {
+    const { data, filename } = getExport();
+    downloadRowsAsCsvFile(
+      data.positions.map(({ underlying, ...position }) => ({
+        ...position,
+        underlying: underlying
+          .map(token => `${token.amount.toString(10)} ${token.symbol}`)
+          .join(' + '),
+      })),
+      `${filename}-positions.csv`
+    );
+  }, [getExport]);
+
+  const handleTransactionsCsv = useCallback(() => {
+    const { data, filename } = getExport();
+    downloadRowsAsCsvFile(data.transactions, `${filename}-transactions.csv`);
+  }, [getExport]);
+
+  const handleJson = useCallback(() => {
+    const { data, filename } = getExport();
+    downloadObjectAsJsonFile(data, `${filename}.json`);
+  }, [getExport]);
+
+  const handleTax = useCallback(() => {
+    const { filename } = getExport();
+    const lots = selectUserTaxLots(store.getState(), taxMethod, address);
+    downloadRowsAsCsvFile(taxLotsToCsvRows(lots), `${filename}-tax-${taxMethod}.csv`);
+  }, [getExport, store, taxMethod, address]);
+
+  return (
+    <div className={containerClass}>
+      <span>{t('Dashboard-Export')}</span>
+      <Button size="xs" variant="filter" onClick={handlePositionsCsv}>
+        {t('Dashboard-Export-Csv-Positions')}
+      </Button>
+      <Button size="xs" variant="filter" onClick={handleTransactionsCsv}>
+        {t('Dashboard-Export-Csv-Transactions')}
+      </Button>
+      <Button size="xs" variant="filter" onClick={handleJson}>
+        {t('Dashboard-Export-Json')}
+      </Button>
+      <Select
+        options={taxMethodOptions}
+        selected={taxMethod}
+        onChange={setTaxMethod}
+        size="xs"
+        variant="filter"
+      />
+      <Button size="xs" variant="filter" onClick={handleTax}>
+        {t('Dashboard-Export-Tax')}
+      </Button>
+    </div>
+  );
+});
+
+const containerClass = css({
+  display: 'flex',
+  alignItems: 'center',
+  columnGap: '8px',
+  textStyle: 'body.sm.medium',
+  color: 'text.dark',
+});
@@ -0,0 +1,37 @@
+import type { UserTaxLot } from '../../../data/selectors/analytics-types.ts';
+
+const LONG_TERM_MS = 365 * 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date | undefined): string {
+  if (!date) {
+    return '';
+  }
+  const month = (date.getUTCMonth() + 1).toString().padStart(2, '0');
+  const day = date.getUTCDate().toString().padStart(2, '0');
+  return `${month}/${day}/${date.getUTCFullYear()}`;
+}
+
+function getHoldingPeriod(lot: UserTaxLot): string {
+  if (!lot.acquiredAt || !lot.disposedAt) {
+    return '';
+  }
+  return lot.disposedAt.getTime() - lot.acquiredAt.getTime() > LONG_TERM_MS ? 'Long' : 'Short';
+}
+
+/**
+ * Form 8949 style columns, as accepted by the CSV importers of most crypto tax tools
+ */
+export function taxLotsToCsvRows(lots: UserTaxLot[]) {
+  return lots.map(lot => ({
+    Description: `${lot.shares.decimalPlaces(8).toString(10)} ${lot.vaultName} shares`,
+    'Date Acquired': formatDate(lot.acquiredAt),
+    'Date Sold': formatDate(lot.disposedAt),
+    Proceeds: lot.proceedsUsd.decimalPlaces(2),
+    'Cost Basis': lot.costBasisUsd.decimalPlaces(2),
+    'Gain or Loss': lot.gainUsd.decimalPlaces(2),
+    'Holding Period': getHoldingPeriod(lot),
+    Vault: lot.vaultId,
+    Chain: lot.chainId,
+    'Transaction Hash': lot.transactionHash || '',
+  }));
+}
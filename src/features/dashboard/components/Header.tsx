@@ -8,10 +8,17 @@ import { useTranslation } from 'react-i18next';
 type HeaderProps = {
   address: string;
   addressLabel?: string;
+  /** rendered next to the address input */
+  actions?: ReactNode;
   children?: ReactNode;
 };
 
-export const Header = memo(function Header({ address, addressLabel, children }: HeaderProps) {
+export const Header = memo(function Header({
+  address,
+  addressLabel,
+  actions,
+  children,
+}: HeaderProps) {
   const { t } = useTranslation();
 
   return (
@@ -22,7 +29,8 @@ export const Header = memo(function Header({ address, addressLabel, children }:
             {t('Dashboard-Title')}
             <ShortAddress address={address} addressLabel={addressLabel} />
           </div>
-          <div>
+          <div className={inputActionsClass}>
+            {actions}
             <AddressInput />
           </div>
         </div>
@@ -50,6 +58,17 @@ const titleSearchClass = css({
   },
 });
 
+const inputActionsClass = css({
+  display: 'flex',
+  alignItems: 'center',
+  columnGap: '16px',
+  mdDown: {
+    flexDirection: 'column-reverse',
+    alignItems: 'stretch',
+    rowGap: '12px',
+  },
+});
+
 const titleClass = css({
   display: 'flex',
   columnGap: '8px',
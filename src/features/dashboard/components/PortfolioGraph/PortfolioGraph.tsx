@@ -0,0 +1,280 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { css } from '@repo/styles/css';
+import { token } from '@repo/styles/tokens';
+import { useAppSelector } from '../../../../store.ts';
+import type { VaultEntity } from '../../../data/entities/vault.ts';
+import { selectDashboardUserTimelineVaultIds } from '../../../data/selectors/dashboard.ts';
+import { selectVaultById } from '../../../data/selectors/vaults.ts';
+import { hasShareToUnderlyingHistory } from '../../../data/utils/vault-utils.ts';
+import { useVaultIdToUnderlyingUsdPrices } from '../../../data/hooks/historical.tsx';
+import { useVaultIdToShareToUnderlying } from '../../../data/hooks/analytics.tsx';
+import type { GraphBucket } from '../../../../helpers/graph/types.ts';
+import { makeUsdTickFormatter } from '../../../../helpers/graph/graph.ts';
+import { useXAxis, useYAxis } from '../../../../helpers/graph/hooks.tsx';
+import { Section } from '../../../../components/Section/Section.tsx';
+import { ToggleButtons } from '../../../../components/ToggleButtons/ToggleButtons.tsx';
+import { XAxisTick } from '../../../../components/XAxisTick/XAxisTick.tsx';
+import { GraphNoData } from '../../../../components/GraphNoData/GraphNoData.tsx';
+import { useBreakpoint } from '../../../../components/MediaQueries/useBreakpoint.ts';
+import { GraphLoader } from '../../../vault/components/GraphLoader/Loader.tsx';
+import { PortfolioTooltip } from './PortfolioTooltip.tsx';
+import { usePortfolioChartData } from './hooks.ts';
+
+const PORTFOLIO_TIME_BUCKETS = [
+  '1h_1w',
+  '1d_1M',
+  '1d_1Y',
+  '1d_all',
+] as const satisfies GraphBucket[];
+const PORTFOLIO_PERIOD_LABELS = ['1W', '1M', '1Y', 'ALL'];
+
+const DEPOSITED_COLOR = '#5C70D6';
+const YIELD_COLOR = '#4DB258';
+const PNL_COLOR = '#D6D05C';
+
+export type PortfolioGraphProps = {
+  address: string;
+};
+
+export const PortfolioGraph = memo(function PortfolioGraph({ address }: PortfolioGraphProps) {
+  const { t } = useTranslation();
+  const vaultIds = useAppSelector(state => selectDashboardUserTimelineVaultIds(state, address));
+  const [period, setPeriod] = useState<number>(PORTFOLIO_TIME_BUCKETS.length - 1);
+  const timeBucket = PORTFOLIO_TIME_BUCKETS[period];
+  const options = useMemo(
+    () => PORTFOLIO_PERIOD_LABELS.map((label, index) => ({ value: index.toString(), label })),
+    []
+  );
+  const handlePeriod = useCallback((newValue: string) => setPeriod(Number(newValue)), []);
+
+  if (!vaultIds.length) {
+    return null;
+  }
+
+  return (
+    <Section title={t('Dashboard-Portfolio-History')}>
+      {vaultIds.map(vaultId => (
+        <VaultHistoryLoader key={vaultId} vaultId={vaultId} timeBucket={timeBucket} />
+      ))}
+      <div className={cardClass}>
+        <Legend />
+        <Graph address={address} timeBucket={timeBucket} />
+        <div className={footerClass}>
+          <ToggleButtons
+            value={period.toString()}
+            options={options}
+            onChange={handlePeriod}
+            noBackground={true}
+            noPadding={true}
+            noBorder={true}
+            variant="range"
+          />
+        </div>
+      </div>
+    </Section>
+  );
+});
+
+type VaultHistoryLoaderProps = {
+  vaultId: VaultEntity['id'];
+  timeBucket: GraphBucket;
+};
+
+const VaultHistoryLoader = memo(function VaultHistoryLoader({
+  vaultId,
+  timeBucket,
+}: VaultHistoryLoaderProps) {
+  const vault = useAppSelector(state => selectVaultById(state, vaultId));
+  useVaultIdToUnderlyingUsdPrices(vaultId, timeBucket);
+
+  return hasShareToUnderlyingHistory(vault) ?
+      <ShareHistoryLoader vaultId={vaultId} timeBucket={timeBucket} />
+    : null;
+});
+
+const ShareHistoryLoader = memo(function ShareHistoryLoader({
+  vaultId,
+  timeBucket,
+}: VaultHistoryLoaderProps) {
+  useVaultIdToShareToUnderlying(vaultId, timeBucket);
+  return null;
+});
+
+type GraphProps = {
+  address: string;
+  timeBucket: GraphBucket;
+};
+
+const Graph = memo(function Graph({ address, timeBucket }: GraphProps) {
+  const xsDown = useBreakpoint({ to: 'xs' });
+  const chartMargin = useMemo(() => {
+    const xMargin = xsDown ? 16 : 24;
+    return { top: 14, right: xMargin, bottom: 0, left: xMargin };
+  }, [xsDown]);
+  const { chartData, isLoading } = usePortfolioChartData(address, timeBucket);
+  const { data, minUsd, maxUsd } = chartData;
+  const usdAxis = useYAxis(minUsd, maxUsd, makeUsdTickFormatter);
+  const dateAxis = useXAxis(timeBucket, data.length, xsDown);
+  const usdFormatter = useMemo(() => makeUsdTickFormatter(), []);
+
+  if (isLoading) {
+    return <GraphLoader imgHeight={220} />;
+  }
+
+  if (!data.length) {
+    return <GraphNoData reason="wait-collect" />;
+  }
+
+  return (
+    <div className={graphContainerClass}>
+      <ResponsiveContainer width="100%" height={240}>
+        <LineChart width={450} height={240} data={data} margin={chartMargin}>
+          <CartesianGrid strokeDasharray="2 2" stroke="#363B63" />
+          <XAxis
+            tickFormatter={dateAxis.formatter}
+            dataKey="t"
+            padding="no-gap"
+            tickMargin={10}
+            stroke="#363B63"
+            interval={dateAxis.interval}
+            tick={XAxisTick}
+          />
+          <Line
+            yAxisId="deposited"
+            strokeWidth={1.5}
+            dataKey="depositedUsd"
+            stroke={DEPOSITED_COLOR}
+            dot={false}
+            type="linear"
+          />
+          <Line
+            yAxisId="change"
+            strokeWidth={1.5}
+            dataKey="yieldUsd"
+            stroke={YIELD_COLOR}
+            dot={false}
+            type="linear"
+          />
+          <Line
+            yAxisId="change"
+            strokeWidth={1.5}
+            dataKey="pnlUsd"
+            stroke={PNL_COLOR}
+            dot={false}
+            type="linear"
+          />
+          <YAxis
+            stroke={DEPOSITED_COLOR}
+            strokeWidth={1.5}
+            tickFormatter={usdAxis.formatter}
+            yAxisId="deposited"
+            domain={usdAxis.domain}
+            ticks={usdAxis.ticks}
+            mirror={true}
+          />
+          {/* yield and pnl can be negative */}
+          <YAxis
+            stroke={YIELD_COLOR}
+            orientation="right"
+            strokeWidth={1.5}
+            tickFormatter={usdFormatter}
+            yAxisId="change"
+            domain={['auto', 'auto']}
+            mirror={true}
+          />
+          <Tooltip
+            wrapperStyle={{ outline: 'none', zIndex: token('zIndex.tooltip') }}
+            content={<PortfolioTooltip />}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+});
+
+const Legend = memo(function Legend() {
+  const { t } = useTranslation();
+
+  return (
+    <div className={legendClass}>
+      <LegendItem color={DEPOSITED_COLOR} text={t('Dashboard-Portfolio-Deposited')} />
+      <LegendItem color={YIELD_COLOR} text={t('Dashboard-Portfolio-Yield')} />
+      <LegendItem color={PNL_COLOR} text={t('Dashboard-Portfolio-Pnl')} />
+    </div>
+  );
+});
+
+type LegendItemProps = {
+  color: string;
+  text: string;
+};
+
+const LegendItem = memo(function LegendItem({ color, text }: LegendItemProps) {
+  return (
+    <div className={legendItemClass}>
+      <div className={colorReferenceClass} style={{ backgroundColor: color }} />
+      <div>{text}</div>
+    </div>
+  );
+});
+
+const cardClass = css({
+  backgroundColor: 'background.content',
+  borderRadius: '12px',
+  paddingTop: '16px',
+});
+
+const graphContainerClass = css({
+  padding: '16px 0px',
+  '& text': {
+    textStyle: 'subline.sm',
+    fill: 'text.dark',
+    '&.recharts-cartesian-axis-tick-value': {
+      textTransform: 'initial',
+    },
+  },
+});
+
+const legendClass = css({
+  display: 'flex',
+  columnGap: '24px',
+  alignItems: 'center',
+  padding: '0px 24px',
+  mdDown: {
+    padding: '0px 16px',
+  },
+});
+
+const legendItemClass = css({
+  textStyle: 'subline.sm',
+  color: 'text.dark',
+  display: 'flex',
+  columnGap: '8px',
+  alignItems: 'center',
+});
+
+const colorReferenceClass = css({
+  height: '2px',
+  width: '12px',
+});
+
+const footerClass = css({
+  display: 'flex',
+  justifyContent: 'flex-end',
+  padding: '12px 24px',
+  borderTop: 'solid 2px',
+  borderColor: 'background.content.dark',
+  mdDown: {
+    padding: '12px 16px',
+  },
+});
@@ -0,0 +1,66 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { css } from '@repo/styles/css';
+import { formatLargeUsd } from '../../../../helpers/format.ts';
+import type { PortfolioTimeseriesPoint } from '../../../../helpers/graph/timeseries.ts';
+
+interface PortfolioTooltipProps {
+  active?: boolean;
+  payload?: {
+    payload: PortfolioTimeseriesPoint;
+  }[];
+}
+
+export const PortfolioTooltip = memo(function PortfolioTooltip({
+  active,
+  payload,
+}: PortfolioTooltipProps) {
+  const { t } = useTranslation();
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const { t: timestamp, depositedUsd, yieldUsd, pnlUsd } = payload[0].payload;
+
+  return (
+    <div className={containerClass}>
+      <div>{format(new Date(timestamp), 'MMM d, yyyy h:mm a')}</div>
+      <div className={itemClass}>
+        <div>{t('Dashboard-Portfolio-Deposited')}</div>
+        <div className={valueClass}>{formatLargeUsd(depositedUsd)}</div>
+      </div>
+      <div className={itemClass}>
+        <div>{t('Dashboard-Portfolio-Yield')}</div>
+        <div className={valueClass}>{formatLargeUsd(yieldUsd)}</div>
+      </div>
+      <div className={itemClass}>
+        <div>{t('Dashboard-Portfolio-Pnl')}</div>
+        <div className={valueClass}>{formatLargeUsd(pnlUsd)}</div>
+      </div>
+    </div>
+  );
+});
+
+const containerClass = css({
+  textStyle: 'body',
+  color: 'text.lightest',
+  padding: '12px 16px',
+  minWidth: '250px',
+  background: 'graphTooltipBackground',
+  borderRadius: '8px',
+  textAlign: 'left',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '8px',
+});
+
+const itemClass = css({
+  display: 'flex',
+  justifyContent: 'space-between',
+  columnGap: '4px',
+});
+
+const valueClass = css({
+  fontWeight: 'medium',
+});
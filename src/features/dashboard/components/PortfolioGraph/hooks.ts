@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { maxBy, minBy } from 'lodash-es';
+import { useAppSelector } from '../../../../store.ts';
+import { selectDashboardUserPortfolioTimeseriesInputs } from '../../../data/selectors/dashboard.ts';
+import { getPortfolioTimeseries } from '../../../../helpers/graph/timeseries.ts';
+import type { GraphBucket } from '../../../../helpers/graph/types.ts';
+
+// Same object reference for empty chart data
+const NO_CHART_DATA = { data: [], minUsd: 0, maxUsd: 0 };
+
+export const usePortfolioChartData = (address: string, timeBucket: GraphBucket) => {
+  const { loading, vaults } = useAppSelector(state =>
+    selectDashboardUserPortfolioTimeseriesInputs(state, address, timeBucket)
+  );
+
+  const chartData = useMemo(() => {
+    if (!loading) {
+      const data = getPortfolioTimeseries(timeBucket, vaults);
+      if (data.length > 0) {
+        const minUsd = minBy(data, row => row.depositedUsd)?.depositedUsd || 0;
+        const maxUsd = maxBy(data, row => row.depositedUsd)?.depositedUsd || 0;
+        return { data, minUsd, maxUsd };
+      }
+    }
+
+    return NO_CHART_DATA;
+  }, [loading, vaults, timeBucket]);
+
+  return { chartData, isLoading: loading };
+};
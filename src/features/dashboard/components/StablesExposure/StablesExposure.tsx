@@ -14,11 +14,21 @@ interface StablesExposureProps {
 }
 
 export const StablesExposure = memo(function StablesExposure({ address }: StablesExposureProps) {
-  const { t } = useTranslation();
-  const classes = useStyles();
   const stablecoinsExposureData = useAppSelector(state =>
     selectDashboardUserStablecoinsExposure(state, address)
   );
+  return <StablesExposureBar data={stablecoinsExposureData} />;
+});
+
+interface StablesExposureBarProps {
+  data: Array<{ key: string; percentage: number }>;
+}
+
+export const StablesExposureBar = memo(function StablesExposureBar({
+  data: stablecoinsExposureData,
+}: StablesExposureBarProps) {
+  const { t } = useTranslation();
+  const classes = useStyles();
   const stablePercentage = stablecoinsExposureData.filter(item => item.key === 'stable');
   const percentage = Math.min(Math.max(0, (stablePercentage[0]?.percentage || 0) * 100), 100);
   const stableBarStyle = useMemo(
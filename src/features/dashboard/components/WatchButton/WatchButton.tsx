@@ -0,0 +1,47 @@
+import { memo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { watchlistActions } from '../../../data/reducers/watchlist.ts';
+import { selectIsAddressInWatchlist } from '../../../data/selectors/watchlist.ts';
+import { Button } from '../../../../components/Button/Button.tsx';
+import { ButtonLink } from '../../../../components/Button/ButtonLink.tsx';
+
+type WatchButtonProps = {
+  address: string;
+  addressLabel?: string;
+};
+
+export const WatchButton = memo(function WatchButton({ address, addressLabel }: WatchButtonProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const isWatched = useAppSelector(state => selectIsAddressInWatchlist(state, address));
+
+  const handleToggle = useCallback(() => {
+    if (isWatched) {
+      dispatch(watchlistActions.removeWatchlistAddress(address));
+    } else {
+      dispatch(watchlistActions.addWatchlistAddress({ address, domain: addressLabel }));
+    }
+  }, [dispatch, isWatched, address, addressLabel]);
+
+  return (
+    <div className={buttonsClass}>
+      <Button size="xs" variant="filter" onClick={handleToggle}>
+        {t(isWatched ? 'Dashboard-Unwatch' : 'Dashboard-Watch')}
+      </Button>
+      {isWatched ?
+        <ButtonLink size="xs" variant="filter" to="/watchlist">
+          {t('Dashboard-Watchlist')}
+        </ButtonLink>
+      : null}
+    </div>
+  );
+});
+
+const buttonsClass = css({
+  display: 'flex',
+  alignItems: 'center',
+  columnGap: '8px',
+  flexShrink: 0,
+});
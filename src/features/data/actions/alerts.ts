@@ -0,0 +1,99 @@
+import type { BeefyThunk } from '../../../redux-types.ts';
+import { alertsActions, type AlertRuleEvaluation } from '../reducers/alerts.ts';
+import {
+  selectAlertRuleCondition,
+  selectAlertRuleLastActive,
+  selectAlertRules,
+} from '../selectors/alerts.ts';
+import { selectShouldLoadAllCurrentCowcentratedRanges } from '../selectors/data-loader.ts';
+import { selectWalletAddress } from '../selectors/wallet.ts';
+import { selectVaultByIdOrUndefined } from '../selectors/vaults.ts';
+import { fetchAllCurrentCowcentratedRanges } from './tokens.ts';
+import { fetchApyAction } from './apy.ts';
+import { fetchAllBalanceAction } from './balance.ts';
+import { recalculatePromoStatuses } from '../reducers/promos.ts';
+
+/**
+ * Fetches data alert rules depend on that the regular polls do not keep fresh:
+ * clm ranges are only loaded by the vault page, and the regular polls pause while the app is in the background
+ */
+export function fetchAlertRulesData(background: boolean): BeefyThunk<Promise<unknown>> {
+  return (dispatch, getState) => {
+    const state = getState();
+    const rules = selectAlertRules(state);
+    const promises: Promise<unknown>[] = [];
+
+    if (
+      rules.some(rule => rule.type === 'clm-out-of-range') &&
+      selectShouldLoadAllCurrentCowcentratedRanges(state)
+    ) {
+      promises.push(dispatch(fetchAllCurrentCowcentratedRanges()));
+    }
+
+    if (background && rules.length > 0) {
+      if (rules.some(rule => rule.type === 'apy-below')) {
+        promises.push(dispatch(fetchApyAction()));
+      }
+      if (rules.some(rule => rule.type === 'boost-ended')) {
+        dispatch(recalculatePromoStatuses());
+      }
+      const walletAddress = selectWalletAddress(state);
+      if (walletAddress && rules.some(rule => rule.type === 'rewards-above')) {
+        const chainIds = new Set(
+          rules
+            .filter(rule => rule.type === 'rewards-above')
+            .map(rule => selectVaultByIdOrUndefined(state, rule.vaultId)?.chainId)
+        );
+        for (const chainId of chainIds) {
+          if (chainId) {
+            promises.push(dispatch(fetchAllBalanceAction({ chainId, walletAddress })));
+          }
+        }
+      }
+    }
+
+    return Promise.all(promises);
+  };
+}
+
+/**
+ * Evaluates all alert rules against the current state, adding a notification
+ * for each rule whose condition became met since the last evaluation.
+ * A rule's first evaluation only records its state, so existing conditions do not notify.
+ */
+export function evaluateAlertRules(): BeefyThunk {
+  return (dispatch, getState) => {
+    const state = getState();
+    const rules = selectAlertRules(state);
+    if (rules.length === 0) {
+      return;
+    }
+
+    const walletAddress = selectWalletAddress(state);
+    const evaluations: AlertRuleEvaluation[] = [];
+    for (const rule of rules) {
+      const condition = selectAlertRuleCondition(state, rule, walletAddress);
+      if (!condition) {
+        continue;
+      }
+
+      const lastActive = selectAlertRuleLastActive(state, rule.id);
+      if (lastActive === condition.active) {
+        continue;
+      }
+
+      evaluations.push({
+        ruleId: rule.id,
+        active: condition.active,
+        notification:
+          condition.active && lastActive === false ?
+            { messageKey: condition.messageKey, messageParams: condition.messageParams }
+          : undefined,
+      });
+    }
+
+    if (evaluations.length > 0) {
+      dispatch(alertsActions.rulesEvaluated(evaluations));
+    }
+  };
+}
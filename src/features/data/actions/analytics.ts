@@ -454,6 +454,7 @@ function handleClassicVaultTimeline(
 
             usdBalance: tx.usdBalance,
             usdDiff: tx.usdDiff,
+            underlyingBreakdown: tx.underlyingBreakdown,
 
             timeline: 'current' as const,
           } satisfies TimelineEntryStandard;
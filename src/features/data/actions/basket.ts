@@ -0,0 +1,323 @@
+import { createAsyncThunk, type ThunkAction } from '@reduxjs/toolkit';
+import type { Action } from 'redux';
+import BigNumber from 'bignumber.js';
+import { groupBy } from 'lodash-es';
+import type { Namespace, TFunction } from 'react-i18next';
+import type { BeefyState, BeefyStateFn, BeefyThunk } from '../../../redux-types.ts';
+import type { VaultEntity } from '../entities/vault.ts';
+import { isTokenErc20, type TokenEntity } from '../entities/token.ts';
+import { getTransactApi } from '../apis/instances.ts';
+import {
+  isDepositOption,
+  isDepositQuote,
+  isWithdrawOption,
+  isWithdrawQuote,
+  type TransactOption,
+  type TransactQuote,
+} from '../apis/transact/transact-types.ts';
+import type { UserlessZapRequest } from '../apis/transact/zap/types.ts';
+import { mergeZapRequests } from '../apis/transact/helpers/zap.ts';
+import { isSerializableError } from '../apis/transact/strategies/error.ts';
+import type { SerializedError } from '../apis/transact/strategies/error-types.ts';
+import type { Step } from '../reducers/wallet/stepper.ts';
+import { TransactMode } from '../reducers/wallet/transact-types.ts';
+import {
+  getBasketSelections,
+  selectBasketChainId,
+  selectBasketItemInput,
+  selectBasketItems,
+  selectBasketMode,
+  selectBasketOptionsForVault,
+  selectBasketQuotes,
+  selectBasketSelectionId,
+  selectBasketVaultIds,
+} from '../selectors/basket.ts';
+import { selectAllowanceByTokenAddress } from '../selectors/allowances.ts';
+import { selectTokenAmountsTotalValue } from '../selectors/transact.ts';
+import { selectVaultById } from '../selectors/vaults.ts';
+import { selectWalletAddress } from '../selectors/wallet.ts';
+import { compareBigNumber } from '../../../helpers/big-number.ts';
+import { uniqueTokens } from '../../../helpers/tokens.ts';
+import { fetchAllowanceAction } from './allowance.ts';
+import { fetchBalanceAction } from './balance.ts';
+import { startStepperWithSteps } from './stepper.ts';
+import { approve } from './wallet/approval.ts';
+import { zapExecuteBasketOrder } from './wallet/zap.ts';
+
+export type BasketFetchOptionsPayload = {
+  byVaultId: Record<VaultEntity['id'], TransactOption[]>;
+  selectionIds: TransactOption['selectionId'][];
+};
+
+export const basketFetchOptions = createAsyncThunk<
+  BasketFetchOptionsPayload,
+  void,
+  {
+    state: BeefyState;
+  }
+>('basket/fetchOptions', async (_, { getState, dispatch }) => {
+  const state = getState();
+  const mode = selectBasketMode(state);
+  const chainId = selectBasketChainId(state);
+  const vaultIds = selectBasketVaultIds(state);
+  if (!chainId || vaultIds.length === 0) {
+    throw new Error(`No vaults in basket`);
+  }
+
+  const api = await getTransactApi();
+  const optionsPerVault = await Promise.all(
+    vaultIds.map(vaultId =>
+      mode === TransactMode.Deposit ?
+        api.fetchDepositOptionsFor(vaultId, getState)
+      : api.fetchWithdrawOptionsFor(vaultId, getState)
+    )
+  );
+  const byVaultId = Object.fromEntries(
+    vaultIds.map((vaultId, i) => [vaultId, optionsPerVault[i] as TransactOption[]])
+  );
+  const selections = getBasketSelections(mode, chainId, byVaultId, vaultIds);
+  if (selections.length === 0) {
+    throw new Error(`No token can be used for all vaults in basket`);
+  }
+
+  // update balances
+  if (selectWalletAddress(state)) {
+    await dispatch(
+      fetchBalanceAction({
+        chainId,
+        tokens: uniqueTokens(selections.map(selection => selection.token)),
+        vaults: vaultIds.map(vaultId => selectVaultById(state, vaultId)),
+      })
+    );
+  }
+
+  return {
+    byVaultId,
+    selectionIds: selections.map(selection => selection.selectionId),
+  };
+});
+
+export type BasketFetchQuotesPayload = {
+  byVaultId: Record<VaultEntity['id'], TransactQuote>;
+};
+
+export const basketFetchQuotes = createAsyncThunk<
+  BasketFetchQuotesPayload,
+  void,
+  {
+    state: BeefyState;
+    rejectValue: SerializedError;
+  }
+>('basket/fetchQuotes', async (_, { getState, dispatch, rejectWithValue }) => {
+  try {
+    const api = await getTransactApi();
+    const state = getState();
+    const items = selectBasketItems(state);
+    const walletAddress = selectWalletAddress(state);
+    const selectionId = selectBasketSelectionId(state);
+    if (!selectionId) {
+      throw new Error(`No selectionId selected`);
+    }
+
+    const quotes = await Promise.all(
+      items.map(async item => {
+        const input = selectBasketItemInput(state, item);
+        if (!input || input.amount.lte(0)) {
+          throw new Error(`Can not quote for 0`);
+        }
+
+        const options = selectBasketOptionsForVault(state, item.vaultId);
+        let vaultQuotes: TransactQuote[];
+        if (options.length && options.every(isDepositOption)) {
+          vaultQuotes = await api.fetchDepositQuotesFor(options, [input], getState);
+        } else if (options.length && options.every(isWithdrawOption)) {
+          vaultQuotes = await api.fetchWithdrawQuotesFor(options, [input], getState);
+        } else {
+          throw new Error(`No options for ${item.vaultId} with selectionId ${selectionId}`);
+        }
+
+        // best output for each vault, as the transact form defaults to
+        const [best] = vaultQuotes.sort((a, b) =>
+          compareBigNumber(
+            selectTokenAmountsTotalValue(state, b.outputs),
+            selectTokenAmountsTotalValue(state, a.outputs)
+          )
+        );
+        return best;
+      })
+    );
+
+    // update allowances
+    if (walletAddress) {
+      const allowancesPerSpender = groupBy(
+        quotes.flatMap(quote => quote.allowances),
+        allowance => allowance.spenderAddress
+      );
+      await Promise.all(
+        Object.values(allowancesPerSpender).map(allowances =>
+          dispatch(
+            fetchAllowanceAction({
+              chainId: allowances[0].token.chainId,
+              spenderAddress: allowances[0].spenderAddress,
+              tokens: uniqueTokens(allowances.map(allowance => allowance.token)),
+              walletAddress,
+            })
+          )
+        )
+      );
+    }
+
+    return {
+      byVaultId: Object.fromEntries(items.map((item, i) => [item.vaultId, quotes[i]])),
+    };
+  } catch (e: unknown) {
+    if (isSerializableError(e)) {
+      return rejectWithValue(e.serialize());
+    }
+    throw e;
+  }
+});
+
+/** Approvals of the same token for the same spender are combined, as the vaults share one order */
+function getBasketApproveSteps(
+  quotes: TransactQuote[],
+  t: TFunction<Namespace>,
+  state: BeefyState
+): Step[] {
+  const allowancesByTokenSpender = groupBy(
+    quotes.flatMap(quote => quote.allowances),
+    allowance => `${allowance.spenderAddress}-${allowance.token.address}`
+  );
+
+  return Object.values(allowancesByTokenSpender).flatMap(allowances => {
+    const { token, spenderAddress } = allowances[0];
+    const amount = BigNumber.sum(...allowances.map(allowance => allowance.amount));
+    if (!isTokenErc20(token)) {
+      return [];
+    }
+
+    const current = selectAllowanceByTokenAddress(
+      state,
+      token.chainId,
+      token.address,
+      spenderAddress
+    );
+    if (current.gte(amount)) {
+      return [];
+    }
+
+    return [
+      {
+        step: 'approve',
+        message: t('Vault-ApproveMsg'),
+        action: approve(token, spenderAddress, amount),
+        pending: false,
+      } satisfies Step,
+    ];
+  });
+}
+
+type BasketZapOrder = {
+  zapRequest: UserlessZapRequest;
+  expectedTokens: TokenEntity[];
+};
+
+/**
+ * Builds the zap request of each quote without sending and combines them into a single order
+ * Returns undefined if they can not share an order, e.g. a strategy that can not build its order
+ * without sending it, or steps that would take the tokens of another vault
+ */
+async function fetchBasketZapOrder(
+  quotes: TransactQuote[],
+  getState: BeefyStateFn
+): Promise<BasketZapOrder | undefined> {
+  try {
+    const api = await getTransactApi();
+    const breakdowns = await Promise.all(
+      quotes.map(quote => {
+        if (isDepositQuote(quote)) {
+          return api.fetchDepositUserlessZapBreakdown(quote, getState);
+        } else if (isWithdrawQuote(quote)) {
+          return api.fetchWithdrawUserlessZapBreakdown(quote, getState);
+        }
+        throw new Error(`Invalid quote`);
+      })
+    );
+    const zapRequest = mergeZapRequests(breakdowns.map(breakdown => breakdown.zapRequest));
+    if (!zapRequest) {
+      return undefined;
+    }
+
+    return {
+      zapRequest,
+      expectedTokens: uniqueTokens(breakdowns.flatMap(breakdown => breakdown.expectedTokens)),
+    };
+  } catch (err: unknown) {
+    console.warn('Basket can not be sent as a single zap order', err);
+    return undefined;
+  }
+}
+
+/**
+ * Sends the combined order, `order` is used as is when the step runs straight after it was built,
+ * otherwise it is rebuilt as swap calldata goes stale while approving
+ */
+function basketZapAction(quotes: TransactQuote[], order: BasketZapOrder | undefined): BeefyThunk {
+  return async (dispatch, getState, extraArgument) => {
+    const current = order || (await fetchBasketZapOrder(quotes, getState));
+    if (!current) {
+      throw new Error('Basket zaps can no longer be combined into a single order');
+    }
+
+    const walletAction = zapExecuteBasketOrder(
+      quotes.map(quote => quote.option.vaultId),
+      current.zapRequest,
+      current.expectedTokens
+    );
+    return walletAction(dispatch, getState, extraArgument);
+  };
+}
+
+/**
+ * Steps to deposit into or withdraw from every vault in the basket
+ * Approvals are combined per token, then all vaults are zapped in a single order if possible,
+ * otherwise each vault gets its own step in turn
+ */
+export function basketSteps(
+  t: TFunction<Namespace>
+): ThunkAction<Promise<void>, BeefyState, void, Action> {
+  return async function (dispatch, getState) {
+    const state = getState();
+    const chainId = selectBasketChainId(state);
+    const quotes = selectBasketQuotes(state);
+    if (!chainId || quotes.length === 0) {
+      throw new Error(`No basket quotes`);
+    }
+
+    const isDeposit = selectBasketMode(state) === TransactMode.Deposit;
+    const steps = getBasketApproveSteps(quotes, t, state);
+
+    const order = await fetchBasketZapOrder(quotes, getState);
+    if (order) {
+      // with no approvals before it, the zap step runs right away so the order just built is still fresh
+      steps.push({
+        step: isDeposit ? 'zap-in' : 'zap-out',
+        message: t('Vault-TxnConfirm', { type: t(isDeposit ? 'Deposit-noun' : 'Withdraw-noun') }),
+        action: basketZapAction(quotes, steps.length === 0 ? order : undefined),
+        pending: false,
+        extraInfo: { zap: true, vaultId: quotes[0].option.vaultId },
+      });
+    } else {
+      const api = await getTransactApi();
+      for (const quote of quotes) {
+        steps.push(
+          isDepositQuote(quote) ?
+            await api.fetchDepositStep(quote, getState, t)
+          : await api.fetchWithdrawStep(quote, getState, t)
+        );
+      }
+    }
+
+    dispatch(startStepperWithSteps(steps, chainId));
+  };
+}
@@ -0,0 +1,191 @@
+import BigNumber from 'bignumber.js';
+import type { Address, Hash } from 'viem';
+import { TransactionReceiptNotFoundError } from 'viem';
+import type { BeefyThunk } from '../../../redux-types.ts';
+import type { IBridgeQuote } from '../apis/bridge/providers/provider-types.ts';
+import type { BeefyAnyBridgeConfig } from '../apis/config-types.ts';
+import type { ChainEntity } from '../entities/chain.ts';
+import {
+  type BridgeTransfer,
+  type BridgeTransferStatus,
+  type BridgeTransferUpdate,
+  bridgeHistoryActions,
+} from '../reducers/bridge-history.ts';
+import { selectPendingBridgeTransfers } from '../selectors/bridge-history.ts';
+import { getBridgeApi } from '../apis/instances.ts';
+import { rpcClientManager } from '../apis/rpc-contract/rpc-manager.ts';
+import { fetchContract } from '../apis/rpc-contract/viem-contract.ts';
+import { ERC20Abi } from '../../../config/abi/ERC20Abi.ts';
+import { fromWei } from '../../../helpers/big-number.ts';
+
+/** transfers not delivered by this many times the quote time estimate are stuck */
+const STUCK_AFTER_ESTIMATE_MULTIPLIER = 3;
+/** transfers are not stuck before this, as estimates for fast routes are only a few minutes */
+const STUCK_AFTER_MIN = 60 * 60 * 1000;
+
+/** Balance of a bridged token, as a decimal amount */
+export async function fetchReceiverBalance(
+  chainId: ChainEntity['id'],
+  token: BridgeTransfer['token'],
+  receiverAddress: string
+): Promise<BigNumber> {
+  const contract = fetchContract(token.address, ERC20Abi, chainId);
+  const balance = await contract.read.balanceOf([receiverAddress as Address]);
+  return fromWei(balance.toString(10), token.decimals);
+}
+
+/**
+ * Adds a transfer to the bridge history once its source tx is submitted,
+ * recording the receiver's destination balance so delivery can be confirmed without a provider api
+ */
+export function recordBridgeTransfer(
+  quote: IBridgeQuote<BeefyAnyBridgeConfig>,
+  hash: Hash,
+  walletAddress: string,
+  receiverAddress: string
+): BeefyThunk<Promise<void>> {
+  return async dispatch => {
+    const { input, output, config } = quote;
+    let balanceBefore: BigNumber | undefined;
+    try {
+      balanceBefore = await fetchReceiverBalance(
+        output.token.chainId,
+        output.token,
+        receiverAddress
+      );
+    } catch (e) {
+      console.error('recordBridgeTransfer', 'fetchReceiverBalance', e);
+    }
+
+    const now = Date.now();
+    dispatch(
+      bridgeHistoryActions.transferSent({
+        id: hash,
+        bridgeId: quote.id,
+        fromChainId: input.token.chainId,
+        toChainId: output.token.chainId,
+        walletAddress,
+        receiverAddress,
+        token: {
+          address: output.token.address,
+          symbol: output.token.symbol,
+          decimals: output.token.decimals,
+        },
+        amount: output.amount.toString(10),
+        status: 'sent',
+        sourceMined: false,
+        explorerUrl: config.explorerUrl?.replace('{{hash}}', hash),
+        destinationHash: undefined,
+        balanceBefore: balanceBefore?.toString(10),
+        balanceConfirmed: false,
+        createdAt: now,
+        updatedAt: now,
+        expectedAt: now + quote.timeEstimate * 60 * 1000,
+      })
+    );
+  };
+}
+
+async function checkBridgeTransfer(
+  transfer: BridgeTransfer
+): Promise<BridgeTransferUpdate | undefined> {
+  let sourceMined = transfer.sourceMined;
+  if (!sourceMined) {
+    try {
+      const receipt = await rpcClientManager
+        .getBatchClient(transfer.fromChainId)
+        .getTransactionReceipt({ hash: transfer.id as Hash });
+      if (receipt.status !== 'success') {
+        return { id: transfer.id, status: 'failed' };
+      }
+      sourceMined = true;
+    } catch (e) {
+      if (!(e instanceof TransactionReceiptNotFoundError)) {
+        throw e;
+      }
+    }
+  }
+
+  let status: BridgeTransferStatus | undefined;
+  let destinationHash = transfer.destinationHash;
+  let balanceConfirmed = false;
+  let untracked = transfer.untracked;
+  if (sourceMined) {
+    const api = await getBridgeApi();
+    const message = await api.fetchMessageStatus(transfer).catch(e => {
+      console.warn('checkBridgeTransfer', transfer.bridgeId, 'fetchMessageStatus', e);
+      return { status: 'unknown' as const, destinationHash: undefined };
+    });
+    if (message.status === 'failed') {
+      return { id: transfer.id, sourceMined, status: 'failed' };
+    }
+    untracked = message.status === 'unknown';
+
+    if (transfer.balanceBefore !== undefined) {
+      const balance = await fetchReceiverBalance(
+        transfer.toChainId,
+        transfer.token,
+        transfer.receiverAddress
+      );
+      balanceConfirmed = balance.gte(
+        new BigNumber(transfer.balanceBefore).plus(new BigNumber(transfer.amount))
+      );
+    }
+    if (message.status === 'delivered' || balanceConfirmed) {
+      status = 'delivered';
+      destinationHash = message.destinationHash || destinationHash;
+    }
+  }
+
+  if (!status) {
+    const stuckAt =
+      transfer.createdAt +
+      Math.max(
+        (transfer.expectedAt - transfer.createdAt) * STUCK_AFTER_ESTIMATE_MULTIPLIER,
+        STUCK_AFTER_MIN
+      );
+    status =
+      Date.now() > stuckAt ? 'stuck'
+      : sourceMined ? 'in-flight'
+      : 'sent';
+  }
+
+  if (
+    status === transfer.status &&
+    sourceMined === transfer.sourceMined &&
+    destinationHash === transfer.destinationHash &&
+    balanceConfirmed === transfer.balanceConfirmed &&
+    untracked === transfer.untracked
+  ) {
+    return undefined;
+  }
+
+  return { id: transfer.id, status, sourceMined, destinationHash, balanceConfirmed, untracked };
+}
+
+/**
+ * Updates the status of each pending bridge transfer from its source tx receipt,
+ * the provider's message status and the receiver's balance on the destination chain
+ */
+export function checkBridgeTransfers(): BeefyThunk<Promise<void>> {
+  return async (dispatch, getState) => {
+    const transfers = selectPendingBridgeTransfers(getState());
+    if (transfers.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(transfers.map(checkBridgeTransfer));
+    const updates: BridgeTransferUpdate[] = [];
+    for (const [i, result] of results.entries()) {
+      if (result.status === 'rejected') {
+        console.error('checkBridgeTransfers', transfers[i].id, result.reason);
+      } else if (result.value) {
+        updates.push(result.value);
+      }
+    }
+
+    if (updates.length > 0) {
+      dispatch(bridgeHistoryActions.transfersUpdated(updates));
+    }
+  };
+}
@@ -1,18 +1,19 @@
 import { createAsyncThunk } from '@reduxjs/toolkit';
-import type { BeefyState } from '../../../redux-types.ts';
+import type { BeefyState, BeefyThunk } from '../../../redux-types.ts';
 import { getBridgeApi, getConfigApi } from '../apis/instances.ts';
 import type { ChainEntity } from '../entities/chain.ts';
 import { selectCurrentChainId, selectWalletAddress } from '../selectors/wallet.ts';
 import type { BeefyAnyBridgeConfig, BeefyBridgeConfig } from '../apis/config-types.ts';
 import { fetchBalanceAction } from './balance.ts';
+import { selectChainNativeToken } from '../selectors/tokens.ts';
+import { selectChainById } from '../selectors/chains.ts';
 import {
-  selectBridgeConfigById,
   selectBridgeConfirmQuote,
   selectBridgeDepositTokenForChainId,
   selectBridgeFormState,
-  selectBridgeIdsFromTo,
   selectBridgeQuoteById,
   selectBridgeQuoteSelectedId,
+  selectBridgeRoutesFromTo,
   selectBridgeSourceChainId,
   selectBridgeSupportedChainIds,
   selectShouldLoadBridgeConfig,
@@ -20,10 +21,9 @@ import {
 import type { BridgeFormState } from '../reducers/wallet/bridge.ts';
 import { FormStep } from '../reducers/wallet/bridge.ts';
 import { BIG_ONE, BIG_ZERO, fromWei } from '../../../helpers/big-number.ts';
-import { selectChainById } from '../selectors/chains.ts';
-import { orderBy, partition } from 'lodash-es';
+import { partition } from 'lodash-es';
 import { isFulfilledResult } from '../../../helpers/promises.ts';
-import type { IBridgeQuote } from '../apis/bridge/providers/provider-types.ts';
+import type { BridgeSentAction, IBridgeQuote } from '../apis/bridge/providers/provider-types.ts';
 import { fetchAllowanceAction } from './allowance.ts';
 import { selectAllowanceByTokenAddress } from '../selectors/allowances.ts';
 import type { Step } from '../reducers/wallet/stepper.ts';
@@ -31,19 +31,132 @@ import type { Namespace, TFunction } from 'react-i18next';
 import { startStepperWithSteps } from './stepper.ts';
 import BigNumber from 'bignumber.js';
 import { isAddress } from 'viem';
+import type { Address } from 'abitype';
 import { approve } from './wallet/approval.ts';
-
-function getLimits(quotes: IBridgeQuote<BeefyAnyBridgeConfig>[]) {
-  const current = BigNumber.max(
-    ...quotes.map(q => BigNumber.min(q.limits.from.current, q.limits.to.current))
-  );
-  const max = BigNumber.max(...quotes.map(q => BigNumber.min(q.limits.from.max, q.limits.to.max)));
-  const wanted = quotes[0].input.amount;
+import { bridgeNextHop } from './wallet/bridge.ts';
+import type { IBridgeRouteQuote } from '../apis/bridge/bridge-api-types.ts';
+import {
+  fetchRouteQuote,
+  fetchRouteQuotes,
+  getBridgeRouteHops,
+  getRouteId,
+  sortRouteQuotes,
+} from '../apis/bridge/bridge-routes.ts';
+import { fetchContract } from '../apis/rpc-contract/viem-contract.ts';
+import { ERC20Abi } from '../../../config/abi/ERC20Abi.ts';
+import { QuoteChangedError } from '../apis/transact/strategies/error.ts';
+
+function getLimits(quotes: IBridgeRouteQuote[]) {
+  const current = BigNumber.max(...quotes.map(q => q.limits.current));
+  const max = BigNumber.max(...quotes.map(q => q.limits.max));
+  const wanted = quotes[0].hops[0].input.amount;
   const canWait = max.minus(current).gt(BIG_ONE) && max.gt(wanted);
 
   return { current, max, canWait };
 }
 
+/**
+ * Quotes a later hop again when its step runs, which can be hours after the route was confirmed,
+ * so the bridge tx is sent with the current fee
+ * @throws QuoteChangedError if the hop would now deliver less than the confirmed quote
+ */
+function bridgeRequotedHop(
+  hop: IBridgeQuote<BeefyAnyBridgeConfig>,
+  t: TFunction<Namespace>
+): BeefyThunk<Promise<void>> {
+  return async (dispatch, getState) => {
+    const api = await getBridgeApi();
+    const state = getState();
+    const quote = await api.fetchQuote(
+      hop.config,
+      selectChainById(state, hop.input.token.chainId),
+      selectChainById(state, hop.output.token.chainId),
+      hop.input,
+      hop.receiver,
+      state
+    );
+    if (quote.output.amount.lt(hop.output.amount)) {
+      console.error('QuoteChangedError', { hop, quote });
+      throw new QuoteChangedError(
+        `Expected ${hop.id} bridge output amount changed since the route was confirmed`
+      );
+    }
+
+    const step = await api.fetchBridgeStep(quote, t, state);
+    await dispatch(step.action);
+  };
+}
+
+/**
+ * Approve and bridge steps for each hop of a route.
+ * Later hops are sent from the intermediate chain, so their steps first wait for the previous hop to arrive
+ * and switch the wallet to that chain, and their bridge step quotes the hop again.
+ * `onFirstHopSent` is dispatched once the bridge tx of the first hop is submitted.
+ */
+export async function getBridgeRouteSteps(
+  quote: IBridgeRouteQuote,
+  walletAddress: string,
+  t: TFunction<Namespace>,
+  state: BeefyState,
+  onFirstHopSent?: BridgeSentAction
+): Promise<Step[]> {
+  const api = await getBridgeApi();
+  const steps: Step[] = [];
+
+  for (const [i, hop] of quote.hops.entries()) {
+    const hopSteps: Step[] = [];
+    if (hop.allowance) {
+      const tokenAllowance = selectAllowanceByTokenAddress(
+        state,
+        hop.allowance.token.chainId,
+        hop.allowance.token.address,
+        hop.allowance.spenderAddress
+      );
+      if (tokenAllowance.isLessThan(hop.allowance.amount)) {
+        hopSteps.push({
+          step: 'approve',
+          message: t('Vault-ApproveMsg'),
+          action: approve(hop.allowance.token, hop.allowance.spenderAddress, hop.allowance.amount),
+          pending: false,
+        });
+      }
+    }
+    const bridgeStep = await api.fetchBridgeStep(
+      hop,
+      t,
+      state,
+      i === 0 ? onFirstHopSent : undefined
+    );
+    hopSteps.push(i === 0 ? bridgeStep : { ...bridgeStep, action: bridgeRequotedHop(hop, t) });
+
+    if (i === 0) {
+      steps.push(...hopSteps);
+      continue;
+    }
+
+    // later hops are sent from the intermediate chain once the previous hop has arrived,
+    // so take the wallet balance there before anything is sent
+    const { token, amount } = hop.input;
+    const balanceContract = fetchContract(token.address, ERC20Abi, token.chainId);
+    const balanceBefore = fromWei(
+      (await balanceContract.read.balanceOf([walletAddress as Address])).toString(10),
+      token.decimals
+    );
+    steps.push(
+      ...hopSteps.map((step, j) => {
+        const arrival = j === 0 ? { token, minBalance: balanceBefore.plus(amount) } : undefined;
+        return {
+          ...step,
+          action: bridgeNextHop(token.chainId, step.action, arrival),
+          extraInfo: arrival ? { ...step.extraInfo, arrival: { token, amount } } : step.extraInfo,
+        };
+      })
+    );
+  }
+
+  return steps;
+}
+
 export type FetchBridgeConfigParams = void;
 
 export type FetchBridgeChainPayload = {
@@ -102,7 +215,11 @@ export const initiateBridgeForm = createAsyncThunk<
       dispatch(
         fetchBalanceAction({
           chainId,
-          tokens: [selectBridgeDepositTokenForChainId(state, chainId)],
+          // native tokens pay for later hops of multi-hop routes
+          tokens: [
+            selectBridgeDepositTokenForChainId(state, chainId),
+            selectChainNativeToken(state, chainId),
+          ],
         })
       );
     }
@@ -164,8 +281,8 @@ export const validateBridgeForm = createAsyncThunk<
 type QuoteBridgeFormParams = void;
 
 type QuoteBridgeFormPayload = {
-  quotes: IBridgeQuote<BeefyAnyBridgeConfig>[];
-  limitedQuotes: IBridgeQuote<BeefyAnyBridgeConfig>[];
+  quotes: IBridgeRouteQuote[];
+  limitedQuotes: IBridgeRouteQuote[];
 };
 
 export const quoteBridgeForm = createAsyncThunk<
@@ -183,49 +300,30 @@ export const quoteBridgeForm = createAsyncThunk<
 >('bridge/quoteBridgeForm', async (_, { getState, rejectWithValue }) => {
   const state = getState();
   const { from, to, input, receiverIsDifferent, receiverAddress } = selectBridgeFormState(state);
-  const bridgeIds = selectBridgeIdsFromTo(state, from, to);
-  const api = await getBridgeApi();
-  const fromChain = selectChainById(state, from);
-  const toChain = selectChainById(state, to);
-
-  const quotes = await Promise.allSettled(
-    bridgeIds.map(
-      async bridgeId =>
-        await api.fetchQuote(
-          selectBridgeConfigById(state, bridgeId),
-          fromChain,
-          toChain,
-          input,
-          receiverIsDifferent ? receiverAddress : undefined,
-          state
-        )
-    )
+  const routes = selectBridgeRoutesFromTo(state, from, to);
+  const quotes = await fetchRouteQuotes(
+    routes,
+    input,
+    receiverIsDifferent ? receiverAddress : undefined,
+    state
   );
 
   const [fulfilled, rejected] = partition(quotes, isFulfilledResult);
   const successfulQuotes = fulfilled.map(result => result.value).filter(quote => !!quote);
 
   if (rejected.length > 0) {
-    const errorBridgeIndexes = quotes
+    const errorRouteIndexes = quotes
       .map((result, i) => (result.status === 'rejected' ? i : -1))
-      .filter(i => i in bridgeIds);
-    const bridgeErrors = rejected.map((result, i) => ({
-      bridge: bridgeIds[errorBridgeIndexes[i]],
+      .filter(i => i in routes);
+    const routeErrors = rejected.map((result, i) => ({
+      route: getRouteId(routes[errorRouteIndexes[i]]),
       reason: result.reason,
     }));
-    console.warn('Some bridge quotes failed', bridgeErrors);
+    console.warn('Some bridge quotes failed', routeErrors);
   }
 
   if (successfulQuotes.length > 0) {
-    const sortedQuotes = orderBy(
-      successfulQuotes,
-      [
-        quote => quote.output.amount.toNumber(),
-        quote => quote.timeEstimate,
-        quote => quote.fee.amount.toNumber(),
-      ],
-      ['desc', 'asc', 'asc']
-    );
+    const sortedQuotes = sortRouteQuotes(successfulQuotes);
     const [inLimits, outLimits] = partition(sortedQuotes, q => q.withinLimits);
 
     if (inLimits.length === 0) {
@@ -245,7 +343,7 @@ export const quoteBridgeForm = createAsyncThunk<
 type ConfirmBridgeFormParams = void;
 
 type ConfirmBridgeFormPayload = {
-  quote: IBridgeQuote<BeefyAnyBridgeConfig>;
+  quote: IBridgeRouteQuote;
 };
 
 export const confirmBridgeForm = createAsyncThunk<
@@ -270,30 +368,36 @@ export const confirmBridgeForm = createAsyncThunk<
   }
 
   // update allowances
-  if (quote.allowance) {
-    dispatch(
-      fetchAllowanceAction({
-        chainId: quote.allowance.token.chainId,
-        spenderAddress: quote.allowance.spenderAddress,
-        tokens: [quote.allowance.token],
-        walletAddress,
-      })
-    );
+  for (const { allowance } of quote.hops) {
+    if (allowance) {
+      dispatch(
+        fetchAllowanceAction({
+          chainId: allowance.token.chainId,
+          spenderAddress: allowance.spenderAddress,
+          tokens: [allowance.token],
+          walletAddress,
+        })
+      );
+    }
   }
 
   // update quote
-  const api = await getBridgeApi();
-  const fromChain = selectChainById(state, quote.input.token.chainId);
-  const toChain = selectChainById(state, quote.output.token.chainId);
-  const updatedQuote = await api.fetchQuote(
-    quote.config,
-    fromChain,
-    toChain,
-    quote.input,
-    quote.receiver,
+  const updatedQuote = await fetchRouteQuote(
+    getBridgeRouteHops(quote),
+    quote.hops[0].input,
+    quote.hops[quote.hops.length - 1].receiver,
     state
   );
 
+  // later hops pay their fee and gas from the wallet balance on the intermediate chain
+  await Promise.all(
+    updatedQuote.hops
+      .slice(1)
+      .map(hop =>
+        dispatch(fetchBalanceAction({ chainId: hop.fee.token.chainId, tokens: [hop.fee.token] }))
+      )
+  );
+
   return {
     quote: updatedQuote,
   };
@@ -314,31 +418,10 @@ export const performBridge = createAsyncThunk<
 >('bridge/performBridge', async ({ t }, { getState, dispatch }) => {
   const state = getState();
   const quote = selectBridgeConfirmQuote(state);
-  const steps: Step[] = [];
-
-  if (quote.allowance) {
-    const tokenAllowance = selectAllowanceByTokenAddress(
-      state,
-      quote.allowance.token.chainId,
-      quote.allowance.token.address,
-      quote.allowance.spenderAddress
-    );
-    if (tokenAllowance.isLessThan(quote.allowance.amount)) {
-      steps.push({
-        step: 'approve',
-        message: t('Vault-ApproveMsg'),
-        action: approve(
-          quote.allowance.token,
-          quote.allowance.spenderAddress,
-          quote.allowance.amount
-        ),
-        pending: false,
-      });
-    }
+  const walletAddress = selectWalletAddress(state);
+  if (!walletAddress) {
+    throw new Error('Not connected');
   }
-
-  const api = await getBridgeApi();
-  steps.push(await api.fetchBridgeStep(quote, t, state));
-
-  dispatch(startStepperWithSteps(steps, quote.input.token.chainId));
+  const steps = await getBridgeRouteSteps(quote, walletAddress, t, state);
+  dispatch(startStepperWithSteps(steps, quote.hops[0].input.token.chainId));
 });
@@ -4,6 +4,7 @@ import type { ChainConfig } from '../apis/config-types.ts';
 import type { ChainEntity, ChainId } from '../entities/chain.ts';
 import { isObject, isPlainObject } from 'lodash-es';
 import { rpcClientManager } from '../apis/rpc-contract/rpc-manager.ts';
+import { getRpcFixturesFromFeatureFlags } from '../apis/rpc-contract/rpc-fixtures.ts';
 
 export interface FulfilledPayload {
   chainConfigs: ChainConfig[];
@@ -66,6 +67,7 @@ export const fetchChainConfigs = createAsyncThunk<FulfilledPayload>(
     const api = await getConfigApi();
     const chainConfigs = await api.fetchChainConfigs();
     const localRpcs = fetchLocalStoredRpcs();
+    rpcClientManager.setFixtures(getRpcFixturesFromFeatureFlags() || undefined);
     for (const chain of chainConfigs) {
       rpcClientManager.setClients(chain, localRpcs[chain.id] || chain.rpc);
     }
@@ -0,0 +1,280 @@
+import { nanoid } from '@reduxjs/toolkit';
+import BigNumber from 'bignumber.js';
+import { groupBy } from 'lodash-es';
+import type { Namespace, TFunction } from 'react-i18next';
+import type { BeefyDispatchFn, BeefyStateFn, BeefyThunk } from '../../../redux-types.ts';
+import {
+  type CrossChainDepositQuote,
+  type DepositOption,
+  type DepositQuote,
+  isZapQuote,
+} from '../apis/transact/transact-types.ts';
+import { getTransactApi } from '../apis/instances.ts';
+import { slipBy } from '../apis/transact/helpers/amounts.ts';
+import { QuoteChangedError } from '../apis/transact/strategies/error.ts';
+import type { Step } from '../reducers/wallet/stepper.ts';
+import {
+  type CrossChainDeposit,
+  crossChainDepositsActions,
+} from '../reducers/cross-chain-deposits.ts';
+import {
+  selectCrossChainDepositById,
+  selectCrossChainDeposits,
+} from '../selectors/cross-chain-deposits.ts';
+import { selectAllowanceByTokenAddress } from '../selectors/allowances.ts';
+import { selectErc20TokenByAddress } from '../selectors/tokens.ts';
+import { selectTransactSlippage } from '../selectors/transact.ts';
+import { selectWalletAddress } from '../selectors/wallet.ts';
+import { fetchAllowanceAction } from './allowance.ts';
+import { getBridgeRouteSteps } from './bridge.ts';
+import { fetchReceiverBalance } from './bridge-history.ts';
+import { startStepperWithSteps } from './stepper.ts';
+import type { BridgeSentAction } from '../apis/bridge/providers/provider-types.ts';
+import { approve } from './wallet/approval.ts';
+import { bridgeNextHop } from './wallet/bridge.ts';
+
+/** deposits whose bridged amount has not arrived by then are dropped, e.g. the bridge tx reverted */
+const EXPIRE_AFTER = 24 * 60 * 60 * 1000;
+
+/**
+ * Quotes the deposit of the bridged amount on the vault chain when the step runs,
+ * as the quote from before bridging is likely stale by the time it arrives
+ * @throws QuoteChangedError if the new quote outputs less than the confirmed quote after slippage
+ */
+function depositBridged(
+  deposit: CrossChainDeposit,
+  option: DepositOption,
+  t: TFunction<Namespace>
+): BeefyThunk<Promise<void>> {
+  return async (dispatch, getState) => {
+    dispatch(crossChainDepositsActions.depositArrived([deposit.id]));
+
+    const api = await getTransactApi();
+    const token = selectErc20TokenByAddress(getState(), deposit.toChainId, deposit.token.address);
+    const [quote] = await api.fetchDepositQuotesFor(
+      [option],
+      [{ token, amount: new BigNumber(deposit.amount), max: false }],
+      getState
+    );
+
+    const slippage = selectTransactSlippage(getState());
+    for (const confirmed of deposit.destinationOutputs) {
+      const output = quote.outputs.find(
+        output => output.token.address.toLowerCase() === confirmed.address.toLowerCase()
+      );
+      if (
+        !output ||
+        output.amount.lt(slipBy(new BigNumber(confirmed.amount), slippage, output.token.decimals))
+      ) {
+        console.error('QuoteChangedError', { deposit, quote });
+        throw new QuoteChangedError(
+          `Expected deposit output amount changed since the deposit from ${deposit.fromChainId} was confirmed`
+        );
+      }
+    }
+
+    const step = await api.fetchDepositStep(quote, getState, t);
+    await dispatch(step.action);
+  };
+}
+
+/**
+ * Approve and deposit steps on the vault chain, which first wait for the bridged amount to arrive
+ * and switch the wallet to the vault chain
+ */
+async function getDestinationSteps(
+  deposit: CrossChainDeposit,
+  quote: DepositQuote,
+  t: TFunction<Namespace>,
+  dispatch: BeefyDispatchFn,
+  getState: BeefyStateFn
+): Promise<Step[]> {
+  const { toChainId, walletAddress } = deposit;
+  const token = selectErc20TokenByAddress(getState(), toChainId, deposit.token.address);
+
+  // allowances on the vault chain are not loaded by the transact form
+  await Promise.all(
+    Object.values(groupBy(quote.allowances, allowance => allowance.spenderAddress)).map(
+      allowances =>
+        dispatch(
+          fetchAllowanceAction({
+            chainId: toChainId,
+            spenderAddress: allowances[0].spenderAddress,
+            tokens: allowances.map(allowance => allowance.token),
+            walletAddress,
+          })
+        )
+    )
+  );
+
+  const state = getState();
+  const steps: Step[] = [];
+  for (const allowance of quote.allowances) {
+    const current = selectAllowanceByTokenAddress(
+      state,
+      toChainId,
+      allowance.token.address,
+      allowance.spenderAddress
+    );
+    if (current.lt(allowance.amount)) {
+      steps.push({
+        step: 'approve',
+        message: t('Vault-ApproveMsg'),
+        action: approve(allowance.token, allowance.spenderAddress, allowance.amount),
+        pending: false,
+      });
+    }
+  }
+  steps.push({
+    step: isZapQuote(quote) ? 'zap-in' : 'deposit',
+    message: t('Vault-TxnConfirm', { type: t('Deposit-noun') }),
+    action: depositBridged(deposit, quote.option, t),
+    pending: false,
+    extraInfo: { zap: isZapQuote(quote), vaultId: deposit.vaultId },
+  });
+
+  const amount = new BigNumber(deposit.amount);
+  const minBalance = new BigNumber(deposit.minBalance);
+  return steps.map((step, i) => {
+    const arrival = i === 0 ? { token, minBalance } : undefined;
+    return {
+      ...step,
+      action: bridgeNextHop(toChainId, step.action, arrival),
+      extraInfo: arrival ? { ...step.extraInfo, arrival: { token, amount } } : step.extraInfo,
+    };
+  });
+}
+
+/**
+ * Steps to bridge to the vault chain then deposit there.
+ * The deposit is recorded once the first bridge tx is submitted, so it can be resumed after a reload.
+ */
+export async function getCrossChainDepositSteps(
+  quote: CrossChainDepositQuote,
+  t: TFunction<Namespace>,
+  dispatch: BeefyDispatchFn,
+  getState: BeefyStateFn
+): Promise<Step[]> {
+  const state = getState();
+  const walletAddress = selectWalletAddress(state);
+  if (!walletAddress) {
+    throw new Error('Not connected');
+  }
+
+  const { bridgeQuote, destinationQuote, option } = quote;
+  const { token, amount } = bridgeQuote.hops[bridgeQuote.hops.length - 1].output;
+  const balanceBefore = await fetchReceiverBalance(token.chainId, token, walletAddress);
+  const now = Date.now();
+  const deposit: CrossChainDeposit = {
+    id: nanoid(),
+    vaultId: option.vaultId,
+    walletAddress,
+    fromChainId: option.chainId,
+    toChainId: token.chainId,
+    token: {
+      address: token.address,
+      symbol: token.symbol,
+      decimals: token.decimals,
+    },
+    amount: amount.toString(10),
+    minBalance: balanceBefore.plus(amount).toString(10),
+    destinationOptionId: option.destinationOption.id,
+    destinationOutputs: destinationQuote.outputs.map(output => ({
+      address: output.token.address,
+      amount: output.amount.toString(10),
+    })),
+    arrived: false,
+    createdAt: now,
+    expectedAt: now + bridgeQuote.timeEstimate * 60 * 1000,
+  };
+
+  // a bridge tx rejected in the wallet never gets a hash, so there is nothing to resume
+  const recordDeposit: BridgeSentAction = () => dispatch =>
+    dispatch(crossChainDepositsActions.depositStarted(deposit));
+  const bridgeSteps = await getBridgeRouteSteps(
+    bridgeQuote,
+    walletAddress,
+    t,
+    state,
+    recordDeposit
+  );
+
+  const destinationSteps = await getDestinationSteps(
+    deposit,
+    destinationQuote,
+    t,
+    dispatch,
+    getState
+  );
+
+  return [...bridgeSteps, ...destinationSteps];
+}
+
+/**
+ * Restarts the vault chain steps of a deposit from another chain,
+ * e.g. after a reload while the bridged amount was in flight
+ */
+export function resumeCrossChainDeposit(
+  id: CrossChainDeposit['id'],
+  t: TFunction<Namespace>
+): BeefyThunk<Promise<void>> {
+  return async (dispatch, getState) => {
+    const deposit = selectCrossChainDepositById(getState(), id);
+    const api = await getTransactApi();
+    const options = await api.fetchDepositOptionsFor(deposit.vaultId, getState);
+    const option = options.find(o => o.id === deposit.destinationOptionId);
+    if (!option) {
+      throw new Error(`Deposit option ${deposit.destinationOptionId} is no longer available`);
+    }
+
+    const token = selectErc20TokenByAddress(getState(), deposit.toChainId, deposit.token.address);
+    const [quote] = await api.fetchDepositQuotesFor(
+      [option],
+      [{ token, amount: new BigNumber(deposit.amount), max: false }],
+      getState
+    );
+    const steps = await getDestinationSteps(deposit, quote, t, dispatch, getState);
+    dispatch(startStepperWithSteps(steps, deposit.toChainId));
+  };
+}
+
+/**
+ * Marks deposits whose bridged amount reached the wallet on the vault chain,
+ * and drops those that have since been deposited or never arrived
+ */
+export function checkCrossChainDeposits(): BeefyThunk<Promise<void>> {
+  return async (dispatch, getState) => {
+    const deposits = selectCrossChainDeposits(getState());
+    if (deposits.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const results = await Promise.allSettled(
+      deposits.map(deposit =>
+        fetchReceiverBalance(deposit.toChainId, deposit.token, deposit.walletAddress)
+      )
+    );
+    const arrived: CrossChainDeposit['id'][] = [];
+    const done: CrossChainDeposit['id'][] = [];
+    for (const [i, result] of results.entries()) {
+      const deposit = deposits[i];
+      if (result.status === 'rejected') {
+        console.error('checkCrossChainDeposits', deposit.id, result.reason);
+      } else if (result.value.gte(deposit.minBalance)) {
+        if (!deposit.arrived) {
+          arrived.push(deposit.id);
+        }
+      } else if (deposit.arrived || now > deposit.createdAt + EXPIRE_AFTER) {
+        done.push(deposit.id);
+      }
+    }
+
+    if (arrived.length > 0) {
+      dispatch(crossChainDepositsActions.depositArrived(arrived));
+    }
+    if (done.length > 0) {
+      dispatch(crossChainDepositsActions.removeDeposits(done));
+    }
+  };
+}
@@ -12,6 +12,7 @@ import {
 import {
   selectFilterOptions,
   selectFilterPlatformIdsForVault,
+  selectFilterSearchQuery,
   selectVaultIsBoostedForFilter,
   selectVaultMatchesText,
 } from '../selectors/filtered-vaults.ts';
@@ -29,7 +30,11 @@ import {
   selectIsVaultPrestakedBoost,
   selectVaultsActiveBoostPeriodFinish,
 } from '../selectors/boosts.ts';
-import { selectIsVaultIdSaved } from '../selectors/saved-vaults.ts';
+import { selectIsVaultIdInSavedList, selectIsVaultIdSaved } from '../selectors/saved-vaults.ts';
+import {
+  getSavedListIdFromCategory,
+  isSavedListCategory,
+} from '../reducers/filtered-vaults-types.ts';
 import {
   selectHasUserDepositInVault,
   selectUserBalanceOfToken,
@@ -40,8 +45,10 @@ import { simplifySearchText } from '../../../helpers/string.ts';
 import type { FilteredVaultsState } from '../reducers/filtered-vaults.ts';
 import { orderBy, sortBy } from 'lodash-es';
 import type { TotalApy } from '../reducers/apy.ts';
-import { selectVaultTotalApy } from '../selectors/apy.ts';
+import { selectVaultApyYieldSplitOrUndefined, selectVaultTotalApy } from '../selectors/apy.ts';
 import { selectVaultTvl, selectVaultUnderlyingTvlUsd } from '../selectors/tvl.ts';
+import { selectVaultMatchesQuery } from '../selectors/vault-query.ts';
+import { REAL_YIELD_MIN_SHARE } from '../../../helpers/apy.ts';
 
 export type RecalculateFilteredVaultsParams = {
   dataChanged?: boolean;
@@ -76,7 +83,11 @@ export const recalculateFilteredVaultsAction = createAsyncThunk<
       const visibleChains = new Set(
         filterOptions.chainIds.length === 0 ? allChainIds : filterOptions.chainIds
       );
-      const searchText = simplifySearchText(filterOptions.searchText);
+      const searchText =
+        filterOptions.searchMode === 'text' ? simplifySearchText(filterOptions.searchText) : '';
+      // a query with syntax errors does not filter, the error is shown by the search box
+      const searchQuery = selectFilterSearchQuery(state);
+      const query = searchQuery && 'query' in searchQuery ? searchQuery.query : undefined;
       const allVaults = selectAllVisibleVaultIds(state).map(id => selectVaultById(state, id));
 
       /*
@@ -123,6 +134,15 @@ export const recalculateFilteredVaultsAction = createAsyncThunk<
           return false;
         }
 
+        // Hide mostly emission-based yield if onlyRealYield checked
+        if (
+          filterOptions.onlyRealYield &&
+          (selectVaultApyYieldSplitOrUndefined(state, vault.id)?.realYieldShare ?? 0) <
+            REAL_YIELD_MIN_SHARE
+        ) {
+          return false;
+        }
+
         // Hide non-zappable if onlyZappable checked
         if (filterOptions.onlyZappable && !selectVaultSupportsZap(state, vault.id)) {
           return false;
@@ -165,6 +185,18 @@ export const recalculateFilteredVaultsAction = createAsyncThunk<
           return false;
         }
 
+        // User category: named saved list
+        if (
+          isSavedListCategory(filterOptions.userCategory) &&
+          !selectIsVaultIdInSavedList(
+            state,
+            getSavedListIdFromCategory(filterOptions.userCategory),
+            vault.id
+          )
+        ) {
+          return false;
+        }
+
         // User category: 'My Positions'
         if (filterOptions.userCategory === 'deposited') {
           // + onlyUnstakedClm
@@ -193,6 +225,11 @@ export const recalculateFilteredVaultsAction = createAsyncThunk<
           return false;
         }
 
+        // Query
+        if (query && !selectVaultMatchesQuery(state, vault, query)) {
+          return false;
+        }
+
         // Underlying TVL
         if (
           filterOptions.showMinimumUnderlyingTvl &&
@@ -226,6 +263,8 @@ export const recalculateFilteredVaultsAction = createAsyncThunk<
           'totalDaily',
           'vaultDaily',
         ]);
+      } else if (filterOptions.sort === 'realYield') {
+        sortedVaultIds = applyRealYieldSort(state, filteredVaults, filterOptions);
       } else if (filterOptions.sort === 'tvl') {
         sortedVaultIds = applyTvlSort(state, filteredVaults, filterOptions);
       } else if (filterOptions.sort === 'safetyScore') {
@@ -317,6 +356,29 @@ function applyApySort(
   ).map(v => v.id);
 }
 
+function applyRealYieldSort(
+  state: BeefyState,
+  vaults: VaultEntity[],
+  filters: FilteredVaultsState
+): VaultEntity['id'][] {
+  return orderBy(
+    vaults,
+    vault => {
+      if (!shouldVaultShowInterest(vault)) {
+        return 0;
+      }
+
+      const split = selectVaultApyYieldSplitOrUndefined(state, vault.id);
+      if (!split) {
+        return -1;
+      }
+
+      return split.realYieldApr;
+    },
+    filters.sortDirection
+  ).map(v => v.id);
+}
+
 function applyTvlSort(
   state: BeefyState,
   vaults: VaultEntity[],
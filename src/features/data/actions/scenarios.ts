@@ -27,6 +27,10 @@ import {
 import { fetchOffChainCampaignsAction } from './rewards.ts';
 import { initPromos } from './promos.ts';
 import { recalculatePromoStatuses } from '../reducers/promos.ts';
+import { evaluateAlertRules, fetchAlertRulesData } from './alerts.ts';
+import { checkBridgeTransfers } from './bridge-history.ts';
+import { checkCrossChainDeposits } from './cross-chain-deposits.ts';
+import { checkWebhookEvents } from './webhooks.ts';
 
 declare const window: {
   __manual_poll?: () => unknown;
@@ -198,6 +202,47 @@ export async function initAppData(store: BeefyStore) {
     pollStopFns.push(pollStop);
   }
 
+  // check alert rules against the data fetched by the polls above, also while the app is in the background
+  pollStop = poll(
+    async () => {
+      await store.dispatch(fetchAlertRulesData(document.hidden));
+      return store.dispatch(evaluateAlertRules());
+    },
+    60 * 1000 /* every 60s */,
+    false
+  );
+  pollStopFns.push(pollStop);
+
+  // push deposited vault events to the user's webhook, also while the app is in the background
+  pollStop = poll(
+    async () => {
+      return store.dispatch(checkWebhookEvents(document.hidden));
+    },
+    60 * 1000 /* every 60s */,
+    false
+  );
+  pollStopFns.push(pollStop);
+
+  // track bridge transfers until delivered, also while the app is in the background
+  pollStop = poll(
+    async () => {
+      return store.dispatch(checkBridgeTransfers());
+    },
+    30 * 1000 /* every 30s */,
+    false
+  );
+  pollStopFns.push(pollStop);
+
+  // track deposits from other chains until their bridged amount has been deposited
+  pollStop = poll(
+    async () => {
+      return store.dispatch(checkCrossChainDeposits());
+    },
+    30 * 1000 /* every 30s */,
+    false
+  );
+  pollStopFns.push(pollStop);
+
   // now set regular calls to update user data
   for (const chain of chains) {
     const pollStop = poll(async () => {
@@ -223,6 +268,7 @@ export function manualPoll(): BeefyThunk {
     dispatch(recalculatePromoStatuses());
     dispatch(fetchAllPricesAction());
     dispatch(fetchApyAction());
+    dispatch(evaluateAlertRules());
 
     for (const chainId of chains) {
       dispatch(fetchAllContractDataByChainAction({ chainId: chainId }));
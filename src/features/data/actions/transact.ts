@@ -27,6 +27,7 @@ import type {
   TransactQuote,
 } from '../apis/transact/transact-types.ts';
 import {
+  isCrossChainDepositQuote,
   isDepositOption,
   isDepositQuote,
   isWithdrawOption,
@@ -54,6 +55,9 @@ import { isSerializableError, serializeError } from '../apis/transact/strategies
 import type { SerializedError } from '../apis/transact/strategies/error-types.ts';
 import { approve } from './wallet/approval.ts';
 import { claimGovVault } from './wallet/gov.ts';
+import { getCrossChainDepositSteps } from './cross-chain-deposits.ts';
+import { fetchBridgeConfig } from './bridge.ts';
+import { selectShouldLoadBridgeConfig } from '../selectors/bridge.ts';
 
 export type TransactInitArgs = {
   vaultId: VaultEntity['id'];
@@ -89,6 +93,11 @@ export const transactFetchOptions = createAsyncThunk<
       throw new Error(`Claim mode not supported.`);
     }
 
+    // deposits from other chains need the bridge config
+    if (mode === TransactMode.Deposit && selectShouldLoadBridgeConfig(getState())) {
+      await dispatch(fetchBridgeConfig());
+    }
+
     const api = await getTransactApi();
     const state = getState();
     const method = optionsForByMode[mode];
@@ -363,13 +372,17 @@ export async function getTransactSteps(
  * Builds allowance steps from quote data,
  * then asks quote provider for the deposit/withdraw step,
  * which is wrapped to provide quote recheck/confirm functionality
+ * Deposits from another chain have steps on both chains, see getCrossChainDepositSteps
  */
 export function transactSteps(
   quote: TransactQuote,
   t: TFunction<Namespace>
 ): ThunkAction<Promise<void>, BeefyState, void, Action> {
   return async function (dispatch, getState) {
-    const steps = await getTransactSteps(quote, t, getState);
+    const steps =
+      isCrossChainDepositQuote(quote) ?
+        await getCrossChainDepositSteps(quote, t, dispatch, getState)
+      : await getTransactSteps(quote, t, getState);
     dispatch(startStepperWithSteps(steps, quote.inputs[0].token.chainId));
   };
 }
@@ -1,20 +1,60 @@
-import type { IBridgeQuote } from '../../apis/bridge/providers/provider-types.ts';
-import type { BeefyAnyBridgeConfig } from '../../apis/config-types.ts';
+import type { BridgeSentAction, IBridgeQuote } from '../../apis/bridge/providers/provider-types.ts';
+import type { BeefyAnyBridgeConfig, BeefyHyperlaneBridgeConfig } from '../../apis/config-types.ts';
 import { bindTransactionEvents, captureWalletErrors, txStart, txWallet } from './common.ts';
-import { selectWalletAddress } from '../../selectors/wallet.ts';
 import { selectChainById } from '../../selectors/chains.ts';
 import { selectChainNativeToken } from '../../selectors/tokens.ts';
-import { toWeiString } from '../../../../helpers/big-number.ts';
-import { isTokenEqual } from '../../entities/token.ts';
+import { isTokenEqual, type TokenErc20 } from '../../entities/token.ts';
 import { getWalletConnectionApi } from '../../apis/instances.ts';
 import { rpcClientManager } from '../../apis/rpc-contract/rpc-manager.ts';
-import { fetchWalletContract } from '../../apis/rpc-contract/viem-contract.ts';
 import { BeefyCommonBridgeAbi } from '../../../../config/abi/BeefyCommonBridgeAbi.ts';
+import { HyperlaneTokenRouterAbi } from '../../../../config/abi/HyperlaneTokenRouterAbi.ts';
 import { getGasPriceOptions } from '../../utils/gas-utils.ts';
 import type { Address } from 'abitype';
 import { uniqBy } from 'lodash-es';
+import { type Hash, type PublicClient, type WalletClient, pad } from 'viem';
+import { recordBridgeTransfer } from '../bridge-history.ts';
+import type { ChainEntity } from '../../entities/chain.ts';
+import { type Step, stepperActions } from '../../reducers/wallet/stepper.ts';
+import { selectCurrentChainId, selectWalletAddress } from '../../selectors/wallet.ts';
+import { askForNetworkChange } from '../wallet.ts';
+import { fetchContract, fetchWalletContract } from '../../apis/rpc-contract/viem-contract.ts';
+import { ERC20Abi } from '../../../../config/abi/ERC20Abi.ts';
+import { fromWei, toWeiString } from '../../../../helpers/big-number.ts';
+import { sleep } from '../../utils/async-utils.ts';
+import type BigNumber from 'bignumber.js';
 
-export const bridgeViaCommonInterface = (quote: IBridgeQuote<BeefyAnyBridgeConfig>) => {
+/** how often to check whether the previous hop of a route has arrived */
+const NEXT_HOP_ARRIVAL_INTERVAL = 15 * 1000;
+/** give up waiting for the previous hop after this long, the transfer stays in the bridge history */
+const NEXT_HOP_ARRIVAL_TIMEOUT = 2 * 60 * 60 * 1000;
+
+type BridgeChainConfig<T extends BeefyAnyBridgeConfig> = NonNullable<
+  T['chains'][ChainEntity['id']]
+>;
+
+type BridgeContractCallParams<T extends BeefyAnyBridgeConfig> = {
+  walletClient: WalletClient;
+  fromChainConfig: BridgeChainConfig<T>;
+  toChainConfig: BridgeChainConfig<T>;
+  toChain: ChainEntity;
+  inputWei: bigint;
+  receiverAddress: Address;
+  options: Awaited<ReturnType<typeof getGasPriceOptions>> & {
+    account: Address;
+    value: bigint;
+    chain: PublicClient['chain'];
+  };
+};
+
+/**
+ * Sends the bridge tx for `quote` with the contract call of its provider,
+ * records the transfer in the bridge history and tracks the tx.
+ */
+const bridgeViaContract = <T extends BeefyAnyBridgeConfig>(
+  quote: IBridgeQuote<T>,
+  send: (params: BridgeContractCallParams<T>) => Promise<Hash>,
+  onSent?: BridgeSentAction
+) => {
   return captureWalletErrors(async (dispatch, getState) => {
     txStart(dispatch);
     const state = getState();
@@ -24,13 +64,14 @@ export const bridgeViaCommonInterface = (quote: IBridgeQuote<BeefyAnyBridgeConfi
     }
 
     const { input, output, fee, config } = quote;
-    const fromChainConfig = config.chains[input.token.chainId];
-    if (!fromChainConfig) {
-      throw new Error(`No config found for chain ${input.token.chainId}`);
-    }
-    const viaBeefyBridgeAddress = fromChainConfig.bridge;
     const fromChainId = input.token.chainId;
     const toChainId = output.token.chainId;
+    const fromChainConfig = config.chains[fromChainId] as BridgeChainConfig<T> | undefined;
+    const toChainConfig = config.chains[toChainId] as BridgeChainConfig<T> | undefined;
+    if (!fromChainConfig || !toChainConfig) {
+      throw new Error(`No config found for chain ${fromChainConfig ? toChainId : fromChainId}`);
+    }
+    const bridgeAddress = fromChainConfig.bridge;
     const fromChain = selectChainById(state, fromChainId);
     const toChain = selectChainById(state, toChainId);
     const gasToken = selectChainNativeToken(state, fromChainId);
@@ -39,26 +80,40 @@ export const bridgeViaCommonInterface = (quote: IBridgeQuote<BeefyAnyBridgeConfi
     const receiverAddress = quote.receiver || fromAddress;
 
     if (!isTokenEqual(gasToken, fee.token)) {
-      console.debug(gasToken, fee.token);
       throw new Error(`Only native fee token is supported`);
     }
 
     const walletApi = await getWalletConnectionApi();
     const publicClient = rpcClientManager.getBatchClient(fromChainId);
     const walletClient = await walletApi.getConnectedViemClient();
-    const contract = fetchWalletContract(viaBeefyBridgeAddress, BeefyCommonBridgeAbi, walletClient);
     const gasPrices = await getGasPriceOptions(fromChain);
 
     txWallet(dispatch);
-    const transaction = contract.write.bridge(
-      [BigInt(toChain.networkChainId), BigInt(inputWei), receiverAddress as Address],
-      {
+    const transaction = send({
+      walletClient,
+      fromChainConfig,
+      toChainConfig,
+      toChain,
+      inputWei: BigInt(inputWei),
+      receiverAddress: receiverAddress as Address,
+      options: {
         ...gasPrices,
         account: fromAddress as Address,
         value: BigInt(feeWei),
         chain: publicClient.chain,
-      }
-    );
+      },
+    });
+
+    transaction
+      .then(hash => {
+        dispatch(recordBridgeTransfer(quote, hash, fromAddress, receiverAddress));
+        if (onSent) {
+          dispatch(onSent(hash));
+        }
+      })
+      .catch(() => {
+        // submit errors are handled by bindTransactionEvents
+      });
 
     bindTransactionEvents(
       dispatch,
@@ -73,9 +128,90 @@ export const bridgeViaCommonInterface = (quote: IBridgeQuote<BeefyAnyBridgeConfi
       {
         walletAddress: fromAddress,
         chainId: fromChainId,
-        spenderAddress: viaBeefyBridgeAddress,
+        spenderAddress: bridgeAddress,
         tokens: uniqBy([gasToken, input.token], 'id'),
       }
     );
   });
 };
+
+export const bridgeViaCommonInterface = (
+  quote: IBridgeQuote<BeefyAnyBridgeConfig>,
+  onSent?: BridgeSentAction
+) =>
+  bridgeViaContract(
+    quote,
+    ({ walletClient, fromChainConfig, toChain, inputWei, receiverAddress, options }) => {
+      const contract = fetchWalletContract(
+        fromChainConfig.bridge,
+        BeefyCommonBridgeAbi,
+        walletClient
+      );
+      return contract.write.bridge(
+        [BigInt(toChain.networkChainId), inputWei, receiverAddress],
+        options
+      );
+    },
+    onSent
+  );
+
+export const bridgeViaHyperlane = (
+  quote: IBridgeQuote<BeefyHyperlaneBridgeConfig>,
+  onSent?: BridgeSentAction
+) =>
+  bridgeViaContract(
+    quote,
+    ({ walletClient, fromChainConfig, toChainConfig, inputWei, receiverAddress, options }) => {
+      const contract = fetchWalletContract(
+        fromChainConfig.bridge,
+        HyperlaneTokenRouterAbi,
+        walletClient
+      );
+      return contract.write.transferRemote(
+        [toChainConfig.domain, pad(receiverAddress, { size: 32 }), inputWei],
+        options
+      );
+    },
+    onSent
+  );
+
+/**
+ * Wraps a step of a later hop of a multi-hop bridge route, which must be sent from the hop's chain.
+ * With `arrival`, first waits for the wallet balance there to show the previous hop was delivered.
+ */
+export const bridgeNextHop = (
+  chainId: ChainEntity['id'],
+  action: Step['action'],
+  arrival?: { token: TokenErc20; minBalance: BigNumber }
+) => {
+  return captureWalletErrors(async (dispatch, getState) => {
+    txStart(dispatch);
+    const walletAddress = selectWalletAddress(getState());
+    if (!walletAddress) {
+      throw new Error('No wallet connected');
+    }
+
+    if (arrival) {
+      const { token, minBalance } = arrival;
+      const contract = fetchContract(token.address, ERC20Abi, token.chainId);
+      const giveUpAt = Date.now() + NEXT_HOP_ARRIVAL_TIMEOUT;
+      for (;;) {
+        const balance = await contract.read.balanceOf([walletAddress as Address]);
+        if (fromWei(balance.toString(10), token.decimals).gte(minBalance)) {
+          break;
+        }
+        if (Date.now() > giveUpAt) {
+          throw new Error(`${token.symbol} has not arrived on ${token.chainId} yet`);
+        }
+        await sleep(NEXT_HOP_ARRIVAL_INTERVAL);
+      }
+    }
+
+    if (selectCurrentChainId(getState()) !== chainId) {
+      await dispatch(askForNetworkChange({ chainId })).unwrap();
+    }
+    dispatch(stepperActions.setChainId({ chainId }));
+
+    await dispatch(action);
+  });
+};
@@ -47,6 +47,7 @@ import { uniqBy } from 'lodash-es';
 
 export const WALLET_ACTION = 'WALLET_ACTION';
 export const WALLET_ACTION_RESET = 'WALLET_ACTION_RESET';
+const PRIVATE_TX_RECEIPT_TIMEOUT = 10 * 60 * 1000;
 type TxRefreshOnSuccess = {
   walletAddress: string;
   chainId: ChainEntity['id'];
@@ -63,6 +64,8 @@ type TxRefreshOnSuccess = {
 type TxContext = {
   additionalData?: TxAdditionalData;
   refreshOnSuccess?: TxRefreshOnSuccess;
+  /** tx was sent to a private relay rather than the public mempool */
+  isPrivate?: boolean;
 };
 export type TxWriteProps = {
   account: Address;
@@ -74,6 +77,7 @@ export type TxWriteProps = {
  */
 export function txStart(dispatch: ThunkDispatch<BeefyState, unknown, Action<string>>) {
   dispatch(createWalletActionResetAction());
+  dispatch(stepperActions.setPreflight({ preflight: undefined }));
   // should already be set by Stepper
   // dispatch(stepperActions.setStepContent({ stepContent: StepContent.StartTx }));
 }
@@ -93,9 +97,13 @@ function txSubmitted(
   context: TxContext,
   hash: Hash
 ) {
-  const { additionalData } = context;
+  const { additionalData, isPrivate } = context;
   dispatch(createWalletActionPendingAction(hash, additionalData));
-  dispatch(stepperActions.setStepContent({ stepContent: StepContent.WaitingTx }));
+  dispatch(
+    stepperActions.setStepContent({
+      stepContent: isPrivate ? StepContent.WaitingPrivateTx : StepContent.WaitingTx,
+    })
+  );
 }
 
 /**
@@ -226,14 +234,19 @@ export function bindTransactionEvents(
   transactionHashPromise: Promise<Hash>,
   client: PublicClient,
   additionalData: TxAdditionalData,
-  refreshOnSuccess?: TxRefreshOnSuccess
+  refreshOnSuccess?: TxRefreshOnSuccess,
+  isPrivate: boolean = false
 ) {
-  const context: TxContext = { additionalData, refreshOnSuccess };
+  const context: TxContext = { additionalData, refreshOnSuccess, isPrivate };
 
   transactionHashPromise
     .then(hash => {
       txSubmitted(dispatch, context, hash);
-      waitForTransactionReceipt(client, { hash })
+      waitForTransactionReceipt(client, {
+        hash,
+        // private relays silently drop txs they cannot include, so do not wait forever
+        timeout: isPrivate ? PRIVATE_TX_RECEIPT_TIMEOUT : undefined,
+      })
         .then(receipt => {
           const success = receipt.status === 'success';
           if (success) {
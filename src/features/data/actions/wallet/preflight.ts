@@ -0,0 +1,45 @@
+import type { ThunkDispatch } from '@reduxjs/toolkit';
+import type { Action } from 'redux';
+import type BigNumber from 'bignumber.js';
+import type { BeefyState } from '../../../../redux-types.ts';
+import { type PreflightRequest, simulatePreflight } from '../../apis/transact/helpers/preflight.ts';
+import { PreflightRevertError } from '../../apis/transact/strategies/error.ts';
+import { stepperActions } from '../../reducers/wallet/stepper.ts';
+import { featureFlag_disablePreflight } from '../../utils/feature-flags.ts';
+
+/**
+ * Must call before txWallet(), simulates the tx so the user does not pay gas for one that would revert
+ * @param minAmounts minimum amount allowed for each of request.tokens, if any
+ */
+export async function txPreflight(
+  dispatch: ThunkDispatch<BeefyState, unknown, Action<string>>,
+  request: PreflightRequest,
+  minAmounts: (BigNumber | undefined)[] = []
+) {
+  if (featureFlag_disablePreflight()) {
+    return;
+  }
+
+  const result = await simulatePreflight(request);
+  if (result.status === 'revert') {
+    throw new PreflightRevertError(result.reason);
+  }
+
+  if (result.status === 'unavailable') {
+    // do not block the tx if we could not simulate it
+    console.warn('txPreflight: simulation unavailable', result.error);
+    return;
+  }
+
+  dispatch(
+    stepperActions.setPreflight({
+      preflight: {
+        outputs: result.balanceChanges.map((change, i) => ({
+          token: change.token,
+          amount: change.amount,
+          minAmount: minAmounts[i],
+        })),
+      },
+    })
+  );
+}
@@ -22,6 +22,8 @@ import { StandardVaultAbi } from '../../../../config/abi/StandardVaultAbi.ts';
 import { getGasPriceOptions } from '../../utils/gas-utils.ts';
 import type { Address } from 'abitype';
 import { bigNumberToBigInt, toWei } from '../../../../helpers/big-number.ts';
+import { encodeFunctionData } from 'viem';
+import { txPreflight } from './preflight.ts';
 
 export const deposit = (vault: VaultEntity, amount: BigNumber, max: boolean) => {
   return captureWalletErrors(async (dispatch, getState) => {
@@ -47,6 +49,23 @@ export const deposit = (vault: VaultEntity, amount: BigNumber, max: boolean) =>
     const chain = selectChainById(state, vault.chainId);
     const gasPrices = await getGasPriceOptions(chain);
 
+    await txPreflight(dispatch, {
+      chain,
+      account: address as Address,
+      to: contractAddr as Address,
+      data:
+        isNativeToken ? encodeFunctionData({ abi: StandardVaultAbi, functionName: 'depositBNB' })
+        : max ? encodeFunctionData({ abi: StandardVaultAbi, functionName: 'depositAll' })
+        : encodeFunctionData({
+            abi: StandardVaultAbi,
+            functionName: 'deposit',
+            args: [bigNumberToBigInt(rawAmount)],
+          }),
+      value: isNativeToken ? bigNumberToBigInt(rawAmount) : undefined,
+      holder: address as Address,
+      tokens: [mooToken],
+    });
+
     txWallet(dispatch);
     const transaction = (() => {
       if (isNativeToken) {
@@ -9,25 +9,44 @@ import {
   txStart,
   txWallet,
 } from './common.ts';
-import { selectTokenByAddress, selectTokenByAddressOrUndefined } from '../../selectors/tokens.ts';
-import { uniqBy } from 'lodash-es';
+import {
+  selectChainNativeToken,
+  selectTokenByAddress,
+  selectTokenByAddressOrUndefined,
+} from '../../selectors/tokens.ts';
+import { first, uniqBy } from 'lodash-es';
 import { selectWalletAddress } from '../../selectors/wallet.ts';
 import { selectVaultById } from '../../selectors/vaults.ts';
 import { selectChainById } from '../../selectors/chains.ts';
 import { selectZapByChainId } from '../../selectors/zap.ts';
-import { BIG_ZERO } from '../../../../helpers/big-number.ts';
+import { BIG_ZERO, fromWei } from '../../../../helpers/big-number.ts';
 import type { Address } from 'abitype';
 import { getWalletConnectionApi } from '../../apis/instances.ts';
 import { rpcClientManager } from '../../apis/rpc-contract/rpc-manager.ts';
 import { getGasPriceOptions } from '../../utils/gas-utils.ts';
-import { ZERO_ADDRESS } from '../../../../helpers/addresses.ts';
+import { isNativeAlternativeAddress, ZERO_ADDRESS } from '../../../../helpers/addresses.ts';
 import { fetchWalletContract } from '../../apis/rpc-contract/viem-contract.ts';
 import { BeefyZapRouterAbi } from '../../../../config/abi/BeefyZapRouterAbi.ts';
+import { encodeFunctionData } from 'viem';
+import { selectPrivateRpcForChain } from '../../selectors/user-settings.ts';
+import { sendPrivateTransaction } from '../../apis/viem/private-tx.ts';
+import { PREFLIGHT_RECIPIENT } from '../../apis/transact/helpers/preflight.ts';
+import { txPreflight } from './preflight.ts';
 
 export const zapExecuteOrder = (
   vaultId: VaultEntity['id'],
   params: UserlessZapRequest,
   expectedTokens: TokenEntity[]
+) => zapExecuteBasketOrder([vaultId], params, expectedTokens);
+
+/**
+ * Executes a single zap order that deposits into and/or withdraws from several vaults on the same chain
+ * The first vault is used for the tx notification
+ */
+export const zapExecuteBasketOrder = (
+  vaultIds: VaultEntity['id'][],
+  params: UserlessZapRequest,
+  expectedTokens: TokenEntity[]
 ) => {
   return captureWalletErrors(async (dispatch, getState) => {
     txStart(dispatch);
@@ -37,7 +56,15 @@ export const zapExecuteOrder = (
       throw new Error(`No wallet connected`);
     }
 
-    const vault = selectVaultById(state, vaultId);
+    const vaults = vaultIds.map(vaultId => selectVaultById(state, vaultId));
+    const vault = first(vaults);
+    if (!vault) {
+      throw new Error('No vaults provided');
+    }
+    if (vaults.some(v => v.chainId !== vault.chainId)) {
+      throw new Error('All vaults must be on the same chain');
+    }
+    const govVault = vaults.find(isGovVault);
     const chain = selectChainById(state, vault.chainId);
     const zap = selectZapByChainId(state, vault.chainId);
     if (!zap) {
@@ -106,9 +133,58 @@ export const zapExecuteOrder = (
       value: nativeInput ? nativeInput.amount : undefined,
     };
 
+    // the settings toggle is disabled for wallets that can not sign without sending
+    const privateRpc =
+      walletApi.canSignTransactions() ? selectPrivateRpcForChain(state, chain.id) : undefined;
+
+    // simulate with outputs sent to an empty address, so we can measure what the user will receive
+    const preflightOutputs = castedOrder.outputs.flatMap(output => {
+      const token =
+        isNativeAlternativeAddress(output.token) ?
+          selectChainNativeToken(state, chain.id)
+        : selectTokenByAddressOrUndefined(state, chain.id, output.token);
+      return token ?
+          [{ token, minAmount: fromWei(output.minOutputAmount.toString(10), token.decimals) }]
+        : [];
+    });
+    await txPreflight(
+      dispatch,
+      {
+        chain,
+        account: castedOrder.user,
+        to: zap.router as Address,
+        data: encodeFunctionData({
+          abi: BeefyZapRouterAbi,
+          functionName: 'executeOrder',
+          args: [{ ...castedOrder, recipient: PREFLIGHT_RECIPIENT }, castedSteps],
+        }),
+        value: options.value,
+        holder: PREFLIGHT_RECIPIENT,
+        tokens: preflightOutputs.map(output => output.token),
+      },
+      preflightOutputs.map(output => output.minAmount)
+    );
+
     txWallet(dispatch);
-    console.debug('executeOrder', { order: castedOrder, steps: castedSteps, options });
-    const transaction = contract.write.executeOrder([castedOrder, castedSteps], options);
+    console.debug('executeOrder', {
+      order: castedOrder,
+      steps: castedSteps,
+      options,
+      private: !!privateRpc,
+    });
+    const transaction =
+      privateRpc && publicClient.chain ?
+        sendPrivateTransaction(walletClient, privateRpc, {
+          ...options,
+          chain: publicClient.chain,
+          to: zap.router as Address,
+          data: encodeFunctionData({
+            abi: BeefyZapRouterAbi,
+            functionName: 'executeOrder',
+            args: [castedOrder, castedSteps],
+          }),
+        })
+      : contract.write.executeOrder([castedOrder, castedSteps], options);
 
     bindTransactionEvents(
       dispatch,
@@ -125,30 +201,32 @@ export const zapExecuteOrder = (
         walletAddress: address,
         chainId: vault.chainId,
         spenderAddress: zap.manager,
-        tokens: selectZapTokensToRefresh(state, vault, order),
+        tokens: selectZapTokensToRefresh(state, vaults, order),
         clearInput: true,
-        ...(isGovVault(vault) ? { govVaultId: vault.id } : {}),
-      }
+        ...(govVault ? { govVaultId: govVault.id } : {}),
+      },
+      !!privateRpc
     );
   });
 };
 
 function selectZapTokensToRefresh(
   state: BeefyState,
-  vault: VaultEntity,
+  vaults: VaultEntity[],
   order: ZapOrder
 ): TokenEntity[] {
-  const tokens: TokenEntity[] = selectVaultTokensToRefresh(state, vault);
+  const tokens: TokenEntity[] = vaults.flatMap(vault => selectVaultTokensToRefresh(state, vault));
+  const { chainId } = vaults[0];
 
   for (const { token: tokenAddress } of order.inputs) {
-    const token = selectTokenByAddressOrUndefined(state, vault.chainId, tokenAddress);
+    const token = selectTokenByAddressOrUndefined(state, chainId, tokenAddress);
     if (token) {
       tokens.push(token);
     }
   }
 
   for (const { token: tokenAddress } of order.outputs) {
-    const token = selectTokenByAddressOrUndefined(state, vault.chainId, tokenAddress);
+    const token = selectTokenByAddressOrUndefined(state, chainId, tokenAddress);
     if (token) {
       tokens.push(token);
     }
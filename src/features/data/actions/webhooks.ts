@@ -0,0 +1,202 @@
+import type { BeefyThunk } from '../../../redux-types.ts';
+import type { VaultEntity } from '../entities/vault.ts';
+import { isCowcentratedLikeVault } from '../entities/vault.ts';
+import {
+  type WebhookEvent,
+  type WebhookEventType,
+  type WebhookVaultSnapshot,
+  webhooksActions,
+} from '../reducers/webhooks.ts';
+import { recalculatePromoStatuses } from '../reducers/promos.ts';
+import {
+  selectWebhookEndpoint,
+  selectWebhookSnapshots,
+  selectWebhookTemplates,
+  selectWebhookVaultSnapshot,
+} from '../selectors/webhooks.ts';
+import {
+  selectHasWalletBalanceBeenFetched,
+  selectUserDepositedVaultIds,
+} from '../selectors/balance.ts';
+import { selectShouldLoadAllCurrentCowcentratedRanges } from '../selectors/data-loader.ts';
+import { selectVaultById } from '../selectors/vaults.ts';
+import { selectWalletAddress } from '../selectors/wallet.ts';
+import { fetchAllCurrentCowcentratedRanges } from './tokens.ts';
+import { renderWebhookTemplate } from '../utils/webhook-utils.ts';
+import { sleep } from '../utils/async-utils.ts';
+import { postJson } from '../../../helpers/http/http.ts';
+import {
+  isFetchError,
+  isFetchResponseError,
+  isFetchResponseJsonParseError,
+  isFetchResponseNotJsonError,
+} from '../../../helpers/http/errors.ts';
+import { isError } from '../../../helpers/error.ts';
+
+const WEBHOOK_TIMEOUT = 10_000;
+const WEBHOOK_MAX_ATTEMPTS = 5;
+/** doubled after each failed attempt */
+const WEBHOOK_RETRY_DELAY = 5_000;
+
+/**
+ * Compares the vaults the wallet is deposited in against their last snapshot,
+ * and delivers a webhook for each status change to paused/eol, new active boost or clm range move.
+ * Vaults seen for the first time only record a snapshot.
+ */
+export function checkWebhookEvents(background: boolean): BeefyThunk<Promise<unknown>> {
+  return async (dispatch, getState) => {
+    const endpoint = selectWebhookEndpoint(getState());
+    const walletAddress = selectWalletAddress(getState());
+    if (
+      !endpoint ||
+      !walletAddress ||
+      !selectHasWalletBalanceBeenFetched(getState(), walletAddress)
+    ) {
+      return;
+    }
+
+    const vaultIds = selectUserDepositedVaultIds(getState(), walletAddress);
+    if (
+      vaultIds.some(vaultId => isCowcentratedLikeVault(selectVaultById(getState(), vaultId))) &&
+      selectShouldLoadAllCurrentCowcentratedRanges(getState())
+    ) {
+      await dispatch(fetchAllCurrentCowcentratedRanges());
+    }
+    // the regular promo status poll pauses while the app is in the background
+    if (background) {
+      dispatch(recalculatePromoStatuses());
+    }
+
+    const state = getState();
+    const previousSnapshots = selectWebhookSnapshots(state);
+    const snapshots: Record<VaultEntity['id'], WebhookVaultSnapshot> = {};
+    const events: WebhookEvent[] = [];
+    for (const vaultId of vaultIds) {
+      const snapshot = selectWebhookVaultSnapshot(state, vaultId);
+      if (!snapshot) {
+        continue;
+      }
+      const previous = previousSnapshots[vaultId];
+      // keep the last known range while the current one is not loaded
+      snapshots[vaultId] = { ...snapshot, range: snapshot.range || previous?.range };
+      if (previous) {
+        const vault = selectVaultById(state, vaultId);
+        const common = {
+          vaultId,
+          vaultName: vault.names.list,
+          chainId: vault.chainId,
+          walletAddress,
+          timestamp: new Date().toISOString(),
+        };
+        for (const { type, params } of getVaultEvents(previous, snapshot)) {
+          events.push({ type, vaultId, params: { ...common, ...params, event: type } });
+        }
+      }
+    }
+
+    dispatch(webhooksActions.snapshotsUpdated(snapshots));
+    return Promise.all(events.map(event => dispatch(deliverWebhook(event))));
+  };
+}
+
+function getVaultEvents(
+  previous: WebhookVaultSnapshot,
+  current: WebhookVaultSnapshot
+): { type: WebhookEventType; params: Record<string, string> }[] {
+  const events: { type: WebhookEventType; params: Record<string, string> }[] = [];
+
+  if (current.status !== previous.status && current.status !== 'active') {
+    events.push({
+      type: 'vault-status',
+      params: { status: current.status, previousStatus: previous.status },
+    });
+  }
+
+  for (const boostId of current.boostIds) {
+    if (!previous.boostIds.includes(boostId)) {
+      events.push({ type: 'new-boost', params: { boostId } });
+    }
+  }
+
+  if (
+    previous.range &&
+    current.range &&
+    (previous.range.min !== current.range.min || previous.range.max !== current.range.max)
+  ) {
+    events.push({
+      type: 'clm-range',
+      params: {
+        rangeMin: current.range.min,
+        rangeMax: current.range.max,
+        previousRangeMin: previous.range.min,
+        previousRangeMax: previous.range.max,
+      },
+    });
+  }
+
+  return events;
+}
+
+/**
+ * POSTs the event's rendered payload template to the webhook endpoint,
+ * retrying with backoff on network errors, timeouts, 429 and 5xx responses
+ */
+export function deliverWebhook(event: WebhookEvent): BeefyThunk<Promise<void>> {
+  return async (dispatch, getState) => {
+    const state = getState();
+    const endpoint = selectWebhookEndpoint(state);
+    const template = selectWebhookTemplates(state)[event.type];
+    const { id } = dispatch(webhooksActions.deliveryAdded(event)).payload;
+
+    let body: string;
+    try {
+      body = renderWebhookTemplate(template, event.params);
+    } catch (err: unknown) {
+      dispatch(
+        webhooksActions.deliveryUpdated({
+          id,
+          status: 'failed',
+          attempts: 0,
+          error: isError(err) ? err.message : String(err),
+        })
+      );
+      return;
+    }
+
+    for (let attempt = 1; ; ++attempt) {
+      try {
+        await postJson({ url: endpoint, body, timeout: WEBHOOK_TIMEOUT });
+        dispatch(webhooksActions.deliveryUpdated({ id, status: 'delivered', attempts: attempt }));
+        return;
+      } catch (err: unknown) {
+        // the endpoint accepted the payload, we do not care what it responded with
+        if (isFetchResponseNotJsonError(err) || isFetchResponseJsonParseError(err)) {
+          dispatch(webhooksActions.deliveryUpdated({ id, status: 'delivered', attempts: attempt }));
+          return;
+        }
+
+        const retry = attempt < WEBHOOK_MAX_ATTEMPTS && isRetryableWebhookError(err);
+        dispatch(
+          webhooksActions.deliveryUpdated({
+            id,
+            status: retry ? 'pending' : 'failed',
+            attempts: attempt,
+            error: isError(err) ? err.message : String(err),
+          })
+        );
+        if (!retry) {
+          return;
+        }
+        await sleep(WEBHOOK_RETRY_DELAY * 2 ** (attempt - 1));
+      }
+    }
+  };
+}
+
+function isRetryableWebhookError(err: unknown): boolean {
+  if (isFetchResponseError(err)) {
+    return err.response.status === 429 || err.response.status >= 500;
+  }
+  // network errors and timeouts
+  return isFetchError(err);
+}
@@ -9,6 +9,7 @@ import type { VaultEntity } from '../entities/vault.ts';
 import {
   featureFlag_kyberSwapSupport,
   featureFlag_OdosSwapSupport,
+  featureFlag_zeroExSwapSupport,
   featureFlag_oneInchSupport,
 } from '../utils/feature-flags.ts';
 import type { ChainEntity } from '../entities/chain.ts';
@@ -101,6 +102,7 @@ export const fetchZapAggregatorTokenSupportAction = createAsyncThunk<
     'one-inch': featureFlag_oneInchSupport(),
     kyber: featureFlag_kyberSwapSupport(),
     odos: featureFlag_OdosSwapSupport(),
+    'zero-ex': featureFlag_zeroExSwapSupport(),
   };
 
   for (const [key, support] of entries(extraSupport)) {
@@ -60,6 +60,23 @@ const mapSolidly: Record<string, typeof SolidlyPool> = {
   'sonic-shadow': SpiritSwapV2SolidlyPool,
 };
 
+export function getUniswapLikePoolConstructor(amm: AmmEntityUniswapV2): typeof UniswapV2Pool;
+export function getUniswapLikePoolConstructor(amm: AmmEntitySolidly): typeof SolidlyPool;
+export function getUniswapLikePoolConstructor(
+  amm: AmmEntityUniswapLike
+): typeof UniswapV2Pool | typeof SolidlyPool;
+export function getUniswapLikePoolConstructor(
+  amm: AmmEntityUniswapLike
+): typeof UniswapV2Pool | typeof SolidlyPool {
+  if (isUniswapV2Amm(amm)) {
+    return mapUniswapV2[amm.id] || UniswapV2Pool;
+  } else if (isSolidlyAmm(amm)) {
+    return mapSolidly[amm.id] || SolidlyPool;
+  } else {
+    throw new Error(`Unknown AMM type`);
+  }
+}
+
 export async function getUniswapLikePool(
   lpAddress: string,
   amm: AmmEntityUniswapV2,
@@ -81,10 +98,10 @@ export async function getUniswapLikePool(
   chain: ChainEntity
 ): Promise<IUniswapLikePool> {
   if (isUniswapV2Amm(amm)) {
-    const Constructor: typeof UniswapV2Pool = mapUniswapV2[amm.id] || UniswapV2Pool;
+    const Constructor = getUniswapLikePoolConstructor(amm);
     return await initUniswapLikePool(new Constructor(lpAddress, amm, chain));
   } else if (isSolidlyAmm(amm)) {
-    const Constructor: typeof SolidlyPool = mapSolidly[amm.id] || SolidlyPool;
+    const Constructor = getUniswapLikePoolConstructor(amm);
     return await initUniswapLikePool(new Constructor(lpAddress, amm, chain));
   } else {
     throw new Error(`Unknown AMM type`);
@@ -2,10 +2,16 @@ import type { InputTokenAmount } from '../transact/transact-types.ts';
 import type { BeefyAnyBridgeConfig } from '../config-types.ts';
 import type { ChainEntity } from '../../entities/chain.ts';
 import type { BeefyState } from '../../../../redux-types.ts';
-import type { IBridgeQuote } from './providers/provider-types.ts';
+import type {
+  BridgeMessageStatus,
+  BridgeSentAction,
+  IBridgeQuote,
+} from './providers/provider-types.ts';
 import type { TokenErc20 } from '../../entities/token.ts';
 import type { Step } from '../../reducers/wallet/stepper.ts';
 import type { TFunction } from 'react-i18next';
+import type { BridgeTransfer } from '../../reducers/bridge-history.ts';
+import type BigNumber from 'bignumber.js';
 
 export interface IBridgeApi {
   fetchQuote<T extends BeefyAnyBridgeConfig>(
@@ -20,6 +26,31 @@ export interface IBridgeApi {
   fetchBridgeStep<T extends BeefyAnyBridgeConfig>(
     quote: IBridgeQuote<T>,
     t: TFunction,
-    state: BeefyState
+    state: BeefyState,
+    onSent?: BridgeSentAction
   ): Promise<Step>;
+
+  fetchMessageStatus(transfer: BridgeTransfer): Promise<BridgeMessageStatus>;
+}
+
+export type BridgeRouteHop = {
+  bridgeId: BeefyAnyBridgeConfig['id'];
+  from: ChainEntity['id'];
+  to: ChainEntity['id'];
+};
+
+/** Quotes for each hop of a route, the output of each hop is the input of the next */
+export interface IBridgeRouteQuote {
+  /** bridge id for direct routes, `bridgeId>chainId>bridgeId` for multi-hop routes */
+  readonly id: string;
+  hops: IBridgeQuote<BeefyAnyBridgeConfig>[];
+  /** hops pay fees in the native token of their source chain, so only the usd total is comparable */
+  feeUsd: BigNumber;
+  timeEstimate: number;
+  withinLimits: boolean;
+  /** lowest limit of all hops */
+  limits: {
+    current: BigNumber;
+    max: BigNumber;
+  };
 }
@@ -1,27 +1,18 @@
 import type { IBridgeApi } from './bridge-api-types.ts';
-import type { BeefyAnyBridgeConfig, BeefyBridgeIdToConfig } from '../config-types.ts';
+import type { BeefyAnyBridgeConfig } from '../config-types.ts';
 import type { InputTokenAmount } from '../transact/transact-types.ts';
-import type { IBridgeProvider, IBridgeQuote } from './providers/provider-types.ts';
-import { LayerZeroProvider } from './providers/LayerZeroProvider.ts';
+import type {
+  BridgeMessageStatus,
+  BridgeSentAction,
+  IBridgeQuote,
+} from './providers/provider-types.ts';
 import type { ChainEntity } from '../../entities/chain.ts';
 import type { BeefyState } from '../../../../redux-types.ts';
-import { OptimismProvider } from './providers/OptimismProvider.ts';
 import type { TFunction } from 'react-i18next';
 import type { Step } from '../../reducers/wallet/stepper.ts';
 import type { TokenErc20 } from '../../entities/token.ts';
-import { AxelarProvider } from './providers/AxelarProvider.ts';
-import { ChainlinkProvider } from './providers/ChainlinkProvider.ts';
-
-type ProviderMap = {
-  [K in BeefyAnyBridgeConfig['id']]: IBridgeProvider<BeefyBridgeIdToConfig<K>>;
-};
-
-const providers = {
-  'layer-zero': new LayerZeroProvider(),
-  optimism: new OptimismProvider(),
-  axelar: new AxelarProvider(),
-  chainlink: new ChainlinkProvider(),
-} as const satisfies ProviderMap;
+import type { BridgeTransfer } from '../../reducers/bridge-history.ts';
+import { getBridgeProvider } from './bridge-providers.ts';
 
 export class BridgeApi implements IBridgeApi {
   public async fetchQuote<T extends BeefyAnyBridgeConfig>(
@@ -32,26 +23,22 @@ export class BridgeApi implements IBridgeApi {
     receiver: string | undefined,
     state: BeefyState
   ): Promise<IBridgeQuote<T>> {
-    if (!providers[config.id]) {
-      throw new Error(`Unknown bridge provider: ${config.id}`);
-    }
-
-    // asserts the config->provider mapping is correct
-    const provider = providers[config.id] as unknown as IBridgeProvider<T>;
+    const provider = getBridgeProvider<T>(config.id);
     return await provider.fetchQuote(config, from, to, input, receiver, state);
   }
 
   async fetchBridgeStep<T extends BeefyAnyBridgeConfig>(
     quote: IBridgeQuote<T>,
     t: TFunction,
-    state: BeefyState
+    state: BeefyState,
+    onSent?: BridgeSentAction
   ): Promise<Step> {
-    if (!providers[quote.id]) {
-      throw new Error(`Unknown bridge provider: ${quote.id}`);
-    }
+    const provider = getBridgeProvider<T>(quote.id);
+    return provider.fetchBridgeStep(quote, t, state, onSent);
+  }
 
-    // asserts the config->provider mapping is correct
-    const provider: IBridgeProvider<BeefyAnyBridgeConfig> = providers[quote.id];
-    return provider.fetchBridgeStep(quote, t, state);
+  async fetchMessageStatus(transfer: BridgeTransfer): Promise<BridgeMessageStatus> {
+    const provider = getBridgeProvider(transfer.bridgeId);
+    return provider.fetchMessageStatus(transfer);
   }
 }
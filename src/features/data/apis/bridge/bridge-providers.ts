@@ -0,0 +1,47 @@
+import type { BeefyAnyBridgeConfig } from '../config-types.ts';
+import type { IBridgeProvider } from './providers/provider-types.ts';
+import { LayerZeroProvider } from './providers/LayerZeroProvider.ts';
+import { OptimismProvider } from './providers/OptimismProvider.ts';
+import { AxelarProvider } from './providers/AxelarProvider.ts';
+import { ChainlinkProvider } from './providers/ChainlinkProvider.ts';
+import { HyperlaneProvider } from './providers/HyperlaneProvider.ts';
+
+type BridgeProviders = {
+  [K in BeefyAnyBridgeConfig['id']]: IBridgeProvider<Extract<BeefyAnyBridgeConfig, { id: K }>>;
+};
+
+type AnyBridgeProvider = BridgeProviders[keyof BridgeProviders];
+
+const providersById = new Map<BeefyAnyBridgeConfig['id'], IBridgeProvider<BeefyAnyBridgeConfig>>();
+
+/**
+ * Makes a provider available for bridge configs with its id
+ * @throws if a provider with the same id is already registered
+ */
+export function registerBridgeProvider(provider: AnyBridgeProvider) {
+  if (providersById.has(provider.id)) {
+    throw new Error(`Bridge provider ${provider.id} is already registered`);
+  }
+  providersById.set(provider.id, provider as unknown as IBridgeProvider<BeefyAnyBridgeConfig>);
+}
+
+export function getBridgeProvider<T extends BeefyAnyBridgeConfig>(id: T['id']): IBridgeProvider<T> {
+  const provider = providersById.get(id);
+  if (!provider) {
+    throw new Error(`Unknown bridge provider: ${id}`);
+  }
+
+  // providers are registered under the id of the config they handle
+  return provider as unknown as IBridgeProvider<T>;
+}
+
+/** a new bridge config id fails to type check until its provider is added here */
+const builtInProviders = {
+  'layer-zero': new LayerZeroProvider(),
+  optimism: new OptimismProvider(),
+  axelar: new AxelarProvider(),
+  chainlink: new ChainlinkProvider(),
+  hyperlane: new HyperlaneProvider(),
+} as const satisfies BridgeProviders;
+
+Object.values(builtInProviders).forEach(registerBridgeProvider);
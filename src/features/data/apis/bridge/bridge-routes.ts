@@ -0,0 +1,136 @@
+import BigNumber from 'bignumber.js';
+import { orderBy } from 'lodash-es';
+import PQueue from 'p-queue';
+import type { BeefyState } from '../../../../redux-types.ts';
+import type { BeefyAnyBridgeConfig } from '../config-types.ts';
+import type { InputTokenAmount } from '../transact/transact-types.ts';
+import type { TokenErc20 } from '../../entities/token.ts';
+import type { BridgeRouteHop, IBridgeRouteQuote } from './bridge-api-types.ts';
+import type { IBridgeQuote } from './providers/provider-types.ts';
+import { getBridgeApi } from '../instances.ts';
+import {
+  selectBridgeConfigById,
+  selectBridgeDepositTokenForChainId,
+} from '../../selectors/bridge.ts';
+import { selectChainById } from '../../selectors/chains.ts';
+import { selectTokenPriceByAddress } from '../../selectors/tokens.ts';
+import { BIG_ZERO } from '../../../../helpers/big-number.ts';
+
+/** every route is quoted and multi-hop routes need a quote per hop, so only this many routes are quoted at once */
+const MAX_CONCURRENT_ROUTE_QUOTES = 4;
+
+export function getRouteId(hops: BridgeRouteHop[]) {
+  return hops.map((hop, i) => (i === 0 ? hop.bridgeId : `${hop.from}>${hop.bridgeId}`)).join('>');
+}
+
+export function getBridgeRouteHops(quote: IBridgeRouteQuote): BridgeRouteHop[] {
+  return quote.hops.map(hop => ({
+    bridgeId: hop.config.id,
+    from: hop.input.token.chainId,
+    to: hop.output.token.chainId,
+  }));
+}
+
+/**
+ * Quotes each hop in turn, as the output of a hop is the input of the next.
+ * Earlier hops send to the wallet, which then sends the next hop; only the last hop uses the receiver.
+ * Hop quotes are cached by route prefix so routes sharing a first hop only quote it once.
+ */
+export async function fetchRouteQuote(
+  hops: BridgeRouteHop[],
+  input: InputTokenAmount<TokenErc20>,
+  receiver: string | undefined,
+  state: BeefyState,
+  cache: Map<string, Promise<IBridgeQuote<BeefyAnyBridgeConfig>>> = new Map()
+): Promise<IBridgeRouteQuote> {
+  const api = await getBridgeApi();
+  const quotes: IBridgeQuote<BeefyAnyBridgeConfig>[] = [];
+
+  for (const [i, hop] of hops.entries()) {
+    const previous = quotes[i - 1];
+    const hopInput: InputTokenAmount<TokenErc20> =
+      previous ?
+        {
+          token: selectBridgeDepositTokenForChainId(state, hop.from),
+          amount: previous.output.amount,
+          max: false,
+        }
+      : input;
+    const hopReceiver = i === hops.length - 1 ? receiver : undefined;
+    const cacheKey = `${getRouteId(hops.slice(0, i + 1))}:${hopReceiver || ''}`;
+    let quote = cache.get(cacheKey);
+    if (!quote) {
+      quote = api.fetchQuote(
+        selectBridgeConfigById(state, hop.bridgeId),
+        selectChainById(state, hop.from),
+        selectChainById(state, hop.to),
+        hopInput,
+        hopReceiver,
+        state
+      );
+      cache.set(cacheKey, quote);
+    }
+    quotes.push(await quote);
+  }
+
+  const limits = quotes.map(q => ({
+    current: BigNumber.min(q.limits.from.current, q.limits.to.current),
+    max: BigNumber.min(q.limits.from.max, q.limits.to.max),
+  }));
+
+  return {
+    id: getRouteId(hops),
+    hops: quotes,
+    feeUsd: quotes.reduce(
+      (total, q) =>
+        total.plus(
+          q.fee.amount.multipliedBy(
+            selectTokenPriceByAddress(state, q.fee.token.chainId, q.fee.token.address)
+          )
+        ),
+      BIG_ZERO
+    ),
+    timeEstimate: quotes.reduce((total, q) => total + q.timeEstimate, 0),
+    withinLimits: quotes.every(q => q.withinLimits),
+    limits: {
+      current: BigNumber.min(...limits.map(l => l.current)),
+      max: BigNumber.min(...limits.map(l => l.max)),
+    },
+  };
+}
+
+/**
+ * Quotes each route, a few at a time, sharing hop quotes between routes.
+ * Results are in the same order as `routes`.
+ */
+export async function fetchRouteQuotes(
+  routes: BridgeRouteHop[][],
+  input: InputTokenAmount<TokenErc20>,
+  receiver: string | undefined,
+  state: BeefyState
+): Promise<PromiseSettledResult<IBridgeRouteQuote>[]> {
+  const queue = new PQueue({ concurrency: MAX_CONCURRENT_ROUTE_QUOTES });
+  const cache = new Map<string, Promise<IBridgeQuote<BeefyAnyBridgeConfig>>>();
+
+  return Promise.allSettled(
+    routes.map(hops =>
+      queue.add(() => fetchRouteQuote(hops, input, receiver, state, cache), {
+        throwOnTimeout: true,
+      })
+    )
+  );
+}
+
+/** Best first: most received, then lowest fee, fastest and most headroom under the limits */
+export function sortRouteQuotes(quotes: IBridgeRouteQuote[]): IBridgeRouteQuote[] {
+  return orderBy(
+    quotes,
+    [
+      quote => quote.hops[quote.hops.length - 1].output.amount.toNumber(),
+      quote => quote.feeUsd.toNumber(),
+      quote => quote.timeEstimate,
+      quote => quote.limits.current.toNumber(),
+    ],
+    ['desc', 'asc', 'asc', 'desc']
+  );
+}
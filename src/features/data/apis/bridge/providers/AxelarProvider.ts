@@ -9,6 +9,21 @@ import { fromWei } from '../../../../../helpers/big-number.ts';
 import type BigNumber from 'bignumber.js';
 import { estimateArbitrumSequencerGas } from '../helpers/arbitrum.ts';
 import { getAxelarApi } from '../../axelar/axelar.ts';
+import type { BridgeTransfer } from '../../../reducers/bridge-history.ts';
+import type { BridgeMessageStatus } from './provider-types.ts';
+import { postJson } from '../../../../../helpers/http/http.ts';
+
+type AxelarScanSearchGmpResponse = {
+  data: Array<{
+    status: string;
+    executed?: {
+      transactionHash?: string;
+    };
+  }>;
+};
+
+/** gmp will not be executed without manual intervention */
+const AXELAR_FAILED_STATUSES = ['error', 'insufficient_fee', 'not_enough_gas_to_execute'];
 
 export class AxelarProvider extends CommonBridgeProvider<BeefyAxelarBridgeConfig> {
   public readonly id = 'axelar';
@@ -90,4 +105,20 @@ export class AxelarProvider extends CommonBridgeProvider<BeefyAxelarBridgeConfig
     }
     return sequencerGas.plus(toChain.gasLimits.incoming);
   }
+
+  async fetchMessageStatus(transfer: BridgeTransfer): Promise<BridgeMessageStatus> {
+    const response = await postJson<AxelarScanSearchGmpResponse>({
+      url: 'https://api.axelarscan.io/gmp/searchGMP',
+      body: { txHash: transfer.id },
+    });
+    const gmp = response.data[0];
+    if (!gmp) {
+      return { status: 'pending' };
+    }
+
+    if (gmp.status === 'executed') {
+      return { status: 'delivered', destinationHash: gmp.executed?.transactionHash };
+    }
+    return { status: AXELAR_FAILED_STATUSES.includes(gmp.status) ? 'failed' : 'pending' };
+  }
 }
@@ -4,7 +4,12 @@ import type {
   InputTokenAmount,
   TokenAmount,
 } from '../../transact/transact-types.ts';
-import type { IBridgeProvider, IBridgeQuote } from './provider-types.ts';
+import type {
+  BridgeMessageStatus,
+  BridgeSentAction,
+  IBridgeProvider,
+  IBridgeQuote,
+} from './provider-types.ts';
 import type { ChainEntity } from '../../../entities/chain.ts';
 import { BeefyCommonBridgeAbi } from '../../../../../config/abi/BeefyCommonBridgeAbi.ts';
 import { XErc20Abi } from '../../../../../config/abi/XErc20Abi.ts';
@@ -28,6 +33,7 @@ import {
 import { fetchContract } from '../../rpc-contract/viem-contract.ts';
 import type { Address } from 'abitype';
 import { bridgeViaCommonInterface } from '../../../actions/wallet/bridge.ts';
+import type { BridgeTransfer } from '../../../reducers/bridge-history.ts';
 
 export abstract class CommonBridgeProvider<T extends BeefyAnyBridgeConfig>
   implements IBridgeProvider<T>
@@ -192,12 +198,22 @@ export abstract class CommonBridgeProvider<T extends BeefyAnyBridgeConfig>
     }
   }
 
-  async fetchBridgeStep(quote: IBridgeQuote<T>, t: TFunction, _state: BeefyState): Promise<Step> {
+  async fetchBridgeStep(
+    quote: IBridgeQuote<T>,
+    t: TFunction,
+    _state: BeefyState,
+    onSent?: BridgeSentAction
+  ): Promise<Step> {
     return {
       step: 'bridge',
       message: t('Vault-TxnConfirm', { type: t('Bridge-noun') }),
-      action: bridgeViaCommonInterface(quote),
+      action: bridgeViaCommonInterface(quote, onSent),
       pending: false,
     };
   }
+
+  /** no status lookup by default (e.g. chainlink ccip), the history panel then says delivery is confirmed by balance */
+  async fetchMessageStatus(_transfer: BridgeTransfer): Promise<BridgeMessageStatus> {
+    return { status: 'unknown' };
+  }
 }
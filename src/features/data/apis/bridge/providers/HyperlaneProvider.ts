@@ -0,0 +1,136 @@
+import type { BeefyHyperlaneBridgeConfig } from '../../config-types.ts';
+import { CommonBridgeProvider } from './CommonBridgeProvider.ts';
+import type { ChainEntity } from '../../../entities/chain.ts';
+import type { InputTokenAmount, TokenAmount } from '../../transact/transact-types.ts';
+import type { TokenErc20, TokenNative } from '../../../entities/token.ts';
+import type { BeefyState } from '../../../../../redux-types.ts';
+import type { BridgeMessageStatus, BridgeSentAction, IBridgeQuote } from './provider-types.ts';
+import type { Step } from '../../../reducers/wallet/stepper.ts';
+import type { TFunction } from 'react-i18next';
+import type { BridgeTransfer } from '../../../reducers/bridge-history.ts';
+import { selectChainNativeToken } from '../../../selectors/tokens.ts';
+import { selectWalletAddress } from '../../../selectors/wallet.ts';
+import { BIG_ZERO, fromWei, toWeiString } from '../../../../../helpers/big-number.ts';
+import { isFiniteNumber } from '../../../../../helpers/number.ts';
+import { fetchContract } from '../../rpc-contract/viem-contract.ts';
+import { HyperlaneTokenRouterAbi } from '../../../../../config/abi/HyperlaneTokenRouterAbi.ts';
+import { bridgeViaHyperlane } from '../../../actions/wallet/bridge.ts';
+import { getJson } from '../../../../../helpers/http/http.ts';
+import BigNumber from 'bignumber.js';
+import { pad } from 'viem';
+import type { Address } from 'abitype';
+
+type HyperlaneExplorerSearchResponse = {
+  result:
+    | Array<{
+        status: 'delivered' | 'pending' | 'failing' | 'unknown';
+        destination?: {
+          hash?: string;
+        };
+      }>
+    | string;
+};
+
+/**
+ * Hyperlane warp route, where `bridge` in the chain config is the token router.
+ * Routes are driven entirely by config, each chain only needs its router address and domain id.
+ */
+export class HyperlaneProvider extends CommonBridgeProvider<BeefyHyperlaneBridgeConfig> {
+  public readonly id = 'hyperlane';
+
+  protected async fetchBridgeFee(
+    config: BeefyHyperlaneBridgeConfig,
+    from: ChainEntity,
+    to: ChainEntity,
+    _input: InputTokenAmount<TokenErc20>,
+    state: BeefyState
+  ): Promise<TokenAmount<TokenNative>> {
+    const fromChain = config.chains[from.id];
+    const toChain = config.chains[to.id];
+    if (!fromChain || !toChain) {
+      throw new Error(`bridge '${this.id}' not available for ${from.id}->${to.id}.`);
+    }
+
+    try {
+      const router = fetchContract(fromChain.bridge, HyperlaneTokenRouterAbi, from.id);
+      const feeToken = selectChainNativeToken(state, from.id);
+      const feeWei = await router.read.quoteGasPayment([toChain.domain]);
+      return { token: feeToken, amount: fromWei(feeWei.toString(10), feeToken.decimals) };
+    } catch (e) {
+      console.error(this.id, 'fetchBridgeFee', e);
+      throw new Error(`Failed to fetch bridge fee for ${this.id}`);
+    }
+  }
+
+  protected async fetchOutgoingGasLimit(
+    config: BeefyHyperlaneBridgeConfig,
+    from: ChainEntity,
+    to: ChainEntity,
+    input: TokenAmount<TokenErc20>,
+    fee: TokenAmount<TokenNative>,
+    state: BeefyState
+  ): Promise<BigNumber> {
+    const fromChain = config.chains[from.id];
+    const toChain = config.chains[to.id];
+    if (!fromChain || !toChain) {
+      throw new Error(`bridge '${this.id}' not available for ${from.id}->${to.id}.`);
+    }
+    const { gasLimits } = fromChain;
+    const configEstimate = gasLimits.outgoing.plus(gasLimits.approve || BIG_ZERO);
+    const address = selectWalletAddress(state);
+    if (!address) {
+      return configEstimate;
+    }
+
+    try {
+      const router = fetchContract(fromChain.bridge, HyperlaneTokenRouterAbi, from.id);
+      const chainEstimate = await router.estimateGas.transferRemote(
+        [
+          toChain.domain,
+          pad(address as Address, { size: 32 }),
+          BigInt(toWeiString(input.amount, input.token.decimals)),
+        ],
+        {
+          account: address as Address,
+          value: BigInt(toWeiString(fee.amount, fee.token.decimals)),
+        }
+      );
+
+      if (isFiniteNumber(Number(chainEstimate)) && chainEstimate > 0n) {
+        return new BigNumber(chainEstimate.toString(10));
+      }
+    } catch (e) {
+      console[gasLimits.approve ? 'warn' : 'error'](this.id, 'fetchOutgoingGasLimit', e);
+    }
+
+    return configEstimate;
+  }
+
+  async fetchBridgeStep(
+    quote: IBridgeQuote<BeefyHyperlaneBridgeConfig>,
+    t: TFunction,
+    _state: BeefyState,
+    onSent?: BridgeSentAction
+  ): Promise<Step> {
+    return {
+      step: 'bridge',
+      message: t('Vault-TxnConfirm', { type: t('Bridge-noun') }),
+      action: bridgeViaHyperlane(quote, onSent),
+      pending: false,
+    };
+  }
+
+  async fetchMessageStatus(transfer: BridgeTransfer): Promise<BridgeMessageStatus> {
+    const response = await getJson<HyperlaneExplorerSearchResponse>({
+      url: 'https://explorer.hyperlane.xyz/api',
+      params: { module: 'message', action: 'search-messages', query: transfer.id },
+    });
+    // result is an error message string when nothing is found
+    const message = Array.isArray(response.result) ? response.result[0] : undefined;
+    if (message?.status === 'delivered') {
+      return { status: 'delivered', destinationHash: message.destination?.hash };
+    }
+    // failing messages are retried by the relayer, and become stuck if they never deliver
+    return { status: 'pending' };
+  }
+}
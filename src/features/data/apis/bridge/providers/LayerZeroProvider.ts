@@ -1,6 +1,50 @@
 import type { BeefyLayerZeroBridgeConfig } from '../../config-types.ts';
 import { CommonBridgeProvider } from './CommonBridgeProvider.ts';
+import type { BridgeTransfer } from '../../../reducers/bridge-history.ts';
+import type { BridgeMessageStatus } from './provider-types.ts';
+import { getJson } from '../../../../../helpers/http/http.ts';
+import { isFetchResponseError } from '../../../../../helpers/http/errors.ts';
+
+type LayerZeroScanMessagesResponse = {
+  data: Array<{
+    status: {
+      name: string;
+    };
+    destination?: {
+      tx?: {
+        txHash?: string;
+      };
+    };
+  }>;
+};
+
+/** message will not be delivered without manual intervention */
+const LAYER_ZERO_FAILED_STATUSES = ['FAILED', 'BLOCKED', 'PAYLOAD_STORED'];
 
 export class LayerZeroProvider extends CommonBridgeProvider<BeefyLayerZeroBridgeConfig> {
   public readonly id = 'layer-zero';
+
+  async fetchMessageStatus(transfer: BridgeTransfer): Promise<BridgeMessageStatus> {
+    try {
+      const response = await getJson<LayerZeroScanMessagesResponse>({
+        url: `https://scan.layerzero-api.com/v1/messages/tx/${transfer.id}`,
+      });
+      const message = response.data[0];
+      if (!message) {
+        return { status: 'pending' };
+      }
+
+      const name = message.status.name;
+      if (name === 'DELIVERED') {
+        return { status: 'delivered', destinationHash: message.destination?.tx?.txHash };
+      }
+      return { status: LAYER_ZERO_FAILED_STATUSES.includes(name) ? 'failed' : 'pending' };
+    } catch (e) {
+      // scan returns 404 until it indexes the source tx
+      if (isFetchResponseError(e) && e.response.status === 404) {
+        return { status: 'pending' };
+      }
+      throw e;
+    }
+  }
 }
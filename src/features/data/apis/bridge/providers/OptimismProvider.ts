@@ -1,6 +1,68 @@
 import type { BeefyOptimismBridgeConfig } from '../../config-types.ts';
 import { CommonBridgeProvider } from './CommonBridgeProvider.ts';
+import type { BridgeTransfer } from '../../../reducers/bridge-history.ts';
+import type { BridgeMessageStatus } from './provider-types.ts';
+import { rpcClientManager } from '../../rpc-contract/rpc-manager.ts';
+import { fetchContract } from '../../rpc-contract/viem-contract.ts';
+import { type Hash, encodeFunctionData, keccak256, parseAbi, parseEventLogs } from 'viem';
+
+const CrossDomainMessengerAbi = parseAbi([
+  'event SentMessage(address indexed target, address sender, bytes message, uint256 messageNonce, uint256 gasLimit)',
+  'event SentMessageExtension1(address indexed sender, uint256 value)',
+  'function relayMessage(uint256 _nonce, address _sender, address _target, uint256 _value, uint256 _minGasLimit, bytes _message)',
+  'function successfulMessages(bytes32) view returns (bool)',
+  'function failedMessages(bytes32) view returns (bool)',
+]);
+
+/** L2CrossDomainMessenger predeploy */
+const L2_MESSENGER_ADDRESS = '0x4200000000000000000000000000000000000007';
 
 export class OptimismProvider extends CommonBridgeProvider<BeefyOptimismBridgeConfig> {
   public readonly id = 'optimism';
+
+  /**
+   * Only ethereum -> optimism is supported, where the message is relayed by the L2 messenger.
+   * The message hash is rebuilt from the L1 messenger events in the source tx.
+   */
+  async fetchMessageStatus(transfer: BridgeTransfer): Promise<BridgeMessageStatus> {
+    if (transfer.fromChainId !== 'ethereum' || transfer.toChainId !== 'optimism') {
+      return { status: 'unknown' };
+    }
+
+    const receipt = await rpcClientManager
+      .getBatchClient(transfer.fromChainId)
+      .getTransactionReceipt({ hash: transfer.id as Hash });
+    const logs = parseEventLogs({ abi: CrossDomainMessengerAbi, logs: receipt.logs });
+    const sent = logs.find(log => log.eventName === 'SentMessage');
+    const extension = logs.find(log => log.eventName === 'SentMessageExtension1');
+    if (!sent || !extension) {
+      return { status: 'unknown' };
+    }
+
+    const messageHash = keccak256(
+      encodeFunctionData({
+        abi: CrossDomainMessengerAbi,
+        functionName: 'relayMessage',
+        args: [
+          sent.args.messageNonce,
+          sent.args.sender,
+          sent.args.target,
+          extension.args.value,
+          sent.args.gasLimit,
+          sent.args.message,
+        ],
+      })
+    );
+    const messenger = fetchContract(L2_MESSENGER_ADDRESS, CrossDomainMessengerAbi, 'optimism');
+    const [successful, failed] = await Promise.all([
+      messenger.read.successfulMessages([messageHash]),
+      messenger.read.failedMessages([messageHash]),
+    ]);
+
+    if (successful) {
+      return { status: 'delivered' };
+    }
+    // failed relays can be replayed, but not without manual intervention
+    return { status: failed ? 'failed' : 'pending' };
+  }
 }
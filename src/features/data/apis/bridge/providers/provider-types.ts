@@ -1,11 +1,13 @@
 import type { BeefyAnyBridgeConfig } from '../../config-types.ts';
 import type { InputTokenAmount, TokenAmount } from '../../transact/transact-types.ts';
 import type { ChainEntity } from '../../../entities/chain.ts';
-import type { BeefyState } from '../../../../../redux-types.ts';
+import type { BeefyState, BeefyThunk } from '../../../../../redux-types.ts';
 import type { TokenErc20, TokenNative } from '../../../entities/token.ts';
 import type BigNumber from 'bignumber.js';
 import type { Step } from '../../../reducers/wallet/stepper.ts';
 import type { TFunction } from 'react-i18next';
+import type { BridgeTransfer } from '../../../reducers/bridge-history.ts';
+import type { Hash } from 'viem';
 
 export interface TokenAllowance {
   amount: BigNumber;
@@ -36,6 +38,15 @@ export interface IBridgeQuote<T extends BeefyAnyBridgeConfig> {
   };
 }
 
+/** dispatched with the hash once the bridge tx is submitted, e.g. to record what the transfer is for */
+export type BridgeSentAction = (hash: Hash) => BeefyThunk;
+
+export type BridgeMessageStatus = {
+  /** unknown when the provider has no status api, delivery is then confirmed by balance only */
+  status: 'pending' | 'delivered' | 'failed' | 'unknown';
+  destinationHash?: string;
+};
+
 export interface IBridgeProvider<T extends BeefyAnyBridgeConfig> {
   readonly id: T['id'];
 
@@ -48,5 +59,13 @@ export interface IBridgeProvider<T extends BeefyAnyBridgeConfig> {
     state: BeefyState
   ): Promise<IBridgeQuote<T>>;
 
-  fetchBridgeStep(quote: IBridgeQuote<T>, t: TFunction, state: BeefyState): Promise<Step>;
+  fetchBridgeStep(
+    quote: IBridgeQuote<T>,
+    t: TFunction,
+    state: BeefyState,
+    onSent?: BridgeSentAction
+  ): Promise<Step>;
+
+  /** status of the cross-chain message sent by the transfer's source tx */
+  fetchMessageStatus(transfer: BridgeTransfer): Promise<BridgeMessageStatus>;
 }
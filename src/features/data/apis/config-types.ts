@@ -185,6 +185,8 @@ export type ChainConfig = {
   eol?: number;
   chainId: number;
   rpc: string[];
+  /** Private relay rpc (e.g. Flashbots Protect) signed txs are sent to when the user enables private submission */
+  privateRpc?: string;
   explorerUrl: string;
   explorerAddressUrlTemplate?: string;
   explorerTokenUrlTemplate?: string;
@@ -292,7 +294,26 @@ export interface OdosSwapSwapConfig {
   fee: ZapFee;
 }
 
-export type SwapAggregatorConfig = OneInchSwapConfig | KyberSwapSwapConfig | OdosSwapSwapConfig;
+export interface ZeroExSwapConfig {
+  id: string;
+  type: 'zero-ex';
+  chainId: ChainEntity['id'];
+  /** base url of a 0x API (swap/v1) compatible service */
+  apiUrl: string;
+  apiKey?: string;
+  /** tokens the service can swap, in addition to any support reported by the beefy api */
+  supportedTokens?: TokenEntity['id'][];
+  priorityTokens: TokenEntity['id'][];
+  blockedTokens: TokenEntity['id'][];
+  blockedVaults: VaultEntity['id'][];
+  fee: ZapFee;
+}
+
+export type SwapAggregatorConfig =
+  | OneInchSwapConfig
+  | KyberSwapSwapConfig
+  | OdosSwapSwapConfig
+  | ZeroExSwapConfig;
 
 export type SwapAggregatorConfigLoose = ChangeTypeOfKeys<
   SwapAggregatorConfig,
@@ -350,6 +371,8 @@ export type PlatformConfig = {
   readonly website?: string;
   readonly documentation?: string;
   readonly type?: PlatformType;
+  /** whether the yield farmed by vaults on this platform is paid from fees or token emissions */
+  readonly vaultYieldSource?: 'fee' | 'emission';
 };
 
 export interface TokenHoldingConfig {
@@ -476,34 +499,47 @@ export type BeefyCommonBridgeConfig = {
   chains: Partial<Record<ChainEntity['id'], BeefyCommonBridgeChainConfig>>;
 };
 
-export type BeefyLayerZeroBridgeConfig = BeefyCommonBridgeConfig & {
-  id: 'layer-zero';
+export type BeefyHyperlaneBridgeChainConfig = BeefyCommonBridgeChainConfig & {
+  /** Hyperlane domain id of the chain, usually but not always the network chain id */
+  domain: number;
 };
 
-export type BeefyOptimismBridgeConfig = BeefyCommonBridgeConfig & {
-  id: 'optimism';
+export type BeefyHyperlaneBridgeConfig = Omit<BeefyCommonBridgeConfig, 'chains'> & {
+  id: 'hyperlane';
+  /** bridge is the address of the warp route token router on each chain */
+  chains: Partial<Record<ChainEntity['id'], BeefyHyperlaneBridgeChainConfig>>;
 };
 
-export type BeefyChainlinkBridgeConfig = BeefyCommonBridgeConfig & {
-  id: 'chainlink';
-};
+/**
+ * Config type of each bridge id; to add a bridge, add its config type here and register its
+ * provider in `bridge-providers.ts`
+ */
+export interface BeefyBridgeConfigsById {
+  'layer-zero': BeefyCommonBridgeConfig;
+  optimism: BeefyCommonBridgeConfig;
+  chainlink: BeefyCommonBridgeConfig;
+  axelar: BeefyCommonBridgeConfig;
+  hyperlane: BeefyHyperlaneBridgeConfig;
+}
 
-export type BeefyAxelarBridgeConfig = BeefyCommonBridgeConfig & {
-  id: 'axelar';
+export type BeefyBridgeIdToConfig<T extends keyof BeefyBridgeConfigsById> = Omit<
+  BeefyBridgeConfigsById[T],
+  'id'
+> & {
+  id: T;
 };
 
-export type BeefyAnyBridgeConfig =
-  | BeefyLayerZeroBridgeConfig
-  | BeefyOptimismBridgeConfig
-  | BeefyChainlinkBridgeConfig
-  | BeefyAxelarBridgeConfig;
-
-export type BeefyBridgeIdToConfig<T extends BeefyAnyBridgeConfig['id']> = Extract<
-  BeefyAnyBridgeConfig,
-  {
-    id: T;
-  }
->;
+export type BeefyLayerZeroBridgeConfig = BeefyBridgeIdToConfig<'layer-zero'>;
+
+export type BeefyOptimismBridgeConfig = BeefyBridgeIdToConfig<'optimism'>;
+
+export type BeefyChainlinkBridgeConfig = BeefyBridgeIdToConfig<'chainlink'>;
+
+export type BeefyAxelarBridgeConfig = BeefyBridgeIdToConfig<'axelar'>;
+
+export type BeefyAnyBridgeConfig = {
+  [K in keyof BeefyBridgeConfigsById]: BeefyBridgeIdToConfig<K>;
+}[keyof BeefyBridgeConfigsById];
 
 export type BeefyBridgeConfig = Readonly<{
   /**
@@ -2,13 +2,18 @@ import {
   createDependencyFactory,
   createDependencyFactoryWithCacheByChain,
   createDependencyInitializerFactory,
+  createDependencyInitializerFactoryWithCacheByChain,
 } from '../utils/factory-utils.ts';
 import type { WalletConnectionOptions } from './wallet/wallet-connection-types.ts';
 import type { ISwapProvider } from './transact/swap/ISwapProvider.ts';
+import type { ZeroExApiOptions } from './zero-ex/zero-ex.ts';
 import {
   featureFlag_disableKyber,
   featureFlag_disableOdos,
   featureFlag_disableOneInch,
+  featureFlag_disableQuoteCache,
+  featureFlag_disableZeroEx,
+  featureFlag_quoteCacheTtl,
 } from '../utils/feature-flags.ts';
 
 export const getBeefyApi = createDependencyFactory(
@@ -73,6 +78,8 @@ export const getSwapAggregator = createDependencyFactory(
     OneInchSwapProvider,
     KyberSwapProvider,
     OdosSwapProvider,
+    ZeroExSwapProvider,
+    CachedSwapProvider,
   }) => {
     const providers: ISwapProvider[] = [new WNativeSwapProvider()];
 
@@ -88,7 +95,24 @@ export const getSwapAggregator = createDependencyFactory(
       providers.push(new OdosSwapProvider());
     }
 
-    return new SwapAggregator(providers);
+    if (!featureFlag_disableZeroEx()) {
+      providers.push(new ZeroExSwapProvider());
+    }
+
+    if (featureFlag_disableQuoteCache()) {
+      return new SwapAggregator(providers);
+    }
+
+    const defaultTtl = featureFlag_quoteCacheTtl();
+    return new SwapAggregator(
+      providers.map(
+        provider =>
+          new CachedSwapProvider(
+            provider,
+            defaultTtl !== undefined ? { defaultTtl, ttlByChain: {} } : undefined
+          )
+      )
+    );
   },
   () => import('./transact/swap/swap.ts')
 );
@@ -139,6 +163,11 @@ export const getOdosApi = createDependencyFactoryWithCacheByChain(
   () => import('./odos/odos.ts')
 );
 
+export const getZeroExApi = createDependencyInitializerFactoryWithCacheByChain(
+  async (chain, options: ZeroExApiOptions, { ZeroExApi }) => new ZeroExApi(chain, options),
+  () => import('./zero-ex/zero-ex.ts')
+);
+
 export const getNameServicesApi = createDependencyFactory(
   async ({ NameServicesApi }) => new NameServicesApi(),
   () => import('./name-services/name-services-api.ts')
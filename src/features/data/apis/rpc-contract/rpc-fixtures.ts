@@ -0,0 +1,39 @@
+import { RpcFixtureStore, type RpcFixtureFile } from '../viem/transports/fixtureTransport.ts';
+import type { RpcFixtures } from './rpc-manager.ts';
+import { featureFlag_rpcFixtures, featureFlag_rpcFixturesUrl } from '../../utils/feature-flags.ts';
+import { createFactory } from '../../utils/factory-utils.ts';
+import { getJson } from '../../../../helpers/http/http.ts';
+import { downloadObjectAsJsonFile } from '../../../../helpers/download.ts';
+
+declare const window: {
+  __export_rpc_fixtures?: () => void;
+} & Window &
+  typeof globalThis;
+
+/**
+ * `?__rpc_fixtures=record` captures all RPC responses, export with `__export_rpc_fixtures()`
+ * `?__rpc_fixtures=replay[&__rpc_fixtures_url=/rpc-fixtures.json]` serves them back with no network
+ */
+export const getRpcFixturesFromFeatureFlags = createFactory((): RpcFixtures | false => {
+  const mode = featureFlag_rpcFixtures();
+  if (!mode) {
+    return false;
+  }
+
+  if (mode === 'record') {
+    const store = new RpcFixtureStore();
+    window.__export_rpc_fixtures = () => {
+      const now = new Date().toISOString();
+      downloadObjectAsJsonFile(store.toJSON(), `rpc-fixtures-${now}.json`);
+    };
+    console.info('Recording RPC responses, use `__export_rpc_fixtures()` to export the result');
+    return { mode, store };
+  }
+
+  const url = featureFlag_rpcFixturesUrl();
+  console.info(`Replaying RPC responses from ${url}`);
+  return {
+    mode,
+    store: getJson<RpcFixtureFile>({ url }).then(file => new RpcFixtureStore(file)),
+  };
+});
@@ -1,6 +1,10 @@
 import { createPublicClient, type PublicClient, type Client, type BlockTag } from 'viem';
 import type { ChainEntity, ChainId } from '../../entities/chain.ts';
-import { makeCustomFallbackTransport } from '../viem/transports/transports.ts';
+import {
+  makeCustomFallbackTransport,
+  makeFixtureTransport,
+} from '../viem/transports/transports.ts';
+import type { RpcFixtureMode, RpcFixtureStore } from '../viem/transports/fixtureTransport.ts';
 import { buildViemChain } from '../viem/chains.ts';
 import { getGasPrice, getFeeHistory } from 'viem/actions';
 import BigNumber from 'bignumber.js';
@@ -11,6 +15,11 @@ type RpcClients = {
   batchCallClient: PublicClient;
 };
 
+export type RpcFixtures = {
+  mode: RpcFixtureMode;
+  store: RpcFixtureStore | Promise<RpcFixtureStore>;
+};
+
 type BeefyFeeHistory = {
   baseFeePerGas: BigNumber[];
   gasUsedRatio: number[];
@@ -52,6 +61,13 @@ export const getBeefyFeeHistory = async (
 
 class RpcClientManager {
   private clients: Map<ChainId, RpcClients> = new Map();
+  private fixtures: RpcFixtures | undefined = undefined;
+
+  private createTransport(rpcUrls: string[], retries: number) {
+    return this.fixtures ?
+        makeFixtureTransport(rpcUrls, retries, this.fixtures)
+      : makeCustomFallbackTransport(rpcUrls, retries);
+  }
 
   // Create new viem clients using the provided chain config and RPC URLs.
   private createClients(chain: ChainEntity | ChainConfig, rpcUrls: string[]): RpcClients {
@@ -59,24 +75,36 @@ class RpcClientManager {
     // Create a viem client with a fallback transport for single calls.
     const singleCallClient = createPublicClient({
       chain: buildViemChain(chain),
-      transport: makeCustomFallbackTransport(rpcUrls, retries),
+      transport: this.createTransport(rpcUrls, retries),
     });
 
     // Create a viem client with batching enabled. (Assumes multicall support)
+    // Which calls get batched together depends on timing, so fixtures record each call on its own
     const batchCallClient = createPublicClient({
       chain: buildViemChain(chain),
-      transport: makeCustomFallbackTransport(rpcUrls, retries),
-      batch: {
-        multicall: {
-          batchSize: 1024,
-          wait: 250,
-        },
-      },
+      transport: this.createTransport(rpcUrls, retries),
+      batch:
+        this.fixtures ? undefined : (
+          {
+            multicall: {
+              batchSize: 1024,
+              wait: 250,
+            },
+          }
+        ),
     });
 
     return { singleCallClient, batchCallClient };
   }
 
+  /**
+   * Record responses to, or replay responses from, a fixture store instead of using the RPCs directly.
+   * Only affects clients created after this call, so set before {@link setClients}.
+   */
+  public setFixtures(fixtures: RpcFixtures | undefined): void {
+    this.fixtures = fixtures;
+  }
+
   /**
    * Initialize or update clients for a chainId.
    */
@@ -0,0 +1,189 @@
+import {
+  type Address,
+  BaseError,
+  decodeErrorResult,
+  decodeFunctionResult,
+  encodeFunctionData,
+  type Hex,
+  hexToBigInt,
+  isHex,
+  parseAbi,
+} from 'viem';
+import type { ChainEntity } from '../../../entities/chain.ts';
+import { isTokenNative, type TokenEntity } from '../../../entities/token.ts';
+import type { TokenAmount } from '../transact-types.ts';
+import { rpcClientManager } from '../../rpc-contract/rpc-manager.ts';
+import { Multicall3Abi } from '../../../../../config/abi/Multicall3Abi.ts';
+import { ERC20Abi } from '../../../../../config/abi/ERC20Abi.ts';
+import { BeefyZapRouterAbi } from '../../../../../config/abi/BeefyZapRouterAbi.ts';
+import { fromWei } from '../../../../../helpers/big-number.ts';
+
+/** Recipient used when simulating, so balance changes are not mixed with the user's own transfers */
+export const PREFLIGHT_RECIPIENT: Address = '0x000000000000000000000000000000000000beef';
+
+const revertAbi = [
+  ...BeefyZapRouterAbi,
+  ...parseAbi(['error Error(string message)', 'error Panic(uint256 code)']),
+];
+
+export type PreflightRequest = {
+  chain: ChainEntity;
+  /** tx sender, its code is replaced by multicall3 in the simulation so it can read balances after */
+  account: Address;
+  to: Address;
+  data: Hex;
+  value?: bigint;
+  /** address whose token balances are compared before/after */
+  holder: Address;
+  tokens: TokenEntity[];
+};
+
+export type PreflightResult =
+  | {
+      status: 'success';
+      balanceChanges: TokenAmount[];
+    }
+  | {
+      status: 'revert';
+      reason: string;
+    }
+  | {
+      /** rpc does not support state overrides etc. */
+      status: 'unavailable';
+      error: unknown;
+    };
+
+/**
+ * Simulates a tx via eth_call, returning the change in `holder`'s token balances or why it reverted
+ */
+export async function simulatePreflight(request: PreflightRequest): Promise<PreflightResult> {
+  const { chain, account, to, data, value, holder, tokens } = request;
+  const client = rpcClientManager.getSingleClient(chain.id);
+
+  try {
+    const multicallCode = await client.getCode({ address: chain.multicall3Address });
+    if (!multicallCode) {
+      return { status: 'unavailable', error: new Error(`No multicall3 on ${chain.id}`) };
+    }
+
+    const balanceCalls = tokens.map(token => ({
+      target: isTokenNative(token) ? chain.multicall3Address : (token.address as Address),
+      allowFailure: false,
+      value: 0n,
+      callData:
+        isTokenNative(token) ?
+          encodeFunctionData({ abi: Multicall3Abi, functionName: 'getEthBalance', args: [holder] })
+        : encodeFunctionData({ abi: ERC20Abi, functionName: 'balanceOf', args: [holder] }),
+    }));
+    const calls = [
+      ...balanceCalls,
+      { target: to, allowFailure: true, value: value || 0n, callData: data },
+      ...balanceCalls,
+    ];
+
+    const { data: resultData } = await client.call({
+      account,
+      to: account,
+      value,
+      data: encodeFunctionData({
+        abi: Multicall3Abi,
+        functionName: 'aggregate3Value',
+        args: [calls],
+      }),
+      stateOverride: [{ address: account, code: multicallCode }],
+    });
+    if (!resultData) {
+      return { status: 'unavailable', error: new Error('No data returned from simulation') };
+    }
+
+    const results = decodeFunctionResult({
+      abi: Multicall3Abi,
+      functionName: 'aggregate3Value',
+      data: resultData,
+    });
+    const txResult = results[tokens.length];
+    if (!txResult.success) {
+      // confirm without the code override, in case the target rejects contract callers
+      return await confirmRevert(request);
+    }
+
+    return {
+      status: 'success',
+      balanceChanges: tokens.map((token, i) => ({
+        token,
+        amount: fromWei(
+          (
+            hexToBigInt(results[tokens.length + 1 + i].returnData) -
+            hexToBigInt(results[i].returnData)
+          ).toString(10),
+          token.decimals
+        ),
+      })),
+    };
+  } catch (error: unknown) {
+    return { status: 'unavailable', error };
+  }
+}
+
+async function confirmRevert(request: PreflightRequest): Promise<PreflightResult> {
+  const { chain, account, to, data, value, tokens } = request;
+  const client = rpcClientManager.getSingleClient(chain.id);
+
+  try {
+    await client.call({ account, to, data, value });
+    return {
+      status: 'unavailable',
+      error: new Error('Simulation reverted only with state overrides'),
+    };
+  } catch (error: unknown) {
+    const revertData = getRevertData(error);
+    if (revertData) {
+      return { status: 'revert', reason: decodeRevertReason(revertData, tokens) };
+    }
+    if (error instanceof BaseError) {
+      return { status: 'revert', reason: error.shortMessage };
+    }
+    return { status: 'unavailable', error };
+  }
+}
+
+function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+  const withData = error.walk(
+    e => !!e && typeof e === 'object' && 'data' in e && isHex(e.data) && e.data !== '0x'
+  );
+  return withData && 'data' in withData && isHex(withData.data) ? withData.data : undefined;
+}
+
+/**
+ * Decodes Error(string), Panic(uint256) and zap router errors into something readable
+ */
+export function decodeRevertReason(revertData: Hex, tokens: TokenEntity[]): string {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: revertAbi, data: revertData });
+    switch (errorName) {
+      case 'Error':
+        return args[0];
+      case 'Panic':
+        return `Panic(${args[0].toString(10)})`;
+      case 'Slippage': {
+        const [tokenAddress, minAmountOut, balance] = args;
+        const token = tokens.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase());
+        if (token) {
+          const output = fromWei(balance.toString(10), token.decimals).toString(10);
+          const min = fromWei(minAmountOut.toString(10), token.decimals).toString(10);
+          return `Slippage: ${token.symbol} output ${output} is below minimum ${min}`;
+        }
+        return `Slippage: ${tokenAddress} output ${balance} is below minimum ${minAmountOut}`;
+      }
+      case 'CallFailed':
+        return `Call to ${args[0]} failed`;
+      default:
+        return `${errorName}(${(args || []).map(arg => String(arg)).join(', ')})`;
+    }
+  } catch {
+    return `Unknown revert reason ${revertData}`;
+  }
+}
@@ -71,6 +71,6 @@ export function highestFeeOrZero(steps: ZapQuoteStep[]): ZapFee {
 /**
  * Sort quotes by highest output amount first
  */
-export function sortQuotes(quotes: QuoteResponse[]): QuoteResponse[] {
+export function sortQuotes<T extends QuoteResponse>(quotes: T[]): T[] {
   return [...quotes].sort((a, b) => compareBigNumber(b.toAmount, a.toAmount));
 }
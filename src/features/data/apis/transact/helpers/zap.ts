@@ -1,6 +1,6 @@
 import { ZERO_ADDRESS } from '../../../../../helpers/addresses.ts';
 import type { TokenEntity } from '../../../entities/token.ts';
-import type { OrderRelay } from '../zap/types.ts';
+import type { OrderInput, OrderOutput, OrderRelay, UserlessZapRequest } from '../zap/types.ts';
 
 export const NO_RELAY: OrderRelay = { target: ZERO_ADDRESS, value: '0', data: '0x' };
 
@@ -22,3 +22,77 @@ export function getTokenAddress(token: TokenEntity): string {
 export function getInsertIndex(position: number): number {
   return 4 + position * 32;
 }
+
+/**
+ * Combines zap requests into a single order, running the steps of each request in turn.
+ * Returns undefined if the requests can not safely share an order:
+ * a step that inserts the router balance of a token would also take it from any later request using that token.
+ */
+export function mergeZapRequests(requests: UserlessZapRequest[]): UserlessZapRequest | undefined {
+  if (requests.some(request => request.order.relay.target !== NO_RELAY.target)) {
+    return undefined;
+  }
+
+  const tokensPerRequest = requests.map(
+    request =>
+      new Set(
+        [
+          ...request.order.inputs,
+          ...request.order.outputs,
+          ...request.steps.flatMap(step => step.tokens),
+        ].map(({ token }) => token.toLowerCase())
+      )
+  );
+  for (const [i, request] of requests.entries()) {
+    const laterTokens = tokensPerRequest.slice(i + 1);
+    const conflict = request.steps.some(step =>
+      step.tokens.some(
+        ({ token, index }) =>
+          index >= 0 && laterTokens.some(tokens => tokens.has(token.toLowerCase()))
+      )
+    );
+    if (conflict) {
+      return undefined;
+    }
+  }
+
+  const inputs = sumByToken(
+    requests.flatMap(request => request.order.inputs),
+    input => input.amount,
+    (input, amount) => ({ ...input, amount })
+  );
+  const outputs = sumByToken(
+    requests.flatMap(request => request.order.outputs),
+    output => output.minOutputAmount,
+    (output, minOutputAmount) => ({ ...output, minOutputAmount })
+  );
+
+  return {
+    order: {
+      inputs,
+      outputs,
+      relay: NO_RELAY,
+    },
+    steps: requests.flatMap(request => request.steps),
+  };
+}
+
+/** Sums wei amounts of the same token, keeping the position of its first occurrence */
+function sumByToken<T extends OrderInput | OrderOutput>(
+  items: T[],
+  getAmount: (item: T) => string,
+  withAmount: (item: T, amount: string) => T
+): T[] {
+  const byToken = new Map<string, T>();
+  for (const item of items) {
+    const key = item.token.toLowerCase();
+    const existing = byToken.get(key);
+    byToken.set(
+      key,
+      existing ?
+        withAmount(existing, (BigInt(getAmount(existing)) + BigInt(getAmount(item))).toString(10))
+      : item
+    );
+  }
+  return Array.from(byToken.values());
+}
@@ -91,6 +91,13 @@ export interface IComposableStrategy<TId extends ZapStrategyId = ZapStrategyId>
   ): Promise<UserlessZapWithdrawBreakdown>;
 }
 
+export function isComposableStrategy(strategy: IStrategy): strategy is IComposableStrategy {
+  return (
+    'fetchDepositUserlessZapBreakdown' in strategy &&
+    'fetchWithdrawUserlessZapBreakdown' in strategy
+  );
+}
+
 export type AnyComposableStrategy<TId extends ZapStrategyId = ZapStrategyId> = {
   [K in TId]: IComposableStrategy<K>;
 }[TId];
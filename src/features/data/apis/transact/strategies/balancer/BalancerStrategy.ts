@@ -31,7 +31,13 @@ import {
   type ZapQuoteStepSwap,
   type ZapQuoteStepSwapAggregator,
 } from '../../transact-types.ts';
-import type { IZapStrategy, IZapStrategyStatic, ZapTransactHelpers } from '../IStrategy.ts';
+import type {
+  IZapStrategy,
+  IZapStrategyStatic,
+  UserlessZapDepositBreakdown,
+  UserlessZapWithdrawBreakdown,
+  ZapTransactHelpers,
+} from '../IStrategy.ts';
 import type { ChainEntity } from '../../../../entities/chain.ts';
 import {
   createOptionId,
@@ -73,7 +79,7 @@ import type {
   ZapStep,
   ZapStepResponse,
 } from '../../zap/types.ts';
-import { fetchZapAggregatorSwap } from '../../zap/swap.ts';
+import { fetchZapAggregatorSwap, withoutSplitSwaps } from '../../zap/swap.ts';
 import { selectTransactSlippage } from '../../../../selectors/transact.ts';
 import { Balances } from '../../helpers/Balances.ts';
 import { getTokenAddress, NO_RELAY } from '../../helpers/zap.ts';
@@ -606,13 +612,21 @@ class BalancerStrategyImpl implements IZapStrategy<StrategyId> {
         )
     );
 
+    // same check as the zap, where swaps use the whole balance if no other step uses their input token
+    const insertBalance = allTokensAreDistinct(
+      quoteRequestsPerLpToken
+        .filter(quoteRequest => !!quoteRequest)
+        .map(quoteRequest => quoteRequest.fromToken)
+        .concat(swapInAmounts.map(({ to }) => to))
+    );
+    const swapOptions = insertBalance ? withoutSplitSwaps(this.options.swap) : this.options.swap;
     const quotesPerLpToken = await Promise.all(
       quoteRequestsPerLpToken.map(async quoteRequest => {
         if (!quoteRequest) {
           return undefined;
         }
 
-        return await swapAggregator.fetchQuotes(quoteRequest, state, this.options.swap);
+        return await swapAggregator.fetchQuotes(quoteRequest, state, swapOptions);
       })
     );
 
@@ -677,7 +691,8 @@ class BalancerStrategyImpl implements IZapStrategy<StrategyId> {
             toToken: depositVia,
           },
           state,
-          this.options.swap
+          // the only swap, so it uses the whole balance
+          withoutSplitSwaps(this.options.swap)
         );
         const bestQuote = first(quotes);
         if (!bestQuote) {
@@ -769,131 +784,142 @@ class BalancerStrategyImpl implements IZapStrategy<StrategyId> {
     };
   }
 
-  public async fetchDepositStep(
-    quote: BalancerDepositQuote,
-    t: TFunction<Namespace<string>>
-  ): Promise<Step> {
-    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const slippage = selectTransactSlippage(state);
-      const zapHelpers: ZapHelpers = {
-        slippage,
-        state,
-      };
-      const steps: ZapStep[] = [];
-      const minBalances = new Balances(quote.inputs);
-      const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
-      const buildQuote = quote.steps.find(isZapQuoteStepBuild);
-
-      if (!buildQuote) {
-        throw new Error('BalancerStrategy: No build step in quote');
-      }
+  async fetchDepositUserlessZapBreakdown(
+    quote: BalancerDepositQuote
+  ): Promise<UserlessZapDepositBreakdown> {
+    const state = this.helpers.getState();
+    const slippage = selectTransactSlippage(state);
+    const zapHelpers: ZapHelpers = {
+      slippage,
+      state,
+    };
+    const steps: ZapStep[] = [];
+    const minBalances = new Balances(quote.inputs);
+    const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
+    const buildQuote = quote.steps.find(isZapQuoteStepBuild);
 
-      // Swaps
-      if (swapQuotes.length) {
-        if (swapQuotes.length > this.poolTokens.length) {
-          throw new Error('BalancerStrategy: Too many swaps');
-        }
+    if (!buildQuote) {
+      throw new Error('BalancerStrategy: No build step in quote');
+    }
 
-        const insertBalance = allTokensAreDistinct(
-          swapQuotes
-            .map(quoteStep => quoteStep.fromToken)
-            .concat(buildQuote.inputs.map(({ token }) => token))
-        );
-        const swapZaps = await Promise.all(
-          swapQuotes.map(quoteStep => this.fetchZapSwap(quoteStep, zapHelpers, insertBalance))
-        );
-        swapZaps.forEach(swap => {
-          // add step to order
-          swap.zaps.forEach(step => steps.push(step));
-          // track the minimum balances for use in further steps
-          minBalances.subtractMany(swap.inputs);
-          minBalances.addMany(swap.minOutputs);
-        });
+    // Swaps
+    if (swapQuotes.length) {
+      if (swapQuotes.length > this.poolTokens.length) {
+        throw new Error('BalancerStrategy: Too many swaps');
       }
 
-      // Build LP
-      const buildZap = await this.fetchZapBuild(
-        buildQuote,
-        this.poolTokens.map(token => ({
-          token,
-          amount: minBalances.get(token), // we have to pass min expected in case swaps slipped
-        })),
-        quote.option,
-        zapHelpers
+      const insertBalance = allTokensAreDistinct(
+        swapQuotes
+          .map(quoteStep => quoteStep.fromToken)
+          .concat(buildQuote.inputs.map(({ token }) => token))
       );
-      console.debug('fetchDepositStep::buildZap', bigNumberToStringDeep(buildZap));
-      buildZap.zaps.forEach(step => steps.push(step));
-      minBalances.subtractMany(buildZap.inputs);
-      minBalances.addMany(buildZap.minOutputs);
-
-      // Deposit in vault
-      const vaultDeposit = await this.vaultType.fetchZapDeposit({
-        inputs: [
-          {
-            token: buildQuote.outputToken,
-            amount: minBalances.get(buildQuote.outputToken), // min expected in case add liquidity slipped
-            max: true, // but we call depositAll
-          },
-        ],
-        from: this.helpers.zap.router,
+      const swapZaps = await Promise.all(
+        swapQuotes.map(quoteStep => this.fetchZapSwap(quoteStep, zapHelpers, insertBalance))
+      );
+      swapZaps.forEach(swap => {
+        // add step to order
+        swap.zaps.forEach(step => steps.push(step));
+        // track the minimum balances for use in further steps
+        minBalances.subtractMany(swap.inputs);
+        minBalances.addMany(swap.minOutputs);
       });
-      console.debug('fetchDepositStep::vaultDeposit', vaultDeposit);
-      steps.push(vaultDeposit.zap);
-
-      // Build order
-      const inputs: OrderInput[] = quote.inputs.map(input => ({
-        token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
-      }));
-
-      const requiredOutputs: OrderOutput[] = vaultDeposit.outputs.map(output => ({
-        token: getTokenAddress(output.token),
-        minOutputAmount: toWeiString(
-          slipBy(output.amount, slippage, output.token.decimals),
-          output.token.decimals
-        ),
-      }));
-
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = pickTokens(
-        quote.outputs,
-        quote.inputs,
-        quote.returned
-      ).map(token => ({
+    }
+
+    // Build LP
+    const buildZap = await this.fetchZapBuild(
+      buildQuote,
+      this.poolTokens.map(token => ({
+        token,
+        amount: minBalances.get(token), // we have to pass min expected in case swaps slipped
+      })),
+      quote.option,
+      zapHelpers
+    );
+    console.debug('fetchDepositStep::buildZap', bigNumberToStringDeep(buildZap));
+    buildZap.zaps.forEach(step => steps.push(step));
+    minBalances.subtractMany(buildZap.inputs);
+    minBalances.addMany(buildZap.minOutputs);
+
+    // Deposit in vault
+    const vaultDeposit = await this.vaultType.fetchZapDeposit({
+      inputs: [
+        {
+          token: buildQuote.outputToken,
+          amount: minBalances.get(buildQuote.outputToken), // min expected in case add liquidity slipped
+          max: true, // but we call depositAll
+        },
+      ],
+      from: this.helpers.zap.router,
+    });
+    console.debug('fetchDepositStep::vaultDeposit', vaultDeposit);
+    steps.push(vaultDeposit.zap);
+    minBalances.subtractMany(vaultDeposit.inputs);
+    minBalances.addMany(vaultDeposit.minOutputs);
+
+    // Build order
+    const inputs: OrderInput[] = quote.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
+
+    const requiredOutputs: OrderOutput[] = vaultDeposit.outputs.map(output => ({
+      token: getTokenAddress(output.token),
+      minOutputAmount: toWeiString(
+        slipBy(output.amount, slippage, output.token.decimals),
+        output.token.decimals
+      ),
+    }));
+
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = pickTokens(quote.outputs, quote.inputs, quote.returned).map(
+      token => ({
         token: getTokenAddress(token),
         minOutputAmount: '0',
-      }));
+      })
+    );
 
-      swapQuotes.forEach(quoteStep => {
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.fromToken),
-          minOutputAmount: '0',
-        });
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.toToken),
-          minOutputAmount: '0',
-        });
+    swapQuotes.forEach(quoteStep => {
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.fromToken),
+        minOutputAmount: '0',
       });
       dustOutputs.push({
-        token: getTokenAddress(buildQuote.outputToken),
+        token: getTokenAddress(quoteStep.toToken),
         minOutputAmount: '0',
       });
+    });
+    dustOutputs.push({
+      token: getTokenAddress(buildQuote.outputToken),
+      minOutputAmount: '0',
+    });
 
-      // @dev uniqBy: first occurrence of each element is kept.
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+    // @dev uniqBy: first occurrence of each element is kept.
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
 
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
-        },
-        steps,
-      };
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
+    };
+
+    return {
+      zapRequest,
+      expectedTokens: vaultDeposit.outputs.map(output => output.token),
+      minBalances,
+    };
+  }
+
+  public async fetchDepositStep(
+    quote: BalancerDepositQuote,
+    t: TFunction<Namespace<string>>
+  ): Promise<Step> {
+    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
+      const { zapRequest, expectedTokens } = await this.fetchDepositUserlessZapBreakdown(quote);
 
-      const expectedTokens = vaultDeposit.outputs.map(output => output.token);
       const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
 
       return walletAction(dispatch, getState, extraArgument);
@@ -1174,7 +1200,7 @@ class BalancerStrategyImpl implements IZapStrategy<StrategyId> {
                 toToken: wantedOutput,
               },
               state,
-              this.options.swap
+              withoutSplitSwaps(this.options.swap)
             );
             const bestQuote = first(quotes);
             if (!bestQuote) {
@@ -1406,125 +1432,133 @@ class BalancerStrategyImpl implements IZapStrategy<StrategyId> {
     }
   }
 
-  public async fetchWithdrawStep(
-    quote: BalancerWithdrawQuote,
-    t: TFunction<Namespace<string>>
-  ): Promise<Step> {
-    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const slippage = selectTransactSlippage(state);
-      const zapHelpers: ZapHelpers = {
-        slippage,
-        state,
-      };
-      const withdrawQuote = quote.steps.find(isZapQuoteStepWithdraw);
-      const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
-      const splitQuote = quote.steps.find(isZapQuoteStepSplit);
+  async fetchWithdrawUserlessZapBreakdown(
+    quote: BalancerWithdrawQuote
+  ): Promise<UserlessZapWithdrawBreakdown> {
+    const state = this.helpers.getState();
+    const slippage = selectTransactSlippage(state);
+    const zapHelpers: ZapHelpers = {
+      slippage,
+      state,
+    };
+    const withdrawQuote = quote.steps.find(isZapQuoteStepWithdraw);
+    const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
+    const splitQuote = quote.steps.find(isZapQuoteStepSplit);
 
-      if (!withdrawQuote || !splitQuote) {
-        throw new Error('Withdraw quote missing withdraw or split step');
-      }
+    if (!withdrawQuote || !splitQuote) {
+      throw new Error('Withdraw quote missing withdraw or split step');
+    }
 
-      // Step 1. Withdraw from vault
-      const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
-        inputs: quote.inputs,
-        from: this.helpers.zap.router,
-      });
-      if (vaultWithdraw.outputs.length !== 1) {
-        throw new Error('Withdraw output count mismatch');
-      }
+    // Step 1. Withdraw from vault
+    const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
+      inputs: quote.inputs,
+      from: this.helpers.zap.router,
+    });
+    if (vaultWithdraw.outputs.length !== 1) {
+      throw new Error('Withdraw output count mismatch');
+    }
 
-      const withdrawOutput = onlyOneTokenAmount(vaultWithdraw.outputs);
-      if (!isTokenEqual(withdrawOutput.token, splitQuote.inputToken)) {
-        throw new Error('Withdraw output token mismatch');
-      }
+    const withdrawOutput = onlyOneTokenAmount(vaultWithdraw.outputs);
+    if (!isTokenEqual(withdrawOutput.token, splitQuote.inputToken)) {
+      throw new Error('Withdraw output token mismatch');
+    }
 
-      if (withdrawOutput.amount.lt(withdrawQuote.toAmount)) {
-        throw new Error('Withdraw output amount mismatch');
+    if (withdrawOutput.amount.lt(withdrawQuote.toAmount)) {
+      throw new Error('Withdraw output amount mismatch');
+    }
+
+    const steps: ZapStep[] = [vaultWithdraw.zap];
+
+    // Step 2. Split lp
+    const splitZap = await this.fetchZapSplit(quote, [withdrawOutput], zapHelpers);
+    splitZap.zaps.forEach(step => steps.push(step));
+
+    // Step 3. Swaps
+    // 0 swaps is valid when we break only
+    if (swapQuotes.length > 0) {
+      if (swapQuotes.length > splitZap.minOutputs.length) {
+        throw new Error('More swap quotes than expected outputs');
       }
 
-      const steps: ZapStep[] = [vaultWithdraw.zap];
+      const insertBalance = allTokensAreDistinct(swapQuotes.map(quoteStep => quoteStep.fromToken));
+      // On withdraw zap the last swap can use 100% of balance even if token was used in previous swaps (since there are no further steps)
+      const lastSwapIndex = swapQuotes.length - 1;
 
-      // Step 2. Split lp
-      const splitZap = await this.fetchZapSplit(quote, [withdrawOutput], zapHelpers);
-      splitZap.zaps.forEach(step => steps.push(step));
+      const swapZaps = await Promise.all(
+        swapQuotes.map((quoteStep, i) => {
+          const input = splitZap.minOutputs.find(o => isTokenEqual(o.token, quoteStep.fromToken));
+          if (!input) {
+            throw new Error('Swap input not found in split outputs');
+          }
+          return this.fetchZapSwap(quoteStep, zapHelpers, insertBalance || lastSwapIndex === i);
+        })
+      );
+      swapZaps.forEach(swap => swap.zaps.forEach(step => steps.push(step)));
+    }
 
-      // Step 3. Swaps
-      // 0 swaps is valid when we break only
-      if (swapQuotes.length > 0) {
-        if (swapQuotes.length > splitZap.minOutputs.length) {
-          throw new Error('More swap quotes than expected outputs');
-        }
+    // Build order
+    const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
 
-        const insertBalance = allTokensAreDistinct(
-          swapQuotes.map(quoteStep => quoteStep.fromToken)
-        );
-        // On withdraw zap the last swap can use 100% of balance even if token was used in previous swaps (since there are no further steps)
-        const lastSwapIndex = swapQuotes.length - 1;
-
-        const swapZaps = await Promise.all(
-          swapQuotes.map((quoteStep, i) => {
-            const input = splitZap.minOutputs.find(o => isTokenEqual(o.token, quoteStep.fromToken));
-            if (!input) {
-              throw new Error('Swap input not found in split outputs');
-            }
-            return this.fetchZapSwap(quoteStep, zapHelpers, insertBalance || lastSwapIndex === i);
-          })
-        );
-        swapZaps.forEach(swap => swap.zaps.forEach(step => steps.push(step)));
-      }
+    const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
+      token: getTokenAddress(output.token),
+      minOutputAmount: toWeiString(
+        slipBy(output.amount, slippage, output.token.decimals),
+        output.token.decimals
+      ),
+    }));
 
-      // Build order
-      const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
-        token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
-      }));
-
-      const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
-        token: getTokenAddress(output.token),
-        minOutputAmount: toWeiString(
-          slipBy(output.amount, slippage, output.token.decimals),
-          output.token.decimals
-        ),
-      }));
-
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = pickTokens(
-        vaultWithdraw.inputs,
-        quote.outputs,
-        quote.inputs,
-        quote.returned,
-        splitQuote.outputs
-      ).map(token => ({
-        token: getTokenAddress(token),
-        minOutputAmount: '0',
-      }));
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = pickTokens(
+      vaultWithdraw.inputs,
+      quote.outputs,
+      quote.inputs,
+      quote.returned,
+      splitQuote.outputs
+    ).map(token => ({
+      token: getTokenAddress(token),
+      minOutputAmount: '0',
+    }));
 
-      swapQuotes.forEach(quoteStep => {
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.fromToken),
-          minOutputAmount: '0',
-        });
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.toToken),
-          minOutputAmount: '0',
-        });
+    swapQuotes.forEach(quoteStep => {
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.fromToken),
+        minOutputAmount: '0',
+      });
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.toToken),
+        minOutputAmount: '0',
       });
+    });
 
-      // @dev uniqBy: first occurrence of each element is kept -> required outputs are kept
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+    // @dev uniqBy: first occurrence of each element is kept -> required outputs are kept
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
 
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
-        },
-        steps,
-      };
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
+    };
+
+    return {
+      zapRequest,
+      expectedTokens: quote.outputs.map(output => output.token),
+    };
+  }
+
+  public async fetchWithdrawStep(
+    quote: BalancerWithdrawQuote,
+    t: TFunction<Namespace<string>>
+  ): Promise<Step> {
+    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
+      const { zapRequest, expectedTokens } = await this.fetchWithdrawUserlessZapBreakdown(quote);
 
-      const expectedTokens = quote.outputs.map(output => output.token);
       const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
 
       return walletAction(dispatch, getState, extraArgument);
@@ -1,4 +1,10 @@
-import type { IZapStrategy, IZapStrategyStatic, ZapTransactHelpers } from '../IStrategy.ts';
+import type {
+  IZapStrategy,
+  IZapStrategyStatic,
+  UserlessZapDepositBreakdown,
+  UserlessZapWithdrawBreakdown,
+  ZapTransactHelpers,
+} from '../IStrategy.ts';
 import {
   type ConicDepositOption,
   type ConicDepositQuote,
@@ -62,13 +68,16 @@ import { getTokenAddress, NO_RELAY } from '../../helpers/zap.ts';
 import type { OrderInput, OrderOutput, UserlessZapRequest, ZapStep } from '../../zap/types.ts';
 import { first, uniqBy } from 'lodash-es';
 import { slipBy } from '../../helpers/amounts.ts';
-import { fetchZapAggregatorSwap } from '../../zap/swap.ts';
+import { fetchZapAggregatorSwap, withoutSplitSwaps } from '../../zap/swap.ts';
 import { isStandardVaultType, type IStandardVaultType } from '../../vaults/IVaultType.ts';
 import type { ConicStrategyConfig } from '../strategy-configs.ts';
 import { fetchContract } from '../../../rpc-contract/viem-contract.ts';
 import type { Abi, Address } from 'abitype';
 import { encodeFunctionData, getAbiItem } from 'viem';
 import { zapExecuteOrder } from '../../../../actions/wallet/zap.ts';
+import { Balances } from '../../helpers/Balances.ts';
+import { selectVaultPricePerFullShare } from '../../../../selectors/vaults.ts';
+import { oracleAmountToMooAmount } from '../../../../utils/ppfs.ts';
 
 const strategyId = 'conic';
 type StrategyId = typeof strategyId;
@@ -208,84 +217,99 @@ class ConicStrategyImp implements IZapStrategy<StrategyId> {
     };
   }
 
-  async fetchDepositStep(quote: ConicDepositQuote, t: TFunction<Namespace>): Promise<Step> {
-    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const slippage = selectTransactSlippage(state);
+  async fetchDepositUserlessZapBreakdown(
+    quote: ConicDepositQuote
+  ): Promise<UserlessZapDepositBreakdown> {
+    const state = this.helpers.getState();
+    const slippage = selectTransactSlippage(state);
+
+    const input = onlyOneInput(quote.inputs);
+    const output = onlyOneTokenAmount(quote.outputs);
+    const minOutputAmount = slipBy(output.amount, slippage, output.token.decimals);
+    const amountOutMin = toWeiString(minOutputAmount, output.token.decimals);
+    const isNative = isTokenNative(input.token);
+    const data =
+      isNative ?
+        this.encodeBeefInETHCall(this.vault.contractAddress, amountOutMin)
+      : this.encodeBeefInCall(
+          this.vault.contractAddress,
+          amountOutMin,
+          getTokenAddress(input.token),
+          toWeiString(input.amount, input.token.decimals)
+        );
+    const steps: ZapStep[] = [
+      {
+        target: this.conicZap,
+        value: isNative ? toWeiString(input.amount, input.token.decimals) : '0',
+        data,
+        tokens: [
+          {
+            token: getTokenAddress(input.token),
+            index: -1, // not dynamically inserted
+          },
+        ],
+      },
+    ];
 
-      const input = onlyOneInput(quote.inputs);
-      const output = onlyOneTokenAmount(quote.outputs);
-      const amountOutMin = toWeiString(
-        slipBy(output.amount, slippage, output.token.decimals),
-        output.token.decimals
-      );
-      const isNative = isTokenNative(input.token);
-      const data =
-        isNative ?
-          this.encodeBeefInETHCall(this.vault.contractAddress, amountOutMin)
-        : this.encodeBeefInCall(
-            this.vault.contractAddress,
-            amountOutMin,
-            getTokenAddress(input.token),
-            toWeiString(input.amount, input.token.decimals)
-          );
-      const steps: ZapStep[] = [
-        {
-          target: this.conicZap,
-          value: isNative ? toWeiString(input.amount, input.token.decimals) : '0',
-          data,
-          tokens: [
-            {
-              token: getTokenAddress(input.token),
-              index: -1, // not dynamically inserted
-            },
-          ],
-        },
-      ];
+    // Build order
+    const inputs: OrderInput[] = quote.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
+
+    const shareToken = selectTokenByAddress(state, this.vault.chainId, this.vault.contractAddress);
+    const requiredOutputs: OrderOutput[] = [
+      {
+        token: getTokenAddress(shareToken),
+        minOutputAmount: '0', // Checked in the zap contract
+      },
+    ];
 
-      // Build order
-      const inputs: OrderInput[] = quote.inputs.map(input => ({
+    // CNC is rewarded by Conic if deposit rebalanced pool
+    const CNC = { token: this.cnc, amount: BIG_ZERO };
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = quote.outputs
+      .concat(quote.inputs)
+      .concat([CNC])
+      .map(input => ({
         token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
+        minOutputAmount: '0',
       }));
 
-      const shareToken = selectTokenByAddress(
-        state,
-        this.vault.chainId,
-        this.vault.contractAddress
-      );
-      const requiredOutputs: OrderOutput[] = [
+    // @dev uniqBy: first occurrence of each element is kept.
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
+    };
+
+    return {
+      zapRequest,
+      expectedTokens: [shareToken],
+      minBalances: new Balances([
         {
-          token: getTokenAddress(shareToken),
-          minOutputAmount: '0', // Checked in the zap contract
-        },
-      ];
-
-      // CNC is rewarded by Conic if deposit rebalanced pool
-      const CNC = { token: this.cnc, amount: BIG_ZERO };
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = quote.outputs
-        .concat(quote.inputs)
-        .concat([CNC])
-        .map(input => ({
-          token: getTokenAddress(input.token),
-          minOutputAmount: '0',
-        }));
-
-      // @dev uniqBy: first occurrence of each element is kept.
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
-
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
+          token: shareToken,
+          amount: oracleAmountToMooAmount(
+            shareToken,
+            output.token,
+            selectVaultPricePerFullShare(state, this.vault.id),
+            minOutputAmount
+          ),
         },
-        steps,
-      };
+      ]),
+    };
+  }
+
+  async fetchDepositStep(quote: ConicDepositQuote, t: TFunction<Namespace>): Promise<Step> {
+    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
+      const { zapRequest, expectedTokens } = await this.fetchDepositUserlessZapBreakdown(quote);
 
-      const expectedTokens = [shareToken];
       const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
       return walletAction(dispatch, getState, extraArgument);
     };
@@ -391,7 +415,7 @@ class ConicStrategyImp implements IZapStrategy<StrategyId> {
           vaultId: this.vault.id,
         },
         state,
-        this.options.swap
+        withoutSplitSwaps(this.options.swap)
       );
       const unwrapQuote = first(unwrapQuotes);
       if (!unwrapQuote || unwrapQuote.toAmount.lt(swapAmountOut)) {
@@ -428,127 +452,135 @@ class ConicStrategyImp implements IZapStrategy<StrategyId> {
     };
   }
 
-  async fetchWithdrawStep(quote: ConicWithdrawQuote, t: TFunction<Namespace>): Promise<Step> {
+  async fetchWithdrawUserlessZapBreakdown(
+    quote: ConicWithdrawQuote
+  ): Promise<UserlessZapWithdrawBreakdown> {
     const { swapAggregator, zap } = this.helpers;
-    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const slippage = selectTransactSlippage(state);
-      const output = onlyOneTokenAmount(quote.outputs);
-      const swapQuotes = quote.steps
-        .filter(isZapQuoteStepSwap)
-        .filter(isZapQuoteStepSwapAggregator);
-      // CNC is rewarded by Conic if deposit rebalanced pool
-      const extraDustOutputs: TokenAmount[] = [{ token: this.cnc, amount: BIG_ZERO }];
-
-      // Pretend to withdraw from vault, to get the correct number of shares
-      const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
-        inputs: quote.inputs,
-        from: this.helpers.zap.router,
-      });
-      const sharesToWithdraw = onlyOneTokenAmount(vaultWithdraw.inputs);
+    const state = this.helpers.getState();
+    const slippage = selectTransactSlippage(state);
+    const output = onlyOneTokenAmount(quote.outputs);
+    const swapQuotes = quote.steps.filter(isZapQuoteStepSwap).filter(isZapQuoteStepSwapAggregator);
+    // CNC is rewarded by Conic if deposit rebalanced pool
+    const extraDustOutputs: TokenAmount[] = [{ token: this.cnc, amount: BIG_ZERO }];
+
+    // Pretend to withdraw from vault, to get the correct number of shares
+    const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
+      inputs: quote.inputs,
+      from: this.helpers.zap.router,
+    });
+    const sharesToWithdraw = onlyOneTokenAmount(vaultWithdraw.inputs);
 
-      // Step 1. Withdraw and split via custom zap contract
-      const sharesToWithdrawWei = toWeiString(
-        sharesToWithdraw.amount,
-        sharesToWithdraw.token.decimals
-      );
-      const amountOutMinWei = toWeiString(
-        slipBy(output.amount, slippage, output.token.decimals),
-        output.token.decimals
-      );
-      const zapOutTokenAddress = nativeToWNative(output.token, this.wnative).address;
+    // Step 1. Withdraw and split via custom zap contract
+    const sharesToWithdrawWei = toWeiString(
+      sharesToWithdraw.amount,
+      sharesToWithdraw.token.decimals
+    );
+    const amountOutMinWei = toWeiString(
+      slipBy(output.amount, slippage, output.token.decimals),
+      output.token.decimals
+    );
+    const zapOutTokenAddress = nativeToWNative(output.token, this.wnative).address;
 
-      const steps: ZapStep[] = [
-        {
-          target: this.conicZap,
-          value: '0',
-          data: this.encodeBeefOutAndSwap(
-            this.vault.contractAddress,
-            sharesToWithdrawWei,
-            zapOutTokenAddress,
-            amountOutMinWei
-          ),
-          tokens: [
-            {
-              token: getTokenAddress(sharesToWithdraw.token),
-              index: -1, // not dynamically inserted
-            },
-          ],
-        },
-      ];
-
-      // Step 2. Wrap if needed
-      if (swapQuotes.length > 0) {
-        if (swapQuotes.length > 1) {
-          throw new Error('Invalid swap quote');
-        }
-        const swapQuoteStep = swapQuotes[0];
-        if (
-          !isTokenEqual(swapQuoteStep.quote.fromToken, this.native) ||
-          !isTokenEqual(swapQuoteStep.quote.toToken, this.wnative)
-        ) {
-          // @dev changes required to support general token swaps
-          throw new Error('Only native swap implemented');
-        }
-
-        const swapZapStep = await fetchZapAggregatorSwap(
+    const steps: ZapStep[] = [
+      {
+        target: this.conicZap,
+        value: '0',
+        data: this.encodeBeefOutAndSwap(
+          this.vault.contractAddress,
+          sharesToWithdrawWei,
+          zapOutTokenAddress,
+          amountOutMinWei
+        ),
+        tokens: [
           {
-            quote: swapQuoteStep.quote,
-            inputs: [{ token: swapQuoteStep.fromToken, amount: swapQuoteStep.fromAmount }],
-            outputs: [{ token: swapQuoteStep.toToken, amount: swapQuoteStep.toAmount }],
-            maxSlippage: slippage,
-            zapRouter: zap.router,
-            providerId: swapQuoteStep.providerId,
-            insertBalance: true,
+            token: getTokenAddress(sharesToWithdraw.token),
+            index: -1, // not dynamically inserted
           },
-          swapAggregator,
-          state
-        );
-        swapZapStep.zaps.forEach(step => steps.push(step));
-        extraDustOutputs.push({ token: swapQuoteStep.quote.fromToken, amount: BIG_ZERO });
+        ],
+      },
+    ];
+
+    // Step 2. Wrap if needed
+    if (swapQuotes.length > 0) {
+      if (swapQuotes.length > 1) {
+        throw new Error('Invalid swap quote');
+      }
+      const swapQuoteStep = swapQuotes[0];
+      if (
+        !isTokenEqual(swapQuoteStep.quote.fromToken, this.native) ||
+        !isTokenEqual(swapQuoteStep.quote.toToken, this.wnative)
+      ) {
+        // @dev changes required to support general token swaps
+        throw new Error('Only native swap implemented');
       }
 
-      // Build order (note: input to order is shares, but quote inputs are the deposit token)
-      const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
-        token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
-      }));
+      const swapZapStep = await fetchZapAggregatorSwap(
+        {
+          quote: swapQuoteStep.quote,
+          inputs: [{ token: swapQuoteStep.fromToken, amount: swapQuoteStep.fromAmount }],
+          outputs: [{ token: swapQuoteStep.toToken, amount: swapQuoteStep.toAmount }],
+          maxSlippage: slippage,
+          zapRouter: zap.router,
+          providerId: swapQuoteStep.providerId,
+          insertBalance: true,
+        },
+        swapAggregator,
+        state
+      );
+      swapZapStep.zaps.forEach(step => steps.push(step));
+      extraDustOutputs.push({ token: swapQuoteStep.quote.fromToken, amount: BIG_ZERO });
+    }
 
-      // The required output is the swap output
-      const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
-        token: getTokenAddress(output.token),
-        minOutputAmount: toWeiString(
-          slipBy(output.amount, slippage, output.token.decimals),
-          output.token.decimals
-        ),
-      }));
+    // Build order (note: input to order is shares, but quote inputs are the deposit token)
+    const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
 
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = pickTokens(
-        extraDustOutputs,
-        vaultWithdraw.inputs,
-        quote.inputs,
-        quote.outputs,
-        quote.returned
-      ).map(token => ({
-        token: getTokenAddress(token),
-        minOutputAmount: '0',
-      }));
+    // The required output is the swap output
+    const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
+      token: getTokenAddress(output.token),
+      minOutputAmount: toWeiString(
+        slipBy(output.amount, slippage, output.token.decimals),
+        output.token.decimals
+      ),
+    }));
+
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = pickTokens(
+      extraDustOutputs,
+      vaultWithdraw.inputs,
+      quote.inputs,
+      quote.outputs,
+      quote.returned
+    ).map(token => ({
+      token: getTokenAddress(token),
+      minOutputAmount: '0',
+    }));
+
+    // @dev uniqBy: first occurrence of each element is kept.
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
+    };
 
-      // @dev uniqBy: first occurrence of each element is kept.
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+    return {
+      zapRequest,
+      expectedTokens: quote.outputs.map(output => output.token),
+    };
+  }
 
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
-        },
-        steps,
-      };
+  async fetchWithdrawStep(quote: ConicWithdrawQuote, t: TFunction<Namespace>): Promise<Step> {
+    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
+      const { zapRequest, expectedTokens } = await this.fetchWithdrawUserlessZapBreakdown(quote);
 
-      const expectedTokens = quote.outputs.map(output => output.token);
       const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
 
       return walletAction(dispatch, getState, extraArgument);
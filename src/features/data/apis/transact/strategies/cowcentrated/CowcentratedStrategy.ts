@@ -60,7 +60,7 @@ import type {
 } from '../../zap/types.ts';
 import { Balances } from '../../helpers/Balances.ts';
 import { allTokensAreDistinct, pickTokens } from '../../helpers/tokens.ts';
-import { fetchZapAggregatorSwap } from '../../zap/swap.ts';
+import { fetchZapAggregatorSwap, withoutSplitSwaps } from '../../zap/swap.ts';
 import { getInsertIndex, getTokenAddress, NO_RELAY } from '../../helpers/zap.ts';
 import { mergeTokenAmounts, slipAllBy, slipBy } from '../../helpers/amounts.ts';
 import BigNumber from 'bignumber.js';
@@ -607,13 +607,21 @@ class CowcentratedStrategyImpl implements IComposableStrategy<StrategyId> {
           }
     );
 
+    // same check as the zap, where swaps use the whole balance if no other step uses their input token
+    const insertBalance = allTokensAreDistinct(
+      quoteRequestsPerLpToken
+        .filter(quoteRequest => !!quoteRequest)
+        .map(quoteRequest => quoteRequest.fromToken)
+        .concat(this.vaultType.depositTokens)
+    );
+    const swapOptions = insertBalance ? withoutSplitSwaps(this.options.swap) : this.options.swap;
     const quotesPerLpToken = await Promise.all(
       quoteRequestsPerLpToken.map(async quoteRequest => {
         if (!quoteRequest) {
           return undefined;
         }
 
-        return await swapAggregator.fetchQuotes(quoteRequest, state, this.options.swap);
+        return await swapAggregator.fetchQuotes(quoteRequest, state, swapOptions);
       })
     );
     const quotePerLpToken = quotesPerLpToken.map((quotes, i) => {
@@ -754,7 +762,7 @@ class CowcentratedStrategyImpl implements IComposableStrategy<StrategyId> {
               vaultId: option.vaultId,
             },
             state,
-            this.options.swap
+            withoutSplitSwaps(this.options.swap)
           );
 
           if (!quotes || !quotes.length) {
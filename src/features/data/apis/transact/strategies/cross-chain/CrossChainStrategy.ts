@@ -0,0 +1,191 @@
+import type { Namespace, TFunction } from 'react-i18next';
+import { minBy } from 'lodash-es';
+import type { Step } from '../../../../reducers/wallet/stepper.ts';
+import { TransactMode } from '../../../../reducers/wallet/transact-types.ts';
+import {
+  type CrossChainDepositOption,
+  type CrossChainDepositQuote,
+  type DepositOption,
+  type InputTokenAmount,
+  isZapQuote,
+  SelectionOrder,
+  type WithdrawOption,
+  type WithdrawQuote,
+  type ZapQuoteStep,
+} from '../../transact-types.ts';
+import type { IStrategy, TransactHelpers } from '../IStrategy.ts';
+import type { AnyStrategyId } from '../strategy-configs.ts';
+import { isTokenEqual, isTokenErc20 } from '../../../../entities/token.ts';
+import {
+  selectBridgeDepositTokenForChainId,
+  selectBridgeRoutesFromTo,
+  selectBridgeSupportedChainIds,
+  selectIsBridgeConfigLoaded,
+} from '../../../../selectors/bridge.ts';
+import {
+  createOptionId,
+  createQuoteId,
+  createSelectionId,
+  onlyOneInput,
+} from '../../helpers/options.ts';
+import { calculatePriceImpact, ZERO_FEE } from '../../helpers/quotes.ts';
+import { fetchRouteQuotes, sortRouteQuotes } from '../../../bridge/bridge-routes.ts';
+import { isFulfilledResult } from '../../../../../../helpers/promises.ts';
+
+const strategyId = 'cross-chain';
+type StrategyId = typeof strategyId;
+
+export type CrossChainDestination = {
+  /** deposit options of the vault on its own chain */
+  fetchDepositOptions(): Promise<DepositOption[]>;
+  getStrategy(strategyId: AnyStrategyId): Promise<IStrategy>;
+};
+
+/**
+ * Deposits from another chain by bridging the bridge token to the vault chain,
+ * then depositing it via one of the vault's own options.
+ * It is not configured per vault so does not conform to IZapStrategy.
+ * The bridge and deposit txs are on different chains, so steps are built by getCrossChainDepositSteps.
+ */
+export class CrossChainStrategy implements IStrategy<StrategyId> {
+  public static readonly id = strategyId;
+  public readonly id = strategyId;
+
+  constructor(
+    protected readonly helpers: TransactHelpers,
+    protected readonly destination: CrossChainDestination
+  ) {}
+
+  async fetchDepositOptions(): Promise<CrossChainDepositOption[]> {
+    const { vault, getState } = this.helpers;
+    const state = getState();
+    if (
+      !selectIsBridgeConfigLoaded(state) ||
+      !selectBridgeSupportedChainIds(state).includes(vault.chainId)
+    ) {
+      return [];
+    }
+
+    const bridgedToken = selectBridgeDepositTokenForChainId(state, vault.chainId);
+    const destinationOption = minBy(
+      (await this.destination.fetchDepositOptions()).filter(
+        option => option.inputs.length === 1 && isTokenEqual(option.inputs[0], bridgedToken)
+      ),
+      option => option.selectionOrder
+    );
+    if (!destinationOption) {
+      return [];
+    }
+
+    return selectBridgeSupportedChainIds(state)
+      .filter(
+        chainId =>
+          chainId !== vault.chainId &&
+          selectBridgeRoutesFromTo(state, chainId, vault.chainId).length
+      )
+      .map(chainId => {
+        const inputs = [selectBridgeDepositTokenForChainId(state, chainId)];
+        const selectionId = createSelectionId(chainId, inputs);
+
+        return {
+          id: createOptionId(strategyId, vault.id, selectionId),
+          vaultId: vault.id,
+          chainId,
+          selectionId,
+          selectionOrder: SelectionOrder.Other,
+          inputs,
+          wantedOutputs: destinationOption.wantedOutputs,
+          mode: TransactMode.Deposit,
+          strategyId,
+          destinationOption,
+        };
+      });
+  }
+
+  async fetchDepositQuote(
+    inputs: InputTokenAmount[],
+    option: CrossChainDepositOption
+  ): Promise<CrossChainDepositQuote> {
+    const input = onlyOneInput(inputs);
+    const { token } = input;
+    if (!isTokenErc20(token)) {
+      throw new Error(`Bridge input ${token.symbol} is not an ERC20`);
+    }
+
+    const state = this.helpers.getState();
+    const { destinationOption } = option;
+    const routes = selectBridgeRoutesFromTo(state, option.chainId, destinationOption.chainId);
+    const routeQuotes = await fetchRouteQuotes(routes, { ...input, token }, undefined, state);
+    const bridgeQuote = sortRouteQuotes(
+      routeQuotes.filter(isFulfilledResult).map(result => result.value)
+    ).find(quote => quote.withinLimits);
+    if (!bridgeQuote) {
+      throw new Error(
+        `No bridge route from ${option.chainId} to ${destinationOption.chainId} for this amount`
+      );
+    }
+
+    const bridged = bridgeQuote.hops[bridgeQuote.hops.length - 1].output;
+    const destinationStrategy = await this.destination.getStrategy(destinationOption.strategyId);
+    const destinationQuote = await destinationStrategy.fetchDepositQuote(
+      [{ ...bridged, max: false }],
+      destinationOption
+    );
+
+    const steps: ZapQuoteStep[] = [
+      {
+        type: 'bridge',
+        fromToken: token,
+        fromAmount: input.amount,
+        toToken: bridged.token,
+        toAmount: bridged.amount,
+        bridgeIds: bridgeQuote.hops.map(hop => hop.config.id),
+      },
+      ...(isZapQuote(destinationQuote) ?
+        destinationQuote.steps
+      : [{ type: 'deposit' as const, inputs: destinationQuote.inputs }]),
+    ];
+
+    // only the first hop is sent from the chain the deposit starts on
+    const { allowance } = bridgeQuote.hops[0];
+
+    return {
+      id: createQuoteId(option.id),
+      strategyId,
+      priceImpact: calculatePriceImpact(
+        inputs,
+        destinationQuote.outputs,
+        destinationQuote.returned,
+        state
+      ),
+      allowances: allowance ? [allowance] : [],
+      inputs,
+      outputs: destinationQuote.outputs,
+      returned: destinationQuote.returned,
+      fee: isZapQuote(destinationQuote) ? destinationQuote.fee : ZERO_FEE,
+      steps,
+      option,
+      bridgeQuote,
+      destinationQuote,
+    };
+  }
+
+  async fetchDepositStep(_quote: CrossChainDepositQuote, _t: TFunction<Namespace>): Promise<Step> {
+    throw new Error('Cross-chain deposits need a step per chain, use getCrossChainDepositSteps');
+  }
+
+  async fetchWithdrawOptions(): Promise<WithdrawOption[]> {
+    return [];
+  }
+
+  async fetchWithdrawQuote(
+    _inputs: InputTokenAmount[],
+    _option: WithdrawOption
+  ): Promise<WithdrawQuote> {
+    throw new Error('Cross-chain withdraws are not supported');
+  }
+
+  async fetchWithdrawStep(_quote: WithdrawQuote, _t: TFunction<Namespace>): Promise<Step> {
+    throw new Error('Cross-chain withdraws are not supported');
+  }
+}
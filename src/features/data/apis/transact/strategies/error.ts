@@ -14,6 +14,13 @@ export class QuoteChangedError extends Error {
   }
 }
 
+export class PreflightRevertError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Transaction would fail: ${reason}`);
+    this.name = 'PreflightRevertError';
+  }
+}
+
 abstract class SerializableError extends Error {
   serialize(): SerializedError {
     return miniSerializeError(this);
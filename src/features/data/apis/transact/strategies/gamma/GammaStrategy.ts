@@ -1,4 +1,10 @@
-import type { IZapStrategy, IZapStrategyStatic, ZapTransactHelpers } from '../IStrategy.ts';
+import type {
+  IZapStrategy,
+  IZapStrategyStatic,
+  UserlessZapDepositBreakdown,
+  UserlessZapWithdrawBreakdown,
+  ZapTransactHelpers,
+} from '../IStrategy.ts';
 import {
   type GammaDepositOption,
   type GammaDepositQuote,
@@ -70,7 +76,7 @@ import type {
 import { Balances } from '../../helpers/Balances.ts';
 import { getTokenAddress, NO_RELAY } from '../../helpers/zap.ts';
 import { mergeTokenAmounts, slipBy } from '../../helpers/amounts.ts';
-import { fetchZapAggregatorSwap } from '../../zap/swap.ts';
+import { fetchZapAggregatorSwap, withoutSplitSwaps } from '../../zap/swap.ts';
 import type { ChainEntity } from '../../../../entities/chain.ts';
 import type { IGammaPool } from '../../../amm/types.ts';
 import { GammaPool } from '../../../amm/gamma/GammaPool.ts';
@@ -300,13 +306,21 @@ class GammaStrategyImpl implements IZapStrategy<StrategyId> {
         }
     );
 
+    // same check as the zap, where swaps use the whole balance if no other step uses their input token
+    const insertBalance = allTokensAreDistinct(
+      quoteRequestsPerLpToken
+        .filter(quoteRequest => !!quoteRequest)
+        .map(quoteRequest => quoteRequest.fromToken)
+        .concat(lpTokens)
+    );
+    const swapOptions = insertBalance ? withoutSplitSwaps(this.options.swap) : this.options.swap;
     const quotesPerLpToken = await Promise.all(
       quoteRequestsPerLpToken.map(async quoteRequest => {
         if (!quoteRequest) {
           return undefined;
         }
 
-        return await swapAggregator.fetchQuotes(quoteRequest, state, this.options.swap);
+        return await swapAggregator.fetchQuotes(quoteRequest, state, swapOptions);
       })
     );
 
@@ -484,124 +498,135 @@ class GammaStrategyImpl implements IZapStrategy<StrategyId> {
     });
   }
 
-  async fetchDepositStep(quote: GammaDepositQuote, t: TFunction<Namespace>): Promise<Step> {
-    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const chain = selectChainById(state, this.vault.chainId);
-      const slippage = selectTransactSlippage(state);
-      const zapHelpers: ZapHelpers = { chain, slippage, state };
-      const steps: ZapStep[] = [];
-      const minBalances = new Balances(quote.inputs);
-      const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
-      const buildQuote = quote.steps.find(isZapQuoteStepBuild);
-
-      if (!buildQuote || !swapQuotes.length) {
-        throw new Error('Invalid deposit quote');
-      }
+  async fetchDepositUserlessZapBreakdown(
+    quote: GammaDepositQuote
+  ): Promise<UserlessZapDepositBreakdown> {
+    const state = this.helpers.getState();
+    const chain = selectChainById(state, this.vault.chainId);
+    const slippage = selectTransactSlippage(state);
+    const zapHelpers: ZapHelpers = { chain, slippage, state };
+    const steps: ZapStep[] = [];
+    const minBalances = new Balances(quote.inputs);
+    const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
+    const buildQuote = quote.steps.find(isZapQuoteStepBuild);
+
+    if (!buildQuote || !swapQuotes.length) {
+      throw new Error('Invalid deposit quote');
+    }
 
-      // Swaps
-      if (swapQuotes.length === 0 || swapQuotes.length > 2) {
-        throw new Error('Invalid swap quote');
-      }
-      const insertBalance = allTokensAreDistinct(
-        swapQuotes
-          .map(quoteStep => quoteStep.fromToken)
-          .concat(buildQuote.inputs.map(({ token }) => token))
-      );
-      const swapZaps = await Promise.all(
-        swapQuotes.map(quoteStep => this.fetchZapSwap(quoteStep, zapHelpers, insertBalance))
-      );
-      swapZaps.forEach(swap => {
-        console.debug('swapZaps', bigNumberToStringDeep(swapZaps));
-        // add step to order
-        swap.zaps.forEach(step => steps.push(step));
-        // track the minimum balances for use in further steps
-        minBalances.subtractMany(swap.inputs);
-        minBalances.addMany(swap.minOutputs);
-      });
+    // Swaps
+    if (swapQuotes.length === 0 || swapQuotes.length > 2) {
+      throw new Error('Invalid swap quote');
+    }
+    const insertBalance = allTokensAreDistinct(
+      swapQuotes
+        .map(quoteStep => quoteStep.fromToken)
+        .concat(buildQuote.inputs.map(({ token }) => token))
+    );
+    const swapZaps = await Promise.all(
+      swapQuotes.map(quoteStep => this.fetchZapSwap(quoteStep, zapHelpers, insertBalance))
+    );
+    swapZaps.forEach(swap => {
+      console.debug('swapZaps', bigNumberToStringDeep(swapZaps));
+      // add step to order
+      swap.zaps.forEach(step => steps.push(step));
+      // track the minimum balances for use in further steps
+      minBalances.subtractMany(swap.inputs);
+      minBalances.addMany(swap.minOutputs);
+    });
 
-      // Build LP
-      const buildZap = await this.fetchZapBuild(
-        buildQuote,
-        buildQuote.inputs.map(({ token }) => ({
-          token,
-          amount: minBalances.get(token), // we have to pass min expected in case swaps slipped
-        })),
-        zapHelpers
-      );
-      console.debug('buildZap', bigNumberToStringDeep(buildZap));
-      buildZap.zaps.forEach(step => steps.push(step));
-      minBalances.subtractMany(buildZap.inputs);
-      minBalances.addMany(buildZap.minOutputs);
-
-      // Deposit in vault
-      const vaultDeposit = await this.vaultType.fetchZapDeposit({
-        inputs: [
-          {
-            token: buildQuote.outputToken,
-            amount: minBalances.get(buildQuote.outputToken), // min expected in case add liquidity slipped
-            max: true, // but we call depositAll
-          },
-        ],
-        from: this.helpers.zap.router,
-      });
-      steps.push(vaultDeposit.zap);
-
-      console.log('fetchDepositStep::vaultDeposit', vaultDeposit);
-
-      // Build order
-      const inputs: OrderInput[] = quote.inputs.map(input => ({
-        token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
-      }));
-
-      const requiredOutputs: OrderOutput[] = vaultDeposit.outputs.map(output => ({
-        token: getTokenAddress(output.token),
-        minOutputAmount: toWeiString(
-          slipBy(output.amount, slippage, output.token.decimals),
-          output.token.decimals
-        ),
-      }));
-
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = pickTokens(
-        quote.outputs,
-        quote.inputs,
-        quote.returned
-      ).map(token => ({
+    // Build LP
+    const buildZap = await this.fetchZapBuild(
+      buildQuote,
+      buildQuote.inputs.map(({ token }) => ({
+        token,
+        amount: minBalances.get(token), // we have to pass min expected in case swaps slipped
+      })),
+      zapHelpers
+    );
+    console.debug('buildZap', bigNumberToStringDeep(buildZap));
+    buildZap.zaps.forEach(step => steps.push(step));
+    minBalances.subtractMany(buildZap.inputs);
+    minBalances.addMany(buildZap.minOutputs);
+
+    // Deposit in vault
+    const vaultDeposit = await this.vaultType.fetchZapDeposit({
+      inputs: [
+        {
+          token: buildQuote.outputToken,
+          amount: minBalances.get(buildQuote.outputToken), // min expected in case add liquidity slipped
+          max: true, // but we call depositAll
+        },
+      ],
+      from: this.helpers.zap.router,
+    });
+    steps.push(vaultDeposit.zap);
+    minBalances.subtractMany(vaultDeposit.inputs);
+    minBalances.addMany(vaultDeposit.minOutputs);
+
+    console.log('fetchDepositStep::vaultDeposit', vaultDeposit);
+
+    // Build order
+    const inputs: OrderInput[] = quote.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
+
+    const requiredOutputs: OrderOutput[] = vaultDeposit.outputs.map(output => ({
+      token: getTokenAddress(output.token),
+      minOutputAmount: toWeiString(
+        slipBy(output.amount, slippage, output.token.decimals),
+        output.token.decimals
+      ),
+    }));
+
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = pickTokens(quote.outputs, quote.inputs, quote.returned).map(
+      token => ({
         token: getTokenAddress(token),
         minOutputAmount: '0',
-      }));
+      })
+    );
 
-      swapQuotes.forEach(quoteStep => {
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.fromToken),
-          minOutputAmount: '0',
-        });
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.toToken),
-          minOutputAmount: '0',
-        });
+    swapQuotes.forEach(quoteStep => {
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.fromToken),
+        minOutputAmount: '0',
       });
       dustOutputs.push({
-        token: getTokenAddress(buildQuote.outputToken),
+        token: getTokenAddress(quoteStep.toToken),
         minOutputAmount: '0',
       });
+    });
+    dustOutputs.push({
+      token: getTokenAddress(buildQuote.outputToken),
+      minOutputAmount: '0',
+    });
 
-      // @dev uniqBy: first occurrence of each element is kept.
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+    // @dev uniqBy: first occurrence of each element is kept.
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
 
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
-        },
-        steps,
-      };
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
+    };
+
+    return {
+      zapRequest,
+      expectedTokens: vaultDeposit.outputs.map(output => output.token),
+      minBalances,
+    };
+  }
+
+  async fetchDepositStep(quote: GammaDepositQuote, t: TFunction<Namespace>): Promise<Step> {
+    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
+      const { zapRequest, expectedTokens } = await this.fetchDepositUserlessZapBreakdown(quote);
 
-      const expectedTokens = vaultDeposit.outputs.map(output => output.token);
       const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
 
       return walletAction(dispatch, getState, extraArgument);
@@ -787,7 +812,7 @@ class GammaStrategyImpl implements IZapStrategy<StrategyId> {
               vaultId: option.vaultId,
             },
             state,
-            this.options.swap
+            withoutSplitSwaps(this.options.swap)
           );
 
           if (!quotes || !quotes.length) {
@@ -907,123 +932,131 @@ class GammaStrategyImpl implements IZapStrategy<StrategyId> {
     });
   }
 
-  public async fetchWithdrawStep(
-    quote: GammaWithdrawQuote,
-    t: TFunction<Namespace>
-  ): Promise<Step> {
-    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const chain = selectChainById(state, this.vault.chainId);
-      const slippage = selectTransactSlippage(state);
-      const zapHelpers: ZapHelpers = { chain, slippage, state };
-      const withdrawQuote = quote.steps.find(isZapQuoteStepWithdraw);
-      const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
-      const splitQuote = quote.steps.find(isZapQuoteStepSplit);
-
-      if (!withdrawQuote || !splitQuote) {
-        throw new Error('Withdraw or split zap quote not found');
-      }
+  async fetchWithdrawUserlessZapBreakdown(
+    quote: GammaWithdrawQuote
+  ): Promise<UserlessZapWithdrawBreakdown> {
+    const state = this.helpers.getState();
+    const chain = selectChainById(state, this.vault.chainId);
+    const slippage = selectTransactSlippage(state);
+    const zapHelpers: ZapHelpers = { chain, slippage, state };
+    const withdrawQuote = quote.steps.find(isZapQuoteStepWithdraw);
+    const swapQuotes = quote.steps.filter(isZapQuoteStepSwap);
+    const splitQuote = quote.steps.find(isZapQuoteStepSplit);
 
-      // Step 1. Withdraw from vault
-      const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
-        inputs: quote.inputs,
-        from: this.helpers.zap.router,
-      });
-      if (vaultWithdraw.outputs.length !== 1) {
-        throw new Error('Withdraw output count mismatch');
-      }
+    if (!withdrawQuote || !splitQuote) {
+      throw new Error('Withdraw or split zap quote not found');
+    }
 
-      const withdrawOutput = onlyOneTokenAmount(vaultWithdraw.outputs);
-      if (!isTokenEqual(withdrawOutput.token, splitQuote.inputToken)) {
-        throw new Error('Withdraw output token mismatch');
-      }
+    // Step 1. Withdraw from vault
+    const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
+      inputs: quote.inputs,
+      from: this.helpers.zap.router,
+    });
+    if (vaultWithdraw.outputs.length !== 1) {
+      throw new Error('Withdraw output count mismatch');
+    }
 
-      if (withdrawOutput.amount.lt(withdrawQuote.toAmount)) {
-        throw new Error('Withdraw output amount mismatch');
-      }
+    const withdrawOutput = onlyOneTokenAmount(vaultWithdraw.outputs);
+    if (!isTokenEqual(withdrawOutput.token, splitQuote.inputToken)) {
+      throw new Error('Withdraw output token mismatch');
+    }
 
-      const steps: ZapStep[] = [vaultWithdraw.zap];
+    if (withdrawOutput.amount.lt(withdrawQuote.toAmount)) {
+      throw new Error('Withdraw output amount mismatch');
+    }
 
-      // Step 2. Split lp
-      const splitZap = await this.fetchZapSplit(splitQuote, [withdrawOutput], zapHelpers);
-      splitZap.zaps.forEach(step => steps.push(step));
+    const steps: ZapStep[] = [vaultWithdraw.zap];
 
-      // Step 3. Swaps
-      // 0 swaps is valid when we break only
-      if (swapQuotes.length > 0) {
-        if (swapQuotes.length > 2) {
-          throw new Error('Invalid swap quote');
-        }
+    // Step 2. Split lp
+    const splitZap = await this.fetchZapSplit(splitQuote, [withdrawOutput], zapHelpers);
+    splitZap.zaps.forEach(step => steps.push(step));
 
-        const insertBalance = allTokensAreDistinct(
-          swapQuotes.map(quoteStep => quoteStep.fromToken)
-        );
-        // On withdraw zap the last swap can use 100% of balance even if token was used in previous swaps (since there are no further steps)
-        const lastSwapIndex = swapQuotes.length - 1;
-
-        const swapZaps = await Promise.all(
-          swapQuotes.map((quoteStep, i) => {
-            const input = splitZap.minOutputs.find(o => isTokenEqual(o.token, quoteStep.fromToken));
-            if (!input) {
-              throw new Error('Swap input not found in split outputs');
-            }
-            return this.fetchZapSwap(quoteStep, zapHelpers, insertBalance || lastSwapIndex === i);
-          })
-        );
-        swapZaps.forEach(swap => swap.zaps.forEach(step => steps.push(step)));
+    // Step 3. Swaps
+    // 0 swaps is valid when we break only
+    if (swapQuotes.length > 0) {
+      if (swapQuotes.length > 2) {
+        throw new Error('Invalid swap quote');
       }
 
-      // Build order
-      const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
-        token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
-      }));
-
-      const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
-        token: getTokenAddress(output.token),
-        minOutputAmount: toWeiString(
-          slipBy(output.amount, slippage, output.token.decimals),
-          output.token.decimals
-        ),
-      }));
-
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = pickTokens(
-        vaultWithdraw.inputs,
-        quote.outputs,
-        quote.inputs,
-        quote.returned,
-        splitQuote.outputs
-      ).map(token => ({
-        token: getTokenAddress(token),
-        minOutputAmount: '0',
-      }));
+      const insertBalance = allTokensAreDistinct(swapQuotes.map(quoteStep => quoteStep.fromToken));
+      // On withdraw zap the last swap can use 100% of balance even if token was used in previous swaps (since there are no further steps)
+      const lastSwapIndex = swapQuotes.length - 1;
 
-      swapQuotes.forEach(quoteStep => {
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.fromToken),
-          minOutputAmount: '0',
-        });
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.toToken),
-          minOutputAmount: '0',
-        });
+      const swapZaps = await Promise.all(
+        swapQuotes.map((quoteStep, i) => {
+          const input = splitZap.minOutputs.find(o => isTokenEqual(o.token, quoteStep.fromToken));
+          if (!input) {
+            throw new Error('Swap input not found in split outputs');
+          }
+          return this.fetchZapSwap(quoteStep, zapHelpers, insertBalance || lastSwapIndex === i);
+        })
+      );
+      swapZaps.forEach(swap => swap.zaps.forEach(step => steps.push(step)));
+    }
+
+    // Build order
+    const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
+
+    const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
+      token: getTokenAddress(output.token),
+      minOutputAmount: toWeiString(
+        slipBy(output.amount, slippage, output.token.decimals),
+        output.token.decimals
+      ),
+    }));
+
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = pickTokens(
+      vaultWithdraw.inputs,
+      quote.outputs,
+      quote.inputs,
+      quote.returned,
+      splitQuote.outputs
+    ).map(token => ({
+      token: getTokenAddress(token),
+      minOutputAmount: '0',
+    }));
+
+    swapQuotes.forEach(quoteStep => {
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.fromToken),
+        minOutputAmount: '0',
       });
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.toToken),
+        minOutputAmount: '0',
+      });
+    });
 
-      // @dev uniqBy: first occurrence of each element is kept -> required outputs are kept
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+    // @dev uniqBy: first occurrence of each element is kept -> required outputs are kept
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
 
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
-        },
-        steps,
-      };
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
+    };
+
+    return {
+      zapRequest,
+      expectedTokens: quote.outputs.map(output => output.token),
+    };
+  }
+
+  public async fetchWithdrawStep(
+    quote: GammaWithdrawQuote,
+    t: TFunction<Namespace>
+  ): Promise<Step> {
+    const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
+      const { zapRequest, expectedTokens } = await this.fetchWithdrawUserlessZapBreakdown(quote);
 
-      const expectedTokens = quote.outputs.map(output => output.token);
       const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
 
       return walletAction(dispatch, getState, extraArgument);
@@ -16,7 +16,6 @@ import {
   type SingleWithdrawOption,
   type SingleWithdrawQuote,
   type TokenAmount,
-  type TransactQuote,
   type ZapFee,
   type ZapQuoteStep,
   type ZapQuoteStepSwapAggregator,
@@ -50,6 +49,7 @@ import type {
   ZapStepResponse,
 } from '../../zap/types.ts';
 import { getTokenAddress, NO_RELAY } from '../../helpers/zap.ts';
+import { Balances } from '../../helpers/Balances.ts';
 import type { Step } from '../../../../reducers/wallet/stepper.ts';
 import type { Namespace, TFunction } from 'react-i18next';
 import { getVaultWithdrawnFromState } from '../../helpers/vault.ts';
@@ -66,7 +66,8 @@ import {
   selectChainNativeToken,
   selectChainWrappedNativeToken,
 } from '../../../../selectors/tokens.ts';
-import { fetchZapAggregatorSwap } from '../../zap/swap.ts';
+import { fetchZapAggregatorSwap, withoutSplitSwaps } from '../../zap/swap.ts';
+import { isSplitSwapResponse } from '../../swap/ISwapAggregator.ts';
 import type { ChainEntity } from '../../../../entities/chain.ts';
 import { selectChainById } from '../../../../selectors/chains.ts';
 import {
@@ -214,7 +215,7 @@ class SingleStrategyImpl implements IComposableStrategy<StrategyId> {
         toToken: this.vaultType.depositToken,
       },
       state,
-      this.options.swap
+      withoutSplitSwaps(this.options.swap)
     );
     const bestQuote = first(swapQuotes); // already sorted by toAmount
     if (!bestQuote) {
@@ -260,96 +261,109 @@ class SingleStrategyImpl implements IComposableStrategy<StrategyId> {
       throw new Error('Deposit zap is disabled');
     }
 
-    const { zap, swapAggregator } = this.helpers;
-
     const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const slippage = selectTransactSlippage(state);
+      const { zapRequest, expectedTokens } = await this.fetchDepositUserlessZapBreakdown(quote);
+      const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
 
-      // Step 1. Swap
-      const swap = await swapAggregator.fetchSwap(
-        quote.swapQuote.providerId,
-        {
-          quote: quote.swapQuote,
-          fromAddress: zap.router,
-          slippage,
-        },
-        state
-      );
+      return walletAction(dispatch, getState, extraArgument);
+    };
 
-      const steps: ZapStep[] = [
-        {
-          target: swap.tx.toAddress,
-          value: swap.tx.value,
-          data: swap.tx.data,
-          tokens: [
-            {
-              token: getTokenAddress(swap.fromToken),
-              index: -1, // not dynamically inserted
-            },
-          ],
-        },
-      ];
+    return {
+      step: 'zap-in',
+      message: t('Vault-TxnConfirm', { type: t('Deposit-noun') }),
+      action: zapAction,
+      pending: false,
+      extraInfo: { zap: true, vaultId: quote.option.vaultId },
+    };
+  }
 
-      // Step 2. Deposit to vault
-      const vaultDeposit = await this.vaultType.fetchZapDeposit({
-        inputs: [
-          {
-            token: swap.toToken,
-            amount: slipBy(swap.toAmount, slippage, swap.toToken.decimals), // min expected in case add liquidity slipped
-            max: true, // but we call depositAll
-          },
-        ],
-        from: this.helpers.zap.router,
-      });
+  async fetchDepositUserlessZapBreakdown(
+    quote: SingleDepositQuote
+  ): Promise<UserlessZapDepositBreakdown> {
+    if (this.isDepositDisabled()) {
+      throw new Error('Deposit zap is disabled');
+    }
 
-      steps.push(vaultDeposit.zap);
-
-      // Build order
-      const inputs: OrderInput[] = quote.inputs.map(input => ({
-        token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
-      }));
-
-      const requiredOutputs: OrderOutput[] = vaultDeposit.outputs.map(output => ({
-        token: getTokenAddress(output.token),
-        minOutputAmount: toWeiString(
-          slipBy(output.amount, slippage, output.token.decimals),
-          output.token.decimals
-        ),
-      }));
-
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = quote.outputs.concat(quote.inputs).map(input => ({
-        token: getTokenAddress(input.token),
-        minOutputAmount: '0',
-      }));
+    const { zap, swapAggregator, getState } = this.helpers;
+    const state = getState();
+    const slippage = selectTransactSlippage(state);
 
-      // @dev uniqBy: first occurrence of each element is kept.
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+    // Step 1. Swap
+    const swap = await swapAggregator.fetchSwap(
+      quote.swapQuote.providerId,
+      {
+        quote: quote.swapQuote,
+        fromAddress: zap.router,
+        slippage,
+      },
+      state
+    );
 
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
+    const swapParts = isSplitSwapResponse(swap) ? swap.parts : [swap];
+    const steps: ZapStep[] = swapParts.map(part => ({
+      target: part.tx.toAddress,
+      value: part.tx.value,
+      data: part.tx.data,
+      tokens: [
+        {
+          token: getTokenAddress(part.fromToken),
+          index: -1, // not dynamically inserted
         },
-        steps,
-      };
+      ],
+    }));
 
-      const expectedTokens = vaultDeposit.outputs.map(output => output.token);
-      const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
+    // Step 2. Deposit to vault
+    const vaultDeposit = await this.vaultType.fetchZapDeposit({
+      inputs: [
+        {
+          token: swap.toToken,
+          amount: slipBy(swap.toAmount, slippage, swap.toToken.decimals), // min expected in case add liquidity slipped
+          max: true, // but we call depositAll
+        },
+      ],
+      from: this.helpers.zap.router,
+    });
 
-      return walletAction(dispatch, getState, extraArgument);
+    steps.push(vaultDeposit.zap);
+
+    // Build order
+    const inputs: OrderInput[] = quote.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
+
+    const requiredOutputs: OrderOutput[] = vaultDeposit.outputs.map(output => ({
+      token: getTokenAddress(output.token),
+      minOutputAmount: toWeiString(
+        slipBy(output.amount, slippage, output.token.decimals),
+        output.token.decimals
+      ),
+    }));
+
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = quote.outputs.concat(quote.inputs).map(input => ({
+      token: getTokenAddress(input.token),
+      minOutputAmount: '0',
+    }));
+
+    // @dev uniqBy: first occurrence of each element is kept.
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
     };
 
     return {
-      step: 'zap-in',
-      message: t('Vault-TxnConfirm', { type: t('Deposit-noun') }),
-      action: zapAction,
-      pending: false,
-      extraInfo: { zap: true, vaultId: quote.option.vaultId },
+      zapRequest,
+      expectedTokens: vaultDeposit.outputs.map(output => output.token),
+      // only the vault shares are certain to be left after depositAll
+      minBalances: new Balances(vaultDeposit.minOutputs),
     };
   }
 
@@ -440,7 +454,7 @@ class SingleStrategyImpl implements IComposableStrategy<StrategyId> {
           vaultId: this.vault.id,
         },
         state,
-        this.options.swap
+        withoutSplitSwaps(this.options.swap)
       );
       const wrapQuote = first(wrapQuotes);
       if (!wrapQuote || wrapQuote.toAmount.lt(withdrawnAmountAfterFee)) {
@@ -476,7 +490,7 @@ class SingleStrategyImpl implements IComposableStrategy<StrategyId> {
           toToken: swapOutputToken,
         },
         state,
-        this.options.swap
+        withoutSplitSwaps(this.options.swap)
       );
       const bestQuote = first(swapQuotes); // already sorted by toAmount
       if (!bestQuote) {
@@ -520,94 +534,7 @@ class SingleStrategyImpl implements IComposableStrategy<StrategyId> {
     }
 
     const zapAction: BeefyThunk = async (dispatch, getState, extraArgument) => {
-      const state = getState();
-      const chain = selectChainById(state, this.vault.chainId);
-      const slippage = selectTransactSlippage(state);
-      const zapHelpers: ZapHelpers = { chain, slippage, state };
-      const withdrawQuote = quote.steps.find(isZapQuoteStepWithdraw);
-      const swapQuotes = quote.steps
-        .filter(isZapQuoteStepSwap)
-        .filter(isZapQuoteStepSwapAggregator);
-
-      if (!withdrawQuote || !swapQuotes.length) {
-        throw new Error('Invalid quote steps');
-      }
-
-      // Step 1. Withdraw from vault
-      const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
-        inputs: quote.inputs,
-        from: this.helpers.zap.router,
-      });
-      if (vaultWithdraw.outputs.length !== 1) {
-        throw new Error('Withdraw output count mismatch');
-      }
-      const withdrawOutput = first(vaultWithdraw.outputs)!;
-      if (!isTokenEqual(withdrawOutput.token, swapQuotes[0].fromToken)) {
-        throw new Error('Withdraw output token mismatch');
-      }
-      if (withdrawOutput.amount.lt(withdrawQuote.toAmount)) {
-        throw new Error('Withdraw output amount mismatch');
-      }
-
-      const steps: ZapStep[] = [vaultWithdraw.zap];
-
-      // Step 2. Swaps
-      const swapZaps = await Promise.all(
-        swapQuotes.map(quoteStep => this.fetchZapSwapAggregator(quoteStep, zapHelpers, true))
-      );
-      swapZaps.forEach(swap => swap.zaps.forEach(step => steps.push(step)));
-
-      // Build order (note: input to order is shares, but quote inputs are the deposit token)
-      const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
-        token: getTokenAddress(input.token),
-        amount: toWeiString(input.amount, input.token.decimals),
-      }));
-
-      // The required output is the swap output
-      const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
-        token: getTokenAddress(output.token),
-        minOutputAmount: toWeiString(
-          slipBy(output.amount, slippage, output.token.decimals),
-          output.token.decimals
-        ),
-      }));
-
-      // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
-      const dustOutputs: OrderOutput[] = pickTokens(
-        vaultWithdraw.inputs,
-        quote.outputs,
-        quote.inputs,
-        quote.returned
-      ).map(token => ({
-        token: getTokenAddress(token),
-        minOutputAmount: '0',
-      }));
-
-      swapQuotes.forEach(quoteStep => {
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.fromToken),
-          minOutputAmount: '0',
-        });
-        dustOutputs.push({
-          token: getTokenAddress(quoteStep.toToken),
-          minOutputAmount: '0',
-        });
-      });
-
-      // @dev uniqBy: first occurrence of each element is kept.
-      const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
-
-      // Perform TX
-      const zapRequest: UserlessZapRequest = {
-        order: {
-          inputs,
-          outputs,
-          relay: NO_RELAY,
-        },
-        steps,
-      };
-
-      const expectedTokens = quote.outputs.map(output => output.token);
+      const { zapRequest, expectedTokens } = await this.fetchWithdrawUserlessZapBreakdown(quote);
       const walletAction = zapExecuteOrder(quote.option.vaultId, zapRequest, expectedTokens);
 
       return walletAction(dispatch, getState, extraArgument);
@@ -622,6 +549,105 @@ class SingleStrategyImpl implements IComposableStrategy<StrategyId> {
     };
   }
 
+  async fetchWithdrawUserlessZapBreakdown(
+    quote: SingleWithdrawQuote
+  ): Promise<UserlessZapWithdrawBreakdown> {
+    if (this.isWithdrawDisabled()) {
+      throw new Error('Withdraw zap is disabled');
+    }
+
+    const { getState } = this.helpers;
+    const state = getState();
+    const chain = selectChainById(state, this.vault.chainId);
+    const slippage = selectTransactSlippage(state);
+    const zapHelpers: ZapHelpers = { chain, slippage, state };
+    const withdrawQuote = quote.steps.find(isZapQuoteStepWithdraw);
+    const swapQuotes = quote.steps.filter(isZapQuoteStepSwap).filter(isZapQuoteStepSwapAggregator);
+
+    if (!withdrawQuote || !swapQuotes.length) {
+      throw new Error('Invalid quote steps');
+    }
+
+    // Step 1. Withdraw from vault
+    const vaultWithdraw = await this.vaultType.fetchZapWithdraw({
+      inputs: quote.inputs,
+      from: this.helpers.zap.router,
+    });
+    if (vaultWithdraw.outputs.length !== 1) {
+      throw new Error('Withdraw output count mismatch');
+    }
+    const withdrawOutput = first(vaultWithdraw.outputs)!;
+    if (!isTokenEqual(withdrawOutput.token, swapQuotes[0].fromToken)) {
+      throw new Error('Withdraw output token mismatch');
+    }
+    if (withdrawOutput.amount.lt(withdrawQuote.toAmount)) {
+      throw new Error('Withdraw output amount mismatch');
+    }
+
+    const steps: ZapStep[] = [vaultWithdraw.zap];
+
+    // Step 2. Swaps
+    const swapZaps = await Promise.all(
+      swapQuotes.map(quoteStep => this.fetchZapSwapAggregator(quoteStep, zapHelpers, true))
+    );
+    swapZaps.forEach(swap => swap.zaps.forEach(step => steps.push(step)));
+
+    // Build order (note: input to order is shares, but quote inputs are the deposit token)
+    const inputs: OrderInput[] = vaultWithdraw.inputs.map(input => ({
+      token: getTokenAddress(input.token),
+      amount: toWeiString(input.amount, input.token.decimals),
+    }));
+
+    // The required output is the swap output
+    const requiredOutputs: OrderOutput[] = quote.outputs.map(output => ({
+      token: getTokenAddress(output.token),
+      minOutputAmount: toWeiString(
+        slipBy(output.amount, slippage, output.token.decimals),
+        output.token.decimals
+      ),
+    }));
+
+    // We need to list all inputs, and mid-route outputs, as outputs so dust gets returned
+    const dustOutputs: OrderOutput[] = pickTokens(
+      vaultWithdraw.inputs,
+      quote.outputs,
+      quote.inputs,
+      quote.returned
+    ).map(token => ({
+      token: getTokenAddress(token),
+      minOutputAmount: '0',
+    }));
+
+    swapQuotes.forEach(quoteStep => {
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.fromToken),
+        minOutputAmount: '0',
+      });
+      dustOutputs.push({
+        token: getTokenAddress(quoteStep.toToken),
+        minOutputAmount: '0',
+      });
+    });
+
+    // @dev uniqBy: first occurrence of each element is kept.
+    const outputs = uniqBy(requiredOutputs.concat(dustOutputs), output => output.token);
+
+    // Perform TX
+    const zapRequest: UserlessZapRequest = {
+      order: {
+        inputs,
+        outputs,
+        relay: NO_RELAY,
+      },
+      steps,
+    };
+
+    return {
+      zapRequest,
+      expectedTokens: quote.outputs.map(output => output.token),
+    };
+  }
+
   protected async fetchZapSwapAggregator(
     quoteStep: ZapQuoteStepSwapAggregator,
     zapHelpers: ZapHelpers,
@@ -644,14 +670,6 @@ class SingleStrategyImpl implements IComposableStrategy<StrategyId> {
       state
     );
   }
-
-  fetchDepositUserlessZapBreakdown(_quote: TransactQuote): Promise<UserlessZapDepositBreakdown> {
-    throw new Error('no impl');
-  }
-
-  fetchWithdrawUserlessZapBreakdown(_quote: TransactQuote): Promise<UserlessZapWithdrawBreakdown> {
-    throw new Error('no impl');
-  }
 }
 
 export const SingleStrategy = SingleStrategyImpl satisfies IComposableStrategyStatic<StrategyId>;
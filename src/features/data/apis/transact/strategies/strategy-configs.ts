@@ -7,11 +7,13 @@ import type {
 } from '../../../entities/zap.ts';
 import type { CurveMethod } from './curve/types.ts';
 
-export type SwapAggregatorId = 'one-inch' | 'kyber' | 'odos';
+export type SwapAggregatorId = 'one-inch' | 'kyber' | 'odos' | 'zero-ex';
 
 export type StrategySwapConfig = {
   blockProviders?: SwapAggregatorId[];
   blockTokens?: string[];
+  /** do not try splitting large swaps across providers */
+  disableSplit?: boolean;
 };
 
 export type OptionalStrategySwapConfig = {
@@ -104,7 +106,7 @@ export type ZapStrategyConfig =
 
 export type ZapStrategyId = ZapStrategyConfig['strategyId'];
 
-export type AnyStrategyId = ZapStrategyId | 'vault';
+export type AnyStrategyId = ZapStrategyId | 'vault' | 'cross-chain';
 
 export type StrategyIdToConfig<TId extends ZapStrategyId = ZapStrategyId> = {
   [K in TId]: Extract<
@@ -0,0 +1,147 @@
+import type { BeefyState } from '../../../../../redux-types.ts';
+import type { ChainEntity } from '../../../entities/chain.ts';
+import type { TokenEntity } from '../../../entities/token.ts';
+import type { VaultEntity } from '../../../entities/vault.ts';
+import type {
+  ISwapProvider,
+  QuoteRequest,
+  QuoteResponse,
+  SwapRequest,
+  SwapResponse,
+} from './ISwapProvider.ts';
+
+const DEFAULT_QUOTE_TTL = 10_000;
+const DEFAULT_QUOTE_TTL_BY_CHAIN: Partial<Record<ChainEntity['id'], number>> = {
+  ethereum: 15_000,
+};
+
+export type QuoteCacheStats = {
+  /** served from a cached quote */
+  hits: number;
+  /** served by joining an identical in-flight request */
+  deduped: number;
+  /** fetched from the provider */
+  misses: number;
+  /** quotes currently cached (incl. in-flight) */
+  size: number;
+};
+
+export type CachedSwapProviderOptions = {
+  /** ms a quote is reused for, per chain (replaces the defaults) */
+  ttlByChain?: Partial<Record<ChainEntity['id'], number>>;
+  /** ms a quote is reused for on chains not in ttlByChain */
+  defaultTtl?: number;
+};
+
+type CacheEntry = {
+  quote: Promise<QuoteResponse>;
+  /** undefined while in-flight */
+  expiresAt: number | undefined;
+};
+
+/**
+ * Wraps a swap provider to dedupe identical in-flight quote requests and cache quotes for a short time
+ */
+export class CachedSwapProvider implements ISwapProvider {
+  protected cache: Map<string, CacheEntry> = new Map();
+  protected stats: Omit<QuoteCacheStats, 'size'> = { hits: 0, deduped: 0, misses: 0 };
+  protected ttlByChain: Partial<Record<ChainEntity['id'], number>>;
+  protected defaultTtl: number;
+
+  constructor(
+    protected readonly provider: ISwapProvider,
+    options?: CachedSwapProviderOptions
+  ) {
+    this.ttlByChain = options?.ttlByChain ?? DEFAULT_QUOTE_TTL_BY_CHAIN;
+    this.defaultTtl = options?.defaultTtl ?? DEFAULT_QUOTE_TTL;
+  }
+
+  getId(): string {
+    return this.provider.getId();
+  }
+
+  getStats(): QuoteCacheStats {
+    return { ...this.stats, size: this.cache.size };
+  }
+
+  async getSupportedTokens(
+    vaultId: VaultEntity['id'],
+    chainId: ChainEntity['id'],
+    state: BeefyState
+  ): Promise<TokenEntity[]> {
+    return this.provider.getSupportedTokens(vaultId, chainId, state);
+  }
+
+  async getSupportedChains(state: BeefyState): Promise<ChainEntity['id'][]> {
+    return this.provider.getSupportedChains(state);
+  }
+
+  async fetchSwap(request: SwapRequest, state: BeefyState): Promise<SwapResponse> {
+    // swaps are never cached as tx data is only valid for a short time
+    return this.provider.fetchSwap(request, state);
+  }
+
+  async fetchQuote(request: QuoteRequest, state: BeefyState): Promise<QuoteResponse> {
+    const now = Date.now();
+    this.removeExpired(now);
+
+    const key = this.getKey(request, state);
+    const existing = this.cache.get(key);
+    if (existing) {
+      if (existing.expiresAt === undefined) {
+        ++this.stats.deduped;
+      } else {
+        ++this.stats.hits;
+      }
+      return existing.quote;
+    }
+
+    ++this.stats.misses;
+    const entry: CacheEntry = {
+      quote: this.provider.fetchQuote(request, state),
+      expiresAt: undefined,
+    };
+    this.cache.set(key, entry);
+
+    try {
+      const quote = await entry.quote;
+      entry.expiresAt = Date.now() + this.getTtl(request.fromToken.chainId);
+      return quote;
+    } catch (err) {
+      // do not cache failures
+      this.cache.delete(key);
+      throw err;
+    }
+  }
+
+  protected getTtl(chainId: ChainEntity['id']): number {
+    return this.ttlByChain[chainId] ?? this.defaultTtl;
+  }
+
+  getQuoteStateKey(state: BeefyState): string {
+    return this.provider.getQuoteStateKey?.(state) ?? '';
+  }
+
+  protected getKey(request: QuoteRequest, state: BeefyState): string {
+    const { fromToken, fromAmount, toToken } = request;
+    return [
+      fromToken.chainId,
+      fromToken.address.toLowerCase(),
+      toToken.address.toLowerCase(),
+      fromAmount.toString(10),
+      this.getQuoteStateKey(state),
+    ].join(':');
+  }
+
+  protected removeExpired(now: number) {
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
+
+export function isCachedSwapProvider(provider: ISwapProvider): provider is CachedSwapProvider {
+  return provider instanceof CachedSwapProvider;
+}
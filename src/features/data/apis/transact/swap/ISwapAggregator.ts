@@ -5,6 +5,7 @@ import type { QuoteRequest, QuoteResponse, SwapRequest, SwapResponse } from './I
 import type { VaultEntity } from '../../../entities/vault.ts';
 
 import type { StrategySwapConfig } from '../strategies/strategy-configs.ts';
+import type { QuoteCacheStats } from './CachedSwapProvider.ts';
 
 export type TokenSupport = {
   /** Tokens supported per input token */
@@ -13,9 +14,35 @@ export type TokenSupport = {
   any: TokenEntity[];
 };
 
+/** providerId of a quote/swap split across several providers */
+export const SPLIT_PROVIDER_ID = 'split';
+
+export type SplitQuoteExtra = {
+  /** one quote per provider; fromAmounts sum to the composite fromAmount */
+  parts: QuoteResponse[];
+};
+
+export type SplitQuoteResponse = QuoteResponse<SplitQuoteExtra> & { extra: SplitQuoteExtra };
+
+export type SplitSwapResponse = Omit<SwapResponse, 'tx'> & {
+  /** one swap per provider, each with its own tx */
+  parts: SwapResponse[];
+};
+
+export type AggregatorSwapResponse = SwapResponse | SplitSwapResponse;
+
+export function isSplitQuote(quote: QuoteResponse): quote is SplitQuoteResponse {
+  return quote.providerId === SPLIT_PROVIDER_ID;
+}
+
+export function isSplitSwapResponse(swap: AggregatorSwapResponse): swap is SplitSwapResponse {
+  return swap.providerId === SPLIT_PROVIDER_ID && 'parts' in swap;
+}
+
 export interface ISwapAggregator {
   /**
-   * Returns quotes for a request
+   * Returns quotes for a request, sorted by highest output first
+   * May include a quote split across several providers for large swaps
    * Optionally, some providers or tokens can be disabled
    */
   fetchQuotes(
@@ -26,8 +53,13 @@ export interface ISwapAggregator {
 
   /**
    * Returns a swap incl tx data for a request on a specific provider
+   * A split quote returns one swap (and tx) per provider
    */
-  fetchSwap(providerId: string, request: SwapRequest, state: BeefyState): Promise<SwapResponse>;
+  fetchSwap(
+    providerId: string,
+    request: SwapRequest,
+    state: BeefyState
+  ): Promise<AggregatorSwapResponse>;
 
   /**
    * Returns tokens supported for each input token
@@ -40,4 +72,9 @@ export interface ISwapAggregator {
     state: BeefyState,
     options?: StrategySwapConfig
   ): Promise<TokenSupport>;
+
+  /**
+   * Returns quote cache hit/miss counters per provider, for debugging
+   */
+  getQuoteCacheStats(): Record<string, QuoteCacheStats>;
 }
@@ -57,4 +57,6 @@ export interface ISwapProvider {
   getSupportedChains(state: BeefyState): Promise<ChainEntity['id'][]>;
   fetchQuote(request: QuoteRequest, state: BeefyState): Promise<QuoteResponse>;
   fetchSwap(request: SwapRequest, state: BeefyState): Promise<SwapResponse>;
+  /** state outside the request that quotes depend on, so cached quotes can be keyed on it */
+  getQuoteStateKey?(state: BeefyState): string;
 }
@@ -10,14 +10,31 @@ import { isTokenEqual, isTokenNative } from '../../../entities/token.ts';
 import type { ChainEntity } from '../../../entities/chain.ts';
 import type { BeefyState } from '../../../../../redux-types.ts';
 import { mergeTokenLists } from '../helpers/tokens.ts';
-import { orderBy, partition } from 'lodash-es';
+import { first, maxBy, orderBy, partition } from 'lodash-es';
 import { isFulfilledResult } from '../../../../../helpers/promises.ts';
-import type { ISwapAggregator, TokenSupport } from './ISwapAggregator.ts';
+import {
+  type AggregatorSwapResponse,
+  type ISwapAggregator,
+  isSplitQuote,
+  SPLIT_PROVIDER_ID,
+  type SplitQuoteResponse,
+  type SplitSwapResponse,
+  type TokenSupport,
+} from './ISwapAggregator.ts';
 import type { VaultEntity } from '../../../entities/vault.ts';
 import { selectZapTokenScore } from '../../../selectors/zap.ts';
-import { sortQuotes } from '../helpers/quotes.ts';
+import { sortQuotes, totalValueOfTokenAmounts } from '../helpers/quotes.ts';
 import { selectChainWrappedNativeToken } from '../../../selectors/tokens.ts';
 import type { StrategySwapConfig } from '../strategies/strategy-configs.ts';
+import { isCachedSwapProvider, type QuoteCacheStats } from './CachedSwapProvider.ts';
+import { BIG_ZERO, truncateBigNumber } from '../../../../../helpers/big-number.ts';
+import {
+  featureFlag_disableSwapSplit,
+  featureFlag_swapSplitMinUsd,
+} from '../../../utils/feature-flags.ts';
+
+/** Share of the input sent to the best provider when splitting, the rest goes to the 2nd best */
+const SPLIT_RATIOS = [0.7, 0.5, 0.3];
 
 export class SwapAggregator implements ISwapAggregator {
   protected providersById: Record<string, ISwapProvider> = {};
@@ -28,6 +45,14 @@ export class SwapAggregator implements ISwapAggregator {
     });
   }
 
+  getQuoteCacheStats(): Record<string, QuoteCacheStats> {
+    return Object.fromEntries(
+      this.providers
+        .filter(isCachedSwapProvider)
+        .map(provider => [provider.getId(), provider.getStats()])
+    );
+  }
+
   with(provider: ISwapProvider) {
     return new SwapAggregator([...this.providers, provider]);
   }
@@ -222,19 +247,125 @@ export class SwapAggregator implements ISwapAggregator {
       );
     }
 
-    return sortQuotes(success.map(quote => quote.value));
+    const sortedQuotes = sortQuotes(success.map(quote => quote.value));
+    const splitQuote = await this.fetchSplitQuote(request, sortedQuotes, state, options);
+    if (splitQuote && splitQuote.toAmount.gt(sortedQuotes[0].toAmount)) {
+      return [splitQuote, ...sortedQuotes];
+    }
+
+    return sortedQuotes;
+  }
+
+  /**
+   * Tries splitting the input between the two best providers to reduce price impact
+   * Only for swaps worth at least featureFlag_swapSplitMinUsd() as it costs extra quote requests
+   */
+  protected async fetchSplitQuote(
+    request: QuoteRequest,
+    sortedQuotes: QuoteResponse[],
+    state: BeefyState,
+    options: StrategySwapConfig | undefined
+  ): Promise<SplitQuoteResponse | undefined> {
+    if (options?.disableSplit || featureFlag_disableSwapSplit()) {
+      return undefined;
+    }
+
+    // wrapping is always 1:1
+    const [best, second] = sortedQuotes.filter(quote => quote.providerId !== 'wnative');
+    if (!best || !second) {
+      return undefined;
+    }
+
+    const fromValue = totalValueOfTokenAmounts(
+      [{ token: request.fromToken, amount: request.fromAmount }],
+      state
+    );
+    if (fromValue.lt(featureFlag_swapSplitMinUsd())) {
+      return undefined;
+    }
+
+    const bestProvider = this.getProvider(best.providerId);
+    const secondProvider = this.getProvider(second.providerId);
+    const splits = await Promise.allSettled(
+      SPLIT_RATIOS.map(ratio => {
+        const bestAmount = truncateBigNumber(
+          request.fromAmount.multipliedBy(ratio),
+          request.fromToken.decimals
+        );
+        return Promise.all([
+          bestProvider.fetchQuote({ ...request, fromAmount: bestAmount }, state),
+          secondProvider.fetchQuote(
+            { ...request, fromAmount: request.fromAmount.minus(bestAmount) },
+            state
+          ),
+        ]);
+      })
+    );
+
+    // a failed split just means we use the best single quote
+    const splitQuotes = splits
+      .filter(isFulfilledResult)
+      .map(split => this.makeSplitQuote(request, split.value));
+
+    return first(sortQuotes(splitQuotes));
+  }
+
+  protected makeSplitQuote(request: QuoteRequest, parts: QuoteResponse[]): SplitQuoteResponse {
+    return {
+      providerId: SPLIT_PROVIDER_ID,
+      fromToken: request.fromToken,
+      fromAmount: request.fromAmount,
+      toToken: request.toToken,
+      toAmount: parts.reduce((sum, part) => sum.plus(part.toAmount), BIG_ZERO),
+      fee: maxBy(parts, part => part.fee.value)!.fee,
+      extra: { parts },
+    };
+  }
+
+  protected getProvider(providerId: string): ISwapProvider {
+    const provider = this.providersById[providerId];
+    if (!provider) {
+      throw new Error(`Provider ${providerId} not found`);
+    }
+    return provider;
   }
 
   async fetchSwap(
     providerId: string,
     request: SwapRequest,
     state: BeefyState
-  ): Promise<SwapResponse> {
-    const provider = this.providersById[providerId];
-    if (!provider) {
-      throw new Error(`Provider ${providerId} not found`);
+  ): Promise<AggregatorSwapResponse> {
+    if (providerId === SPLIT_PROVIDER_ID) {
+      return await this.fetchSplitSwap(request, state);
     }
 
-    return await provider.fetchSwap(request, state);
+    return await this.getProvider(providerId).fetchSwap(request, state);
+  }
+
+  protected async fetchSplitSwap(
+    request: SwapRequest,
+    state: BeefyState
+  ): Promise<SplitSwapResponse> {
+    const { quote } = request;
+    if (!isSplitQuote(quote)) {
+      throw new Error(`Quote from ${quote.providerId} is not a split quote`);
+    }
+
+    const parts: SwapResponse[] = await Promise.all(
+      quote.extra.parts.map(part =>
+        this.getProvider(part.providerId).fetchSwap({ ...request, quote: part }, state)
+      )
+    );
+
+    return {
+      providerId: SPLIT_PROVIDER_ID,
+      fromToken: quote.fromToken,
+      fromAmount: quote.fromAmount,
+      toToken: quote.toToken,
+      toAmount: parts.reduce((sum, part) => sum.plus(part.toAmount), BIG_ZERO),
+      toAmountMin: parts.reduce((sum, part) => sum.plus(part.toAmountMin), BIG_ZERO),
+      fee: quote.fee,
+      parts,
+    };
   }
 }
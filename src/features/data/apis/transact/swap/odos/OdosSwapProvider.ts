@@ -35,6 +35,11 @@ export class OdosSwapProvider implements ISwapProvider {
     return selectSwapAggregatorForChainType<OdosSwapSwapConfig['type']>(state, chainId, 'odos');
   }
 
+  getQuoteStateKey(state: BeefyState): string {
+    // quotes are built with the user's slippage
+    return selectTransactSlippage(state).toString();
+  }
+
   async fetchQuote(request: QuoteRequest, state: BeefyState): Promise<QuoteResponse> {
     const chain = selectChainById(state, request.fromToken.chainId);
     const config = this.getConfigForChain(chain.id, state);
@@ -4,3 +4,5 @@ export { OneInchSwapProvider } from './one-inch/OneInchSwapProvider.ts';
 export { KyberSwapProvider } from './kyber/KyberSwapProvider.ts';
 export { WNativeSwapProvider } from './wnative/WNativeSwapProvider.ts';
 export { OdosSwapProvider } from './odos/OdosSwapProvider.ts';
+export { ZeroExSwapProvider } from './zero-ex/ZeroExSwapProvider.ts';
+export { CachedSwapProvider } from './CachedSwapProvider.ts';
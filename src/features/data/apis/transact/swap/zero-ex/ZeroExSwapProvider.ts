@@ -0,0 +1,169 @@
+import { EEEE_ADDRESS, ZERO_ADDRESS } from '../../../../../../helpers/addresses.ts';
+import { uniqBy } from 'lodash-es';
+import { BIG_ZERO, fromWei, toWeiString } from '../../../../../../helpers/big-number.ts';
+import type { BeefyState } from '../../../../../../redux-types.ts';
+import type { ChainEntity } from '../../../../entities/chain.ts';
+import { isTokenNative, type TokenEntity } from '../../../../entities/token.ts';
+import type { VaultEntity } from '../../../../entities/vault.ts';
+import { selectAllChainIds, selectChainById } from '../../../../selectors/chains.ts';
+import {
+  selectSupportedSwapTokensForChainAggregatorHavingPrice,
+  selectTokenByIdOrUndefined,
+  selectTokenPriceByTokenOracleId,
+} from '../../../../selectors/tokens.ts';
+import { isDefined } from '../../../../utils/array-utils.ts';
+import { selectSwapAggregatorForChainType, selectZapByChainId } from '../../../../selectors/zap.ts';
+import { featureFlag_zeroExApiUrl } from '../../../../utils/feature-flags.ts';
+import type { ZeroExSwapConfig } from '../../../config-types.ts';
+import { getZeroExApi } from '../../../instances.ts';
+import { slipBy } from '../../helpers/amounts.ts';
+import type {
+  ISwapProvider,
+  QuoteRequest,
+  QuoteResponse,
+  SwapRequest,
+  SwapResponse,
+} from '../ISwapProvider.ts';
+
+export class ZeroExSwapProvider implements ISwapProvider {
+  getId(): string {
+    return 'zero-ex';
+  }
+
+  protected getTokenAddress(token: TokenEntity): string {
+    return isTokenNative(token) ? EEEE_ADDRESS : token.address;
+  }
+
+  protected getConfigForChain(
+    chainId: ChainEntity['id'],
+    state: BeefyState
+  ): ZeroExSwapConfig | undefined {
+    return selectSwapAggregatorForChainType<ZeroExSwapConfig['type']>(state, chainId, 'zero-ex');
+  }
+
+  protected async getApi(chain: ChainEntity, config: ZeroExSwapConfig) {
+    return getZeroExApi(chain, {
+      apiUrl: featureFlag_zeroExApiUrl() || config.apiUrl,
+      apiKey: config.apiKey,
+    });
+  }
+
+  async fetchQuote(request: QuoteRequest, state: BeefyState): Promise<QuoteResponse> {
+    const chain = selectChainById(state, request.fromToken.chainId);
+    const config = this.getConfigForChain(chain.id, state);
+    if (!config) {
+      throw new Error(`No 0x aggregator config found for chain ${chain.id}`);
+    }
+    const zap = selectZapByChainId(state, chain.id);
+    if (!zap) {
+      throw new Error(`No zap found for chain ${chain.id}`);
+    }
+
+    const api = await this.getApi(chain, config);
+    const price = await api.getPrice({
+      sellToken: this.getTokenAddress(request.fromToken),
+      buyToken: this.getTokenAddress(request.toToken),
+      sellAmount: toWeiString(request.fromAmount, request.fromToken.decimals),
+      takerAddress: zap.router,
+    });
+
+    return {
+      providerId: this.getId(),
+      fromToken: request.fromToken,
+      fromAmount: request.fromAmount,
+      toToken: request.toToken,
+      toAmount: fromWei(price.buyAmount, request.toToken.decimals),
+      fee: config.fee,
+    };
+  }
+
+  async getSupportedTokens(
+    vaultId: VaultEntity['id'],
+    chainId: ChainEntity['id'],
+    state: BeefyState
+  ): Promise<TokenEntity[]> {
+    const config = this.getConfigForChain(chainId, state);
+    if (!config) {
+      return [];
+    }
+
+    if (config.blockedVaults.includes(vaultId)) {
+      return [];
+    }
+    const possibleTokens = uniqBy(
+      [
+        ...selectSupportedSwapTokensForChainAggregatorHavingPrice(state, chainId, 'zero-ex'),
+        ...this.getConfigSupportedTokens(chainId, config, state),
+      ],
+      token => token.address.toLowerCase()
+    );
+    return config.blockedTokens.length ?
+        possibleTokens.filter(token => !config.blockedTokens.includes(token.id))
+      : possibleTokens;
+  }
+
+  /** self-hosted services are unknown to the beefy api, so their supported tokens come from config */
+  protected getConfigSupportedTokens(
+    chainId: ChainEntity['id'],
+    config: ZeroExSwapConfig,
+    state: BeefyState
+  ): TokenEntity[] {
+    if (!config.supportedTokens) {
+      return [];
+    }
+
+    return config.supportedTokens
+      .map(tokenId => selectTokenByIdOrUndefined(state, chainId, tokenId))
+      .filter(isDefined)
+      .filter(token => selectTokenPriceByTokenOracleId(state, token.oracleId).gt(BIG_ZERO));
+  }
+
+  async fetchSwap(request: SwapRequest, state: BeefyState): Promise<SwapResponse> {
+    const { quote, fromAddress, slippage } = request;
+    const chain = selectChainById(state, quote.fromToken.chainId);
+    const config = this.getConfigForChain(chain.id, state);
+    if (!config) {
+      throw new Error(`No 0x aggregator config found for chain ${chain.id}`);
+    }
+
+    const api = await this.getApi(chain, config);
+    const swap = await api.getQuote({
+      sellToken: this.getTokenAddress(quote.fromToken),
+      buyToken: this.getTokenAddress(quote.toToken),
+      sellAmount: toWeiString(quote.fromAmount, quote.fromToken.decimals),
+      takerAddress: fromAddress,
+      slippagePercentage: slippage,
+      skipValidation: true,
+    });
+    // zap router only approves the tx target
+    if (
+      swap.allowanceTarget &&
+      swap.allowanceTarget !== ZERO_ADDRESS &&
+      swap.allowanceTarget.toLowerCase() !== swap.to.toLowerCase()
+    ) {
+      throw new Error(`0x allowance target ${swap.allowanceTarget} is not the swap target`);
+    }
+    const toAmount = fromWei(swap.buyAmount, quote.toToken.decimals);
+
+    return {
+      providerId: this.getId(),
+      fromToken: quote.fromToken,
+      fromAmount: quote.fromAmount,
+      toToken: quote.toToken,
+      toAmount,
+      toAmountMin: slipBy(toAmount, slippage, quote.toToken.decimals),
+      tx: {
+        fromAddress: fromAddress,
+        toAddress: swap.to,
+        data: swap.data,
+        value: swap.value,
+        inputPosition: -1, // not supported
+      },
+      fee: config.fee,
+    };
+  }
+
+  async getSupportedChains(state: BeefyState): Promise<ChainEntity['id'][]> {
+    return selectAllChainIds(state).filter(chainId => !!this.getConfigForChain(chainId, state));
+  }
+}
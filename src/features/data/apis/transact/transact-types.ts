@@ -15,6 +15,12 @@ import type {
 import type { PlatformEntity } from '../../entities/platform.ts';
 import type { CurveTokenOption } from './strategies/curve/types.ts';
 import type { ZapStrategyId } from './strategies/strategy-configs.ts';
+import type {
+  UserlessZapDepositBreakdown,
+  UserlessZapWithdrawBreakdown,
+} from './strategies/IStrategy.ts';
+import type { IBridgeRouteQuote } from '../bridge/bridge-api-types.ts';
+import type { BeefyAnyBridgeConfig } from '../config-types.ts';
 
 export type TokenAmount<T extends TokenEntity = TokenEntity> = {
   amount: BigNumber;
@@ -324,6 +330,13 @@ export type RewardPoolToVaultWithdrawOption = ZapBaseWithdrawOption & {
   strategyId: 'reward-pool-to-vault';
 };
 
+/** Bridges the input from chainId to the vault chain, then deposits via destinationOption */
+export type CrossChainDepositOption = ZapBaseDepositOption & {
+  strategyId: 'cross-chain';
+  /** option on the vault chain whose only input is the bridged token */
+  destinationOption: DepositOption;
+};
+
 export type DepositOption =
   | StandardVaultDepositOption
   | GovVaultDepositOption
@@ -339,7 +352,8 @@ export type DepositOption =
   | GovComposerDepositOption
   | VaultComposerDepositOption
   | RewardPoolToVaultDepositOption
-  | BalancerDepositOption;
+  | BalancerDepositOption
+  | CrossChainDepositOption;
 
 export type WithdrawOption =
   | StandardVaultWithdrawOption
@@ -436,6 +450,16 @@ export type ZapQuoteStepUnstake = {
   outputs: TokenAmount[];
 };
 
+export type ZapQuoteStepBridge = {
+  type: 'bridge';
+  fromToken: TokenEntity;
+  fromAmount: BigNumber;
+  toToken: TokenEntity;
+  toAmount: BigNumber;
+  /** bridge used by each hop */
+  bridgeIds: BeefyAnyBridgeConfig['id'][];
+};
+
 export type ZapQuoteStep =
   | ZapQuoteStepWithdraw
   | ZapQuoteStepSwap
@@ -444,7 +468,8 @@ export type ZapQuoteStep =
   | ZapQuoteStepSplit
   | ZapQuoteStepUnused
   | ZapQuoteStepStake
-  | ZapQuoteStepUnstake;
+  | ZapQuoteStepUnstake
+  | ZapQuoteStepBridge;
 
 export function isZapQuoteStepSwap(step: ZapQuoteStep): step is ZapQuoteStepSwap {
   return step.type === 'swap';
@@ -474,6 +499,10 @@ export function isZapQuoteStepUnstake(step: ZapQuoteStep): step is ZapQuoteStepU
   return step.type === 'unstake';
 }
 
+export function isZapQuoteStepBridge(step: ZapQuoteStep): step is ZapQuoteStepBridge {
+  return step.type === 'bridge';
+}
+
 export function isZapQuoteStepSwapPool(step: ZapQuoteStepSwap): step is ZapQuoteStepSwapPool {
   return step.via === 'pool';
 }
@@ -586,6 +615,12 @@ export type RewardPoolToVaultDepositQuote = BaseZapQuote<RewardPoolToVaultDeposi
 
 export type ConicDepositQuote = BaseZapQuote<ConicDepositOption>;
 
+export type CrossChainDepositQuote = BaseZapQuote<CrossChainDepositOption> & {
+  bridgeQuote: IBridgeRouteQuote;
+  /** deposit of the bridged amount on the vault chain, re-quoted once the bridged token arrives */
+  destinationQuote: DepositQuote;
+};
+
 export type VaultDepositQuote =
   | StandardVaultDepositQuote
   | GovVaultDepositQuote
@@ -603,7 +638,8 @@ export type ZapDepositQuote =
   | GovComposerZapDepositQuote
   | VaultComposerZapDepositQuote
   | RewardPoolToVaultDepositQuote
-  | BalancerDepositQuote;
+  | BalancerDepositQuote
+  | CrossChainDepositQuote;
 
 export type DepositQuote = VaultDepositQuote | ZapDepositQuote;
 
@@ -878,6 +914,10 @@ export function isGovComposerWithdrawQuote(
   return isWithdrawQuote(quote) && quote.strategyId === 'gov-composer';
 }
 
+export function isCrossChainDepositQuote(quote: TransactQuote): quote is CrossChainDepositQuote {
+  return isDepositQuote(quote) && quote.strategyId === 'cross-chain';
+}
+
 export function isDepositQuote(quote: TransactQuote): quote is DepositQuote {
   return quote.option.mode === TransactMode.Deposit;
 }
@@ -911,6 +951,11 @@ export interface ITransactApi {
     t: TFunction<Namespace>
   ): Promise<Step>;
 
+  fetchDepositUserlessZapBreakdown(
+    quote: DepositQuote,
+    getState: BeefyStateFn
+  ): Promise<UserlessZapDepositBreakdown>;
+
   fetchWithdrawOptionsFor(
     vaultId: VaultEntity['id'],
     getState: BeefyStateFn
@@ -928,5 +973,10 @@ export interface ITransactApi {
     t: TFunction<Namespace>
   ): Promise<Step>;
 
+  fetchWithdrawUserlessZapBreakdown(
+    quote: WithdrawQuote,
+    getState: BeefyStateFn
+  ): Promise<UserlessZapWithdrawBreakdown>;
+
   fetchVaultHasZap(vaultId: VaultEntity['id'], getState: BeefyStateFn): Promise<boolean>;
 }
@@ -16,9 +16,12 @@ import {
   type IComposableStrategyStatic,
   type IComposerStrategyStatic,
   type IStrategy,
+  isComposableStrategy,
   isZapTransactHelpers,
   type IZapStrategyStatic,
   type TransactHelpers,
+  type UserlessZapDepositBreakdown,
+  type UserlessZapWithdrawBreakdown,
   type ZapTransactHelpers,
 } from './strategies/IStrategy.ts';
 import { allFulfilled, isFulfilledResult } from '../../../../helpers/promises.ts';
@@ -37,6 +40,7 @@ import {
 } from './strategies/strategies.ts';
 import { getVaultTypeBuilder } from './vaults/vaults.ts';
 import { VaultStrategy } from './strategies/vault/VaultStrategy.ts';
+import { CrossChainStrategy } from './strategies/cross-chain/CrossChainStrategy.ts';
 import { selectSwapAggregatorsExistForChain, selectZapByChainId } from '../../selectors/zap.ts';
 import { getSwapAggregator } from '../instances.ts';
 import { isDefined } from '../../utils/array-utils.ts';
@@ -55,6 +59,12 @@ type StrategyConstructorWithOptions<TId extends ZapStrategyId = ZapStrategyId> =
   };
 }[TId];
 
+/** Composable strategy of any id; each strategy checks the quote it is given matches */
+type GenericComposableStrategy = IStrategy & {
+  fetchDepositUserlessZapBreakdown(quote: TransactQuote): Promise<UserlessZapDepositBreakdown>;
+  fetchWithdrawUserlessZapBreakdown(quote: TransactQuote): Promise<UserlessZapWithdrawBreakdown>;
+};
+
 type GenericStrategyConstructorWithOptions = {
   id: ZapStrategyId;
   ctor: AnyZapStrategyStatic;
@@ -98,6 +108,20 @@ export class TransactApi implements ITransactApi {
     getState: BeefyStateFn
   ): Promise<DepositOption[]> {
     const helpers = await this.getHelpersForVault(vaultId, getState);
+    const options = await this.fetchVaultChainDepositOptions(helpers);
+
+    // deposits from other chains via the bridge, into the vault chain options
+    try {
+      const crossChainStrategy = this.getCrossChainStrategy(helpers, async () => options);
+      options.push(...(await crossChainStrategy.fetchDepositOptions()));
+    } catch (err: unknown) {
+      console.error(`Vault ${vaultId} failed to fetch cross-chain deposit options`, err);
+    }
+
+    return options;
+  }
+
+  private async fetchVaultChainDepositOptions(helpers: TransactHelpers): Promise<DepositOption[]> {
     const { vaultType } = helpers;
     const options: DepositOption[] = [];
 
@@ -203,6 +227,14 @@ export class TransactApi implements ITransactApi {
     return await strategy.fetchDepositStep(quote, t);
   }
 
+  async fetchDepositUserlessZapBreakdown(
+    quote: DepositQuote,
+    getState: BeefyStateFn
+  ): Promise<UserlessZapDepositBreakdown> {
+    const strategy = await this.getComposableStrategyForQuote(quote, getState);
+    return await strategy.fetchDepositUserlessZapBreakdown(quote);
+  }
+
   async fetchWithdrawOptionsFor(
     vaultId: VaultEntity['id'],
     getState: BeefyStateFn
@@ -328,6 +360,33 @@ export class TransactApi implements ITransactApi {
     return await strategy.fetchWithdrawStep(quote, t);
   }
 
+  async fetchWithdrawUserlessZapBreakdown(
+    quote: WithdrawQuote,
+    getState: BeefyStateFn
+  ): Promise<UserlessZapWithdrawBreakdown> {
+    const strategy = await this.getComposableStrategyForQuote(quote, getState);
+    return await strategy.fetchWithdrawUserlessZapBreakdown(quote);
+  }
+
+  /** Strategy that can build its zap order without sending it, so it can be combined with others */
+  private async getComposableStrategyForQuote(
+    quote: TransactQuote,
+    getState: BeefyStateFn
+  ): Promise<GenericComposableStrategy> {
+    const helpers = await this.getHelpersForVault(quote.option.vaultId, getState);
+    const strategy = await this.getStrategyById(quote.option.strategyId, helpers);
+    if (!isComposableStrategy(strategy)) {
+      throw new Error(`Strategy "${quote.option.strategyId}" does not support composing zaps`);
+    }
+
+    // Call beforeStep hooks
+    if (strategy.beforeStep) {
+      await strategy.beforeStep();
+    }
+
+    return strategy as GenericComposableStrategy;
+  }
+
   async fetchVaultHasZap(vaultId: VaultEntity['id'], getState: BeefyStateFn): Promise<boolean> {
     const helpers = await this.getHelpersForVault(vaultId, getState);
 
@@ -516,6 +575,16 @@ export class TransactApi implements ITransactApi {
     return new ctor(options, underlyingHelpers);
   }
 
+  private getCrossChainStrategy(
+    helpers: TransactHelpers,
+    fetchDepositOptions: () => Promise<DepositOption[]>
+  ): CrossChainStrategy {
+    return new CrossChainStrategy(helpers, {
+      fetchDepositOptions,
+      getStrategy: strategyId => this.getStrategyById(strategyId, helpers),
+    });
+  }
+
   private async getStrategyById(
     strategyId: AnyStrategyId,
     helpers: TransactHelpers
@@ -527,6 +596,10 @@ export class TransactApi implements ITransactApi {
       return new VaultStrategy(vaultType);
     }
 
+    if (strategyId === 'cross-chain') {
+      return this.getCrossChainStrategy(helpers, () => this.fetchVaultChainDepositOptions(helpers));
+    }
+
     if (!isZapTransactHelpers(helpers)) {
       throw new Error(`Strategy "${strategyId}" requires zap contract`);
     }
@@ -1,11 +1,16 @@
-import type { ISwapAggregator } from '../swap/ISwapAggregator.ts';
+import {
+  type ISwapAggregator,
+  isSplitQuote,
+  isSplitSwapResponse,
+} from '../swap/ISwapAggregator.ts';
 import type { BeefyState } from '../../../../../redux-types.ts';
 import { getTokenAddress } from '../helpers/zap.ts';
-import type { ZapStepRequest, ZapStepResponse } from './types.ts';
+import type { ZapStep, ZapStepRequest, ZapStepResponse } from './types.ts';
 import { first } from 'lodash-es';
 import { isTokenNative } from '../../../entities/token.ts';
-import type { QuoteResponse } from '../swap/ISwapProvider.ts';
+import type { QuoteResponse, SwapResponse } from '../swap/ISwapProvider.ts';
 import { QuoteChangedError } from '../strategies/error.ts';
+import type { StrategySwapConfig } from '../strategies/strategy-configs.ts';
 
 export type ZapAggregatorSwapRequest = ZapStepRequest & {
   providerId: string;
@@ -14,6 +19,14 @@ export type ZapAggregatorSwapRequest = ZapStepRequest & {
 
 export type ZapAggregatorSwapResponse = ZapStepResponse;
 
+/**
+ * Swap options for quotes of zap swaps that will use the whole balance of their input token,
+ * as each leg of a split swap is built for its quoted amount
+ */
+export function withoutSplitSwaps(options: StrategySwapConfig | undefined): StrategySwapConfig {
+  return { ...options, disableSplit: true };
+}
+
 export async function fetchZapAggregatorSwap(
   request: ZapAggregatorSwapRequest,
   swapAggregator: ISwapAggregator,
@@ -25,9 +38,13 @@ export async function fetchZapAggregatorSwap(
   }
 
   const output = first(outputs)!; // we checked length above
+  if (insertBalance && isSplitQuote(quote)) {
+    // quotes for these swaps are fetched with withoutSplitSwaps
+    throw new Error(`Split swap quotes can not use the whole balance of ${quote.fromToken.symbol}`);
+  }
 
   const swap = await swapAggregator.fetchSwap(
-    request.providerId,
+    providerId,
     {
       fromAddress: zapRouter,
       slippage: maxSlippage,
@@ -55,27 +72,31 @@ export async function fetchZapAggregatorSwap(
   };
 
   const isFromNative = isTokenNative(swap.fromToken);
+  // split swaps use the quoted amount for each leg; only built when insertBalance is not set
+  const parts = isSplitSwapResponse(swap) ? swap.parts : [swap];
 
   return {
     inputs: inputs,
     outputs: [swapOutput],
     minOutputs: [swapOutputMin],
     returned: [],
-    zaps: [
-      {
-        target: swap.tx.toAddress,
-        data: swap.tx.data,
-        value: swap.tx.value,
-        tokens:
-          isFromNative && !insertBalance
-            ? []
-            : [
-                {
-                  token: getTokenAddress(swap.fromToken),
-                  index: insertBalance && !isFromNative ? swap.tx.inputPosition : -1, // use all balance : set allowance only
-                },
-              ],
-      },
-    ],
+    zaps: parts.map(part => swapToZapStep(part, isFromNative, insertBalance)),
+  };
+}
+
+function swapToZapStep(swap: SwapResponse, isFromNative: boolean, insertBalance: boolean): ZapStep {
+  return {
+    target: swap.tx.toAddress,
+    data: swap.tx.data,
+    value: swap.tx.value,
+    tokens:
+      isFromNative && !insertBalance ?
+        []
+      : [
+          {
+            token: getTokenAddress(swap.fromToken),
+            index: insertBalance && !isFromNative ? swap.tx.inputPosition : -1, // use all balance : set allowance only
+          },
+        ],
   };
 }
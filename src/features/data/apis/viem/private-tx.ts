@@ -0,0 +1,65 @@
+import {
+  type Address,
+  type Chain,
+  createPublicClient,
+  type Hash,
+  type Hex,
+  http,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  UnsupportedProviderMethodError,
+  type WalletClient,
+} from 'viem';
+import type { GasPricing } from '../gas-prices/gas-prices.ts';
+import { FriendlyError } from '../../utils/error-utils.ts';
+import i18n from 'i18next';
+
+export type PrivateTransactionRequest = {
+  account: Address;
+  chain: Chain;
+  to: Address;
+  data: Hex;
+  value?: bigint;
+} & GasPricing;
+
+function isUnsupportedMethodError(err: unknown): boolean {
+  if (
+    err instanceof MethodNotFoundRpcError ||
+    err instanceof MethodNotSupportedRpcError ||
+    err instanceof UnsupportedProviderMethodError
+  ) {
+    return true;
+  }
+  return !!err && typeof err === 'object' && 'cause' in err && isUnsupportedMethodError(err.cause);
+}
+
+/**
+ * Has the wallet sign (but not send) the tx, then sends it to the private relay only
+ * so it never reaches the public mempool
+ */
+export async function sendPrivateTransaction(
+  walletClient: WalletClient,
+  relayUrl: string,
+  request: PrivateTransactionRequest
+): Promise<Hash> {
+  const prepared = await walletClient.prepareTransactionRequest(request);
+
+  let serializedTransaction: Hex;
+  try {
+    serializedTransaction = await walletClient.signTransaction({
+      ...prepared,
+      account: request.account,
+    });
+  } catch (err: unknown) {
+    if (isUnsupportedMethodError(err)) {
+      throw new FriendlyError(i18n.t('UserSettings-PrivateSubmission-Error'), err as Error);
+    }
+    throw err;
+  }
+
+  const relayClient = createPublicClient({
+    chain: request.chain,
+    transport: http(relayUrl, { timeout: 10000, retryCount: 0 }),
+  });
+  return await relayClient.sendRawTransaction({ serializedTransaction });
+}
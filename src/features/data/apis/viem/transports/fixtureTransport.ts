@@ -0,0 +1,205 @@
+import { createTransport, RpcRequestError, type Transport, type TransportConfig } from 'viem';
+
+export type RpcFixtureMode = 'record' | 'replay';
+
+export type RpcFixtureEntry =
+  | {
+      result: unknown;
+    }
+  | {
+      error: {
+        code: number;
+        message: string;
+        data?: unknown;
+      };
+    };
+
+export type RpcFixtureFile = {
+  version: 1;
+  entries: Record<string, RpcFixtureEntry>;
+};
+
+export class RpcFixtureMissingError extends Error {
+  constructor(public readonly key: string) {
+    super(`No recorded RPC fixture for ${key}`);
+    this.name = 'RpcFixtureMissingError';
+  }
+}
+
+/**
+ * In-memory map of RPC responses, keyed by {@link makeRpcFixtureKey}
+ */
+export class RpcFixtureStore {
+  protected entries: Map<string, RpcFixtureEntry>;
+
+  constructor(file?: RpcFixtureFile) {
+    if (file && file.version !== 1) {
+      throw new Error(`Unsupported RPC fixture file version ${String(file.version)}`);
+    }
+    this.entries = new Map(file ? Object.entries(file.entries) : []);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): RpcFixtureEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  /** entry to replay for a request; subclasses may answer requests that were never recorded */
+  lookup(
+    chainId: number | undefined,
+    method: string,
+    params: unknown
+  ): RpcFixtureEntry | undefined {
+    return this.get(makeRpcFixtureKey(chainId, method, params));
+  }
+
+  set(key: string, entry: RpcFixtureEntry) {
+    this.entries.set(key, entry);
+  }
+
+  /** keys are sorted so re-recording the same calls produces a stable diff */
+  toJSON(): RpcFixtureFile {
+    const keys = Array.from(this.entries.keys()).sort();
+    return {
+      version: 1,
+      entries: Object.fromEntries(keys.map(key => [key, this.entries.get(key)!])),
+    };
+  }
+}
+
+type CallParams = {
+  from?: string;
+  to?: string;
+  data?: string;
+  input?: string;
+};
+
+function stringifyParam(param: unknown): string {
+  return typeof param === 'string' ? param.toLowerCase() : JSON.stringify(param);
+}
+
+/**
+ * eth_call (incl. multicall) is keyed by chain, block, target and calldata;
+ * any other method by its full params.
+ */
+export function makeRpcFixtureKey(
+  chainId: number | undefined,
+  method: string,
+  params: unknown
+): string {
+  if (method === 'eth_call' && Array.isArray(params) && params.length > 0) {
+    const [call, block = 'latest', overrides] = params as [CallParams, unknown?, unknown?];
+    const parts = [
+      chainId,
+      method,
+      stringifyParam(block),
+      call.from ? stringifyParam(call.from) : '',
+      stringifyParam(call.to || ''),
+      stringifyParam(call.data || call.input || '0x'),
+    ];
+    if (overrides) {
+      parts.push(JSON.stringify(overrides));
+    }
+    return parts.join(':');
+  }
+
+  return [chainId, method, JSON.stringify(params ?? [])].join(':');
+}
+
+function toFixtureError(err: unknown): RpcFixtureEntry | undefined {
+  // Only record errors returned by the node (e.g. reverts), not network/timeout errors
+  if (err && typeof err === 'object' && 'code' in err && typeof err.code === 'number') {
+    const data =
+      'data' in err ? err.data
+      : 'cause' in err && err.cause && typeof err.cause === 'object' && 'data' in err.cause ?
+        err.cause.data
+      : undefined;
+    const message =
+      'details' in err && typeof err.details === 'string' ? err.details
+      : 'message' in err && typeof err.message === 'string' ? err.message
+      : 'Unknown error';
+    return { error: { code: err.code, message, data } };
+  }
+  return undefined;
+}
+
+export type FixtureTransportConfig = {
+  /** The key of the Fixture transport. */
+  key?: TransportConfig['key'];
+  /** The name of the Fixture transport. */
+  name?: TransportConfig['name'];
+  /** record: pass requests to `transport` and store responses; replay: serve only from store */
+  mode: RpcFixtureMode;
+  /** Where fixtures are read from/written to; may still be loading */
+  store: RpcFixtureStore | Promise<RpcFixtureStore>;
+  /** Live transport, required when recording */
+  transport?: Transport;
+};
+
+export type FixtureTransport = Transport<
+  'fixture',
+  {
+    mode: RpcFixtureMode;
+    store: RpcFixtureStore | Promise<RpcFixtureStore>;
+  }
+>;
+
+export function fixture(config: FixtureTransportConfig): FixtureTransport {
+  const { key = 'fixture', name = 'Fixture', mode, store, transport } = config;
+  if (mode === 'record' && !transport) {
+    throw new Error('A live transport is required to record RPC fixtures');
+  }
+
+  return ({ chain, retryCount, timeout }) => {
+    const live = mode === 'record' ? transport!({ chain, retryCount, timeout }) : undefined;
+
+    return createTransport(
+      {
+        key,
+        name,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        async request({ method, params }): Promise<any> {
+          const fixtureStore = await store;
+          const fixtureKey = makeRpcFixtureKey(chain?.id, method, params);
+
+          if (live) {
+            try {
+              const result: unknown = await live.request({ method, params });
+              fixtureStore.set(fixtureKey, { result });
+              return result;
+            } catch (err) {
+              const entry = toFixtureError(err);
+              if (entry) {
+                fixtureStore.set(fixtureKey, entry);
+              }
+              throw err;
+            }
+          }
+
+          const entry = fixtureStore.lookup(chain?.id, method, params);
+          if (!entry) {
+            throw new RpcFixtureMissingError(fixtureKey);
+          }
+          if ('error' in entry) {
+            throw new RpcRequestError({
+              body: { method, params },
+              error: entry.error,
+              url: 'fixture',
+            });
+          }
+          return entry.result;
+        },
+        // live transport handles its own retries; replay is deterministic
+        retryCount: 0,
+        type: 'fixture',
+      },
+      {
+        mode,
+        store,
+      }
+    );
+  };
+}
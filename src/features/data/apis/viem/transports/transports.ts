@@ -1,5 +1,6 @@
 import { http } from 'viem';
 import { customFallback, type CustomFallbackTransport } from './fallbackTransport.ts';
+import { fixture, type FixtureTransport, type FixtureTransportConfig } from './fixtureTransport.ts';
 
 export function makeCustomFallbackTransport(
   rpcUrls: string[],
@@ -20,3 +21,15 @@ export function makeCustomFallbackTransport(
     retryCount: retries,
   });
 }
+
+export function makeFixtureTransport(
+  rpcUrls: string[],
+  retries: number,
+  fixtures: Pick<FixtureTransportConfig, 'mode' | 'store'>
+): FixtureTransport {
+  return fixture({
+    ...fixtures,
+    transport:
+      fixtures.mode === 'record' ? makeCustomFallbackTransport(rpcUrls, retries) : undefined,
+  });
+}
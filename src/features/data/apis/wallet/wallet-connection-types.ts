@@ -18,4 +18,5 @@ export interface IWalletConnectionApi {
   askUserForChainChange(chainId: ChainEntity['id']): Promise<void>;
   disconnect(): Promise<void>;
   getConnectedViemClient(): Promise<WalletClient>;
+  canSignTransactions(): boolean;
 }
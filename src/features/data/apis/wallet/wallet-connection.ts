@@ -462,6 +462,23 @@ export class WalletConnectionApi implements IWalletConnectionApi {
     });
   }
 
+  /**
+   * Whether the connected wallet can sign a tx without sending it, as needed for private submission
+   * Only WalletConnect sessions list the methods a wallet supports, injected wallets like MetaMask reject it
+   */
+  public canSignTransactions(): boolean {
+    if (!this.isConnected()) {
+      return false;
+    }
+
+    const wallet = this.getOnboard().state.get().wallets[0];
+    const session = wallet.instance as
+      | { namespaces?: Record<string, { methods?: string[] } | undefined> }
+      | null
+      | undefined;
+    return !!session?.namespaces?.eip155?.methods?.includes('eth_signTransaction');
+  }
+
   public async withProviderWrapper<T>(
     wrapFn: (provider: EIP1193Provider) => EIP1193Provider,
     callback: () => Promise<T>
@@ -0,0 +1,58 @@
+/** 0x API v1 (swap/v1) compatible request, also served by self-hosted 0x-api instances */
+export type PriceRequest = {
+  sellToken: string;
+  buyToken: string;
+  sellAmount: string;
+  takerAddress?: string;
+  slippagePercentage?: number;
+  excludedSources?: string;
+  includedSources?: string;
+};
+
+export type QuoteRequest = PriceRequest & {
+  takerAddress: string;
+  /** the zap router holds the tokens at execution, so 0x can not validate against the taker balance */
+  skipValidation?: boolean;
+};
+
+export type Source = {
+  name: string;
+  proportion: string;
+};
+
+export type PriceResponse = {
+  chainId: number;
+  price: string;
+  estimatedPriceImpact?: string | null;
+  value: string;
+  gasPrice: string;
+  gas: string;
+  estimatedGas: string;
+  buyTokenAddress: string;
+  buyAmount: string;
+  sellTokenAddress: string;
+  sellAmount: string;
+  sources: Source[];
+  allowanceTarget: string;
+};
+
+export type QuoteResponse = PriceResponse & {
+  guaranteedPrice: string;
+  to: string;
+  data: string;
+};
+
+export type ErrorResponse = {
+  code: number;
+  reason: string;
+  validationErrors?: Array<{
+    field: string;
+    code: number;
+    reason: string;
+  }>;
+};
+
+export interface IZeroExApi {
+  getPrice(request: PriceRequest): Promise<PriceResponse>;
+  getQuote(request: QuoteRequest): Promise<QuoteResponse>;
+}
@@ -0,0 +1,74 @@
+import type { ChainEntity } from '../../entities/chain.ts';
+import type {
+  ErrorResponse,
+  IZeroExApi,
+  PriceRequest,
+  PriceResponse,
+  QuoteRequest,
+  QuoteResponse,
+} from './zero-ex-types.ts';
+import { getJson } from '../../../../helpers/http/http.ts';
+import { isFetchResponseError } from '../../../../helpers/http/errors.ts';
+
+export type ZeroExApiOptions = {
+  apiUrl: string;
+  apiKey?: string;
+};
+
+async function getErrorMessageFromResponse(res: Response): Promise<string | undefined> {
+  try {
+    if (res.headers.get('Content-Type')?.includes('application/json')) {
+      const json = (await res.json()) as Partial<ErrorResponse>;
+      if (json.reason) {
+        const details = json.validationErrors?.map(e => `${e.field}: ${e.reason}`).join(', ');
+        return details ? `${json.reason} (${details})` : json.reason;
+      }
+    }
+  } catch {
+    /* ignore */
+  }
+
+  return undefined;
+}
+
+export class ZeroExApi implements IZeroExApi {
+  protected api: string;
+  protected headers: Record<string, string>;
+
+  constructor(
+    protected chain: ChainEntity,
+    options: ZeroExApiOptions
+  ) {
+    this.api = options.apiUrl.replace(/\/+$/, '');
+    this.headers = options.apiKey ? { '0x-api-key': options.apiKey } : {};
+  }
+
+  protected async get<
+    ResponseType extends object,
+    RequestType extends Record<string, string | number | boolean | undefined>,
+  >(url: string, request: RequestType): Promise<ResponseType> {
+    try {
+      return await getJson<ResponseType>({
+        url: `${this.api}${url}`,
+        params: request,
+        headers: this.headers,
+      });
+    } catch (error: unknown) {
+      if (isFetchResponseError(error)) {
+        const message = await getErrorMessageFromResponse(error.response);
+        if (message) {
+          throw new Error(message);
+        }
+      }
+      throw error;
+    }
+  }
+
+  async getPrice(request: PriceRequest): Promise<PriceResponse> {
+    return await this.get<PriceResponse, PriceRequest>('/swap/v1/price', request);
+  }
+
+  async getQuote(request: QuoteRequest): Promise<QuoteResponse> {
+    return await this.get<QuoteResponse, QuoteRequest>('/swap/v1/quote', request);
+  }
+}
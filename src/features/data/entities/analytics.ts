@@ -30,9 +30,17 @@ export type UnprocessedTimelineEntryStandard = Prettify<
   }
 >;
 
+export type TimelineUnderlyingBreakdown = {
+  token: string;
+  underlyingToToken: BigNumber;
+  tokenToUsd: BigNumber;
+};
+
 export type TimelineEntryStandard = UnprocessedTimelineEntryStandard & {
   vaultId: string;
   timeline: 'current' | 'past';
+  /** token amounts per underlying at the time of the transaction, when the api provides them */
+  underlyingBreakdown?: TimelineUnderlyingBreakdown[];
   source?: {
     productKey: string;
     vaultId: string;
@@ -164,11 +172,7 @@ type UnprocessedTimelineEntryCowcentratedVaultBasePart = {
   underlyingToUsdPrice: BigNumber;
   usdBalance: BigNumber;
   usdDiff: BigNumber;
-  underlyingBreakdown: Array<{
-    token: string;
-    underlyingToToken: BigNumber;
-    tokenToUsd: BigNumber;
-  }>;
+  underlyingBreakdown: TimelineUnderlyingBreakdown[];
   actions: TimelineActionClassic[];
 };
 
@@ -13,4 +13,5 @@ export interface PlatformEntity {
   website: string;
   documentation: string;
   type?: PlatformConfig['type'];
+  vaultYieldSource?: PlatformConfig['vaultYieldSource'];
 }
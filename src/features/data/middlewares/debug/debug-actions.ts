@@ -0,0 +1,94 @@
+import BigNumber from 'bignumber.js';
+import { isObject, isString } from 'lodash-es';
+import type { AnyAction, ThunkDispatch } from '@reduxjs/toolkit';
+import type { BeefyState } from '../../../../redux-types.ts';
+import { fetchChainConfigs } from '../../actions/chains.ts';
+import { fetchAllVaults } from '../../actions/vaults.ts';
+import { mapValuesDeep } from '../../utils/array-utils.ts';
+import { sleep } from '../../utils/async-utils.ts';
+
+type DebugStore = {
+  dispatch: ThunkDispatch<BeefyState, unknown, AnyAction>;
+  getState: () => BeefyState;
+};
+
+/** Actions whose payload is too large to record, they are re-fetched on replay instead */
+const REFETCHED_ACTION_PREFIXES = [
+  'vaults/fetchAllVaults/',
+  'boosts/fetchAllBoosts/',
+  'chains/fetchChainConfigs/',
+];
+
+/**
+ * Converts an action to something JSON.stringify can handle, and that reviveDebugAction can restore
+ */
+export function serializeDebugAction(action: AnyAction): AnyAction {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let smallAction: any = action;
+  // empty some actions to make the export less heavy
+  if (REFETCHED_ACTION_PREFIXES.some(prefix => action.type.startsWith(prefix))) {
+    smallAction = { ...smallAction, payload: '__PAYLOAD__' };
+  }
+
+  // remove previous state from action payload
+  if (smallAction.payload && isObject(smallAction.payload) && 'state' in smallAction.payload) {
+    smallAction = { ...smallAction, payload: { ...smallAction.payload, state: '__STATE__' } };
+  }
+
+  // map non-serializable objects
+  return mapValuesDeep(smallAction, val => {
+    if (val instanceof BigNumber) {
+      return '__BIG_NUM__' + val.toString(10);
+    } else if (val instanceof Date) {
+      return '__DATE__' + val.toUTCString();
+    } else {
+      return val;
+    }
+  }) as AnyAction;
+}
+
+/**
+ * Recreates object instances replaced by serializeDebugAction
+ */
+export function reviveDebugAction(action: AnyAction, state: BeefyState): AnyAction {
+  if (action.payload && 'state' in action.payload && action.payload.state === '__STATE__') {
+    action = { ...action, payload: { ...action.payload, state } };
+  }
+  return mapValuesDeep(action, val => {
+    if (!isString(val)) {
+      return val;
+    }
+    if (val.startsWith('__BIG_NUM__')) {
+      return new BigNumber(val.replace('__BIG_NUM__', ''));
+    } else if (val.startsWith('__DATE__')) {
+      return new Date(val.replace('__DATE__', ''));
+    }
+    return val;
+  }) as AnyAction;
+}
+
+/**
+ * Replays an exported action log into the given store
+ */
+export async function replayDebugActions(
+  store: DebugStore,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  actionsList: any[],
+  delayMs: number
+) {
+  for (const action of actionsList) {
+    // replay removed actions from log
+    if (action.type.startsWith('vaults/fetchAllVaults/')) {
+      await store.dispatch(fetchAllVaults());
+    } /*else if (action.type.startsWith('boosts/fetchAllBoosts/')) {
+      await store.dispatch(fetchAllBoosts());
+    } */ else if (action.type.startsWith('chains/fetchChainConfigs/')) {
+      await store.dispatch(fetchChainConfigs());
+    } else {
+      store.dispatch(reviveDebugAction(action, store.getState()));
+    }
+    if (delayMs > 0) {
+      await sleep(delayMs);
+    }
+  }
+}
@@ -1,9 +1,8 @@
-import BigNumber from 'bignumber.js';
-import { isObject } from 'lodash-es';
-import type { Action, AnyAction, Dispatch } from 'redux';
+import type { Action, Dispatch } from 'redux';
 import type { ChainEntity } from '../../entities/chain.ts';
-import { mapValuesDeep } from '../../utils/array-utils.ts';
 import { featureFlag_recordReduxActions } from '../../utils/feature-flags.ts';
+import { downloadObjectAsJsonFile } from '../../../../helpers/download.ts';
+import { serializeDebugAction } from './debug-actions.ts';
 
 declare const window: {
   __export_action_log?: typeof exportActionLog;
@@ -52,57 +51,9 @@ export function debugRecorderMiddleware() {
       };
     }) => {
       if (featureFlag_recordReduxActions()) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let smallAction: any = action;
-        // empty some actions to make the export less heavy
-        if (
-          action.type.startsWith('vaults/fetchAllVaults/') ||
-          action.type.startsWith('boosts/fetchAllBoosts/') ||
-          action.type.startsWith('chains/fetchChainConfigs/')
-        ) {
-          smallAction = { ...smallAction, payload: '__PAYLOAD__' };
-        }
-
-        // remove previous state from action payload
-        if (
-          smallAction.payload &&
-          isObject(smallAction.payload) &&
-          'state' in smallAction.payload
-        ) {
-          smallAction = { ...smallAction, payload: { ...smallAction.payload, state: '__STATE__' } };
-        }
-
-        // map non-serializable objects
-        const serializableAction = mapValuesDeep(smallAction, val => {
-          if (val instanceof BigNumber) {
-            return '__BIG_NUM__' + val.toString(10);
-          } else if (val instanceof Date) {
-            return '__DATE__' + val.toUTCString();
-          } else {
-            return val;
-          }
-        }) as AnyAction;
+        const serializableAction = serializeDebugAction(action);
         actionLog.push(serializableAction);
       }
       return next(action);
     };
 }
-
-// https://stackoverflow.com/a/45831280/2523414
-function downloadObjectAsJsonFile(
-  obj: object,
-  filename: string = 'download.json',
-  pretty: boolean = true
-) {
-  const str = pretty ? JSON.stringify(obj, null, 2) : JSON.stringify(obj);
-  const blob = new Blob([str], { type: 'application/json' });
-
-  const e = document.createEvent('MouseEvents');
-  const a = document.createElement('a');
-  a.download = filename;
-  a.href = window.URL.createObjectURL(blob);
-  a.dataset.downloadurl = ['text/plain', a.download, a.href].join(':');
-  // @ts-ignore
-  e.initEvent('click', true, false, window, 0, 0, 0, 0, 0, false, false, false, false, 0, null);
-  a.dispatchEvent(e);
-}
@@ -14,6 +14,7 @@ import { fetchAllContractDataByChainAction } from '../actions/contract-data.ts';
 import { calculateZapAvailabilityAction } from '../actions/zap.ts';
 import { recalculateFilteredVaultsAction } from '../actions/filtered-vaults.ts';
 import { filteredVaultsActions } from '../reducers/filtered-vaults.ts';
+import { savedVaultsActions } from '../reducers/saved-vaults.ts';
 import type { RehydrateAction } from 'redux-persist/es/types';
 import { REHYDRATE } from 'redux-persist/es/constants';
 import { fetchChainConfigs } from '../actions/chains.ts';
@@ -60,10 +61,13 @@ const hasFiltersChanged = isAnyOf(
   filteredVaultsActions.setStrategyType,
   filteredVaultsActions.setAssetType,
   filteredVaultsActions.setSearchText,
+  filteredVaultsActions.setSearchMode,
+  filteredVaultsActions.setUrlFilters,
   filteredVaultsActions.setChainIds,
   filteredVaultsActions.setPlatformIds,
   filteredVaultsActions.setBoolean,
   filteredVaultsActions.setBigNumber,
+  savedVaultsActions.removeList,
   isRehydrateFiltersAction
 );
 
@@ -0,0 +1,121 @@
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, nanoid } from '@reduxjs/toolkit';
+import type { VaultEntity } from '../entities/vault.ts';
+
+export type AlertRuleCondition =
+  | { type: 'vault-status' }
+  | { type: 'clm-out-of-range' }
+  /** threshold is a fraction, e.g. 0.05 for 5% */
+  | { type: 'apy-below'; threshold: number }
+  | { type: 'boost-ended' }
+  | { type: 'rewards-above'; thresholdUsd: number };
+
+export type AlertRuleType = AlertRuleCondition['type'];
+
+export type AlertRule = AlertRuleCondition & {
+  id: string;
+  vaultId: VaultEntity['id'];
+  createdAt: number;
+};
+
+export type AlertNotification = {
+  id: string;
+  ruleId: AlertRule['id'];
+  vaultId: VaultEntity['id'];
+  createdAt: number;
+  /** i18n key and params of the message, so it is shown in the current language */
+  messageKey: string;
+  messageParams: Record<string, string>;
+  read: boolean;
+};
+
+export type AlertRuleEvaluation = {
+  ruleId: AlertRule['id'];
+  active: boolean;
+  /** only set when the rule became active this evaluation */
+  notification?: Pick<AlertNotification, 'messageKey' | 'messageParams'>;
+};
+
+export type AlertsState = {
+  rules: AlertRule[];
+  /**
+   * Whether each rule's condition was met on the last evaluation;
+   * rules only notify when this changes from false to true
+   */
+  activeByRuleId: Record<AlertRule['id'], boolean>;
+  /** newest first */
+  notifications: AlertNotification[];
+  browserNotifications: boolean;
+};
+
+/** oldest notifications are dropped past this */
+const MAX_NOTIFICATIONS = 50;
+
+const initialAlertsState: AlertsState = {
+  rules: [],
+  activeByRuleId: {},
+  notifications: [],
+  browserNotifications: false,
+};
+
+export const alertsSlice = createSlice({
+  name: 'alerts',
+  initialState: initialAlertsState,
+  reducers: {
+    addRule: {
+      reducer(sliceState, action: PayloadAction<AlertRule>) {
+        sliceState.rules.push(action.payload);
+      },
+      prepare(rule: AlertRuleCondition & { vaultId: VaultEntity['id'] }) {
+        return { payload: { ...rule, id: nanoid(), createdAt: Date.now() } };
+      },
+    },
+    /** sets the threshold of apy-below (fraction) or rewards-above (usd) rules */
+    setRuleThreshold(
+      sliceState,
+      action: PayloadAction<{ id: AlertRule['id']; threshold: number }>
+    ) {
+      const rule = sliceState.rules.find(r => r.id === action.payload.id);
+      if (rule?.type === 'apy-below') {
+        rule.threshold = action.payload.threshold;
+      } else if (rule?.type === 'rewards-above') {
+        rule.thresholdUsd = action.payload.threshold;
+      }
+    },
+    removeRule(sliceState, action: PayloadAction<AlertRule['id']>) {
+      sliceState.rules = sliceState.rules.filter(r => r.id !== action.payload);
+      delete sliceState.activeByRuleId[action.payload];
+    },
+    rulesEvaluated(sliceState, action: PayloadAction<AlertRuleEvaluation[]>) {
+      const now = Date.now();
+      for (const { ruleId, active, notification } of action.payload) {
+        sliceState.activeByRuleId[ruleId] = active;
+        const rule = sliceState.rules.find(r => r.id === ruleId);
+        if (rule && notification) {
+          sliceState.notifications.unshift({
+            ...notification,
+            id: nanoid(),
+            ruleId,
+            vaultId: rule.vaultId,
+            createdAt: now,
+            read: false,
+          });
+        }
+      }
+      sliceState.notifications = sliceState.notifications.slice(0, MAX_NOTIFICATIONS);
+    },
+    markAllRead(sliceState) {
+      for (const notification of sliceState.notifications) {
+        notification.read = true;
+      }
+    },
+    clearNotifications(sliceState) {
+      sliceState.notifications = [];
+    },
+    setBrowserNotifications(sliceState, action: PayloadAction<boolean>) {
+      sliceState.browserNotifications = action.payload;
+    },
+  },
+});
+
+export const alertsActions = alertsSlice.actions;
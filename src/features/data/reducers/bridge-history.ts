@@ -0,0 +1,100 @@
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { createSlice } from '@reduxjs/toolkit';
+import type { ChainEntity } from '../entities/chain.ts';
+import type { BeefyAnyBridgeConfig } from '../apis/config-types.ts';
+
+/**
+ * sent: source tx submitted, not mined yet
+ * in-flight: source tx mined, message not delivered yet
+ * delivered: provider reported the message delivered, or the receiver's balance went up on the destination chain
+ * failed: source tx reverted, or provider reported the message failed
+ * stuck: in-flight for much longer than the time estimate
+ */
+export type BridgeTransferStatus = 'sent' | 'in-flight' | 'delivered' | 'failed' | 'stuck';
+
+export type BridgeTransfer = {
+  /** source chain tx hash */
+  id: string;
+  bridgeId: BeefyAnyBridgeConfig['id'];
+  fromChainId: ChainEntity['id'];
+  toChainId: ChainEntity['id'];
+  walletAddress: string;
+  receiverAddress: string;
+  /** token received on the destination chain */
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  /** decimal string, BigNumber is not serializable */
+  amount: string;
+  status: BridgeTransferStatus;
+  /** source tx was mined successfully; stuck transfers may or may not have been */
+  sourceMined: boolean;
+  /** provider explorer url for the transfer */
+  explorerUrl: string | undefined;
+  destinationHash: string | undefined;
+  /** receiver balance of token when the transfer was sent, used to confirm delivery */
+  balanceBefore: string | undefined;
+  balanceConfirmed: boolean;
+  /** provider has no message status lookup for this route, so delivery is only confirmed by balance */
+  untracked?: boolean;
+  createdAt: number;
+  updatedAt: number;
+  /** when the transfer should be delivered by, from the quote time estimate */
+  expectedAt: number;
+};
+
+export type BridgeTransferUpdate = Pick<BridgeTransfer, 'id'> &
+  Partial<
+    Pick<
+      BridgeTransfer,
+      'status' | 'sourceMined' | 'destinationHash' | 'balanceConfirmed' | 'untracked'
+    >
+  >;
+
+export type BridgeHistoryState = {
+  /** newest first */
+  transfers: BridgeTransfer[];
+};
+
+/** oldest transfers are dropped past this */
+const MAX_TRANSFERS = 50;
+
+const initialBridgeHistoryState: BridgeHistoryState = {
+  transfers: [],
+};
+
+export const bridgeHistorySlice = createSlice({
+  name: 'bridge-history',
+  initialState: initialBridgeHistoryState,
+  reducers: {
+    transferSent(sliceState, action: PayloadAction<BridgeTransfer>) {
+      sliceState.transfers = [
+        action.payload,
+        ...sliceState.transfers.filter(t => t.id !== action.payload.id),
+      ].slice(0, MAX_TRANSFERS);
+    },
+    transfersUpdated(sliceState, action: PayloadAction<BridgeTransferUpdate[]>) {
+      const now = Date.now();
+      for (const { id, ...update } of action.payload) {
+        const transfer = sliceState.transfers.find(t => t.id === id);
+        if (transfer) {
+          Object.assign(transfer, update);
+          transfer.updatedAt = now;
+        }
+      }
+    },
+    removeTransfer(sliceState, action: PayloadAction<BridgeTransfer['id']>) {
+      sliceState.transfers = sliceState.transfers.filter(t => t.id !== action.payload);
+    },
+    /** removes delivered and failed transfers */
+    clearCompleted(sliceState) {
+      sliceState.transfers = sliceState.transfers.filter(
+        t => t.status !== 'delivered' && t.status !== 'failed'
+      );
+    },
+  },
+});
+
+export const bridgeHistoryActions = bridgeHistorySlice.actions;
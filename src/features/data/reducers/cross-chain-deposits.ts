@@ -0,0 +1,72 @@
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { createSlice } from '@reduxjs/toolkit';
+import type { ChainEntity } from '../entities/chain.ts';
+import type { VaultEntity } from '../entities/vault.ts';
+
+/**
+ * A deposit from another chain, recorded when its bridge tx is sent
+ * so the deposit on the vault chain can be resumed after a reload
+ */
+export type CrossChainDeposit = {
+  id: string;
+  vaultId: VaultEntity['id'];
+  walletAddress: string;
+  fromChainId: ChainEntity['id'];
+  toChainId: ChainEntity['id'];
+  /** bridged token on the vault chain */
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  /** decimal string, BigNumber is not serializable */
+  amount: string;
+  /** wallet balance of token on the vault chain once the bridged amount has arrived */
+  minBalance: string;
+  /** vault chain deposit option, options are fetched again when resuming */
+  destinationOptionId: string;
+  /** outputs of the vault chain deposit quote that was confirmed, as decimal strings */
+  destinationOutputs: {
+    address: string;
+    amount: string;
+  }[];
+  /** bridged amount reached the wallet; once it leaves again the deposit is done */
+  arrived: boolean;
+  createdAt: number;
+  /** when the bridged amount should arrive by, from the quote time estimate */
+  expectedAt: number;
+};
+
+export type CrossChainDepositsState = {
+  /** newest first */
+  deposits: CrossChainDeposit[];
+};
+
+const initialCrossChainDepositsState: CrossChainDepositsState = {
+  deposits: [],
+};
+
+export const crossChainDepositsSlice = createSlice({
+  name: 'cross-chain-deposits',
+  initialState: initialCrossChainDepositsState,
+  reducers: {
+    depositStarted(sliceState, action: PayloadAction<CrossChainDeposit>) {
+      sliceState.deposits = [
+        action.payload,
+        ...sliceState.deposits.filter(d => d.id !== action.payload.id),
+      ];
+    },
+    depositArrived(sliceState, action: PayloadAction<CrossChainDeposit['id'][]>) {
+      for (const deposit of sliceState.deposits) {
+        if (action.payload.includes(deposit.id)) {
+          deposit.arrived = true;
+        }
+      }
+    },
+    removeDeposits(sliceState, action: PayloadAction<CrossChainDeposit['id'][]>) {
+      sliceState.deposits = sliceState.deposits.filter(d => !action.payload.includes(d.id));
+    },
+  },
+});
+
+export const crossChainDepositsActions = crossChainDepositsSlice.actions;
@@ -2,6 +2,7 @@ export type SortType =
   | 'tvl'
   | 'apy'
   | 'daily'
+  | 'realYield'
   | 'safetyScore'
   | 'default'
   | 'depositValue'
@@ -15,8 +16,26 @@ export type VaultAssetType = 'lps' | 'single' | 'clm';
 
 export type StrategiesType = 'all' | 'pools' | 'vaults';
 
-export type UserCategoryType = 'all' | 'saved' | 'deposited';
+/** whether the search text is matched against vault names/tokens or parsed as a query */
+export type SearchModeType = 'text' | 'query';
+
+/** vaults in one of the user's named saved lists */
+export type SavedListCategoryType = `saved-list:${string}`;
+
+export type UserCategoryType = 'all' | 'saved' | 'deposited' | SavedListCategoryType;
+
+export function isSavedListCategory(category: string): category is SavedListCategoryType {
+  return category.startsWith('saved-list:');
+}
+
+export function getSavedListCategory(listId: string): SavedListCategoryType {
+  return `saved-list:${listId}`;
+}
+
+export function getSavedListIdFromCategory(category: SavedListCategoryType): string {
+  return category.substring('saved-list:'.length);
+}
 
 export function isValidUserCategory(category: string): category is UserCategoryType {
-  return ['all', 'saved', 'deposited'].includes(category);
+  return ['all', 'saved', 'deposited'].includes(category) || isSavedListCategory(category);
 }
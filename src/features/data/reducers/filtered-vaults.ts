@@ -5,6 +5,7 @@ import type { PlatformEntity } from '../entities/platform.ts';
 import type { KeysOfType } from '../utils/types-utils.ts';
 import createTransform from 'redux-persist/es/createTransform';
 import type {
+  SearchModeType,
   SortDirectionType,
   SortType,
   StrategiesType,
@@ -12,12 +13,14 @@ import type {
   VaultAssetType,
   VaultCategoryType,
 } from './filtered-vaults-types.ts';
-import { isValidUserCategory } from './filtered-vaults-types.ts';
+import { getSavedListCategory, isValidUserCategory } from './filtered-vaults-types.ts';
 import type { VaultEntity } from '../entities/vault.ts';
 import { fetchAllVaults } from '../actions/vaults.ts';
 import { recalculateFilteredVaultsAction } from '../actions/filtered-vaults.ts';
 import BigNumber from 'bignumber.js';
 import { BIG_ZERO } from '../../../helpers/big-number.ts';
+import { savedVaultsActions } from './saved-vaults.ts';
+import type { UrlFilters } from '../utils/filter-url-utils.ts';
 
 /**
  * State containing Vault infos
@@ -36,6 +39,7 @@ export type FilteredVaultsState = {
   strategyType: StrategiesType;
   assetType: VaultAssetType[];
   searchText: string;
+  searchMode: SearchModeType;
   chainIds: ChainEntity['id'][];
   platformIds: PlatformEntity['id'][];
   onlyRetired: boolean;
@@ -43,6 +47,8 @@ export type FilteredVaultsState = {
   onlyBoosted: boolean;
   onlyZappable: boolean;
   onlyEarningPoints: boolean;
+  /** only vaults where most of the yield is fee-based, see REAL_YIELD_MIN_SHARE */
+  onlyRealYield: boolean;
   onlyUnstakedClm: boolean;
   filteredVaultIds: VaultEntity['id'][];
   sortedFilteredVaultIds: VaultEntity['id'][];
@@ -63,6 +69,7 @@ const initialFilteredVaultsState: FilteredVaultsState = {
   strategyType: 'all',
   assetType: [],
   searchText: '',
+  searchMode: 'text',
   chainIds: [],
   platformIds: [],
   onlyRetired: false,
@@ -70,6 +77,7 @@ const initialFilteredVaultsState: FilteredVaultsState = {
   onlyBoosted: false,
   onlyZappable: false,
   onlyEarningPoints: false,
+  onlyRealYield: false,
   onlyUnstakedClm: false,
   filteredVaultIds: [],
   sortedFilteredVaultIds: [],
@@ -129,6 +137,15 @@ export const filteredVaultsSlice = createSlice({
       sliceState.reseted = false;
       sliceState.searchText = action.payload;
     },
+    setSearchMode(sliceState, action: PayloadAction<FilteredVaultsState['searchMode']>) {
+      sliceState.reseted = false;
+      sliceState.searchMode = action.payload;
+    },
+    /** replaces the filters shared through the url, other filters are left as is */
+    setUrlFilters(sliceState, action: PayloadAction<UrlFilters>) {
+      sliceState.reseted = false;
+      Object.assign(sliceState, action.payload);
+    },
     setChainIds(sliceState, action: PayloadAction<FilteredVaultsState['chainIds']>) {
       sliceState.reseted = false;
       sliceState.chainIds = action.payload;
@@ -172,6 +189,11 @@ export const filteredVaultsSlice = createSlice({
       .addCase(recalculateFilteredVaultsAction.fulfilled, (state, action) => {
         state.filteredVaultIds = action.payload.filtered;
         state.sortedFilteredVaultIds = action.payload.sorted;
+      })
+      .addCase(savedVaultsActions.removeList, (state, action) => {
+        if (state.userCategory === getSavedListCategory(action.payload)) {
+          state.userCategory = 'all';
+        }
       });
   },
 });
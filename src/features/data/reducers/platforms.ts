@@ -67,6 +67,7 @@ function addPlatformToState(sliceState: Draft<PlatformsState>, platformConfig: P
       documentation: platformConfig.documentation || '',
       description: platformConfig.description || '',
       type: platformConfig.type || undefined,
+      vaultYieldSource: platformConfig.vaultYieldSource || undefined,
     };
     sliceState.byId[platform.id] = platform;
     sliceState.allIds.push(platform.id);
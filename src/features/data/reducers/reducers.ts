@@ -25,12 +25,19 @@ import { bridgeSlice } from './wallet/bridge.ts';
 import { onRamp } from './on-ramp.ts';
 import { feesSlice } from './fees.ts';
 import { transactReducer } from './wallet/transact.ts';
+import { basketSlice } from './wallet/basket.ts';
 import { stepperSlice } from './wallet/stepper.ts';
 import { treasurySlice } from './treasury.ts';
 import { analyticsSlice } from './analytics.ts';
 import { proposalsSlice } from './proposals.ts';
 import { historicalSlice } from './historical.ts';
 import { savedVaultsSlice } from './saved-vaults.ts';
+import { userSettingsSlice } from './user-settings.ts';
+import { watchlistSlice } from './watchlist.ts';
+import { alertsSlice } from './alerts.ts';
+import { webhooksSlice } from './webhooks.ts';
+import { bridgeHistorySlice } from './bridge-history.ts';
+import { crossChainDepositsSlice } from './cross-chain-deposits.ts';
 import { resolverReducer } from './wallet/resolver.ts';
 import { bridgesSlice } from './bridges.ts';
 import { migrationSlice } from './wallet/migration.ts';
@@ -93,8 +100,21 @@ const uiReducer = combineReducers({
   ),
   vaultsList: vaultsListReducer,
   transact: transactReducer,
+  basket: basketSlice.reducer,
   bridge: bridgeSlice.reducer,
+  bridgeHistory: persistReducer({ key: 'bridgeHistory', storage }, bridgeHistorySlice.reducer),
+  crossChainDeposits: persistReducer(
+    { key: 'crossChainDeposits', storage },
+    crossChainDepositsSlice.reducer
+  ),
   savedVaults: persistReducer({ key: 'savedVaults', storage }, savedVaultsSlice.reducer),
+  userSettings: persistReducer({ key: 'userSettings', storage }, userSettingsSlice.reducer),
+  watchlist: persistReducer({ key: 'watchlist', storage }, watchlistSlice.reducer),
+  alerts: persistReducer({ key: 'alerts', storage }, alertsSlice.reducer),
+  webhooks: persistReducer(
+    { key: 'webhooks', storage, blacklist: ['deliveries'] },
+    webhooksSlice.reducer
+  ),
   onRamp: onRamp.reducer,
   dataLoader: dataLoaderSlice.reducer,
   stepperState: stepperSlice.reducer,
@@ -1,14 +1,25 @@
 import type { PayloadAction } from '@reduxjs/toolkit';
-import { createSlice } from '@reduxjs/toolkit';
+import { createSlice, nanoid } from '@reduxjs/toolkit';
 
 import type { VaultEntity } from '../entities/vault.ts';
 
+export type SavedVaultList = {
+  id: string;
+  name: string;
+  vaultIds: VaultEntity['id'][];
+  createdAt: number;
+};
+
 export type SavedVaultsState = {
+  /** the default list, toggled by the save button */
   byVaultId: Record<VaultEntity['id'], boolean>;
+  /** named lists, in creation order */
+  lists: SavedVaultList[];
 };
 
 const initialSavedVaultsState: SavedVaultsState = {
   byVaultId: {},
+  lists: [],
 };
 
 export const savedVaultsSlice = createSlice({
@@ -25,6 +36,46 @@ export const savedVaultsSlice = createSlice({
         sliceState.byVaultId[vaultId] = true;
       }
     },
+    createList: {
+      reducer(sliceState, action: PayloadAction<SavedVaultList>) {
+        sliceState.lists.push(action.payload);
+      },
+      prepare({ name, vaultIds = [] }: { name: string; vaultIds?: VaultEntity['id'][] }) {
+        return {
+          payload: {
+            id: nanoid(),
+            name: name.trim(),
+            vaultIds: Array.from(new Set(vaultIds)),
+            createdAt: Date.now(),
+          },
+        };
+      },
+    },
+    renameList(sliceState, action: PayloadAction<{ id: SavedVaultList['id']; name: string }>) {
+      const list = sliceState.lists.find(l => l.id === action.payload.id);
+      const name = action.payload.name.trim();
+      if (list && name) {
+        list.name = name;
+      }
+    },
+    removeList(sliceState, action: PayloadAction<SavedVaultList['id']>) {
+      sliceState.lists = sliceState.lists.filter(l => l.id !== action.payload);
+    },
+    toggleListVault(
+      sliceState,
+      action: PayloadAction<{ id: SavedVaultList['id']; vaultId: VaultEntity['id'] }>
+    ) {
+      const { id, vaultId } = action.payload;
+      const list = sliceState.lists.find(l => l.id === id);
+      if (!list) {
+        return;
+      }
+      if (list.vaultIds.includes(vaultId)) {
+        list.vaultIds = list.vaultIds.filter(v => v !== vaultId);
+      } else {
+        list.vaultIds.push(vaultId);
+      }
+    },
   },
 });
 
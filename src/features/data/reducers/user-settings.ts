@@ -0,0 +1,23 @@
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { createSlice } from '@reduxjs/toolkit';
+
+export type UserSettingsState = {
+  /** send txs to the chain's private relay (if configured) instead of the public mempool */
+  privateSubmission: boolean;
+};
+
+const initialUserSettingsState: UserSettingsState = {
+  privateSubmission: false,
+};
+
+export const userSettingsSlice = createSlice({
+  name: 'user-settings',
+  initialState: initialUserSettingsState,
+  reducers: {
+    setPrivateSubmission(sliceState, action: PayloadAction<boolean>) {
+      sliceState.privateSubmission = action.payload;
+    },
+  },
+});
+
+export const userSettingsActions = userSettingsSlice.actions;
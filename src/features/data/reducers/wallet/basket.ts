@@ -0,0 +1,183 @@
+import type { PayloadAction, SerializedError as SerializedAnyError } from '@reduxjs/toolkit';
+import { createSlice, type Draft } from '@reduxjs/toolkit';
+import type { ChainEntity } from '../../entities/chain.ts';
+import type { VaultEntity } from '../../entities/vault.ts';
+import type { TransactOption, TransactQuote } from '../../apis/transact/transact-types.ts';
+import type { SerializedError } from '../../apis/transact/strategies/error-types.ts';
+import { TransactMode, TransactStatus } from './transact-types.ts';
+import { basketFetchOptions, basketFetchQuotes } from '../../actions/basket.ts';
+
+/** amount of the selected token (deposit) or deposit token (withdraw), or percent of the balance */
+export type BasketUnit = 'amount' | 'percent';
+
+export type BasketItem = {
+  vaultId: VaultEntity['id'];
+  /** as entered, in the basket unit */
+  value: string;
+};
+
+export type BasketOptions = {
+  status: TransactStatus;
+  requestId: string | undefined;
+  error: SerializedAnyError | undefined;
+  byVaultId: Record<VaultEntity['id'], TransactOption[]>;
+};
+
+export type BasketQuotes = {
+  status: TransactStatus;
+  requestId: string | undefined;
+  error: SerializedError | undefined;
+  /** best quote for each vault */
+  byVaultId: Record<VaultEntity['id'], TransactQuote>;
+};
+
+export type BasketState = {
+  mode: TransactMode.Deposit | TransactMode.Withdraw;
+  chainId: ChainEntity['id'] | undefined;
+  items: BasketItem[];
+  unit: BasketUnit;
+  /** token deposited from, or withdrawn to, in all vaults */
+  selectionId: TransactOption['selectionId'] | undefined;
+  options: BasketOptions;
+  quotes: BasketQuotes;
+};
+
+const initialBasketState: BasketState = {
+  mode: TransactMode.Deposit,
+  chainId: undefined,
+  items: [],
+  unit: 'percent',
+  selectionId: undefined,
+  options: {
+    status: TransactStatus.Idle,
+    requestId: undefined,
+    error: undefined,
+    byVaultId: {},
+  },
+  quotes: {
+    status: TransactStatus.Idle,
+    requestId: undefined,
+    error: undefined,
+    byVaultId: {},
+  },
+};
+
+export const basketSlice = createSlice({
+  name: 'basket',
+  initialState: initialBasketState,
+  reducers: {
+    switchMode(sliceState, action: PayloadAction<BasketState['mode']>) {
+      sliceState.mode = action.payload;
+      sliceState.items.forEach(item => (item.value = ''));
+      resetOptions(sliceState);
+    },
+    switchChain(sliceState, action: PayloadAction<ChainEntity['id']>) {
+      if (sliceState.chainId !== action.payload) {
+        sliceState.chainId = action.payload;
+        sliceState.items = [];
+        resetOptions(sliceState);
+      }
+    },
+    addVault(
+      sliceState,
+      action: PayloadAction<{ vaultId: VaultEntity['id']; chainId: ChainEntity['id'] }>
+    ) {
+      const { vaultId, chainId } = action.payload;
+      if (sliceState.chainId !== chainId) {
+        sliceState.chainId = chainId;
+        sliceState.items = [];
+      }
+      if (!sliceState.items.some(item => item.vaultId === vaultId)) {
+        sliceState.items.push({ vaultId, value: '' });
+        resetOptions(sliceState);
+      }
+    },
+    removeVault(sliceState, action: PayloadAction<VaultEntity['id']>) {
+      sliceState.items = sliceState.items.filter(item => item.vaultId !== action.payload);
+      resetOptions(sliceState);
+    },
+    setValue(sliceState, action: PayloadAction<BasketItem>) {
+      const item = sliceState.items.find(item => item.vaultId === action.payload.vaultId);
+      if (item) {
+        item.value = action.payload.value;
+        resetQuotes(sliceState);
+      }
+    },
+    setUnit(sliceState, action: PayloadAction<BasketUnit>) {
+      if (sliceState.unit !== action.payload) {
+        sliceState.unit = action.payload;
+        sliceState.items.forEach(item => (item.value = ''));
+        resetQuotes(sliceState);
+      }
+    },
+    selectSelection(sliceState, action: PayloadAction<TransactOption['selectionId']>) {
+      if (sliceState.selectionId !== action.payload) {
+        sliceState.selectionId = action.payload;
+        if (sliceState.unit === 'amount' && sliceState.mode === TransactMode.Deposit) {
+          sliceState.items.forEach(item => (item.value = ''));
+        }
+        resetQuotes(sliceState);
+      }
+    },
+    clear(sliceState) {
+      sliceState.items = [];
+      resetOptions(sliceState);
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(basketFetchOptions.pending, (sliceState, action) => {
+        resetOptions(sliceState);
+        sliceState.options.status = TransactStatus.Pending;
+        sliceState.options.requestId = action.meta.requestId;
+      })
+      .addCase(basketFetchOptions.rejected, (sliceState, action) => {
+        if (sliceState.options.requestId === action.meta.requestId) {
+          sliceState.options.status = TransactStatus.Rejected;
+          sliceState.options.error = action.error;
+          console.error(action.error);
+        }
+      })
+      .addCase(basketFetchOptions.fulfilled, (sliceState, action) => {
+        if (sliceState.options.requestId === action.meta.requestId) {
+          sliceState.options.status = TransactStatus.Fulfilled;
+          sliceState.options.byVaultId = action.payload.byVaultId;
+          if (
+            !sliceState.selectionId ||
+            !action.payload.selectionIds.includes(sliceState.selectionId)
+          ) {
+            sliceState.selectionId = action.payload.selectionIds[0];
+          }
+        }
+      })
+      .addCase(basketFetchQuotes.pending, (sliceState, action) => {
+        resetQuotes(sliceState);
+        sliceState.quotes.status = TransactStatus.Pending;
+        sliceState.quotes.requestId = action.meta.requestId;
+      })
+      .addCase(basketFetchQuotes.rejected, (sliceState, action) => {
+        if (sliceState.quotes.requestId === action.meta.requestId) {
+          sliceState.quotes.status = TransactStatus.Rejected;
+          sliceState.quotes.error = action.meta.rejectedWithValue ? action.payload : action.error;
+          console.error(sliceState.quotes.error);
+        }
+      })
+      .addCase(basketFetchQuotes.fulfilled, (sliceState, action) => {
+        if (sliceState.quotes.requestId === action.meta.requestId) {
+          sliceState.quotes.status = TransactStatus.Fulfilled;
+          sliceState.quotes.byVaultId = action.payload.byVaultId;
+        }
+      });
+  },
+});
+
+function resetOptions(sliceState: Draft<BasketState>) {
+  sliceState.options = initialBasketState.options;
+  resetQuotes(sliceState);
+}
+
+function resetQuotes(sliceState: Draft<BasketState>) {
+  sliceState.quotes = initialBasketState.quotes;
+}
+
+export const basketActions = basketSlice.actions;
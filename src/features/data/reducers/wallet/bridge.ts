@@ -12,7 +12,7 @@ import type { BeefyAnyBridgeConfig, BeefyBridgeIdToConfig } from '../../apis/con
 import type { InputTokenAmount } from '../../apis/transact/transact-types.ts';
 import { isTokenEqual, type TokenErc20 } from '../../entities/token.ts';
 import { BIG_ZERO } from '../../../../helpers/big-number.ts';
-import type { IBridgeQuote } from '../../apis/bridge/providers/provider-types.ts';
+import type { IBridgeRouteQuote } from '../../apis/bridge/bridge-api-types.ts';
 import type { Draft } from 'immer';
 import { keyBy, pick } from 'lodash-es';
 import type BigNumber from 'bignumber.js';
@@ -43,18 +43,14 @@ export type BridgeValidateState = {
 
 export type BridgeQuoteState = {
   status: 'idle' | 'pending' | 'fulfilled' | 'rejected';
-  selected: BeefyAnyBridgeConfig['id'] | undefined;
+  selected: IBridgeRouteQuote['id'] | undefined;
   quotes: {
-    allIds: IBridgeQuote<BeefyAnyBridgeConfig>['id'][];
-    byId: Partial<
-      Record<IBridgeQuote<BeefyAnyBridgeConfig>['id'], IBridgeQuote<BeefyAnyBridgeConfig>>
-    >;
+    allIds: IBridgeRouteQuote['id'][];
+    byId: Partial<Record<IBridgeRouteQuote['id'], IBridgeRouteQuote>>;
   };
   limitedQuotes: {
-    allIds: IBridgeQuote<BeefyAnyBridgeConfig>['id'][];
-    byId: Partial<
-      Record<IBridgeQuote<BeefyAnyBridgeConfig>['id'], IBridgeQuote<BeefyAnyBridgeConfig>>
-    >;
+    allIds: IBridgeRouteQuote['id'][];
+    byId: Partial<Record<IBridgeRouteQuote['id'], IBridgeRouteQuote>>;
   };
   error: SerializedError | undefined;
   limitError?: {
@@ -69,7 +65,7 @@ export type BridgeConfirmState = {
   status: 'idle' | 'pending' | 'fulfilled' | 'rejected';
   requestId?: string;
   error?: SerializedError;
-  quote?: IBridgeQuote<BeefyAnyBridgeConfig>;
+  quote?: IBridgeRouteQuote;
   outgoing?: {
     hash: string;
     mined: boolean;
@@ -90,7 +86,9 @@ export type BridgeState = {
   destinations: {
     allChains: ChainEntity['id'][];
     chainToAddress: Partial<Record<ChainEntity['id'], string>>;
+    /** chains reachable directly or via one intermediate chain */
     chainToChain: Partial<Record<ChainEntity['id'], ChainEntity['id'][]>>;
+    /** bridges with a direct lane between the chains */
     chainToBridges: Partial<
       Record<ChainEntity['id'], Record<ChainEntity['id'], BeefyAnyBridgeConfig['id'][]>>
     >;
@@ -279,7 +277,7 @@ export const bridgeSlice = createSlice({
     selectQuote(
       sliceState,
       action: PayloadAction<{
-        quoteId: BeefyAnyBridgeConfig['id'];
+        quoteId: IBridgeRouteQuote['id'];
       }>
     ) {
       const { quoteId } = action.payload;
@@ -342,8 +340,16 @@ export const bridgeSlice = createSlice({
           chainToBridges,
           chainToChain: allChains.reduce(
             (allMap, chainId) => {
+              const hasLane = (from: ChainEntity['id'], to: ChainEntity['id']) =>
+                chainToBridges[from]?.[to]?.length > 0;
               allMap[chainId] = allChains.filter(
-                otherChainId => chainToBridges[chainId]?.[otherChainId]?.length > 0
+                otherChainId =>
+                  otherChainId !== chainId &&
+                  (hasLane(chainId, otherChainId) ||
+                    allChains.some(
+                      viaChainId =>
+                        hasLane(chainId, viaChainId) && hasLane(viaChainId, otherChainId)
+                    ))
               );
               return allMap;
             },
@@ -446,14 +452,14 @@ export const bridgeSlice = createSlice({
 function setQuotes(
   sliceState: Draft<BridgeState>,
   key: 'quotes' | 'limitedQuotes',
-  quotes: IBridgeQuote<BeefyAnyBridgeConfig>[]
+  quotes: IBridgeRouteQuote[]
 ) {
   sliceState.quote[key].byId = quotes.reduce(
     (map, quote) => {
       map[quote.id] = quote;
       return map;
     },
-    {} as Record<BeefyAnyBridgeConfig['id'], IBridgeQuote<BeefyAnyBridgeConfig>>
+    {} as Record<IBridgeRouteQuote['id'], IBridgeRouteQuote>
   );
   sliceState.quote[key].allIds = quotes.map(quote => quote.id);
 }
@@ -12,6 +12,8 @@ export enum StepContent {
   WaitingTx,
   ErrorTx,
   SuccessTx,
+  /** submitted to a private relay, waiting for inclusion */
+  WaitingPrivateTx,
 }
 
 export type Step = {
@@ -47,15 +49,34 @@ export type Step = {
       token: TokenEntity;
       amount: BigNumber;
     };
+    /** step waits for a previous bridge hop to arrive first */
+    arrival?: {
+      token: TokenEntity;
+      amount: BigNumber;
+    };
   };
 };
 
+export type StepPreflightOutput = {
+  token: TokenEntity;
+  /** simulated amount received */
+  amount: BigNumber;
+  /** minimum the tx allows, if any */
+  minAmount?: BigNumber;
+};
+
+export type StepPreflight = {
+  outputs: StepPreflightOutput[];
+};
+
 export interface StepperState {
   modal: boolean;
   currentStep: number;
   stepContent: StepContent;
   items: Step[];
   chainId: ChainEntity['id'] | null;
+  /** result of simulating the current step's tx */
+  preflight: StepPreflight | undefined;
 }
 
 export const initialStepperStater: StepperState = {
@@ -64,6 +85,7 @@ export const initialStepperStater: StepperState = {
   stepContent: StepContent.StartTx,
   items: [],
   chainId: null,
+  preflight: undefined,
 };
 
 export const stepperSlice = createSlice({
@@ -122,6 +144,14 @@ export const stepperSlice = createSlice({
     ) {
       sliceState.stepContent = action.payload.stepContent;
     },
+    setPreflight(
+      sliceState,
+      action: PayloadAction<{
+        preflight: StepPreflight | undefined;
+      }>
+    ) {
+      sliceState.preflight = action.payload.preflight;
+    },
   },
   extraReducers: builder => {
     builder.addCase(startStepper.fulfilled, (sliceState, action) => {
@@ -0,0 +1,43 @@
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { createSlice } from '@reduxjs/toolkit';
+
+export type WatchlistEntry = {
+  /** lowercase */
+  address: string;
+  /** user provided name */
+  label?: string;
+  /** ENS / Space ID etc. name the address was added with */
+  domain?: string;
+};
+
+export type WatchlistState = {
+  entries: WatchlistEntry[];
+};
+
+const initialWatchlistState: WatchlistState = {
+  entries: [],
+};
+
+export const watchlistSlice = createSlice({
+  name: 'watchlist',
+  initialState: initialWatchlistState,
+  reducers: {
+    addWatchlistAddress(sliceState, action: PayloadAction<WatchlistEntry>) {
+      const address = action.payload.address.toLowerCase();
+      const existing = sliceState.entries.find(entry => entry.address === address);
+      if (existing) {
+        // re-adding updates the label/domain
+        existing.label = action.payload.label ?? existing.label;
+        existing.domain = action.payload.domain ?? existing.domain;
+      } else {
+        sliceState.entries.push({ ...action.payload, address });
+      }
+    },
+    removeWatchlistAddress(sliceState, action: PayloadAction<string>) {
+      const address = action.payload.toLowerCase();
+      sliceState.entries = sliceState.entries.filter(entry => entry.address !== address);
+    },
+  },
+});
+
+export const watchlistActions = watchlistSlice.actions;
@@ -0,0 +1,112 @@
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, nanoid } from '@reduxjs/toolkit';
+import type { VaultEntity } from '../entities/vault.ts';
+import { DEFAULT_WEBHOOK_TEMPLATES } from '../utils/webhook-utils.ts';
+
+export type WebhookEventType = 'vault-status' | 'new-boost' | 'clm-range';
+
+export type WebhookEvent = {
+  type: WebhookEventType;
+  vaultId: VaultEntity['id'];
+  /** values for the {{placeholders}} of the event's payload template */
+  params: Record<string, string>;
+};
+
+/** what was last seen of a deposited vault, events fire when this changes */
+export type WebhookVaultSnapshot = {
+  status: VaultEntity['status'];
+  boostIds: string[];
+  /** only for clm vaults whose range was loaded */
+  range?: {
+    min: string;
+    max: string;
+  };
+};
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export type WebhookDelivery = {
+  id: string;
+  eventType: WebhookEventType;
+  vaultId: VaultEntity['id'];
+  createdAt: number;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  error?: string;
+};
+
+export type WebhooksState = {
+  /** empty when disabled */
+  endpoint: string;
+  templates: Record<WebhookEventType, string>;
+  snapshotByVaultId: Record<VaultEntity['id'], WebhookVaultSnapshot>;
+  /** newest first, not persisted */
+  deliveries: WebhookDelivery[];
+};
+
+/** oldest deliveries are dropped past this */
+const MAX_DELIVERIES = 50;
+
+const initialWebhooksState: WebhooksState = {
+  endpoint: '',
+  templates: DEFAULT_WEBHOOK_TEMPLATES,
+  snapshotByVaultId: {},
+  deliveries: [],
+};
+
+export const webhooksSlice = createSlice({
+  name: 'webhooks',
+  initialState: initialWebhooksState,
+  reducers: {
+    setEndpoint(sliceState, action: PayloadAction<string>) {
+      sliceState.endpoint = action.payload.trim();
+    },
+    setTemplate(
+      sliceState,
+      action: PayloadAction<{ eventType: WebhookEventType; template: string }>
+    ) {
+      sliceState.templates[action.payload.eventType] = action.payload.template;
+    },
+    resetTemplate(sliceState, action: PayloadAction<WebhookEventType>) {
+      sliceState.templates[action.payload] = DEFAULT_WEBHOOK_TEMPLATES[action.payload];
+    },
+    snapshotsUpdated(
+      sliceState,
+      action: PayloadAction<Record<VaultEntity['id'], WebhookVaultSnapshot>>
+    ) {
+      sliceState.snapshotByVaultId = action.payload;
+    },
+    deliveryAdded: {
+      reducer(sliceState, action: PayloadAction<WebhookDelivery>) {
+        sliceState.deliveries.unshift(action.payload);
+        sliceState.deliveries = sliceState.deliveries.slice(0, MAX_DELIVERIES);
+      },
+      prepare(event: Pick<WebhookEvent, 'type' | 'vaultId'>) {
+        return {
+          payload: {
+            id: nanoid(),
+            eventType: event.type,
+            vaultId: event.vaultId,
+            createdAt: Date.now(),
+            status: 'pending' as const,
+            attempts: 0,
+          },
+        };
+      },
+    },
+    deliveryUpdated(
+      sliceState,
+      action: PayloadAction<Pick<WebhookDelivery, 'id' | 'status' | 'attempts' | 'error'>>
+    ) {
+      const delivery = sliceState.deliveries.find(d => d.id === action.payload.id);
+      if (delivery) {
+        Object.assign(delivery, action.payload);
+      }
+    },
+    clearDeliveries(sliceState) {
+      sliceState.deliveries = [];
+    },
+  },
+});
+
+export const webhooksActions = webhooksSlice.actions;
@@ -0,0 +1,141 @@
+import { createSelector } from '@reduxjs/toolkit';
+import { createCachedSelector } from 're-reselect';
+import type { BeefyState } from '../../../redux-types.ts';
+import type { AlertRule } from '../reducers/alerts.ts';
+import type { VaultEntity } from '../entities/vault.ts';
+import {
+  isCowcentratedLikeVault,
+  isVaultPausedOrRetired,
+  isVaultRetired,
+} from '../entities/vault.ts';
+import { selectVaultByIdOrUndefined } from './vaults.ts';
+import { selectCurrentCowcentratedRangesByVaultId } from './tokens.ts';
+import { selectVaultTotalApyOrUndefined } from './apy.ts';
+import { selectIsVaultBoosted } from './boosts.ts';
+import {
+  selectUserGovVaultUnifiedRewards,
+  selectUserMerklUnifiedRewardsForVault,
+  selectUserStellaSwapUnifiedRewardsForVault,
+} from './user-rewards.ts';
+import { BIG_ZERO } from '../../../helpers/big-number.ts';
+import { formatLargePercent, formatLargeUsd } from '../../../helpers/format.ts';
+
+export const selectAlertRules = (state: BeefyState) => state.ui.alerts.rules;
+
+export const selectAlertRulesByVaultId = createCachedSelector(
+  selectAlertRules,
+  (_state: BeefyState, vaultId: VaultEntity['id']) => vaultId,
+  (rules, vaultId) => rules.filter(rule => rule.vaultId === vaultId)
+)((_state: BeefyState, vaultId: VaultEntity['id']) => vaultId);
+
+/** undefined if the rule has not been evaluated yet */
+export const selectAlertRuleLastActive = (
+  state: BeefyState,
+  ruleId: AlertRule['id']
+): boolean | undefined => state.ui.alerts.activeByRuleId[ruleId];
+
+export const selectAlertRuleIsActive = (state: BeefyState, ruleId: AlertRule['id']) =>
+  selectAlertRuleLastActive(state, ruleId) || false;
+
+export const selectAlertNotifications = (state: BeefyState) => state.ui.alerts.notifications;
+
+export const selectUnreadAlertNotificationsCount = createSelector(
+  selectAlertNotifications,
+  notifications => notifications.filter(notification => !notification.read).length
+);
+
+export const selectBrowserAlertNotificationsEnabled = (state: BeefyState) =>
+  state.ui.alerts.browserNotifications;
+
+export type AlertRuleConditionResult = {
+  active: boolean;
+  messageKey: string;
+  messageParams: Record<string, string>;
+};
+
+/**
+ * Whether the rule's condition is currently met, with the message to show if it just became so.
+ * Undefined if the data needed to evaluate it is not loaded (yet).
+ */
+export const selectAlertRuleCondition = (
+  state: BeefyState,
+  rule: AlertRule,
+  walletAddress: string | undefined
+): AlertRuleConditionResult | undefined => {
+  const vault = selectVaultByIdOrUndefined(state, rule.vaultId);
+  if (!vault) {
+    return undefined;
+  }
+  const vaultName = vault.names.list;
+
+  switch (rule.type) {
+    case 'vault-status': {
+      return {
+        active: isVaultPausedOrRetired(vault),
+        messageKey:
+          isVaultRetired(vault) ? 'Alerts-Notification-Retired' : 'Alerts-Notification-Paused',
+        messageParams: { vault: vaultName },
+      };
+    }
+    case 'clm-out-of-range': {
+      if (!isCowcentratedLikeVault(vault)) {
+        return undefined;
+      }
+      const range = selectCurrentCowcentratedRangesByVaultId(state, vault.id);
+      if (!range) {
+        return undefined;
+      }
+      return {
+        active:
+          range.currentPrice.lt(range.priceRangeMin) || range.currentPrice.gt(range.priceRangeMax),
+        messageKey: 'Alerts-Notification-OutOfRange',
+        messageParams: { vault: vaultName },
+      };
+    }
+    case 'apy-below': {
+      const apy = selectVaultTotalApyOrUndefined(state, vault.id);
+      if (!apy) {
+        return undefined;
+      }
+      return {
+        active: apy.totalApy < rule.threshold,
+        messageKey: 'Alerts-Notification-ApyBelow',
+        messageParams: {
+          vault: vaultName,
+          apy: formatLargePercent(apy.totalApy),
+          threshold: formatLargePercent(rule.threshold),
+        },
+      };
+    }
+    case 'boost-ended': {
+      return {
+        active: !selectIsVaultBoosted(state, vault.id),
+        messageKey: 'Alerts-Notification-BoostEnded',
+        messageParams: { vault: vaultName },
+      };
+    }
+    case 'rewards-above': {
+      if (!walletAddress) {
+        return undefined;
+      }
+      const rewards = [
+        ...selectUserGovVaultUnifiedRewards(state, vault.id, walletAddress),
+        ...(selectUserMerklUnifiedRewardsForVault(state, vault.id, walletAddress) || []),
+        ...(selectUserStellaSwapUnifiedRewardsForVault(state, vault.id, walletAddress) || []),
+      ];
+      const claimableUsd = rewards.reduce(
+        (total, reward) => total.plus(reward.amount.times(reward.price || BIG_ZERO)),
+        BIG_ZERO
+      );
+      return {
+        active: claimableUsd.gte(rule.thresholdUsd),
+        messageKey: 'Alerts-Notification-RewardsAbove',
+        messageParams: { vault: vaultName, value: formatLargeUsd(claimableUsd) },
+      };
+    }
+    default: {
+      // @ts-expect-error when all cases are covered
+      throw new Error(`Unknown alert rule type ${rule.type}`);
+    }
+  }
+};
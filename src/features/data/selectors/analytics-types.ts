@@ -1,5 +1,6 @@
 import type BigNumber from 'bignumber.js';
 import type { TokenEntity } from '../entities/token.ts';
+import type { PnlRealizedLot } from '../../../helpers/pnl.ts';
 
 export type UserStandardPnl = {
   type: 'standard';
@@ -113,3 +114,23 @@ export function isUserGovPnl(pnl: UserVaultPnl): pnl is UserGovPnl {
 export function isUserClmPnl(pnl: UserVaultPnl): pnl is UserClmPnl {
   return pnl.type === 'cowcentrated';
 }
+
+export type UserTaxLot = PnlRealizedLot & {
+  vaultId: string;
+  vaultName: string;
+  chainId: string;
+};
+
+/** Position compared to holding the tokens that were deposited */
+export type UserHodlCompare = {
+  /** usd value of the deposited tokens at current prices */
+  hodlUsd: BigNumber;
+  /** position value (incl. claimed/pending rewards) minus hodlUsd */
+  vsHodl: UsdChange;
+  /** fee/reward yield earned by the position */
+  yieldUsd: BigNumber;
+  /** vsHodl without the yield, i.e. loss due to the pool rebalancing between the tokens */
+  divergence: UsdChange;
+  /** some deposits had no recorded token breakdown, so current pool weights were used for them */
+  estimated: boolean;
+};
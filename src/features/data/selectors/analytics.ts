@@ -1,6 +1,6 @@
 import { createCachedSelector } from 're-reselect';
 import { BIG_ONE, BIG_ZERO } from '../../../helpers/big-number.ts';
-import { ClmPnl, PnL } from '../../../helpers/pnl.ts';
+import { ClmPnl, type CostBasisMethod, PnL } from '../../../helpers/pnl.ts';
 import type { BeefyState } from '../../../redux-types.ts';
 import type { DatabarnProductPriceRow } from '../apis/databarn/databarn-types.ts';
 import {
@@ -11,6 +11,7 @@ import {
 import {
   selectCowcentratedLikeVaultDepositTokens,
   selectCowcentratedLikeVaultDepositTokensWithPrices,
+  selectHasBreakdownDataForVault,
   selectLpBreakdownForVault,
   selectTokenByAddress,
   selectTokenPriceByAddress,
@@ -33,6 +34,7 @@ import {
   type AnyTimelineEntry,
   isTimelineEntityCowcentrated,
   isTimelineEntityStandard,
+  isTimelineEntryStandard,
 } from '../entities/analytics.ts';
 import { createSelector } from '@reduxjs/toolkit';
 import {
@@ -44,17 +46,33 @@ import {
   type UserClmPnl,
   type UserErc4626Pnl,
   type UserGovPnl,
+  type UserHodlCompare,
   type UserStandardPnl,
+  type UserTaxLot,
   type UserVaultPnl,
 } from './analytics-types.ts';
 import { selectFeesByVaultId } from './fees.ts';
 import BigNumber from 'bignumber.js';
+import { orderBy } from 'lodash-es';
 import {
   createAddressDataSelector,
   hasLoaderFulfilledOnce,
   isLoaderIdle,
 } from './data-loader-helpers.ts';
 import type { ApiTimeBucketInterval } from '../apis/beefy/beefy-data-api-types.ts';
+import {
+  getHodlBreakdowns,
+  getHodlLotsTimeline,
+  getHodlTokenAmounts,
+  getHodlUsd,
+  HODL_PRICE_BUCKET,
+  type HodlToken,
+  isHodlEstimated,
+} from '../../../helpers/hodl.ts';
+import {
+  selectHistoricalPriceBucketAlreadyFulfilled,
+  selectHistoricalPriceBucketData,
+} from './historical.ts';
 import type { AnalyticsIntervalData, AnalyticsState } from '../reducers/analytics-types.ts';
 import type {
   ClmPriceHistoryEntryClassic,
@@ -266,6 +284,10 @@ function totalYield(sources: Array<PnlYieldSource>): PnlYieldTotal {
   };
 }
 
+function percentageOf(value: BigNumber, total: BigNumber): BigNumber {
+  return total.gt(BIG_ZERO) ? value.dividedBy(total) : BIG_ZERO;
+}
+
 function makeUsdChange(before: BigNumber, after: BigNumber): UsdChange {
   const diff = after.minus(before);
   return {
@@ -540,6 +562,168 @@ export const selectVaultPnl = (
   return selectStandardGovPnl(state, vaultId, walletAddress);
 };
 
+/**
+ * Oracle ids of the tokens in a standard/gov vault's lp, whose price history is needed for the hodl benchmark.
+ * Undefined if the vault is single asset, clm or has no breakdown data.
+ */
+export const selectVaultHodlOracleIds = (
+  state: BeefyState,
+  vaultId: VaultEntity['id']
+): string[] | undefined => {
+  const vault = selectVaultById(state, vaultId);
+  if (
+    isCowcentratedLikeVault(vault) ||
+    vault.assetIds.length < 2 ||
+    !selectHasBreakdownDataForVault(state, vault)
+  ) {
+    return undefined;
+  }
+
+  const breakdown = selectLpBreakdownForVault(state, vault);
+  return breakdown.tokens.map(
+    tokenAddress => selectTokenByAddress(state, vault.chainId, tokenAddress).oracleId
+  );
+};
+
+/**
+ * Lp tokens weighted by their current share of the pool value, with their daily price history.
+ * Undefined until all price histories have loaded.
+ */
+export const selectVaultHodlTokens = (
+  state: BeefyState,
+  vaultId: VaultEntity['id']
+): HodlToken[] | undefined => {
+  if (!selectVaultHodlOracleIds(state, vaultId)) {
+    return undefined;
+  }
+
+  const vault = selectVaultById(state, vaultId);
+  const { assets } = selectUserLpBreakdownBalance(
+    state,
+    vault,
+    selectLpBreakdownForVault(state, vault)
+  );
+  const totalValue = assets.reduce((acc, asset) => acc.plus(asset.totalValue), BIG_ZERO);
+  if (totalValue.lte(BIG_ZERO)) {
+    return undefined;
+  }
+
+  const tokens: HodlToken[] = [];
+  for (const asset of assets) {
+    if (!selectHistoricalPriceBucketAlreadyFulfilled(state, asset.oracleId, HODL_PRICE_BUCKET)) {
+      return undefined;
+    }
+    tokens.push({
+      oracleId: asset.oracleId,
+      address: asset.address,
+      symbol: asset.symbol,
+      weight: asset.totalValue.dividedBy(totalValue),
+      prices: selectHistoricalPriceBucketData(state, asset.oracleId, HODL_PRICE_BUCKET) || [],
+      livePrice: asset.price,
+    });
+  }
+
+  return tokens;
+};
+
+export const selectVaultHodlCompare = (
+  state: BeefyState,
+  vaultId: VaultEntity['id'],
+  walletAddress?: string
+): UserHodlCompare | undefined => {
+  const vault = selectVaultById(state, vaultId);
+  if (isCowcentratedLikeVault(vault)) {
+    const { hold, yields } = selectClmPnl(state, vaultId, walletAddress);
+    const vsHodl = hold.diff.withClaimedPending;
+    return {
+      hodlUsd: hold.usd,
+      vsHodl: { usd: vsHodl, percentage: percentageOf(vsHodl, hold.usd) },
+      yieldUsd: yields.usd,
+      divergence: {
+        usd: vsHodl.minus(yields.usd),
+        percentage: percentageOf(vsHodl.minus(yields.usd), hold.usd),
+      },
+      estimated: false,
+    };
+  }
+
+  const tokens = selectVaultHodlTokens(state, vaultId);
+  const timeline = selectUserDepositedTimelineByVaultId(state, vaultId, walletAddress);
+  if (!tokens || !isTimelineEntityStandard(timeline)) {
+    return undefined;
+  }
+
+  const lotsTimeline = getHodlLotsTimeline(timeline.current);
+  if (lotsTimeline.length === 0) {
+    return undefined;
+  }
+
+  const { lots } = lotsTimeline[lotsTimeline.length - 1];
+  const breakdowns = getHodlBreakdowns(timeline.current);
+  const hodlUsd = getHodlUsd(
+    getHodlTokenAmounts(lots, tokens, breakdowns),
+    tokens.map(token => token.livePrice)
+  );
+  const { depositUsd, totalYieldUsd } = selectStandardGovPnl(state, vaultId, walletAddress);
+  const vsHodl = depositUsd.minus(hodlUsd);
+
+  return {
+    hodlUsd,
+    vsHodl: { usd: vsHodl, percentage: percentageOf(vsHodl, hodlUsd) },
+    yieldUsd: totalYieldUsd,
+    divergence: {
+      usd: vsHodl.minus(totalYieldUsd),
+      percentage: percentageOf(vsHodl.minus(totalYieldUsd), hodlUsd),
+    },
+    estimated: isHodlEstimated(lots, tokens, breakdowns),
+  };
+};
+
+/**
+ * Realized gains per lot for every vault the user has ever been in, using the given cost basis method
+ */
+export const selectUserTaxLots = (
+  state: BeefyState,
+  method: CostBasisMethod,
+  walletAddress?: string
+): UserTaxLot[] => {
+  const timelineByVaultId = selectUserAnalytics(state, walletAddress)?.timeline.byVaultId || {};
+  const lots: UserTaxLot[] = [];
+
+  for (const [vaultId, timeline] of Object.entries(timelineByVaultId)) {
+    const vault = selectVaultById(state, vaultId);
+    const pnl = new PnL(method);
+
+    for (const entry of [...timeline.past, ...timeline.current]) {
+      if (isTimelineEntryStandard(entry)) {
+        if (entry.underlyingToUsdPrice) {
+          pnl.addTransaction({
+            shares: entry.shareDiff,
+            price: entry.underlyingToUsdPrice,
+            ppfs: entry.shareToUnderlyingPrice,
+            datetime: entry.datetime,
+            transactionHash: entry.transactionHash,
+          });
+        }
+      } else {
+        pnl.addTransaction({
+          shares: entry.shareDiff,
+          price: entry.shareToUsd,
+          ppfs: BIG_ONE,
+          datetime: entry.datetime,
+          transactionHash: entry.transactionHash,
+        });
+      }
+    }
+
+    for (const lot of pnl.getRealizedLots()) {
+      lots.push({ ...lot, vaultId, vaultName: vault.names.list, chainId: vault.chainId });
+    }
+  }
+
+  return orderBy(lots, lot => lot.disposedAt?.getTime() || 0, 'asc');
+};
+
 const EMPTY_INTERVAL_BUCKET: Readonly<AnalyticsIntervalData<unknown>> = {
   data: [],
   status: 'idle',
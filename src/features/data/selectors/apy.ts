@@ -26,6 +26,12 @@ import { isEmpty } from '../../../helpers/utils.ts';
 import { selectWalletAddress } from './wallet.ts';
 import { first } from 'lodash-es';
 import { mooAmountToOracleAmount } from '../utils/ppfs.ts';
+import {
+  type ApyYieldSource,
+  type ApyYieldSplit,
+  getApyYieldSplit,
+} from '../../../helpers/apy.ts';
+import { selectPlatformByIdOrUndefined } from './platforms.ts';
 
 const EMPTY_TOTAL_APY: TotalApy = {
   totalApy: 0,
@@ -48,6 +54,32 @@ export const selectVaultTotalApy = (
   return selectVaultTotalApyOrUndefined(state, vaultId) || EMPTY_TOTAL_APY;
 };
 
+/**
+ * Yield source of the vault apy component as configured for the vault's platform,
+ * undefined if not configured (the split then assumes emissions)
+ */
+export const selectVaultApyYieldSourceOrUndefined = (
+  state: BeefyState,
+  vaultId: VaultEntity['id']
+): ApyYieldSource | undefined => {
+  const vault = selectVaultById(state, vaultId);
+  return selectPlatformByIdOrUndefined(state, vault.platformId)?.vaultYieldSource;
+};
+
+/**
+ * Fee-based vs emission-based split of the vault's apy components
+ */
+export const selectVaultApyYieldSplitOrUndefined = (
+  state: BeefyState,
+  vaultId: VaultEntity['id']
+): ApyYieldSplit | undefined => {
+  const totalApy = selectVaultTotalApyOrUndefined(state, vaultId);
+  if (!totalApy) {
+    return undefined;
+  }
+  return getApyYieldSplit(totalApy, selectVaultApyYieldSourceOrUndefined(state, vaultId));
+};
+
 export const selectDidAPIReturnValuesForVault = (state: BeefyState, vaultId: VaultEntity['id']) => {
   return state.biz.apy.totalApy.byVaultId[vaultId] !== undefined;
 };
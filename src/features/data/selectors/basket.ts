@@ -0,0 +1,279 @@
+import { createSelector } from '@reduxjs/toolkit';
+import BigNumber from 'bignumber.js';
+import type { BeefyState } from '../../../redux-types.ts';
+import type { ChainEntity } from '../entities/chain.ts';
+import type { TokenEntity } from '../entities/token.ts';
+import { isCowcentratedVault, type VaultEntity } from '../entities/vault.ts';
+import type {
+  InputTokenAmount,
+  TokenAmount,
+  TransactOption,
+} from '../apis/transact/transact-types.ts';
+import { isZapQuote } from '../apis/transact/transact-types.ts';
+import { calculatePriceImpact } from '../apis/transact/helpers/quotes.ts';
+import { slipBy } from '../apis/transact/helpers/amounts.ts';
+import type { BasketItem, BasketState } from '../reducers/wallet/basket.ts';
+import { TransactMode, TransactStatus } from '../reducers/wallet/transact-types.ts';
+import { BIG_ZERO } from '../../../helpers/big-number.ts';
+import { isDefined } from '../utils/array-utils.ts';
+import {
+  selectUserBalanceOfToken,
+  selectUserVaultBalanceInDepositTokenWithToken,
+} from './balance.ts';
+import { selectTokenByAddress } from './tokens.ts';
+import { selectTokenAmountsTotalValue, selectTransactSlippage } from './transact.ts';
+import { selectVaultById } from './vaults.ts';
+
+export type BasketSelection = {
+  selectionId: TransactOption['selectionId'];
+  token: TokenEntity;
+};
+
+export const selectBasketMode = (state: BeefyState) => state.ui.basket.mode;
+export const selectBasketChainId = (state: BeefyState) => state.ui.basket.chainId;
+export const selectBasketItems = (state: BeefyState) => state.ui.basket.items;
+export const selectBasketUnit = (state: BeefyState) => state.ui.basket.unit;
+export const selectBasketSelectionId = (state: BeefyState) => state.ui.basket.selectionId;
+
+export const selectBasketOptionsStatus = (state: BeefyState) => state.ui.basket.options.status;
+export const selectBasketOptionsError = (state: BeefyState) => state.ui.basket.options.error;
+export const selectBasketQuotesStatus = (state: BeefyState) => state.ui.basket.quotes.status;
+export const selectBasketQuotesError = (state: BeefyState) => state.ui.basket.quotes.error;
+
+export const selectBasketVaultIds = createSelector(selectBasketItems, items =>
+  items.map(item => item.vaultId)
+);
+
+/**
+ * Single token selections that every vault in the basket has an option for on the basket chain
+ * i.e. the tokens that can be deposited from, or withdrawn to, in one go
+ */
+export function getBasketSelections(
+  mode: BasketState['mode'],
+  chainId: ChainEntity['id'] | undefined,
+  byVaultId: Record<VaultEntity['id'], TransactOption[]>,
+  vaultIds: VaultEntity['id'][]
+): BasketSelection[] {
+  if (!chainId || vaultIds.length === 0) {
+    return [];
+  }
+
+  const optionsPerVault = vaultIds.map(vaultId =>
+    (byVaultId[vaultId] || []).filter(option => option.chainId === chainId)
+  );
+  const tokenBySelectionId = new Map<TransactOption['selectionId'], TokenEntity>();
+  for (const option of optionsPerVault[0]) {
+    const tokens = mode === TransactMode.Deposit ? option.inputs : option.wantedOutputs;
+    if (tokens.length === 1) {
+      tokenBySelectionId.set(option.selectionId, tokens[0]);
+    }
+  }
+
+  return Array.from(tokenBySelectionId.entries())
+    .filter(([selectionId]) =>
+      optionsPerVault.every(options => options.some(option => option.selectionId === selectionId))
+    )
+    .map(([selectionId, token]) => ({ selectionId, token }));
+}
+
+export const selectBasketSelections = createSelector(
+  selectBasketMode,
+  selectBasketChainId,
+  (state: BeefyState) => state.ui.basket.options.byVaultId,
+  selectBasketVaultIds,
+  getBasketSelections
+);
+
+export const selectBasketSelectedToken = createSelector(
+  selectBasketSelections,
+  selectBasketSelectionId,
+  (selections, selectionId) =>
+    selections.find(selection => selection.selectionId === selectionId)?.token
+);
+
+export const selectBasketOptionsForVault = (state: BeefyState, vaultId: VaultEntity['id']) => {
+  const { chainId, selectionId } = state.ui.basket;
+  return (state.ui.basket.options.byVaultId[vaultId] || []).filter(
+    option => option.chainId === chainId && option.selectionId === selectionId
+  );
+};
+
+/** The token that leaves the wallet for this vault: the selected token, or the vault deposit token */
+export function selectBasketItemInputToken(
+  state: BeefyState,
+  vaultId: VaultEntity['id']
+): TokenEntity | undefined {
+  if (selectBasketMode(state) === TransactMode.Deposit) {
+    return selectBasketSelectedToken(state);
+  }
+
+  const vault = selectVaultById(state, vaultId);
+  return selectTokenByAddress(
+    state,
+    vault.chainId,
+    // For CLM vaults, user withdraws shares
+    isCowcentratedVault(vault) ? vault.contractAddress : vault.depositTokenAddress
+  );
+}
+
+/** Wallet balance of the selected token (deposit), or balance in the vault (withdraw) */
+export function selectBasketItemBalance(state: BeefyState, vaultId: VaultEntity['id']): BigNumber {
+  if (selectBasketMode(state) === TransactMode.Deposit) {
+    const token = selectBasketSelectedToken(state);
+    return token ? selectUserBalanceOfToken(state, token.chainId, token.address) : BIG_ZERO;
+  }
+
+  return selectUserVaultBalanceInDepositTokenWithToken(state, vaultId).amount;
+}
+
+function parseValue(value: string): BigNumber {
+  const parsed = new BigNumber(value);
+  return parsed.isFinite() && parsed.gt(BIG_ZERO) ? parsed : BIG_ZERO;
+}
+
+export function selectBasketItemInput(
+  state: BeefyState,
+  item: BasketItem
+): InputTokenAmount | undefined {
+  const token = selectBasketItemInputToken(state, item.vaultId);
+  if (!token) {
+    return undefined;
+  }
+
+  const value = parseValue(item.value);
+  if (selectBasketUnit(state) === 'amount') {
+    return {
+      token,
+      amount: value.decimalPlaces(token.decimals, BigNumber.ROUND_FLOOR),
+      max: false,
+    };
+  }
+
+  const balance = selectBasketItemBalance(state, item.vaultId);
+  const max = value.gte(100);
+  return {
+    token,
+    amount:
+      max ? balance : (
+        balance
+          .multipliedBy(value)
+          .dividedBy(100)
+          .decimalPlaces(token.decimals, BigNumber.ROUND_FLOOR)
+      ),
+    // a withdraw of everything should not leave dust in the vault
+    max: max && selectBasketMode(state) === TransactMode.Withdraw,
+  };
+}
+
+/** i18n key of the first problem with the basket inputs, if any */
+export function selectBasketInputError(state: BeefyState): string | undefined {
+  const items = selectBasketItems(state);
+  if (items.length < 2) {
+    return 'Basket-Error-MinVaults';
+  }
+  if (!selectBasketSelectedToken(state)) {
+    return 'Basket-Error-NoToken';
+  }
+
+  const inputs = items.map(item => selectBasketItemInput(state, item));
+  if (inputs.some(input => !input || input.amount.lte(BIG_ZERO))) {
+    return 'Basket-Error-Amount';
+  }
+
+  const mode = selectBasketMode(state);
+  if (selectBasketUnit(state) === 'percent') {
+    const values = items.map(item => parseValue(item.value));
+    const total =
+      mode === TransactMode.Deposit ? BigNumber.sum(...values) : BigNumber.max(...values);
+    if (total.gt(100)) {
+      return 'Basket-Error-Percent';
+    }
+  } else if (mode === TransactMode.Deposit) {
+    const total = BigNumber.sum(...inputs.filter(isDefined).map(input => input.amount));
+    if (total.gt(selectBasketItemBalance(state, items[0].vaultId))) {
+      return 'Basket-Error-Balance';
+    }
+  } else if (
+    items.some((item, i) => inputs[i]!.amount.gt(selectBasketItemBalance(state, item.vaultId)))
+  ) {
+    return 'Basket-Error-Balance';
+  }
+
+  return undefined;
+}
+
+/** Best quote for each vault, in basket order */
+export const selectBasketQuotes = createSelector(
+  selectBasketItems,
+  (state: BeefyState) => state.ui.basket.quotes.byVaultId,
+  (items, byVaultId) => items.map(item => byVaultId[item.vaultId]).filter(isDefined)
+);
+
+export const selectBasketQuotesReady = (state: BeefyState) =>
+  selectBasketQuotesStatus(state) === TransactStatus.Fulfilled &&
+  selectBasketQuotes(state).length === selectBasketItems(state).length;
+
+function sumTokenAmounts(tokenAmounts: TokenAmount[]): TokenAmount[] {
+  const byToken = new Map<string, TokenAmount>();
+  for (const { token, amount } of tokenAmounts) {
+    const key = `${token.chainId}-${token.address}`;
+    const existing = byToken.get(key);
+    byToken.set(key, { token, amount: existing ? existing.amount.plus(amount) : amount });
+  }
+  return Array.from(byToken.values());
+}
+
+export type BasketSummary = {
+  inputs: TokenAmount[];
+  outputs: TokenAmount[];
+  /** outputs after the max slippage is applied to each vault's quote */
+  minOutputs: TokenAmount[];
+  inputValue: BigNumber;
+  outputValue: BigNumber;
+  /** across all vaults, 0.01 = 1% */
+  priceImpact: number;
+  /** zap fees across all vaults, weighted by input value, 0.0005 = 0.05% */
+  fee: number;
+  feeValue: BigNumber;
+};
+
+/** Totals across the quotes of all vaults in the basket */
+export const selectBasketSummary = (state: BeefyState): BasketSummary | undefined => {
+  const quotes = selectBasketQuotes(state);
+  if (quotes.length === 0) {
+    return undefined;
+  }
+
+  const slippage = selectTransactSlippage(state);
+  const inputs = sumTokenAmounts(quotes.flatMap(quote => quote.inputs));
+  const outputs = sumTokenAmounts(quotes.flatMap(quote => quote.outputs));
+  const returned = sumTokenAmounts(quotes.flatMap(quote => quote.returned));
+  const minOutputs = sumTokenAmounts(
+    quotes.flatMap(quote =>
+      quote.outputs.map(({ token, amount }) => ({
+        token,
+        amount: slipBy(amount, slippage, token.decimals),
+      }))
+    )
+  );
+  const inputValue = selectTokenAmountsTotalValue(state, inputs);
+  const feeValue = BigNumber.sum(
+    BIG_ZERO,
+    ...quotes.map(quote =>
+      isZapQuote(quote) ?
+        selectTokenAmountsTotalValue(state, quote.inputs).multipliedBy(quote.fee.value)
+      : BIG_ZERO
+    )
+  );
+
+  return {
+    inputs,
+    outputs,
+    minOutputs,
+    inputValue,
+    outputValue: selectTokenAmountsTotalValue(state, outputs.concat(returned)),
+    priceImpact: calculatePriceImpact(inputs, outputs, returned, state),
+    fee: inputValue.gt(BIG_ZERO) ? feeValue.dividedBy(inputValue).toNumber() : 0,
+    feeValue,
+  };
+};
@@ -0,0 +1,19 @@
+import { createSelector } from '@reduxjs/toolkit';
+import type { BeefyState } from '../../../redux-types.ts';
+import type { BridgeTransfer } from '../reducers/bridge-history.ts';
+
+export const selectBridgeTransfers = (state: BeefyState) => state.ui.bridgeHistory.transfers;
+
+/** Whether the transfer still needs its status checked */
+export function isBridgeTransferPending(transfer: BridgeTransfer) {
+  return (
+    transfer.status === 'sent' || transfer.status === 'in-flight' || transfer.status === 'stuck'
+  );
+}
+
+export const selectPendingBridgeTransfers = createSelector(selectBridgeTransfers, transfers =>
+  transfers.filter(isBridgeTransferPending)
+);
+
+export const selectPendingBridgeTransfersCount = (state: BeefyState) =>
+  selectPendingBridgeTransfers(state).length;
@@ -1,8 +1,11 @@
 import type { BeefyState } from '../../../redux-types.ts';
 import type { ChainEntity } from '../entities/chain.ts';
 import { selectErc20TokenByAddress } from './tokens.ts';
-import { FormStep } from '../reducers/wallet/bridge.ts';
+import { selectUserBalanceOfToken } from './balance.ts';
+import { selectWalletAddress } from './wallet.ts';
 import type { IBridgeQuote } from '../apis/bridge/providers/provider-types.ts';
+import { FormStep } from '../reducers/wallet/bridge.ts';
+import type { BridgeRouteHop, IBridgeRouteQuote } from '../apis/bridge/bridge-api-types.ts';
 import type { BeefyAnyBridgeConfig } from '../apis/config-types.ts';
 import {
   selectStepperCurrentStepData,
@@ -11,6 +14,8 @@ import {
 } from './stepper.ts';
 import { StepContent } from '../reducers/wallet/stepper.ts';
 import { createSelector } from '@reduxjs/toolkit';
+import { createCachedSelector } from 're-reselect';
+import { sortBy, sumBy } from 'lodash-es';
 import { arrayOrStaticEmpty, valueOrThrow } from '../utils/selector-utils.ts';
 import {
   createGlobalDataSelector,
@@ -43,6 +48,49 @@ export const selectBridgeIdsFromTo = (
   to: ChainEntity['id']
 ) => arrayOrStaticEmpty(state.ui.bridge.destinations.chainToBridges[from]?.[to]);
 
+/**
+ * Hops of each route to quote from one chain to another, direct routes first then routes via one intermediate chain.
+ * Multi-hop routes using the same bridge for both hops are skipped when that bridge has a direct lane,
+ * the rest are ordered by the time estimates in the bridge configs.
+ */
+export const selectBridgeRoutesFromTo = createCachedSelector(
+  (state: BeefyState) => state.ui.bridge.destinations,
+  (state: BeefyState) => state.ui.bridge.bridges,
+  (_state: BeefyState, from: ChainEntity['id']) => from,
+  (_state: BeefyState, _from: ChainEntity['id'], to: ChainEntity['id']) => to,
+  ({ allChains, chainToBridges }, bridges, from, to): BridgeRouteHop[][] => {
+    const idsFromTo = (a: ChainEntity['id'], b: ChainEntity['id']) => chainToBridges[a]?.[b] || [];
+    const hopTime = ({ bridgeId, from, to }: BridgeRouteHop) => {
+      const chains = bridges?.[bridgeId]?.chains;
+      return (chains?.[from]?.time.outgoing || 0) + (chains?.[to]?.time.incoming || 0);
+    };
+    const directIds = idsFromTo(from, to);
+    const multiHopRoutes: BridgeRouteHop[][] = [];
+
+    for (const via of allChains) {
+      if (via === from || via === to) {
+        continue;
+      }
+      for (const firstId of idsFromTo(from, via)) {
+        for (const secondId of idsFromTo(via, to)) {
+          if (firstId === secondId && directIds.includes(firstId)) {
+            continue;
+          }
+          multiHopRoutes.push([
+            { bridgeId: firstId, from, to: via },
+            { bridgeId: secondId, from: via, to },
+          ]);
+        }
+      }
+    }
+
+    return [
+      ...directIds.map(bridgeId => [{ bridgeId, from, to }]),
+      ...sortBy(multiHopRoutes, hops => sumBy(hops, hopTime)),
+    ];
+  }
+)((_state: BeefyState, from: ChainEntity['id'], to: ChainEntity['id']) => `${from}-${to}`);
+
 export const selectBridgeConfigById = (state: BeefyState, id: BeefyAnyBridgeConfig['id']) => {
   const bridges = state.ui.bridge.bridges;
   if (!bridges) {
@@ -120,8 +168,8 @@ export const selectBridgeQuoteIds = (state: BeefyState) => state.ui.bridge.quote
 
 export const selectBridgeQuoteById = (
   state: BeefyState,
-  id: BeefyAnyBridgeConfig['id']
-): IBridgeQuote<BeefyAnyBridgeConfig> =>
+  id: IBridgeRouteQuote['id']
+): IBridgeRouteQuote =>
   valueOrThrow(state.ui.bridge.quote.quotes.byId[id], `No bridge quote for ${id}`);
 
 export const selectBridgeLimitedQuoteIds = (state: BeefyState) =>
@@ -129,8 +177,8 @@ export const selectBridgeLimitedQuoteIds = (state: BeefyState) =>
 
 export const selectBridgeLimitedQuoteById = (
   state: BeefyState,
-  id: BeefyAnyBridgeConfig['id']
-): IBridgeQuote<BeefyAnyBridgeConfig> =>
+  id: IBridgeRouteQuote['id']
+): IBridgeRouteQuote =>
   valueOrThrow(state.ui.bridge.quote.limitedQuotes.byId[id], `No bridge limited quote for ${id}`);
 
 export const selectAllBridgeLimitedQuotes = createSelector(
@@ -150,6 +198,26 @@ export const selectBridgeHasSelectedQuote = (state: BeefyState) => {
   return !!selectedId && selectedId in state.ui.bridge.quote.quotes.byId;
 };
 
+/**
+ * Later hops of a route are sent from the wallet on the intermediate chain,
+ * so it needs more of that chain's native token than the hop fee, to also pay for gas.
+ */
+export const selectBridgeHopHasGas = (
+  state: BeefyState,
+  hop: IBridgeQuote<BeefyAnyBridgeConfig>
+) => {
+  // nothing to check until a wallet is connected
+  if (!selectWalletAddress(state)) {
+    return true;
+  }
+  return selectUserBalanceOfToken(state, hop.fee.token.chainId, hop.fee.token.address).gt(
+    hop.fee.amount
+  );
+};
+
+export const selectBridgeRouteHasGas = (state: BeefyState, quote: IBridgeRouteQuote) =>
+  quote.hops.every((hop, i) => i === 0 || selectBridgeHopHasGas(state, hop));
+
 export const selectBridgeConfirmStatus = (state: BeefyState) => state.ui.bridge.confirm.status;
 export const selectBridgeConfirmQuote = (state: BeefyState) =>
   valueOrThrow(state.ui.bridge.confirm.quote, 'No bridge quote');
@@ -174,7 +242,10 @@ export function selectBridgeTxState(state: BeefyState) {
     return { step: currentItem.step, status: 'building' };
   } else if (stepContent === StepContent.WalletTx) {
     return { step: currentItem.step, status: 'pending' };
-  } else if (stepContent === StepContent.WaitingTx) {
+  } else if (
+    stepContent === StepContent.WaitingTx ||
+    stepContent === StepContent.WaitingPrivateTx
+  ) {
     return { step: currentItem.step, status: 'mining' };
   } else if (stepContent === StepContent.SuccessTx) {
     return { step: currentItem.step, status: 'success' };
@@ -0,0 +1,28 @@
+import { createCachedSelector } from 're-reselect';
+import type { BeefyState } from '../../../redux-types.ts';
+import type { VaultEntity } from '../entities/vault.ts';
+import type { CrossChainDeposit } from '../reducers/cross-chain-deposits.ts';
+import { selectWalletAddressIfKnown } from './wallet.ts';
+
+export const selectCrossChainDeposits = (state: BeefyState) => state.ui.crossChainDeposits.deposits;
+
+export const selectCrossChainDepositById = (state: BeefyState, id: CrossChainDeposit['id']) => {
+  const deposit = selectCrossChainDeposits(state).find(d => d.id === id);
+  if (!deposit) {
+    throw new Error(`No cross-chain deposit with id ${id}`);
+  }
+  return deposit;
+};
+
+/** Deposits into the vault from the connected wallet that have not been completed yet */
+export const selectCrossChainDepositsForVault = createCachedSelector(
+  selectCrossChainDeposits,
+  selectWalletAddressIfKnown,
+  (_state: BeefyState, vaultId: VaultEntity['id']) => vaultId,
+  (deposits, walletAddress, vaultId) =>
+    walletAddress ?
+      deposits.filter(
+        d => d.vaultId === vaultId && d.walletAddress.toLowerCase() === walletAddress.toLowerCase()
+      )
+    : []
+)((_state: BeefyState, vaultId: VaultEntity['id']) => vaultId);
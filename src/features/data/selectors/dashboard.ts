@@ -10,7 +10,7 @@ import { selectWalletAddress, selectWalletAddressIfKnown } from './wallet.ts';
 import type { TokenEntity } from '../entities/token.ts';
 import type BigNumber from 'bignumber.js';
 import { BIG_ONE, BIG_ZERO } from '../../../helpers/big-number.ts';
-import { selectIsVaultStable, selectVaultById } from './vaults.ts';
+import { selectIsVaultStable, selectVaultById, selectVaultPricePerFullShare } from './vaults.ts';
 import { selectAllVaultBoostIds } from './boosts.ts';
 import {
   selectHasBreakdownDataForVault,
@@ -18,19 +18,22 @@ import {
   selectLpBreakdownForVault,
   selectTokenByAddress,
   selectTokenByIdOrUndefined,
+  selectTokenPriceByAddress,
   selectTokenPriceByTokenOracleId,
   selectVaultTokenSymbols,
   selectWrappedToNativeSymbolOrTokenSymbol,
 } from './tokens.ts';
 import { isUserClmPnl, type PnlYieldSource, type UserVaultPnl } from './analytics-types.ts';
-import { getTopNArray } from '../utils/array-utils.ts';
+import { getTopNArray, isShallowEqualArray } from '../utils/array-utils.ts';
 import { cloneDeep, orderBy } from 'lodash-es';
 import { selectPlatformById } from './platforms.ts';
 import { selectChainById } from './chains.ts';
 import {
   selectClmPnl,
   selectIsAnalyticsLoadedByAddress,
+  selectShareToUnderlyingByVaultIdByInterval,
   selectStandardGovPnl,
+  selectUserAnalytics,
   selectUserDepositedTimelineByVaultId,
   selectVaultPnl,
 } from './analytics.ts';
@@ -41,10 +44,29 @@ import {
   selectGovVaultPendingRewardsWithPrice,
   selectUserDepositedVaultIds,
   selectUserLpBreakdownBalance,
+  selectUserVaultBalanceInShareTokenIncludingDisplaced,
   selectUserVaultBalanceInUsdIncludingDisplaced,
 } from './balance.ts';
 import { selectIsUserBalanceAvailable } from './data-loader.ts';
-import { selectYieldStatsByVaultId } from './apy.ts';
+import { selectUserGlobalStats, selectYieldStatsByVaultId } from './apy.ts';
+import type { GraphBucket } from '../../../helpers/graph/types.ts';
+import type {
+  PortfolioTimeseriesTransaction,
+  PortfolioTimeseriesVault,
+} from '../../../helpers/graph/timeseries.ts';
+import { isTimelineEntryStandard } from '../entities/analytics.ts';
+import {
+  selectHistoricalPriceBucketAlreadyFulfilled,
+  selectHistoricalPriceBucketData,
+  selectHistoricalPriceBucketStatus,
+} from './historical.ts';
+import {
+  getDataApiBucketIntervalKey,
+  getDataApiBucketRangeStartDateUnix,
+} from '../apis/beefy/beefy-data-api-helpers.ts';
+import { hasShareToUnderlyingHistory } from '../utils/vault-utils.ts';
+import { createCachedSelector } from 're-reselect';
+import { createSelector } from '@reduxjs/toolkit';
 
 export enum DashboardDataStatus {
   Loading,
@@ -65,6 +87,52 @@ export const selectUserTotalYieldUsd = (state: BeefyState, walletAddress: string
   return totalYieldUsd;
 };
 
+export const selectUserTotalPnlUsd = (state: BeefyState, walletAddress: string) => {
+  const vaultPnls = selectDashboardUserVaultsPnl(state, walletAddress);
+
+  let totalPnlUsd = BIG_ZERO;
+  for (const vaultPnl of Object.values(vaultPnls)) {
+    totalPnlUsd = totalPnlUsd.plus(
+      isUserClmPnl(vaultPnl) ? vaultPnl.pnl.withClaimedPending.usd : vaultPnl.totalPnlUsd
+    );
+  }
+
+  return totalPnlUsd;
+};
+
+export type DashboardUsersStats = {
+  deposited: number;
+  depositedVaults: number;
+  daily: number;
+  yieldUsd: BigNumber;
+  pnlUsd: BigNumber;
+};
+
+/** totals over all the given addresses */
+export const selectDashboardUsersStats = (
+  state: BeefyState,
+  walletAddresses: string[]
+): DashboardUsersStats => {
+  const stats: DashboardUsersStats = {
+    deposited: 0,
+    depositedVaults: 0,
+    daily: 0,
+    yieldUsd: BIG_ZERO,
+    pnlUsd: BIG_ZERO,
+  };
+
+  for (const walletAddress of walletAddresses) {
+    const { deposited, depositedVaults, daily } = selectUserGlobalStats(state, walletAddress);
+    stats.deposited += deposited;
+    stats.depositedVaults += depositedVaults;
+    stats.daily += daily;
+    stats.yieldUsd = stats.yieldUsd.plus(selectUserTotalYieldUsd(state, walletAddress));
+    stats.pnlUsd = stats.pnlUsd.plus(selectUserTotalPnlUsd(state, walletAddress));
+  }
+
+  return stats;
+};
+
 export type UserRewardStatus = 'compounded' | 'pending' | 'claimed';
 export type UserRewardSource = PnlYieldSource['source'] | 'gov' | 'boost';
 
@@ -326,17 +394,31 @@ const selectDashboardUserExposure = <
     return [];
   }
 
-  const vaultIds = selectUserDepositedVaultIds(state, walletAddress);
-  if (!vaultIds.length) {
+  return selectDashboardUsersExposure(state, vaultFn, summarizerFn, [walletAddress]);
+};
+/** exposure summed over the deposits of all the given addresses */
+const selectDashboardUsersExposure = <
+  T extends DashboardUserExposureVaultEntry = DashboardUserExposureVaultEntry,
+>(
+  state: BeefyState,
+  vaultFn: DashboardUserExposureVaultFn<T>,
+  summarizerFn: DashboardUserExposureSummarizer<T>,
+  walletAddresses: string[]
+): DashboardUserExposureEntry<T>[] => {
+  const deposits = walletAddresses.flatMap(walletAddress =>
+    selectUserDepositedVaultIds(state, walletAddress).map(vaultId => ({
+      walletAddress,
+      vaultId,
+      deposit: selectUserVaultBalanceInUsdIncludingDisplaced(state, vaultId, walletAddress),
+    }))
+  );
+  if (!deposits.length) {
     return [];
   }
 
-  const vaultDeposits = vaultIds.map(vaultId =>
-    selectUserVaultBalanceInUsdIncludingDisplaced(state, vaultId, walletAddress)
-  );
-  const totalDeposits = vaultDeposits.reduce((acc, deposit) => acc.plus(deposit), BIG_ZERO);
-  const entries = vaultIds
-    .map((vaultId, i) => vaultFn(state, vaultId, vaultDeposits[i], walletAddress))
+  const totalDeposits = deposits.reduce((acc, { deposit }) => acc.plus(deposit), BIG_ZERO);
+  const entries = deposits
+    .map(({ walletAddress, vaultId, deposit }) => vaultFn(state, vaultId, deposit, walletAddress))
     .flat();
   const byKey = entries.reduce(
     (acc, entry) => {
@@ -364,20 +446,30 @@ const selectDashboardUserVaultChainExposure: DashboardUserExposureVaultFn<
   const chain = selectChainById(state, vault.chainId);
   return [{ key: chain.id, label: chain.name, value: vaultTvl, chainId: chain.id }];
 };
+const chainExposureSummarizer: DashboardUserExposureSummarizer<
+  DashboardUserChainExposureVaultEntry
+> = entries =>
+  getTopNArray(entries, 'percentage', 6, {
+    key: 'others',
+    label: 'Others',
+    value: BIG_ZERO,
+    percentage: 0,
+    chainId: 'others' as const,
+  });
 export const selectDashboardUserExposureByChain = (state: BeefyState, walletAddress?: string) =>
   selectDashboardUserExposure(
     state,
     selectDashboardUserVaultChainExposure,
-    entries =>
-      getTopNArray(entries, 'percentage', 6, {
-        key: 'others',
-        label: 'Others',
-        value: BIG_ZERO,
-        percentage: 0,
-        chainId: 'others' as const,
-      }),
+    chainExposureSummarizer,
     walletAddress
   );
+export const selectDashboardUsersExposureByChain = (state: BeefyState, walletAddresses: string[]) =>
+  selectDashboardUsersExposure(
+    state,
+    selectDashboardUserVaultChainExposure,
+    chainExposureSummarizer,
+    walletAddresses
+  );
 const selectDashboardUserVaultPlatformExposure: DashboardUserExposureVaultFn = (
   state,
   vaultId,
@@ -395,6 +487,16 @@ export const selectDashboardUserExposureByPlatform = (state: BeefyState, walletA
     top6ByPercentageSummarizer,
     walletAddress
   );
+export const selectDashboardUsersExposureByPlatform = (
+  state: BeefyState,
+  walletAddresses: string[]
+) =>
+  selectDashboardUsersExposure(
+    state,
+    selectDashboardUserVaultPlatformExposure,
+    top6ByPercentageSummarizer,
+    walletAddresses
+  );
 const selectDashboardUserVaultTokenExposure: DashboardUserExposureVaultFn<
   DashboardUserTokenExposureVaultEntry
 > = (state, vaultId, vaultTvl, walletAddress): DashboardUserTokenExposureVaultEntry[] => {
@@ -441,21 +543,31 @@ const selectDashboardUserVaultTokenExposure: DashboardUserExposureVaultFn<
     },
   ];
 };
+const tokenExposureSummarizer: DashboardUserExposureSummarizer<
+  DashboardUserTokenExposureVaultEntry
+> = entries =>
+  getTopNArray(entries, 'percentage', 6, {
+    key: 'others',
+    label: 'Others',
+    value: BIG_ZERO,
+    percentage: 0,
+    symbols: [],
+    chainId: 'ethereum',
+  });
 export const selectDashboardUserExposureByToken = (state: BeefyState, walletAddress?: string) =>
   selectDashboardUserExposure(
     state,
     selectDashboardUserVaultTokenExposure,
-    entries =>
-      getTopNArray(entries, 'percentage', 6, {
-        key: 'others',
-        label: 'Others',
-        value: BIG_ZERO,
-        percentage: 0,
-        symbols: [],
-        chainId: 'ethereum',
-      }),
+    tokenExposureSummarizer,
     walletAddress
   );
+export const selectDashboardUsersExposureByToken = (state: BeefyState, walletAddresses: string[]) =>
+  selectDashboardUsersExposure(
+    state,
+    selectDashboardUserVaultTokenExposure,
+    tokenExposureSummarizer,
+    walletAddresses
+  );
 const selectDashboardUserVaultStableExposure: DashboardUserExposureVaultFn = (
   state,
   vaultId,
@@ -492,6 +604,16 @@ export const selectDashboardUserStablecoinsExposure = (state: BeefyState, wallet
     stableVsOthersSummarizer,
     walletAddress
   );
+export const selectDashboardUsersStablecoinsExposure = (
+  state: BeefyState,
+  walletAddresses: string[]
+) =>
+  selectDashboardUsersExposure(
+    state,
+    selectDashboardUserVaultStableExposure,
+    stableVsOthersSummarizer,
+    walletAddresses
+  );
 export const selectDashboardUserVaultsPnl = (state: BeefyState, walletAddress: string) => {
   const userVaults = selectUserDepositedVaultIds(state, walletAddress);
   const vaults: Record<string, UserVaultPnl> = {};
@@ -510,3 +632,343 @@ export const selectDashboardUserVaultsDailyYield = (state: BeefyState, walletAdd
   }
   return vaults;
 };
+
+export type DashboardExportPosition = {
+  vaultId: VaultEntity['id'];
+  vaultName: string;
+  chainId: ChainEntity['id'];
+  type: VaultEntity['type'];
+  shares: BigNumber;
+  depositUsd: BigNumber;
+  usdAtDeposit: BigNumber;
+  underlying: Array<{ symbol: string; address: string; amount: BigNumber }>;
+  pnlUsd: BigNumber;
+  yieldUsd: BigNumber;
+};
+
+export type DashboardExportTransaction = {
+  vaultId: VaultEntity['id'];
+  chainId: ChainEntity['id'];
+  datetime: Date;
+  transactionHash: string | null;
+  /** current: since user last fully withdrew, past: before that */
+  timeline: 'current' | 'past';
+  shareDiff: BigNumber;
+  shareBalance: BigNumber;
+  usdDiff: BigNumber | null;
+  usdBalance: BigNumber | null;
+};
+
+export type DashboardExport = {
+  walletAddress: string;
+  positions: DashboardExportPosition[];
+  transactions: DashboardExportTransaction[];
+};
+
+export const selectDashboardUserExport = (
+  state: BeefyState,
+  walletAddress: string
+): DashboardExport => {
+  const vaultPnls = selectDashboardUserVaultsPnl(state, walletAddress);
+  const positions = Object.entries(vaultPnls).map(([vaultId, pnl]): DashboardExportPosition => {
+    const vault = selectVaultById(state, vaultId);
+    const shares = selectUserVaultBalanceInShareTokenIncludingDisplaced(
+      state,
+      vaultId,
+      walletAddress
+    );
+    const base = {
+      vaultId,
+      vaultName: vault.names.list,
+      chainId: vault.chainId,
+      type: vault.type,
+      shares,
+    };
+
+    if (isUserClmPnl(pnl)) {
+      return {
+        ...base,
+        depositUsd: pnl.underlying.now.usd,
+        usdAtDeposit: pnl.underlying.entry.usd,
+        underlying: pnl.tokens.map(({ token, now }) => ({
+          symbol: token.symbol,
+          address: token.address,
+          amount: now.amount,
+        })),
+        pnlUsd: pnl.pnl.withClaimedPending.usd,
+        yieldUsd: pnl.yields.usd,
+      };
+    }
+
+    let underlying: DashboardExportPosition['underlying'];
+    if (selectHasBreakdownDataForVault(state, vault)) {
+      // LP positions are listed as the user's share of each token in the pool
+      const breakdown = selectLpBreakdownForVault(state, vault);
+      const { assets } = selectUserLpBreakdownBalance(state, vault, breakdown, walletAddress);
+      underlying = assets.map(asset => ({
+        symbol: asset.symbol,
+        address: asset.address,
+        amount: asset.userAmount,
+      }));
+    } else {
+      const depositToken = selectTokenByAddress(state, vault.chainId, vault.depositTokenAddress);
+      underlying = [
+        { symbol: depositToken.symbol, address: depositToken.address, amount: pnl.deposit },
+      ];
+    }
+
+    return {
+      ...base,
+      depositUsd: pnl.depositUsd,
+      usdAtDeposit: pnl.usdBalanceAtDeposit,
+      underlying,
+      pnlUsd: pnl.totalPnlUsd,
+      yieldUsd: pnl.totalYieldUsd,
+    };
+  });
+
+  const timelineByVaultId = selectUserAnalytics(state, walletAddress)?.timeline.byVaultId || {};
+  const transactions = orderBy(
+    Object.values(timelineByVaultId).flatMap(timeline =>
+      [...timeline.past, ...timeline.current].map(
+        (entry): DashboardExportTransaction => ({
+          vaultId: entry.vaultId,
+          chainId: entry.chain,
+          datetime: entry.datetime,
+          transactionHash: entry.transactionHash,
+          timeline: entry.timeline,
+          shareDiff: entry.shareDiff,
+          shareBalance: entry.shareBalance,
+          usdDiff: entry.usdDiff,
+          usdBalance: entry.usdBalance,
+        })
+      )
+    ),
+    entry => entry.datetime.getTime(),
+    'asc'
+  );
+
+  return { walletAddress, positions, transactions };
+};
+
+/** vaults the user has ever deposited in */
+export const selectDashboardUserTimelineVaultIds = createSelector(
+  (state: BeefyState, walletAddress: string) =>
+    selectUserAnalytics(state, walletAddress)?.timeline.byVaultId,
+  (timelineByVaultId): VaultEntity['id'][] => Object.keys(timelineByVaultId || {})
+);
+
+const selectUserPortfolioTransactionsByVaultId = createCachedSelector(
+  (state: BeefyState, vaultId: VaultEntity['id'], walletAddress: string) =>
+    selectUserDepositedTimelineByVaultId(state, vaultId, walletAddress),
+  (timeline): PortfolioTimeseriesTransaction[] => {
+    if (!timeline) {
+      return [];
+    }
+
+    const transactions: PortfolioTimeseriesTransaction[] = [];
+    for (const entry of [...timeline.past, ...timeline.current]) {
+      if (isTimelineEntryStandard(entry)) {
+        // same as pnl, skip entries without a price
+        if (entry.underlyingToUsdPrice) {
+          transactions.push({
+            datetime: entry.datetime,
+            shares: entry.shareDiff,
+            sharesToUnderlying: entry.shareToUnderlyingPrice,
+            underlyingToUsd: entry.underlyingToUsdPrice,
+          });
+        }
+      } else {
+        transactions.push({
+          datetime: entry.datetime,
+          shares: entry.shareDiff,
+          sharesToUnderlying: entry.underlyingPerShare,
+          underlyingToUsd: entry.underlyingToUsd,
+        });
+      }
+    }
+
+    return transactions;
+  }
+)(
+  (_state: BeefyState, vaultId: VaultEntity['id'], walletAddress: string) =>
+    `${walletAddress}-${vaultId}`
+);
+
+export type DashboardPortfolioTimeseriesInputs = {
+  /** still waiting on price history for some vaults */
+  loading: boolean;
+  vaults: PortfolioTimeseriesVault[];
+};
+
+type PortfolioTimeseriesVaultInputs = {
+  loading: boolean;
+  vault: PortfolioTimeseriesVault;
+};
+
+const selectPortfolioDepositToken = (state: BeefyState, vaultId: VaultEntity['id']) => {
+  const vault = selectVaultById(state, vaultId);
+  return selectTokenByAddress(state, vault.chainId, vault.depositTokenAddress);
+};
+
+const selectPortfolioTimeseriesVaultInputs = createCachedSelector(
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    _timeBucket: GraphBucket
+  ) => selectVaultById(state, vaultId),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    _timeBucket: GraphBucket
+  ) => selectPortfolioDepositToken(state, vaultId),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    walletAddress: string,
+    _timeBucket: GraphBucket
+  ) => selectUserPortfolioTransactionsByVaultId(state, vaultId, walletAddress),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    timeBucket: GraphBucket
+  ) =>
+    selectShareToUnderlyingByVaultIdByInterval(
+      state,
+      vaultId,
+      getDataApiBucketIntervalKey(timeBucket)
+    ),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    timeBucket: GraphBucket
+  ) =>
+    selectHistoricalPriceBucketAlreadyFulfilled(
+      state,
+      selectPortfolioDepositToken(state, vaultId).oracleId,
+      timeBucket
+    ),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    timeBucket: GraphBucket
+  ) =>
+    selectHistoricalPriceBucketStatus(
+      state,
+      selectPortfolioDepositToken(state, vaultId).oracleId,
+      timeBucket
+    ),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    timeBucket: GraphBucket
+  ) =>
+    selectHistoricalPriceBucketData(
+      state,
+      selectPortfolioDepositToken(state, vaultId).oracleId,
+      timeBucket
+    ),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    _timeBucket: GraphBucket
+  ) => selectVaultPricePerFullShare(state, vaultId),
+  (
+    state: BeefyState,
+    vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    _timeBucket: GraphBucket
+  ) => {
+    const vault = selectVaultById(state, vaultId);
+    return selectTokenPriceByAddress(state, vault.chainId, vault.depositTokenAddress);
+  },
+  (
+    _state: BeefyState,
+    _vaultId: VaultEntity['id'],
+    _walletAddress: string,
+    timeBucket: GraphBucket
+  ) => timeBucket,
+  (
+    vault,
+    depositToken,
+    transactions,
+    sharesToUnderlyingBucket,
+    pricesFulfilled,
+    pricesStatus,
+    underlyingToUsd,
+    ppfs,
+    liveUnderlyingToUsd,
+    timeBucket
+  ): PortfolioTimeseriesVaultInputs => {
+    let loading = !pricesFulfilled && pricesStatus !== 'rejected';
+
+    let sharesToUnderlying: PortfolioTimeseriesVault['sharesToUnderlying'] = [];
+    if (hasShareToUnderlyingHistory(vault)) {
+      const { data, status, fulfilledSince } = sharesToUnderlyingBucket;
+      const needSince = getDataApiBucketRangeStartDateUnix(timeBucket);
+      const sharesFulfilled = fulfilledSince > 0 && fulfilledSince <= needSince;
+      if (!sharesFulfilled && status !== 'rejected') {
+        loading = true;
+      }
+      sharesToUnderlying = data;
+    }
+
+    return {
+      loading,
+      vault: {
+        vaultId: vault.id,
+        transactions,
+        sharesToUnderlying,
+        underlyingToUsd: underlyingToUsd || [],
+        // ppfs locally in app is stored as ppfs/1e18, we need to move it to same format as api
+        liveSharesToUnderlying:
+          isGovVault(vault) ? BIG_ONE : ppfs.shiftedBy(18 - depositToken.decimals),
+        liveUnderlyingToUsd,
+      },
+    };
+  }
+)(
+  (
+    _state: BeefyState,
+    vaultId: VaultEntity['id'],
+    walletAddress: string,
+    timeBucket: GraphBucket
+  ) => `${walletAddress}-${vaultId}-${timeBucket}`
+);
+
+const selectDashboardUserPortfolioTimeseriesVaultInputs = createCachedSelector(
+  (state: BeefyState, _walletAddress: string, _timeBucket: GraphBucket) => state,
+  (_state: BeefyState, walletAddress: string, _timeBucket: GraphBucket) => walletAddress,
+  (_state: BeefyState, _walletAddress: string, timeBucket: GraphBucket) => timeBucket,
+  (state, walletAddress, timeBucket) =>
+    selectDashboardUserTimelineVaultIds(state, walletAddress).map(vaultId =>
+      selectPortfolioTimeseriesVaultInputs(state, vaultId, walletAddress, timeBucket)
+    ),
+  // each vault's inputs are memoized, so only a changed vault gives a new array
+  { memoizeOptions: { resultEqualityCheck: isShallowEqualArray } }
+)(
+  (_state: BeefyState, walletAddress: string, timeBucket: GraphBucket) =>
+    `${walletAddress}-${timeBucket}`
+);
+
+/**
+ * Everything getPortfolioTimeseries needs for every vault the user has been in,
+ * price history that failed to load is left empty so only transaction/live prices are used
+ */
+export const selectDashboardUserPortfolioTimeseriesInputs = createCachedSelector(
+  selectDashboardUserPortfolioTimeseriesVaultInputs,
+  (vaultInputs): DashboardPortfolioTimeseriesInputs => ({
+    loading: vaultInputs.some(inputs => inputs.loading),
+    vaults: vaultInputs.map(inputs => inputs.vault),
+  })
+)(
+  (_state: BeefyState, walletAddress: string, timeBucket: GraphBucket) =>
+    `${walletAddress}-${timeBucket}`
+);
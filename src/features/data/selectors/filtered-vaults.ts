@@ -13,9 +13,12 @@ import escapeStringRegexp from 'escape-string-regexp';
 import type BigNumber from 'bignumber.js';
 import { selectVaultTotalApy } from './apy.ts';
 import { selectActivePromoForVault } from './promos.ts';
+import { parseVaultQuery, VaultQueryError, type VaultQueryNode } from '../utils/vault-query.ts';
+import { filtersToSearchParams, getFilterSearchString } from '../utils/filter-url-utils.ts';
 
 export const selectFilterOptions = (state: BeefyState) => state.ui.filteredVaults;
 export const selectFilterSearchText = (state: BeefyState) => state.ui.filteredVaults.searchText;
+export const selectFilterSearchMode = (state: BeefyState) => state.ui.filteredVaults.searchMode;
 export const selectFilterChainIds = (state: BeefyState) => state.ui.filteredVaults.chainIds;
 export const selectFilterSearchSortField = (state: BeefyState) => state.ui.filteredVaults.sort;
 export const selectFilterSearchSortDirection = (state: BeefyState) =>
@@ -27,6 +30,33 @@ export const selectFilterVaultCategory = (state: BeefyState) =>
   state.ui.filteredVaults.vaultCategory;
 export const selectFilterPlatformIds = (state: BeefyState) => state.ui.filteredVaults.platformIds;
 
+/**
+ * The parsed search text when in query mode.
+ * Undefined when not in query mode or the query is empty, so no vaults are filtered by it.
+ */
+export const selectFilterSearchQuery = createSelector(
+  selectFilterSearchMode,
+  selectFilterSearchText,
+  (searchMode, searchText): { query: VaultQueryNode } | { error: VaultQueryError } | undefined => {
+    if (searchMode !== 'query' || searchText.trim().length === 0) {
+      return undefined;
+    }
+    try {
+      return { query: parseVaultQuery(searchText) };
+    } catch (err: unknown) {
+      if (err instanceof VaultQueryError) {
+        return { error: err };
+      }
+      throw err;
+    }
+  }
+);
+
+/** The filters as they are written to the home page url, for comparing against it */
+export const selectFilterUrlSearchString = createSelector(selectFilterOptions, filterOptions =>
+  getFilterSearchString(filtersToSearchParams(filterOptions))
+);
+
 export const selectFilterBoolean = createCachedSelector(
   (_state: BeefyState, key: KeysOfType<FilteredVaultsState, boolean>) => key,
   (state: BeefyState) => state.ui.filteredVaults,
@@ -47,6 +77,7 @@ export const selectFilterPopinFilterCount = createSelector(
     (filterOptions.onlyBoosted ? 1 : 0) +
     (filterOptions.onlyZappable ? 1 : 0) +
     (filterOptions.onlyEarningPoints ? 1 : 0) +
+    (filterOptions.onlyRealYield ? 1 : 0) +
     (filterOptions.onlyUnstakedClm ? 1 : 0) +
     filterOptions.assetType.length +
     filterOptions.vaultCategory.length +
@@ -68,6 +99,7 @@ export const selectHasActiveFilterExcludingUserCategoryAndSort = createSelector(
     filterOptions.onlyBoosted ||
     filterOptions.onlyZappable ||
     filterOptions.onlyEarningPoints ||
+    filterOptions.onlyRealYield ||
     filterOptions.onlyUnstakedClm ||
     filterOptions.searchText !== '' ||
     filterOptions.platformIds.length > 0 ||
@@ -1,6 +1,33 @@
+import { createCachedSelector } from 're-reselect';
 import type { BeefyState } from '../../../redux-types.ts';
 import type { VaultEntity } from '../entities/vault.ts';
+import type { SavedVaultList } from '../reducers/saved-vaults.ts';
 
 export const selectIsVaultIdSaved = (state: BeefyState, vaultId: VaultEntity['id']) => {
   return !!state.ui.savedVaults.byVaultId[vaultId];
 };
+
+export const selectSavedVaultLists = (state: BeefyState) => state.ui.savedVaults.lists;
+
+export const selectSavedVaultListByIdOrUndefined = (
+  state: BeefyState,
+  listId: SavedVaultList['id']
+): SavedVaultList | undefined => state.ui.savedVaults.lists.find(list => list.id === listId);
+
+/** ids of the named lists containing the vault */
+export const selectSavedVaultListIdsByVaultId = createCachedSelector(
+  selectSavedVaultLists,
+  (_state: BeefyState, vaultId: VaultEntity['id']) => vaultId,
+  (lists, vaultId) => lists.filter(list => list.vaultIds.includes(vaultId)).map(list => list.id)
+)((_state: BeefyState, vaultId: VaultEntity['id']) => vaultId);
+
+/** whether the vault is in the default list or any named list */
+export const selectIsVaultIdInAnySavedList = (state: BeefyState, vaultId: VaultEntity['id']) =>
+  selectIsVaultIdSaved(state, vaultId) ||
+  selectSavedVaultListIdsByVaultId(state, vaultId).length > 0;
+
+export const selectIsVaultIdInSavedList = (
+  state: BeefyState,
+  listId: SavedVaultList['id'],
+  vaultId: VaultEntity['id']
+) => !!selectSavedVaultListByIdOrUndefined(state, listId)?.vaultIds.includes(vaultId);
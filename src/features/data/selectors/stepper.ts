@@ -304,3 +304,7 @@ export function selectZapReturned(state: BeefyState) {
 
   return tokenAmounts;
 }
+
+export const selectStepperPreflight = (state: BeefyState) => {
+  return state.ui.stepperState.preflight;
+};
@@ -0,0 +1,20 @@
+import type { BeefyState } from '../../../redux-types.ts';
+import type { ChainEntity } from '../entities/chain.ts';
+import { selectChainById } from './chains.ts';
+
+export const selectPrivateSubmissionEnabled = (state: BeefyState) =>
+  state.ui.userSettings.privateSubmission;
+
+export const selectChainSupportsPrivateSubmission = (
+  state: BeefyState,
+  chainId: ChainEntity['id']
+) => !!selectChainById(state, chainId).privateRpc;
+
+/**
+ * Returns the private relay rpc to submit txs to, if the user opted in and the chain has one
+ */
+export const selectPrivateRpcForChain = (
+  state: BeefyState,
+  chainId: ChainEntity['id']
+): string | undefined =>
+  selectPrivateSubmissionEnabled(state) ? selectChainById(state, chainId).privateRpc : undefined;
@@ -0,0 +1,158 @@
+import type { BeefyState } from '../../../redux-types.ts';
+import {
+  isVaultEarningPoints,
+  isVaultPaused,
+  isVaultRetired,
+  type VaultEntity,
+} from '../entities/vault.ts';
+import type {
+  VaultQueryComparison,
+  VaultQueryFlag,
+  VaultQueryNode,
+  VaultQueryNumberField,
+  VaultQueryTextField,
+} from '../utils/vault-query.ts';
+import { selectVaultApyYieldSplitOrUndefined, selectVaultTotalApyOrUndefined } from './apy.ts';
+import { selectVaultTvl } from './tvl.ts';
+import { selectChainById } from './chains.ts';
+import { selectVaultTokenSymbols } from './tokens.ts';
+import {
+  selectFilterPlatformIdsForVault,
+  selectVaultIsBoostedForFilter,
+} from './filtered-vaults.ts';
+import { selectIsVaultBlueChip, selectIsVaultCorrelated, selectIsVaultStable } from './vaults.ts';
+import { selectVaultSupportsZap } from './zap.ts';
+import { selectIsVaultIdInAnySavedList } from './saved-vaults.ts';
+
+function compare(a: number, op: VaultQueryComparison, b: number) {
+  switch (op) {
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '=':
+      return a === b;
+    case '!=':
+      return a !== b;
+    default: {
+      throw new Error(`Unknown comparison ${op}`);
+    }
+  }
+}
+
+/** undefined when the data is not loaded (yet), which never matches */
+function selectVaultQueryNumber(
+  state: BeefyState,
+  vault: VaultEntity,
+  field: VaultQueryNumberField
+): number | undefined {
+  switch (field) {
+    case 'apy': {
+      const apy = selectVaultTotalApyOrUndefined(state, vault.id);
+      return apy && (apy.boostedTotalApy ?? apy.totalApy);
+    }
+    case 'daily': {
+      const apy = selectVaultTotalApyOrUndefined(state, vault.id);
+      return apy && (apy.boostedTotalDaily ?? apy.totalDaily);
+    }
+    case 'realyield':
+      return selectVaultApyYieldSplitOrUndefined(state, vault.id)?.realYieldApr;
+    case 'tvl':
+      return selectVaultTvl(state, vault.id).toNumber();
+    case 'safety':
+      return vault.safetyScore;
+    default: {
+      throw new Error(`Unknown query field ${field}`);
+    }
+  }
+}
+
+/** lower case values of the field, any of which can match */
+function selectVaultQueryText(
+  state: BeefyState,
+  vault: VaultEntity,
+  field: VaultQueryTextField
+): string[] {
+  switch (field) {
+    case 'chain':
+      return [vault.chainId, selectChainById(state, vault.chainId).name.toLowerCase()];
+    case 'platform':
+      return [vault.platformId, ...selectFilterPlatformIdsForVault(state, vault)];
+    case 'token':
+      return selectVaultTokenSymbols(state, vault.id).map(symbol => symbol.toLowerCase());
+    case 'type':
+      return [vault.type];
+    case 'asset':
+      return [vault.assetType];
+    case 'name':
+      return [vault.names.list.toLowerCase()];
+    default: {
+      throw new Error(`Unknown query field ${field}`);
+    }
+  }
+}
+
+function selectVaultHasQueryFlag(state: BeefyState, vault: VaultEntity, flag: VaultQueryFlag) {
+  switch (flag) {
+    case 'active':
+      return vault.status === 'active';
+    case 'eol':
+      return isVaultRetired(vault);
+    case 'paused':
+      return isVaultPaused(vault);
+    case 'boosted':
+      return selectVaultIsBoostedForFilter(state, vault.id);
+    case 'zappable':
+      return selectVaultSupportsZap(state, vault.id);
+    case 'points':
+      return isVaultEarningPoints(vault);
+    case 'stable':
+      return selectIsVaultStable(state, vault.id);
+    case 'bluechip':
+      return selectIsVaultBlueChip(state, vault.id);
+    case 'correlated':
+      return selectIsVaultCorrelated(state, vault.id);
+    case 'saved':
+      return selectIsVaultIdInAnySavedList(state, vault.id);
+    default: {
+      throw new Error(`Unknown query flag ${flag}`);
+    }
+  }
+}
+
+/** Whether the vault matches a query parsed by parseVaultQuery */
+export function selectVaultMatchesQuery(
+  state: BeefyState,
+  vault: VaultEntity,
+  node: VaultQueryNode
+): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.nodes.every(n => selectVaultMatchesQuery(state, vault, n));
+    case 'or':
+      return node.nodes.some(n => selectVaultMatchesQuery(state, vault, n));
+    case 'not':
+      return !selectVaultMatchesQuery(state, vault, node.node);
+    case 'number': {
+      const value = selectVaultQueryNumber(state, vault, node.field);
+      return value !== undefined && compare(value, node.op, node.value);
+    }
+    case 'text': {
+      const values = selectVaultQueryText(state, vault, node.field);
+      // names are matched on any part
+      return node.field === 'name' ?
+          node.values.some(v => values.some(value => value.includes(v)))
+        : node.values.some(v => values.includes(v));
+    }
+    case 'flag':
+      return selectVaultHasQueryFlag(state, vault, node.flag);
+    default: {
+      // @ts-expect-error when all cases are covered
+      throw new Error(`Unknown query node ${node.type}`);
+    }
+  }
+}
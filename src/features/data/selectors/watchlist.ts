@@ -0,0 +1,14 @@
+import { createSelector } from '@reduxjs/toolkit';
+import type { BeefyState } from '../../../redux-types.ts';
+
+export const selectWatchlistEntries = (state: BeefyState) => state.ui.watchlist.entries;
+
+export const selectWatchlistAddresses = createSelector(selectWatchlistEntries, entries =>
+  entries.map(entry => entry.address)
+);
+
+export const selectIsAddressInWatchlist = (state: BeefyState, address: string) =>
+  selectWatchlistEntries(state).some(entry => entry.address === address.toLowerCase());
+
+export const selectWatchlistEntryByAddress = (state: BeefyState, address: string) =>
+  selectWatchlistEntries(state).find(entry => entry.address === address.toLowerCase());
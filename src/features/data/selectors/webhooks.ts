@@ -0,0 +1,43 @@
+import type { BeefyState } from '../../../redux-types.ts';
+import type { VaultEntity } from '../entities/vault.ts';
+import { isCowcentratedLikeVault } from '../entities/vault.ts';
+import type { WebhookVaultSnapshot } from '../reducers/webhooks.ts';
+import { selectVaultByIdOrUndefined } from './vaults.ts';
+import { selectActiveVaultBoostIds } from './boosts.ts';
+import { selectCurrentCowcentratedRangesByVaultId } from './tokens.ts';
+
+export const selectWebhookEndpoint = (state: BeefyState) => state.ui.webhooks.endpoint;
+
+export const selectWebhookTemplates = (state: BeefyState) => state.ui.webhooks.templates;
+
+export const selectWebhookSnapshots = (state: BeefyState) => state.ui.webhooks.snapshotByVaultId;
+
+export const selectWebhookDeliveries = (state: BeefyState) => state.ui.webhooks.deliveries;
+
+/** current state of the vault to compare against its last snapshot, undefined if the vault is unknown */
+export const selectWebhookVaultSnapshot = (
+  state: BeefyState,
+  vaultId: VaultEntity['id']
+): WebhookVaultSnapshot | undefined => {
+  const vault = selectVaultByIdOrUndefined(state, vaultId);
+  if (!vault) {
+    return undefined;
+  }
+
+  const snapshot: WebhookVaultSnapshot = {
+    status: vault.status,
+    boostIds: selectActiveVaultBoostIds(state, vaultId),
+  };
+
+  if (isCowcentratedLikeVault(vault)) {
+    const range = selectCurrentCowcentratedRangesByVaultId(state, vaultId);
+    if (range) {
+      snapshot.range = {
+        min: range.priceRangeMin.toString(10),
+        max: range.priceRangeMax.toString(10),
+      };
+    }
+  }
+
+  return snapshot;
+};
@@ -99,3 +99,8 @@ export function getMostCommon<T extends string>(arr: T[]): T {
   );
   return [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
 }
+
+/** Same length and same items by reference */
+export function isShallowEqualArray<T>(a: readonly T[], b: readonly T[]): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
@@ -97,3 +97,33 @@ export function createDependencyFactoryWithCacheByChain<T, D>(
     return factoryPromise;
   };
 }
+
+/**
+ * As {@link createDependencyFactoryWithCacheByChain}, but the factory also takes an initializer,
+ * so instances are cached per chain and initializer (compared via keyFn)
+ */
+export function createDependencyInitializerFactoryWithCacheByChain<T, D, I>(
+  factoryFn: (chain: ChainEntity, initializer: I, dependencies: D) => Promise<T>,
+  dependenciesFn: () => Promise<D>,
+  keyFn: (initializer: I) => string = initializer => JSON.stringify(initializer)
+): (chain: ChainEntity, initializer: I) => Promise<T> {
+  const factoryPromiseByKey: Record<string, Promise<T>> = {};
+  let dependenciesPromise: Promise<D> | undefined;
+
+  return async (chain: ChainEntity, initializer: I): Promise<T> => {
+    const key = `${chain.id}:${keyFn(initializer)}`;
+    let factoryPromise = factoryPromiseByKey[key];
+    if (factoryPromise === undefined) {
+      factoryPromise = (async () => {
+        if (dependenciesPromise === undefined) {
+          dependenciesPromise = dependenciesFn();
+        }
+
+        return factoryFn(chain, initializer, await dependenciesPromise);
+      })();
+      factoryPromiseByKey[key] = factoryPromise;
+    }
+
+    return factoryPromise;
+  };
+}
@@ -8,6 +8,10 @@ const DEFAULT_CHUNK_SIZE_BY_CHAIN: Record<string, number> = {
 };
 
 const getSearchParams = createFactory((): URLSearchParams => {
+  // no flags when selectors are run outside the browser, e.g. by scripts/checkReduxReplays.ts
+  if (typeof window === 'undefined') {
+    return new URLSearchParams();
+  }
   return new URLSearchParams(window.location.search);
 });
 
@@ -156,6 +160,23 @@ export function featureFlag_replayReduxActions() {
   return params.has('__replay_redux_actions');
 }
 
+export function featureFlag_rpcFixtures(): 'record' | 'replay' | undefined {
+  const isAuthorizedDomain =
+    window.location.hostname.endsWith('fleek.co') || window.location.hostname.endsWith('localhost');
+  if (!isAuthorizedDomain) {
+    return undefined;
+  }
+  const mode = getSearchParams().get('__rpc_fixtures');
+  if (mode === 'record' || mode === 'replay') {
+    return mode;
+  }
+  return undefined;
+}
+
+export function featureFlag_rpcFixturesUrl(): string {
+  return getParam('__rpc_fixtures_url', '/rpc-fixtures.json');
+}
+
 export function featureFlag_simulateRpcError(chainId: ChainEntity['id']) {
   const isAuthorizedDomain =
     window.location.hostname.endsWith('fleek.co') || window.location.hostname.endsWith('localhost');
@@ -255,6 +276,30 @@ export function featureFlag_OdosSwapSupport(): {
   return [];
 }
 
+export function featureFlag_zeroExSwapSupport(): {
+  chainId: string;
+  tokenAddress: string;
+}[] {
+  const params = getSearchParams();
+  if (params.has('__zero_ex_support')) {
+    return (params.get('__zero_ex_support') || '').split(',').map(s => {
+      const [chainId, tokenAddress] = s.split(':');
+      return { chainId, tokenAddress };
+    });
+  }
+  return [];
+}
+
+/** point all 0x compatible aggregators at another url, e.g. a local mock server */
+export function featureFlag_zeroExApiUrl(): string | undefined {
+  const isAuthorizedDomain =
+    window.location.hostname.endsWith('fleek.co') || window.location.hostname.endsWith('localhost');
+  if (!isAuthorizedDomain) {
+    return undefined;
+  }
+  return getParam<string | undefined>('__zero_ex_api_url', undefined, String);
+}
+
 export function featureFlag_disableOneInch(): boolean {
   const params = getSearchParams();
   return params.has('__disable_one_inch');
@@ -270,6 +315,36 @@ export function featureFlag_disableOdos(): boolean {
   return params.has('__disable_odos');
 }
 
+export function featureFlag_disableZeroEx(): boolean {
+  const params = getSearchParams();
+  return params.has('__disable_zero_ex');
+}
+
+export function featureFlag_disableQuoteCache(): boolean {
+  const params = getSearchParams();
+  return params.has('__disable_quote_cache');
+}
+
+/** Overrides the swap quote cache ttl (ms) for all chains */
+export function featureFlag_quoteCacheTtl(): number | undefined {
+  return getParam<number | undefined>('__quote_cache_ttl', undefined, parseInt);
+}
+
+export function featureFlag_disableSwapSplit(): boolean {
+  const params = getSearchParams();
+  return params.has('__disable_swap_split');
+}
+
+/** Minimum USD value of a swap before quotes split across providers are tried */
+export function featureFlag_swapSplitMinUsd(): number {
+  return getParam('__swap_split_min_usd', 10_000, parseFloat);
+}
+
+export function featureFlag_disablePreflight(): boolean {
+  const params = getSearchParams();
+  return params.has('__disable_preflight');
+}
+
 export function featureFlag_detailedTooltips(): boolean {
   if (import.meta.env.VITE_DETAILED_TOOLTIPS === 'true') {
     return true;
@@ -0,0 +1,188 @@
+import BigNumber from 'bignumber.js';
+import type { FilteredVaultBooleanKeys, FilteredVaultsState } from '../reducers/filtered-vaults.ts';
+import type {
+  SortType,
+  StrategiesType,
+  VaultAssetType,
+  VaultCategoryType,
+} from '../reducers/filtered-vaults-types.ts';
+
+/** The part of the filter state that is shared through the home page url */
+export type UrlFilters = Pick<
+  FilteredVaultsState,
+  | 'sort'
+  | 'sortDirection'
+  | 'chainIds'
+  | 'platformIds'
+  | 'vaultCategory'
+  | 'assetType'
+  | 'strategyType'
+  | 'searchText'
+  | 'searchMode'
+  | 'onlyRetired'
+  | 'onlyPaused'
+  | 'onlyBoosted'
+  | 'onlyZappable'
+  | 'onlyEarningPoints'
+  | 'onlyRealYield'
+  | 'onlyUnstakedClm'
+  | 'showMinimumUnderlyingTvl'
+  | 'minimumUnderlyingTvl'
+>;
+
+export const DEFAULT_URL_FILTERS: UrlFilters = {
+  sort: 'default',
+  sortDirection: 'desc',
+  chainIds: [],
+  platformIds: [],
+  vaultCategory: [],
+  assetType: [],
+  strategyType: 'all',
+  searchText: '',
+  searchMode: 'text',
+  onlyRetired: false,
+  onlyPaused: false,
+  onlyBoosted: false,
+  onlyZappable: false,
+  onlyEarningPoints: false,
+  onlyRealYield: false,
+  onlyUnstakedClm: false,
+  showMinimumUnderlyingTvl: false,
+  minimumUnderlyingTvl: new BigNumber(0),
+};
+
+const SORT_TYPES: SortType[] = [
+  'tvl',
+  'apy',
+  'daily',
+  'realYield',
+  'safetyScore',
+  'default',
+  'depositValue',
+  'walletValue',
+];
+const VAULT_CATEGORIES: VaultCategoryType[] = ['stable', 'bluechip', 'correlated'];
+const ASSET_TYPES: VaultAssetType[] = ['lps', 'single', 'clm'];
+const STRATEGY_TYPES: StrategiesType[] = ['all', 'pools', 'vaults'];
+
+/** query param for each boolean toggle, set to 1 when on */
+const BOOLEAN_PARAMS = {
+  onlyRetired: 'retired',
+  onlyPaused: 'paused',
+  onlyBoosted: 'boosted',
+  onlyZappable: 'zappable',
+  onlyEarningPoints: 'points',
+  onlyRealYield: 'realYield',
+  onlyUnstakedClm: 'unstaked',
+} as const satisfies Partial<Record<FilteredVaultBooleanKeys, string>>;
+
+/** all query params read/written by filtersToSearchParams/searchParamsToFilters */
+export const FILTER_URL_PARAMS = [
+  'sort',
+  'dir',
+  'chains',
+  'platforms',
+  'categories',
+  'assets',
+  'strategy',
+  'search',
+  'query',
+  'minTvl',
+  ...Object.values(BOOLEAN_PARAMS),
+];
+
+function parseList<T extends string>(value: string | null, valid?: readonly T[]): T[] {
+  if (!value) {
+    return [];
+  }
+  const items = value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+  return Array.from(
+    new Set(valid ? items.filter((item): item is T => valid.includes(item as T)) : (items as T[]))
+  );
+}
+
+function parseOne<T extends string>(value: string | null, valid: readonly T[], defaultValue: T): T {
+  return value && valid.includes(value as T) ? (value as T) : defaultValue;
+}
+
+/** Only non-default values are written, so the default filters have an empty query string */
+export function filtersToSearchParams(filters: UrlFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.sort !== DEFAULT_URL_FILTERS.sort) {
+    params.set('sort', filters.sort);
+  }
+  if (filters.sortDirection !== DEFAULT_URL_FILTERS.sortDirection) {
+    params.set('dir', filters.sortDirection);
+  }
+  if (filters.chainIds.length) {
+    params.set('chains', filters.chainIds.join(','));
+  }
+  if (filters.platformIds.length) {
+    params.set('platforms', filters.platformIds.join(','));
+  }
+  if (filters.vaultCategory.length) {
+    params.set('categories', filters.vaultCategory.join(','));
+  }
+  if (filters.assetType.length) {
+    params.set('assets', filters.assetType.join(','));
+  }
+  if (filters.strategyType !== DEFAULT_URL_FILTERS.strategyType) {
+    params.set('strategy', filters.strategyType);
+  }
+  if (filters.searchText.trim()) {
+    params.set(filters.searchMode === 'query' ? 'query' : 'search', filters.searchText.trim());
+  }
+  for (const [key, param] of Object.entries(BOOLEAN_PARAMS)) {
+    if (filters[key as keyof typeof BOOLEAN_PARAMS]) {
+      params.set(param, '1');
+    }
+  }
+  if (filters.showMinimumUnderlyingTvl && filters.minimumUnderlyingTvl.gt(0)) {
+    params.set('minTvl', filters.minimumUnderlyingTvl.toString(10));
+  }
+  return params;
+}
+
+/** Missing or invalid params are set to their default */
+export function searchParamsToFilters(params: URLSearchParams): UrlFilters {
+  const query = params.get('query');
+  const minTvl = new BigNumber(params.get('minTvl') || '0');
+  const filters: UrlFilters = {
+    ...DEFAULT_URL_FILTERS,
+    sort: parseOne(params.get('sort'), SORT_TYPES, DEFAULT_URL_FILTERS.sort),
+    sortDirection: parseOne(params.get('dir'), ['asc', 'desc'], DEFAULT_URL_FILTERS.sortDirection),
+    chainIds: parseList(params.get('chains')),
+    platformIds: parseList(params.get('platforms')),
+    vaultCategory: parseList(params.get('categories'), VAULT_CATEGORIES),
+    assetType: parseList(params.get('assets'), ASSET_TYPES),
+    strategyType: parseOne(
+      params.get('strategy'),
+      STRATEGY_TYPES,
+      DEFAULT_URL_FILTERS.strategyType
+    ),
+    searchText: (query ?? params.get('search') ?? '').trim(),
+    searchMode: query ? 'query' : 'text',
+    showMinimumUnderlyingTvl: minTvl.isFinite() && minTvl.gt(0),
+    minimumUnderlyingTvl:
+      minTvl.isFinite() && minTvl.gt(0) ? minTvl : DEFAULT_URL_FILTERS.minimumUnderlyingTvl,
+  };
+  for (const [key, param] of Object.entries(BOOLEAN_PARAMS)) {
+    filters[key as keyof typeof BOOLEAN_PARAMS] = params.get(param) === '1';
+  }
+  return filters;
+}
+
+/** The filter params of the query string, in a stable order so they can be compared */
+export function getFilterSearchString(params: URLSearchParams): string {
+  const filterParams = new URLSearchParams();
+  for (const param of FILTER_URL_PARAMS) {
+    const value = params.get(param);
+    if (value !== null) {
+      filterParams.set(param, value);
+    }
+  }
+  return filterParams.toString();
+}
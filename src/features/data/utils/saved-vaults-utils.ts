@@ -0,0 +1,68 @@
+import type { SavedVaultList } from '../reducers/saved-vaults.ts';
+
+/** what is exported/imported, list ids are local to each browser */
+export type SavedVaultListExport = Pick<SavedVaultList, 'name' | 'vaultIds'>;
+
+/** query params of the share url */
+export const SAVED_LIST_NAME_PARAM = 'list';
+export const SAVED_LIST_VAULTS_PARAM = 'vaults';
+
+export class SavedVaultListImportError extends Error {
+  constructor(message: string, cause?: Error) {
+    super(message, { cause });
+    this.name = 'SavedVaultListImportError';
+  }
+}
+
+export function toSavedVaultListExport(list: SavedVaultListExport): SavedVaultListExport {
+  return { name: list.name, vaultIds: list.vaultIds };
+}
+
+/**
+ * Validates an exported list
+ * @throws SavedVaultListImportError if the json is invalid or is not a list
+ */
+export function parseSavedVaultListJson(json: string): SavedVaultListExport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err: unknown) {
+    throw new SavedVaultListImportError('Invalid JSON', err instanceof Error ? err : undefined);
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new SavedVaultListImportError('Expected an object with name and vaultIds');
+  }
+  const { name, vaultIds } = parsed as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new SavedVaultListImportError('Missing list name');
+  }
+  if (!Array.isArray(vaultIds) || vaultIds.some(id => typeof id !== 'string')) {
+    throw new SavedVaultListImportError('vaultIds must be an array of vault ids');
+  }
+
+  return { name: name.trim(), vaultIds: Array.from(new Set(vaultIds as string[])) };
+}
+
+/** the query string of the list's share url, without the leading ? */
+export function savedVaultListToSearchParams(list: SavedVaultListExport): string {
+  const params = new URLSearchParams();
+  params.set(SAVED_LIST_NAME_PARAM, list.name);
+  params.set(SAVED_LIST_VAULTS_PARAM, list.vaultIds.join(','));
+  return params.toString();
+}
+
+/** undefined if the params do not contain a list */
+export function parseSavedVaultListSearchParams(
+  params: URLSearchParams
+): SavedVaultListExport | undefined {
+  const name = params.get(SAVED_LIST_NAME_PARAM)?.trim();
+  const vaultIds = (params.get(SAVED_LIST_VAULTS_PARAM) || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
+  if (!name || vaultIds.length === 0) {
+    return undefined;
+  }
+  return { name, vaultIds: Array.from(new Set(vaultIds)) };
+}
@@ -0,0 +1,309 @@
+/**
+ * Query language for the vault list search box, e.g.
+ * `apy > 15 and safety >= 8 and chain in (base, arbitrum) and token:USDC and not eol`
+ *
+ * query      := or
+ * or         := and ('or' and)*
+ * and        := not ('and'? not)*
+ * not        := 'not' not | primary
+ * primary    := '(' or ')' | field op value | field 'in' '(' value (',' value)* ')' | flag
+ * op         := '>' | '>=' | '<' | '<=' | '=' | '!=' | ':'
+ */
+
+export const VAULT_QUERY_NUMBER_FIELDS = ['apy', 'daily', 'realyield', 'tvl', 'safety'] as const;
+export type VaultQueryNumberField = (typeof VAULT_QUERY_NUMBER_FIELDS)[number];
+
+export const VAULT_QUERY_TEXT_FIELDS = [
+  'chain',
+  'platform',
+  'token',
+  'type',
+  'asset',
+  'name',
+] as const;
+export type VaultQueryTextField = (typeof VAULT_QUERY_TEXT_FIELDS)[number];
+
+export const VAULT_QUERY_FLAGS = [
+  'active',
+  'eol',
+  'paused',
+  'boosted',
+  'zappable',
+  'points',
+  'stable',
+  'bluechip',
+  'correlated',
+  'saved',
+] as const;
+export type VaultQueryFlag = (typeof VAULT_QUERY_FLAGS)[number];
+
+export type VaultQueryComparison = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export type VaultQueryNode =
+  | { type: 'and'; nodes: VaultQueryNode[] }
+  | { type: 'or'; nodes: VaultQueryNode[] }
+  | { type: 'not'; node: VaultQueryNode }
+  /** apy, daily and realyield are fractions, tvl is usd */
+  | { type: 'number'; field: VaultQueryNumberField; op: VaultQueryComparison; value: number }
+  /** values are lower case; matches when the field equals any of them */
+  | { type: 'text'; field: VaultQueryTextField; values: string[] }
+  | { type: 'flag'; flag: VaultQueryFlag };
+
+export class VaultQueryError extends Error {
+  /** index in the query string the error was found at */
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'VaultQueryError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'op'; value: VaultQueryComparison | ':'; position: number }
+  | { type: '(' | ')' | ','; position: number }
+  | { type: 'end'; position: number };
+
+const WORD_CHAR = /[A-Za-z0-9_.$%+-]/;
+const TWO_CHAR_OPS = ['>=', '<=', '!='];
+const ONE_CHAR_OPS = ['>', '<', '=', ':'];
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      ++i;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char, position: i });
+      ++i;
+    } else if (TWO_CHAR_OPS.includes(query.substring(i, i + 2))) {
+      tokens.push({
+        type: 'op',
+        value: query.substring(i, i + 2) as VaultQueryComparison,
+        position: i,
+      });
+      i += 2;
+    } else if (ONE_CHAR_OPS.includes(char)) {
+      tokens.push({ type: 'op', value: char as VaultQueryComparison | ':', position: i });
+      ++i;
+    } else if (char === '"' || char === "'") {
+      const end = query.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new VaultQueryError('Unterminated string', i);
+      }
+      tokens.push({ type: 'string', value: query.substring(i + 1, end), position: i });
+      i = end + 1;
+    } else if (WORD_CHAR.test(char)) {
+      const start = i;
+      while (i < query.length && WORD_CHAR.test(query[i])) {
+        ++i;
+      }
+      tokens.push({ type: 'word', value: query.substring(start, i), position: start });
+    } else {
+      throw new VaultQueryError(`Unexpected character '${char}'`, i);
+    }
+  }
+  tokens.push({ type: 'end', position: query.length });
+  return tokens;
+}
+
+const NUMBER_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+function isKeyword(token: Token, keyword: string) {
+  return token.type === 'word' && token.value.toLowerCase() === keyword;
+}
+
+function includes<T extends string>(list: readonly T[], value: string): value is T {
+  return (list as readonly string[]).includes(value);
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): VaultQueryNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new VaultQueryError(this.describe(token, 'Unexpected'), token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private describe(token: Token, prefix: string) {
+    switch (token.type) {
+      case 'end':
+        return `${prefix} end of query`;
+      case 'word':
+      case 'string':
+      case 'op':
+        return `${prefix} '${token.value}'`;
+      default:
+        return `${prefix} '${token.type}'`;
+    }
+  }
+
+  private expect<T extends Token['type']>(type: T): Extract<Token, { type: T }> {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new VaultQueryError(
+        this.describe(token, `Expected '${type}' but found`),
+        token.position
+      );
+    }
+    return token as Extract<Token, { type: T }>;
+  }
+
+  private parseOr(): VaultQueryNode {
+    const nodes = [this.parseAnd()];
+    while (isKeyword(this.peek(), 'or')) {
+      this.next();
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  }
+
+  private parseAnd(): VaultQueryNode {
+    const nodes = [this.parseNot()];
+    for (;;) {
+      const token = this.peek();
+      if (isKeyword(token, 'and')) {
+        this.next();
+      } else if (token.type === 'end' || token.type === ')' || isKeyword(token, 'or')) {
+        break;
+      }
+      // implicit and between terms
+      nodes.push(this.parseNot());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  }
+
+  private parseNot(): VaultQueryNode {
+    if (isKeyword(this.peek(), 'not')) {
+      this.next();
+      return { type: 'not', node: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): VaultQueryNode {
+    const token = this.next();
+    if (token.type === '(') {
+      const node = this.parseOr();
+      this.expect(')');
+      return node;
+    }
+    if (token.type !== 'word') {
+      throw new VaultQueryError(this.describe(token, 'Unexpected'), token.position);
+    }
+
+    const name = token.value.toLowerCase();
+    const following = this.peek();
+    if (following.type === 'op' || isKeyword(following, 'in')) {
+      return this.parseField(name, token.position);
+    }
+    if (includes(VAULT_QUERY_FLAGS, name)) {
+      return { type: 'flag', flag: name };
+    }
+    if (includes(VAULT_QUERY_NUMBER_FIELDS, name) || includes(VAULT_QUERY_TEXT_FIELDS, name)) {
+      throw new VaultQueryError(
+        this.describe(following, 'Expected an operator but found'),
+        following.position
+      );
+    }
+    throw new VaultQueryError(`Unknown filter '${token.value}'`, token.position);
+  }
+
+  private parseField(field: string, position: number): VaultQueryNode {
+    const opToken = this.next();
+    const values = opToken.type === 'op' ? [this.parseValue()] : this.parseValueList();
+
+    if (includes(VAULT_QUERY_NUMBER_FIELDS, field)) {
+      if (opToken.type !== 'op') {
+        throw new VaultQueryError(`'in' is not supported for ${field}`, opToken.position);
+      }
+      return {
+        type: 'number',
+        field,
+        op: opToken.value === ':' ? '=' : opToken.value,
+        value: this.parseNumber(field, values[0]),
+      };
+    }
+
+    if (includes(VAULT_QUERY_TEXT_FIELDS, field)) {
+      if (opToken.type === 'op' && !['=', '!=', ':'].includes(opToken.value)) {
+        throw new VaultQueryError(
+          `'${opToken.value}' is not supported for ${field}`,
+          opToken.position
+        );
+      }
+      const node: VaultQueryNode = {
+        type: 'text',
+        field,
+        values: values.map(value => value.value.toLowerCase()),
+      };
+      return opToken.type === 'op' && opToken.value === '!=' ? { type: 'not', node } : node;
+    }
+
+    throw new VaultQueryError(`Unknown field '${field}'`, position);
+  }
+
+  private parseValue(): { value: string; position: number } {
+    const token = this.next();
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new VaultQueryError(this.describe(token, 'Expected a value but found'), token.position);
+    }
+    return { value: token.value, position: token.position };
+  }
+
+  private parseValueList(): { value: string; position: number }[] {
+    this.expect('(');
+    const values = [this.parseValue()];
+    while (this.peek().type === ',') {
+      this.next();
+      values.push(this.parseValue());
+    }
+    this.expect(')');
+    return values;
+  }
+
+  private parseNumber(
+    field: VaultQueryNumberField,
+    { value, position }: { value: string; position: number }
+  ): number {
+    const match = value.toLowerCase().match(/^\$?(\d+(?:\.\d+)?|\.\d+)([kmb%]?)$/);
+    if (!match) {
+      throw new VaultQueryError(`Expected a number for ${field} but found '${value}'`, position);
+    }
+    const [, digits, suffix] = match;
+    const number = parseFloat(digits) * (NUMBER_SUFFIXES[suffix] || 1);
+    // percentages are entered as e.g. 15 or 15%
+    return field === 'apy' || field === 'daily' || field === 'realyield' ? number / 100 : number;
+  }
+}
+
+/**
+ * Parses a query typed in the vault list search box
+ * @throws VaultQueryError with the position of the first syntax error
+ */
+export function parseVaultQuery(query: string): VaultQueryNode {
+  const tokens = tokenize(query);
+  if (tokens.length === 1) {
+    throw new VaultQueryError('Query is empty', 0);
+  }
+  return new Parser(tokens).parse();
+}
@@ -1,5 +1,8 @@
 import {
+  isCowcentratedLikeVault,
   isCowcentratedVault,
+  isErc4626Vault,
+  isStandardVault,
   type VaultCowcentratedLike,
   type VaultEntity,
   type VaultNames,
@@ -52,3 +55,8 @@ export function getCowcentratedAddressFromCowcentratedLikeVault(
     isCowcentratedVault(vault) ? vault.receiptTokenAddress : vault.depositTokenAddress
   ).toLowerCase();
 }
+
+/** whether fetchShareToUnderlying has a share price history for this vault */
+export function hasShareToUnderlyingHistory(vault: VaultEntity): boolean {
+  return (isStandardVault(vault) && !isCowcentratedLikeVault(vault)) || isErc4626Vault(vault);
+}
@@ -0,0 +1,98 @@
+import type { WebhookEvent, WebhookEventType } from '../reducers/webhooks.ts';
+
+/** payload templates are JSON with {{placeholder}} values, see getWebhookEventParams */
+export const DEFAULT_WEBHOOK_TEMPLATES: Record<WebhookEventType, string> = {
+  'vault-status': `{
+  "event": "{{event}}",
+  "vaultId": "{{vaultId}}",
+  "vaultName": "{{vaultName}}",
+  "chainId": "{{chainId}}",
+  "walletAddress": "{{walletAddress}}",
+  "status": "{{status}}",
+  "previousStatus": "{{previousStatus}}",
+  "timestamp": "{{timestamp}}"
+}`,
+  'new-boost': `{
+  "event": "{{event}}",
+  "vaultId": "{{vaultId}}",
+  "vaultName": "{{vaultName}}",
+  "chainId": "{{chainId}}",
+  "walletAddress": "{{walletAddress}}",
+  "boostId": "{{boostId}}",
+  "timestamp": "{{timestamp}}"
+}`,
+  'clm-range': `{
+  "event": "{{event}}",
+  "vaultId": "{{vaultId}}",
+  "vaultName": "{{vaultName}}",
+  "chainId": "{{chainId}}",
+  "walletAddress": "{{walletAddress}}",
+  "rangeMin": "{{rangeMin}}",
+  "rangeMax": "{{rangeMax}}",
+  "previousRangeMin": "{{previousRangeMin}}",
+  "previousRangeMax": "{{previousRangeMax}}",
+  "timestamp": "{{timestamp}}"
+}`,
+};
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(DEFAULT_WEBHOOK_TEMPLATES) as WebhookEventType[];
+
+const TEST_EVENT_PARAMS: Record<WebhookEventType, Record<string, string>> = {
+  'vault-status': { status: 'paused', previousStatus: 'active' },
+  'new-boost': { boostId: 'example-boost' },
+  'clm-range': {
+    rangeMin: '0.95',
+    rangeMax: '1.05',
+    previousRangeMin: '0.9',
+    previousRangeMax: '1',
+  },
+};
+
+/** event with example values, used to check templates and send test deliveries */
+export function getWebhookTestEvent(type: WebhookEventType): WebhookEvent {
+  return {
+    type,
+    vaultId: 'example-vault',
+    params: {
+      event: type,
+      vaultId: 'example-vault',
+      vaultName: 'Example Vault',
+      chainId: 'ethereum',
+      walletAddress: '0x0000000000000000000000000000000000000000',
+      timestamp: new Date().toISOString(),
+      ...TEST_EVENT_PARAMS[type],
+    },
+  };
+}
+
+export class WebhookTemplateError extends Error {
+  constructor(message: string, cause?: Error) {
+    super(message, { cause });
+    this.name = 'WebhookTemplateError';
+  }
+}
+
+/**
+ * Replaces each {{placeholder}} in the template with its JSON escaped value,
+ * so placeholders can be used inside JSON strings.
+ * Throws if a placeholder is unknown or the result is not valid JSON.
+ */
+export function renderWebhookTemplate(template: string, params: Record<string, string>): string {
+  const body = template.replace(/{{\s*(\w+)\s*}}/g, (_, key: string) => {
+    if (!(key in params)) {
+      throw new WebhookTemplateError(`Unknown placeholder {{${key}}}`);
+    }
+    return JSON.stringify(params[key]).slice(1, -1);
+  });
+
+  try {
+    JSON.parse(body);
+  } catch (err: unknown) {
+    throw new WebhookTemplateError(
+      'Template is not valid JSON',
+      err instanceof Error ? err : undefined
+    );
+  }
+
+  return body;
+}
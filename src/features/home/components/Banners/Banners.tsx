@@ -2,11 +2,13 @@ import { memo } from 'react';
 import { BusdBannerHome } from '../../../../components/Banners/BusdBanner/BusdBannerHome.tsx';
 import { UnstakedClmBanner } from '../../../../components/Banners/UnstakedClmBanner/UnstakedClmBanner.tsx';
 import { styled } from '@repo/styles/jsx';
+import { SavedListImportBanner } from '../SavedLists/SavedListImportBanner.tsx';
 
 export const Banners = memo(function Banners() {
   return (
     <BannerList>
       {/* <AnnouncementBanner /> */}
+      <SavedListImportBanner />
       <UnstakedClmBanner />
       <BusdBannerHome />
     </BannerList>
@@ -2,6 +2,7 @@ import { memo } from 'react';
 import { ChainButtonFilter } from './components/ChainFilters/ChainButtonFilter.tsx';
 import { ChainDropdownFilter } from './components/ChainFilters/ChainDropdownFilter.tsx';
 import { UserCategoryButtonFilter } from './components/UserCategoryFilters/UserCategoryButtonFilter.tsx';
+import { SavedListFilter } from './components/UserCategoryFilters/SavedListFilter.tsx';
 import { AssetTypeButtonFilter } from './components/AssetTypeFilters/AssetTypeButtonFilter.tsx';
 import { ExtendedFiltersButtonDropdown } from './components/ExtendedFilters/ExtendedFiltersButtonDropdown.tsx';
 import { ClearFiltersButton } from './components/ClearFiltersButton/ClearFiltersButton.tsx';
@@ -10,9 +11,11 @@ import { StrategyTypeButtonFilter } from './components/StrategyTypeFilters/Strat
 import { useBreakpoint } from '../../../../components/MediaQueries/useBreakpoint.ts';
 import { styled } from '@repo/styles/jsx';
 import { ExtendedFiltersButtonSidebar } from './components/ExtendedFilters/ExtendedFiltersButtonSidebar.tsx';
+import { useFilterUrlSync } from './hooks.ts';
 
 export const Filters = memo(function Filters() {
   const isDesktop = useBreakpoint({ from: 'lg' });
+  useFilterUrlSync();
 
   return isDesktop ? <DesktopLayout /> : <MobileLayout />;
 });
@@ -26,6 +29,7 @@ const MobileLayout = memo(function MobileLayout() {
       <Bottom>
         <Left>
           <ChainDropdownFilter />
+          <SavedListFilter />
         </Left>
         <Right>
           <ExtendedFiltersButtonSidebar />
@@ -45,6 +49,7 @@ const DesktopLayout = memo(function DesktopLayout() {
       <Bottom>
         <Left>
           <UserCategoryButtonFilter />
+          <SavedListFilter />
         </Left>
         <Right>
           <VaultCategoryButtonFilter />
@@ -36,7 +36,9 @@ export const CheckboxFilter = memo(function CheckboxFilter({
     <LabelledCheckbox
       label={
         <>
-          {icon ? <div className={classes.labelIcon}>{icon}</div> : null}
+          {icon ?
+            <div className={classes.labelIcon}>{icon}</div>
+          : null}
           {label}
         </>
       }
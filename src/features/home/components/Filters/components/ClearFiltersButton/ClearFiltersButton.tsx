@@ -31,11 +31,9 @@ export const ClearFiltersButton = memo(function ClearFiltersButton({
 
   return (
     <Button css={cssProp} variant="filter" size="sm" disabled={!active} onClick={handleReset}>
-      {count > 0 ? (
+      {count > 0 ?
         <span className={classes.badge} data-count={count} />
-      ) : (
-        <Clear className={classes.icon} />
-      )}
+      : <Clear className={classes.icon} />}
       {t('Filter-ClearAll')}
     </Button>
   );
@@ -30,16 +30,17 @@ export const ExtendedFilters = memo(function ExtendedFilters({
       <CheckboxFilter filter="onlyBoosted" label={t('Filter-Boost')} />
       <CheckboxFilter filter="onlyEarningPoints" label={t('Filter-Points')} />
       <CheckboxFilter filter="onlyZappable" label={t('Filter-Zappable')} />
+      <CheckboxFilter filter="onlyRealYield" label={t('Filter-RealYield')} />
       <CheckboxFilter filter="onlyRetired" label={t('Filter-Retired')} />
       <CheckboxFilter filter="onlyPaused" label={t('Filter-Paused')} />
       <MinTvlFilter />
-      {!desktopView ? (
+      {!desktopView ?
         <>
           <VaultCategoryDropdownFilter layer={1} />
           <AssetTypeDropdownFilter layer={1} />
           <StrategyTypeDropdownFilter layer={1} />
         </>
-      ) : null}
+      : null}
       <PlatformDropdownFilter placement={platformFilterPlacement} />
     </div>
   );
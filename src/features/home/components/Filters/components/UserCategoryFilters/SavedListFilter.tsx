@@ -0,0 +1,65 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch, useAppSelector } from '../../../../../../store.ts';
+import { selectFilterUserCategory } from '../../../../../data/selectors/filtered-vaults.ts';
+import { selectSavedVaultLists } from '../../../../../data/selectors/saved-vaults.ts';
+import { filteredVaultsActions } from '../../../../../data/reducers/filtered-vaults.ts';
+import {
+  getSavedListCategory,
+  isSavedListCategory,
+  type UserCategoryType,
+} from '../../../../../data/reducers/filtered-vaults-types.ts';
+import { Select } from '../../../../../../components/Form/Select/Single/Select.tsx';
+import { Button } from '../../../../../../components/Button/Button.tsx';
+import { SavedListsModal } from '../../../SavedLists/SavedListsModal.tsx';
+
+/** Picks which saved list to show, when the saved user category is selected */
+export const SavedListFilter = memo(function SavedListFilter() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const value = useAppSelector(selectFilterUserCategory);
+  const lists = useAppSelector(selectSavedVaultLists);
+  const options = useMemo(
+    () => [
+      { value: 'saved', label: t('Filter-Saved') },
+      ...lists.map(list => ({ value: getSavedListCategory(list.id), label: list.name })),
+    ],
+    [lists, t]
+  );
+  const handleChange = useCallback(
+    (value: string) => {
+      dispatch(filteredVaultsActions.setUserCategory(value as UserCategoryType));
+    },
+    [dispatch]
+  );
+  const handleModalOpen = useCallback(() => {
+    setIsModalOpen(true);
+  }, [setIsModalOpen]);
+  const handleModalClose = useCallback(() => {
+    setIsModalOpen(false);
+  }, [setIsModalOpen]);
+
+  if (value !== 'saved' && !isSavedListCategory(value)) {
+    return null;
+  }
+
+  return (
+    <>
+      {lists.length > 0 ?
+        <Select
+          labelPrefix={t('SavedLists-List')}
+          selected={value}
+          options={options}
+          onChange={handleChange}
+          variant="filter"
+          size="sm"
+        />
+      : null}
+      <Button variant="filter" size="sm" onClick={handleModalOpen}>
+        {t('SavedLists-Manage')}
+      </Button>
+      <SavedListsModal open={isModalOpen} onClose={handleModalClose} />
+    </>
+  );
+});
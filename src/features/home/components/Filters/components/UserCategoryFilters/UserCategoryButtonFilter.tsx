@@ -5,7 +5,10 @@ import { useAppDispatch, useAppSelector } from '../../../../../../store.ts';
 import { selectFilterUserCategory } from '../../../../../data/selectors/filtered-vaults.ts';
 import { filteredVaultsActions } from '../../../../../data/reducers/filtered-vaults.ts';
 import { CATEGORY_OPTIONS } from './category-options.ts';
-import type { UserCategoryType } from '../../../../../data/reducers/filtered-vaults-types.ts';
+import {
+  isSavedListCategory,
+  type UserCategoryType,
+} from '../../../../../data/reducers/filtered-vaults-types.ts';
 import { entries } from '../../../../../../helpers/object.ts';
 
 export const UserCategoryButtonFilter = memo(function UserCategoryButtonFilter() {
@@ -15,7 +18,9 @@ export const UserCategoryButtonFilter = memo(function UserCategoryButtonFilter()
     () => entries(CATEGORY_OPTIONS).map(([key, label]) => ({ value: key, label: t(label) })),
     [t]
   );
-  const value = useAppSelector(selectFilterUserCategory);
+  const userCategory = useAppSelector(selectFilterUserCategory);
+  // named saved lists are picked by SavedListFilter
+  const value = isSavedListCategory(userCategory) ? 'saved' : userCategory;
   const handleChange = useCallback(
     (value: UserCategoryType) => {
       dispatch(filteredVaultsActions.setUserCategory(value));
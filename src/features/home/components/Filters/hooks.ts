@@ -0,0 +1,77 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { selectFilterUrlSearchString } from '../../../data/selectors/filtered-vaults.ts';
+import { filteredVaultsActions } from '../../../data/reducers/filtered-vaults.ts';
+import {
+  FILTER_URL_PARAMS,
+  getFilterSearchString,
+  searchParamsToFilters,
+} from '../../../data/utils/filter-url-utils.ts';
+
+function withoutSearch(search: string) {
+  const params = new URLSearchParams(search);
+  params.delete('search');
+  params.delete('query');
+  return params.toString();
+}
+
+/**
+ * Keeps the home page url in sync with the filters, so they can be shared:
+ * - on load, filters in the url take priority over the persisted filters
+ * - on load without filters in the url, the persisted filters are written to it
+ * - filter changes push a history entry (search text changes replace it), and back/forward applies the url
+ */
+export function useFilterUrlSync() {
+  const dispatch = useAppDispatch();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlSearch = getFilterSearchString(searchParams);
+  const storeSearch = useAppSelector(selectFilterUrlSearchString);
+  const lastUrlSearch = useRef<string | undefined>(undefined);
+  const lastStoreSearch = useRef<string | undefined>(undefined);
+  const appliedFromUrl = useRef(false);
+
+  useEffect(() => {
+    const isFirst = lastUrlSearch.current === undefined;
+    const urlChanged = urlSearch !== lastUrlSearch.current;
+    const storeChanged = storeSearch !== lastStoreSearch.current;
+    const previousStoreSearch = lastStoreSearch.current;
+    lastUrlSearch.current = urlSearch;
+    lastStoreSearch.current = storeSearch;
+
+    if (urlSearch === storeSearch) {
+      appliedFromUrl.current = false;
+      return;
+    }
+
+    if (urlChanged && !(isFirst && urlSearch === '')) {
+      appliedFromUrl.current = true;
+      dispatch(
+        filteredVaultsActions.setUrlFilters(searchParamsToFilters(new URLSearchParams(urlSearch)))
+      );
+      return;
+    }
+
+    if (storeChanged) {
+      // the url had invalid values, or was just loaded, or only the search text changed
+      const replace =
+        isFirst ||
+        appliedFromUrl.current ||
+        (previousStoreSearch !== undefined &&
+          withoutSearch(previousStoreSearch) === withoutSearch(storeSearch));
+      appliedFromUrl.current = false;
+      setSearchParams(
+        params => {
+          for (const param of FILTER_URL_PARAMS) {
+            params.delete(param);
+          }
+          for (const [param, value] of new URLSearchParams(storeSearch)) {
+            params.set(param, value);
+          }
+          return params;
+        },
+        { replace }
+      );
+    }
+  }, [dispatch, urlSearch, storeSearch, setSearchParams]);
+}
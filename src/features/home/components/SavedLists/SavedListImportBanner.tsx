@@ -0,0 +1,58 @@
+import { memo, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router';
+import { useAppDispatch } from '../../../../store.ts';
+import { savedVaultsActions } from '../../../data/reducers/saved-vaults.ts';
+import { filteredVaultsActions } from '../../../data/reducers/filtered-vaults.ts';
+import { getSavedListCategory } from '../../../data/reducers/filtered-vaults-types.ts';
+import {
+  parseSavedVaultListSearchParams,
+  SAVED_LIST_NAME_PARAM,
+  SAVED_LIST_VAULTS_PARAM,
+} from '../../../data/utils/saved-vaults-utils.ts';
+import { Banner } from '../../../../components/Banners/Banner/Banner.tsx';
+import { ButtonLink } from '../../../../components/Banners/Links/ButtonLink.tsx';
+
+/** Shown when the home page is opened from a saved list share url */
+export const SavedListImportBanner = memo(function SavedListImportBanner() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const list = useMemo(() => parseSavedVaultListSearchParams(searchParams), [searchParams]);
+
+  const handleClose = useCallback(() => {
+    setSearchParams(
+      params => {
+        params.delete(SAVED_LIST_NAME_PARAM);
+        params.delete(SAVED_LIST_VAULTS_PARAM);
+        return params;
+      },
+      { replace: true }
+    );
+  }, [setSearchParams]);
+
+  const handleImport = useCallback(() => {
+    if (list) {
+      const action = savedVaultsActions.createList(list);
+      dispatch(action);
+      dispatch(filteredVaultsActions.setUserCategory(getSavedListCategory(action.payload.id)));
+    }
+    handleClose();
+  }, [dispatch, list, handleClose]);
+
+  if (!list) {
+    return null;
+  }
+
+  return (
+    <Banner
+      text={
+        <>
+          {t('SavedLists-Import-Banner', { name: list.name, count: list.vaultIds.length })}{' '}
+          <ButtonLink onClick={handleImport}>{t('SavedLists-Import-Button')}</ButtonLink>
+        </>
+      }
+      onClose={handleClose}
+    />
+  );
+});
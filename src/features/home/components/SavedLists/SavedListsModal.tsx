@@ -0,0 +1,259 @@
+import { type ChangeEvent, memo, useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { styled } from '@repo/styles/jsx';
+import CloseIcon from '../../../../images/icons/mui/Close.svg?react';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { type SavedVaultList, savedVaultsActions } from '../../../data/reducers/saved-vaults.ts';
+import { selectSavedVaultLists } from '../../../data/selectors/saved-vaults.ts';
+import {
+  parseSavedVaultListJson,
+  toSavedVaultListExport,
+} from '../../../data/utils/saved-vaults-utils.ts';
+import { filteredVaultsActions } from '../../../data/reducers/filtered-vaults.ts';
+import { getSavedListCategory } from '../../../data/reducers/filtered-vaults-types.ts';
+import { Modal } from '../../../../components/Modal/Modal.tsx';
+import { Card } from '../../../vault/components/Card/Card.tsx';
+import { CardHeader } from '../../../vault/components/Card/CardHeader.tsx';
+import { CardTitle } from '../../../vault/components/Card/CardTitle.tsx';
+import { CardContent } from '../../../vault/components/Card/CardContent.tsx';
+import { CardIconButton } from '../../../vault/components/Card/CardIconButton.tsx';
+import { BaseInput } from '../../../../components/Form/Input/BaseInput.tsx';
+import { Button } from '../../../../components/Button/Button.tsx';
+import { downloadObjectAsJsonFile } from '../../../../helpers/download.ts';
+import { isError } from '../../../../helpers/error.ts';
+import { getSavedListShareUrl } from './share-url.ts';
+
+export type SavedListsModalProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+export const SavedListsModal = memo(function SavedListsModal({
+  open,
+  onClose,
+}: SavedListsModalProps) {
+  const { t } = useTranslation();
+  const lists = useAppSelector(selectSavedVaultLists);
+
+  return (
+    <Modal open={open} onClose={onClose}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('SavedLists-Title')}</CardTitle>
+          <CardIconButton onClick={onClose} aria-label="close">
+            <CloseIcon />
+          </CardIconButton>
+        </CardHeader>
+        <Content>
+          {lists.length ?
+            lists.map(list => <SavedListRow key={list.id} list={list} />)
+          : <Empty>{t('SavedLists-Empty')}</Empty>}
+          <SavedListImport onImported={onClose} />
+        </Content>
+      </Card>
+    </Modal>
+  );
+});
+
+const SavedListRow = memo(function SavedListRow({ list }: { list: SavedVaultList }) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const [name, setName] = useState(list.name);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setName(list.name);
+  }, [list.name]);
+
+  useEffect(() => {
+    if (copied) {
+      const handle = setTimeout(() => setCopied(false), 2000);
+      return () => clearTimeout(handle);
+    }
+  }, [copied]);
+
+  const handleNameChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      setName(e.target.value);
+    },
+    [setName]
+  );
+
+  const handleNameBlur = useCallback(() => {
+    if (name.trim()) {
+      dispatch(savedVaultsActions.renameList({ id: list.id, name }));
+    } else {
+      setName(list.name);
+    }
+  }, [dispatch, list.id, list.name, name]);
+
+  const handleCopyLink = useCallback(() => {
+    navigator.clipboard
+      .writeText(getSavedListShareUrl(list))
+      .then(() => setCopied(true))
+      .catch(e => console.error(e));
+  }, [list]);
+
+  const handleDownload = useCallback(() => {
+    downloadObjectAsJsonFile(toSavedVaultListExport(list), `${list.name}.json`);
+  }, [list]);
+
+  const handleRemove = useCallback(() => {
+    dispatch(savedVaultsActions.removeList(list.id));
+  }, [dispatch, list.id]);
+
+  return (
+    <Row>
+      <RowName>
+        <BaseInput value={name} onChange={handleNameChange} onBlur={handleNameBlur} />
+        <Count>{t('SavedLists-Count', { count: list.vaultIds.length })}</Count>
+      </RowName>
+      <RowActions>
+        <Button size="sm" onClick={handleCopyLink}>
+          {copied ? t('SavedLists-Copied') : t('SavedLists-CopyLink')}
+        </Button>
+        <Button size="sm" onClick={handleDownload}>
+          {t('SavedLists-Export')}
+        </Button>
+        <Button size="sm" onClick={handleRemove}>
+          {t('SavedLists-Delete')}
+        </Button>
+      </RowActions>
+    </Row>
+  );
+});
+
+const SavedListImport = memo(function SavedListImport({ onImported }: { onImported: () => void }) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const [json, setJson] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLTextAreaElement>) => {
+      setJson(e.target.value);
+      setError(undefined);
+    },
+    [setJson, setError]
+  );
+
+  const handleImport = useCallback(() => {
+    try {
+      const list = parseSavedVaultListJson(json);
+      const action = savedVaultsActions.createList(list);
+      dispatch(action);
+      dispatch(filteredVaultsActions.setUserCategory(getSavedListCategory(action.payload.id)));
+      setJson('');
+      onImported();
+    } catch (err: unknown) {
+      setError(isError(err) ? err.message : String(err));
+    }
+  }, [dispatch, json, onImported]);
+
+  return (
+    <Import>
+      <ImportTitle>{t('SavedLists-Import')}</ImportTitle>
+      <ImportInput
+        value={json}
+        onChange={handleChange}
+        rows={4}
+        spellCheck={false}
+        placeholder={t('SavedLists-Import-Placeholder')}
+      />
+      {error ?
+        <Error>{error}</Error>
+      : null}
+      <Button size="sm" onClick={handleImport} disabled={!json.trim()}>
+        {t('SavedLists-Import-Button')}
+      </Button>
+    </Import>
+  );
+});
+
+const Content = styled(CardContent, {
+  base: {
+    gap: '16px',
+    width: '560px',
+    maxWidth: '100%',
+  },
+});
+
+const Empty = styled('div', {
+  base: {
+    textStyle: 'body',
+    color: 'text.middle',
+  },
+});
+
+const Row = styled('div', {
+  base: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px 16px',
+  },
+});
+
+const RowName = styled('div', {
+  base: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    flex: '1 1 200px',
+  },
+});
+
+const Count = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'text.dark',
+    whiteSpace: 'nowrap',
+  },
+});
+
+const RowActions = styled('div', {
+  base: {
+    display: 'flex',
+    gap: '8px',
+  },
+});
+
+const Import = styled('div', {
+  base: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    paddingTop: '16px',
+    borderTop: 'solid 1px {colors.background.content.dark}',
+  },
+});
+
+const ImportTitle = styled('div', {
+  base: {
+    textStyle: 'body.medium',
+    color: 'text.middle',
+  },
+});
+
+const ImportInput = styled('textarea', {
+  base: {
+    textStyle: 'body.sm',
+    fontFamily: 'monospace',
+    color: 'text.middle',
+    backgroundColor: 'background.content.dark',
+    border: 'none',
+    borderRadius: '8px',
+    padding: '8px',
+    resize: 'vertical',
+    outline: 'none',
+  },
+});
+
+const Error = styled('div', {
+  base: {
+    textStyle: 'body.sm',
+    color: 'indicators.error',
+    wordBreak: 'break-word',
+  },
+});
@@ -0,0 +1,14 @@
+import { routerMode } from '../../../../components/Router/Router.tsx';
+import {
+  type SavedVaultListExport,
+  savedVaultListToSearchParams,
+} from '../../../data/utils/saved-vaults-utils.ts';
+
+/** link to the home page that prompts to import the list */
+export function getSavedListShareUrl(list: SavedVaultListExport) {
+  const base =
+    routerMode === 'hash' ?
+      `${window.location.origin}${window.location.pathname}#/`
+    : `${window.location.origin}/`;
+  return `${base}?${savedVaultListToSearchParams(list)}`;
+}
@@ -13,6 +13,7 @@ import { selectIsUserBalanceAvailable } from '../../../../../data/selectors/data
 import { askForWalletConnection, doDisconnectWallet } from '../../../../../data/actions/wallet.ts';
 import { Button } from '../../../../../../components/Button/Button.tsx';
 import { filteredVaultsActions } from '../../../../../data/reducers/filtered-vaults.ts';
+import { isSavedListCategory } from '../../../../../data/reducers/filtered-vaults-types.ts';
 import { LoadingIndicator } from '../../../../../../components/LoadingIndicator/LoadingIndicator.tsx';
 
 const useStyles = legacyMakeStyles(styles);
@@ -98,7 +99,7 @@ export const NoResults = memo(function NoResults() {
     );
   }
 
-  if (userCategory === 'saved') {
+  if (userCategory === 'saved' || isSavedListCategory(userCategory)) {
     return (
       <NotDepositedMessage title="NoResults-NoSavedVaults-Title" text="NoResults-NoSavedVaults" />
     );
@@ -1,18 +1,33 @@
-import { memo, useCallback, useEffect, useMemo, useState } from 'react';
-import { selectFilterSearchText } from '../../../../../data/selectors/filtered-vaults.ts';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  selectFilterSearchMode,
+  selectFilterSearchQuery,
+  selectFilterSearchText,
+} from '../../../../../data/selectors/filtered-vaults.ts';
 import { useAppDispatch, useAppSelector } from '../../../../../../store.ts';
 import { filteredVaultsActions } from '../../../../../data/reducers/filtered-vaults.ts';
 import { debounce } from 'lodash-es';
 import { SearchInput } from '../../../../../../components/Form/Input/SearchInput.tsx';
+import { Button } from '../../../../../../components/Button/Button.tsx';
 import { css } from '@repo/styles/css';
 
 export const VaultsSearch = memo(function VaultsSearch() {
+  const { t } = useTranslation();
   const dispatch = useAppDispatch();
   const searchText = useAppSelector(selectFilterSearchText);
+  const searchMode = useAppSelector(selectFilterSearchMode);
+  const searchQuery = useAppSelector(selectFilterSearchQuery);
+  const error = searchQuery && 'error' in searchQuery ? searchQuery.error : undefined;
   const [value, setValue] = useState(searchText);
+  const lastDispatched = useRef(searchText);
 
   const setFilter = useMemo(
-    () => debounce((value: string) => dispatch(filteredVaultsActions.setSearchText(value)), 200),
+    () =>
+      debounce((value: string) => {
+        lastDispatched.current = value;
+        dispatch(filteredVaultsActions.setSearchText(value));
+      }, 200),
     [dispatch]
   );
 
@@ -24,20 +39,67 @@ export const VaultsSearch = memo(function VaultsSearch() {
     [setValue, setFilter]
   );
 
+  const handleModeToggle = useCallback(() => {
+    dispatch(filteredVaultsActions.setSearchMode(searchMode === 'query' ? 'text' : 'query'));
+  }, [dispatch, searchMode]);
+
   useEffect(() => {
-    // reset local value when filter is reset
-    if (searchText === '') {
-      setValue('');
+    // update local value when filter is reset or changed by url navigation
+    if (searchText !== lastDispatched.current) {
+      lastDispatched.current = searchText;
+      setValue(searchText);
     }
   }, [searchText, setValue]);
 
   return (
-    <SearchInput className={input} value={value} onValueChange={handleChange} focusOnSlash={true} />
+    <div className={container}>
+      <div className={row}>
+        <SearchInput
+          className={input}
+          value={value}
+          onValueChange={handleChange}
+          focusOnSlash={true}
+          error={!!error}
+          placeholder={searchMode === 'query' ? t('Filter-Query-Placeholder') : undefined}
+        />
+        <Button
+          variant="filter"
+          size="sm"
+          active={searchMode === 'query'}
+          onClick={handleModeToggle}
+          title={t('Filter-Query-Toggle')}
+        >
+          {t('Filter-Query')}
+        </Button>
+      </div>
+      {error ?
+        <div className={errorClass}>
+          {t('Filter-Query-Error', { message: error.message, position: error.position + 1 })}
+        </div>
+      : null}
+    </div>
   );
 });
 
-const input = css({
+const container = css({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '4px',
   md: {
     maxWidth: '75%',
   },
 });
+
+const row = css({
+  display: 'flex',
+  gap: '8px',
+});
+
+const input = css({
+  flex: '1 1 auto',
+});
+
+const errorClass = css({
+  textStyle: 'body.sm',
+  color: 'indicators.error',
+});
@@ -23,11 +23,20 @@ const useStyles = legacyMakeStyles(styles);
 const SORT_COLUMNS: {
   label: string;
   sortKey: FilteredVaultsState['sort'];
+  /** the column sorts by this key after both directions of sortKey */
+  alternate?: {
+    label: string;
+    sortKey: FilteredVaultsState['sort'];
+  };
   TooltipComponent?: FC;
 }[] = [
   { label: 'Filter-SortWallet', sortKey: 'walletValue' },
   { label: 'Filter-SortDeposited', sortKey: 'depositValue' },
-  { label: 'Filter-SortApy', sortKey: 'apy' },
+  {
+    label: 'Filter-SortApy',
+    sortKey: 'apy',
+    alternate: { label: 'Filter-SortRealYield', sortKey: 'realYield' },
+  },
   { label: 'Filter-SortDaily', sortKey: 'daily' },
   { label: 'Filter-SortTvl', sortKey: 'tvl' },
   { label: 'Filter-SortSafety', sortKey: 'safetyScore' },
@@ -41,7 +50,18 @@ const SortColumns = memo(function SortColumns() {
 
   const handleSort = useCallback(
     (field: FilteredVaultsState['sort']) => {
-      if (field === sortField) {
+      const column = SORT_COLUMNS.find(
+        column => column.sortKey === field || column.alternate?.sortKey === field
+      );
+      if (column?.alternate && field === sortField && sortDirection === 'asc') {
+        // desc -> asc -> alternate desc -> alternate asc -> desc
+        dispatch(
+          filteredVaultsActions.setSortFieldAndDirection({
+            field: field === column.sortKey ? column.alternate.sortKey : column.sortKey,
+            direction: 'desc',
+          })
+        );
+      } else if (field === sortField) {
         dispatch(filteredVaultsActions.setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc'));
       } else {
         dispatch(filteredVaultsActions.setSortFieldAndDirection({ field, direction: 'desc' }));
@@ -52,15 +72,19 @@ const SortColumns = memo(function SortColumns() {
 
   return (
     <div className={classes.sortColumns}>
-      {SORT_COLUMNS.map(({ label, sortKey }) => (
-        <SortColumnHeader
-          key={label}
-          label={label}
-          sortKey={sortKey}
-          sorted={sortField === sortKey ? sortDirection : 'none'}
-          onChange={handleSort}
-        />
-      ))}
+      {SORT_COLUMNS.map(({ label, sortKey, alternate }) => {
+        const current =
+          alternate && sortField === alternate.sortKey ? alternate : { label, sortKey };
+        return (
+          <SortColumnHeader
+            key={label}
+            label={current.label}
+            sortKey={current.sortKey}
+            sorted={sortField === current.sortKey ? sortDirection : 'none'}
+            onChange={handleSort}
+          />
+        );
+      })}
     </div>
   );
 });
@@ -76,6 +100,7 @@ const SortDropdown = memo(function SortDropdown() {
       { value: 'depositValue', label: t('Filter-SortDeposited') },
       { value: 'apy', label: t('Filter-SortApy') },
       { value: 'daily', label: t('Filter-SortDaily') },
+      { value: 'realYield', label: t('Filter-SortRealYield') },
       { value: 'tvl', label: t('Filter-SortTvl') },
       { value: 'safetyScore', label: t('Filter-SortSafety') },
     ],
@@ -19,6 +19,7 @@ import { VaultsStats } from './components/VaultsStats/VaultsStats.tsx';
 import { HistoricGraphsLoader } from './components/HistoricGraph/HistoricGraphsLoader.tsx';
 import { VaultMeta } from '../../components/Meta/VaultMeta.tsx';
 import { PnLGraphIfWallet } from './components/PnLGraph/PnLGraphIfWallet.tsx';
+import { PositionAlerts } from './components/PositionAlerts/PositionAlerts.tsx';
 import { Explainer } from './components/Explainer/Explainer.tsx';
 import { GamingCards } from './components/GamingCards/GamingCards.tsx';
 import { Container } from '../../components/Container/Container.tsx';
@@ -73,6 +74,7 @@ const VaultContent = memo(function VaultContent({ vaultId }: VaultContentProps)
         <div className={classes.columnInfo}>
           <PromoCardLoader vaultId={vaultId} />
           <PnLGraphIfWallet vaultId={vaultId} />
+          <PositionAlerts vaultId={vaultId} />
           <HistoricGraphsLoader vaultId={vaultId} />
           <LiquidityPoolBreakdownLoader vaultId={vaultId} />
           <SafetyCard vaultId={vaultId} />
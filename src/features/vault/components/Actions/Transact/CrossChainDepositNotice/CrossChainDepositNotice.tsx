@@ -0,0 +1,106 @@
+import { memo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css, type CssStyles } from '@repo/styles/css';
+import { styled } from '@repo/styles/jsx';
+import { useAppDispatch, useAppSelector } from '../../../../../../store.ts';
+import { AlertInfo } from '../../../../../../components/Alerts/Alerts.tsx';
+import { Button } from '../../../../../../components/Button/Button.tsx';
+import { selectTransactVaultId } from '../../../../../data/selectors/transact.ts';
+import { selectCrossChainDepositsForVault } from '../../../../../data/selectors/cross-chain-deposits.ts';
+import { selectChainById } from '../../../../../data/selectors/chains.ts';
+import { selectIsStepperStepping } from '../../../../../data/selectors/stepper.ts';
+import {
+  type CrossChainDeposit,
+  crossChainDepositsActions,
+} from '../../../../../data/reducers/cross-chain-deposits.ts';
+import { resumeCrossChainDeposit } from '../../../../../data/actions/cross-chain-deposits.ts';
+import { errorToString, formatTokenDisplayCondensed } from '../../../../../../helpers/format.ts';
+
+export type CrossChainDepositNoticeProps = {
+  css?: CssStyles;
+};
+
+/** Deposits from another chain into this vault that were not completed, e.g. the page was reloaded while bridging */
+export const CrossChainDepositNotice = memo(function CrossChainDepositNotice({
+  css: cssProp,
+}: CrossChainDepositNoticeProps) {
+  const vaultId = useAppSelector(selectTransactVaultId);
+  const deposits = useAppSelector(state => selectCrossChainDepositsForVault(state, vaultId));
+
+  if (!deposits.length) {
+    return null;
+  }
+
+  return (
+    <div className={css(cssProp)}>
+      {deposits.map(deposit => (
+        <DepositNotice key={deposit.id} deposit={deposit} />
+      ))}
+    </div>
+  );
+});
+
+type DepositNoticeProps = {
+  deposit: CrossChainDeposit;
+};
+
+const DepositNotice = memo(function DepositNotice({ deposit }: DepositNoticeProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const fromChain = useAppSelector(state => selectChainById(state, deposit.fromChainId));
+  const isStepping = useAppSelector(selectIsStepperStepping);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const handleResume = useCallback(() => {
+    setError(undefined);
+    dispatch(resumeCrossChainDeposit(deposit.id, t)).catch((err: unknown) => {
+      setError(errorToString(err));
+    });
+  }, [dispatch, deposit.id, t]);
+  const handleDismiss = useCallback(() => {
+    dispatch(crossChainDepositsActions.removeDeposits([deposit.id]));
+  }, [dispatch, deposit.id]);
+
+  return (
+    <AlertInfo>
+      <div>
+        {t(
+          deposit.arrived ?
+            'Transact-Notice-CrossChain-Arrived'
+          : 'Transact-Notice-CrossChain-Bridging',
+          {
+            amount: formatTokenDisplayCondensed(deposit.amount, deposit.token.decimals),
+            token: deposit.token.symbol,
+            chain: fromChain.name,
+          }
+        )}
+      </div>
+      {error ?
+        <Error>{error}</Error>
+      : null}
+      <Buttons>
+        <Button variant="success" size="sm" disabled={isStepping} onClick={handleResume}>
+          {t('Transact-Notice-CrossChain-Resume')}
+        </Button>
+        <Button variant="default" size="sm" onClick={handleDismiss}>
+          {t('Transact-Notice-CrossChain-Dismiss')}
+        </Button>
+      </Buttons>
+    </AlertInfo>
+  );
+});
+
+const Error = styled('div', {
+  base: {
+    color: 'indicators.error',
+    marginTop: '8px',
+  },
+});
+
+const Buttons = styled('div', {
+  base: {
+    display: 'flex',
+    gap: '8px',
+    marginTop: '12px',
+  },
+});
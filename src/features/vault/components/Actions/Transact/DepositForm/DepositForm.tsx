@@ -34,6 +34,7 @@ import { TextLoader } from '../../../../../../components/TextLoader/TextLoader.t
 import type { TokenEntity } from '../../../../../data/entities/token.ts';
 import { Actions } from '../Actions/Actions.tsx';
 import { FormFooter } from '../FormFooter/FormFooter.tsx';
+import { CrossChainDepositNotice } from '../CrossChainDepositNotice/CrossChainDepositNotice.tsx';
 
 const useStyles = legacyMakeStyles(styles);
 
@@ -96,6 +97,7 @@ export const DepositForm = memo(function DepositForm() {
 
   return (
     <>
+      <CrossChainDepositNotice css={styles.crossChainNotice} />
       <div className={classes.inputs}>
         <DepositFormInputs />
       </div>
@@ -49,4 +49,10 @@ export const styles = {
   quote: css.raw({
     marginTop: '24px',
   }),
+  crossChainNotice: css.raw({
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    marginBottom: '24px',
+  }),
 };
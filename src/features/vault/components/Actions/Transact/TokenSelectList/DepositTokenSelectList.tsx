@@ -5,6 +5,7 @@ import { styles } from './styles.ts';
 import { useAppDispatch, useAppSelector } from '../../../../../../store.ts';
 import {
   selectTransactDepositTokensForChainIdWithBalances,
+  selectTransactTokenChains,
   selectTransactVaultId,
 } from '../../../../../data/selectors/transact.ts';
 import { selectVaultById } from '../../../../../data/selectors/vaults.ts';
@@ -20,6 +21,9 @@ import buildLpIcon from '../../../../../../images/icons/build-lp.svg';
 import type { VaultEntity } from '../../../../../data/entities/vault.ts';
 import OpenInNewRoundedIcon from '../../../../../../images/icons/mui/OpenInNewRounded.svg?react';
 import { SearchInput } from '../../../../../../components/Form/Input/SearchInput.tsx';
+import type { ChainEntity } from '../../../../../data/entities/chain.ts';
+import { selectAllChains } from '../../../../../data/selectors/chains.ts';
+import { Select } from '../../../../../../components/Form/Select/Single/Select.tsx';
 
 const useStyles = legacyMakeStyles(styles);
 const DUST_HIDDEN_THRESHOLD = new BigNumber('0.01');
@@ -37,7 +41,8 @@ export const DepositTokenSelectList = memo(function DepositTokenSelectList({
   const vaultId = useAppSelector(selectTransactVaultId);
   const vault = useAppSelector(state => selectVaultById(state, vaultId));
   const [dustHidden, setDustHidden] = useState(false);
-  const [selectedChain] = useState(vault.chainId);
+  const chainIds = useAppSelector(selectTransactTokenChains);
+  const [selectedChain, setSelectedChain] = useState(vault.chainId);
   const [search, setSearch] = useState('');
   const optionsForChain = useAppSelector(state =>
     selectTransactDepositTokensForChainIdWithBalances(state, selectedChain, vaultId)
@@ -61,7 +66,7 @@ export const DepositTokenSelectList = memo(function DepositTokenSelectList({
 
     return options;
   }, [optionsForChain, search, dustHidden]);
-  // const hasMultipleChains = availableChains.length > 1;
+  const hasMultipleChains = chainIds.length > 1;
   const handleTokenSelect = useCallback<ListItemProps['onSelect']>(
     tokenId => {
       dispatch(
@@ -95,7 +100,11 @@ export const DepositTokenSelectList = memo(function DepositTokenSelectList({
           />
         </div>
       </div>
-      {/*hasMultipleChains ? <div className={classes.chainSelector}>TODO {selectedChain}</div> : null*/}
+      {hasMultipleChains ?
+        <div className={classes.chainSelector}>
+          <ChainSelector chainIds={chainIds} selected={selectedChain} onChange={setSelectedChain} />
+        </div>
+      : null}
       <Scrollable css={styles.listContainer}>
         <div className={classes.list}>
           {filteredOptionsForChain.length ?
@@ -119,6 +128,39 @@ export const DepositTokenSelectList = memo(function DepositTokenSelectList({
   );
 });
 
+type ChainSelectorProps = {
+  chainIds: ChainEntity['id'][];
+  selected: ChainEntity['id'];
+  onChange: (chainId: ChainEntity['id']) => void;
+};
+
+const ChainSelector = memo(function ChainSelector({
+  chainIds,
+  selected,
+  onChange,
+}: ChainSelectorProps) {
+  const { t } = useTranslation();
+  const chains = useAppSelector(selectAllChains);
+  const options = useMemo(
+    () =>
+      chains
+        .filter(chain => chainIds.includes(chain.id))
+        .map(chain => ({ value: chain.id, label: chain.name })),
+    [chains, chainIds]
+  );
+
+  return (
+    <Select
+      labelPrefix={t('Transact-TokenSelect-Chain')}
+      options={options}
+      selected={selected}
+      onChange={onChange}
+      fullWidth={true}
+      variant="middle"
+    />
+  );
+});
+
 const BuildLpManually = memo(function BuildLpManually({ vaultId }: { vaultId: VaultEntity['id'] }) {
   const vault = useAppSelector(state => selectVaultById(state, vaultId));
   const { t } = useTranslation();
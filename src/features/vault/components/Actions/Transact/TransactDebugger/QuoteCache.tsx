@@ -0,0 +1,59 @@
+import { Fragment, memo, useEffect, useState } from 'react';
+import { legacyMakeStyles } from '../../../../../../helpers/mui.ts';
+import { styles } from './styles.ts';
+import { getSwapAggregator } from '../../../../../data/apis/instances.ts';
+import type { QuoteCacheStats } from '../../../../../data/apis/transact/swap/CachedSwapProvider.ts';
+
+const useStyles = legacyMakeStyles(styles);
+
+const REFRESH_INTERVAL = 1000;
+
+export const QuoteCache = memo(function QuoteCache() {
+  const classes = useStyles();
+  const [stats, setStats] = useState<Record<string, QuoteCacheStats> | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    const update = () => {
+      getSwapAggregator()
+        .then(aggregator => {
+          if (!cancelled) {
+            setStats(aggregator.getQuoteCacheStats());
+          }
+        })
+        .catch(err => console.error(err));
+    };
+
+    update();
+    const handle = setInterval(update, REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(handle);
+    };
+  }, []);
+
+  return (
+    <div className={classes.item}>
+      <h1>Quote Cache</h1>
+      {stats === undefined ?
+        <div>Loading...</div>
+      : Object.keys(stats).length === 0 ?
+        <div>Quote cache is disabled</div>
+      : <div className={classes.grid}>
+          <div>Provider</div>
+          <div>Hits</div>
+          <div>Deduped</div>
+          <div>Misses</div>
+          {Object.entries(stats).map(([providerId, { hits, deduped, misses }]) => (
+            <Fragment key={providerId}>
+              <div>{providerId}</div>
+              <div>{hits}</div>
+              <div>{deduped}</div>
+              <div>{misses}</div>
+            </Fragment>
+          ))}
+        </div>
+      }
+    </div>
+  );
+});
@@ -2,6 +2,7 @@ import { lazy, memo } from 'react';
 import { legacyMakeStyles } from '../../../../../../helpers/mui.ts';
 import { styles } from './styles.ts';
 import { TransactState } from './TransactState.tsx';
+import { QuoteCache } from './QuoteCache.tsx';
 import { useAppSelector } from '../../../../../../store.ts';
 import { selectVaultById } from '../../../../../data/selectors/vaults.ts';
 import { selectTokenByAddressOrUndefined } from '../../../../../data/selectors/tokens.ts';
@@ -34,6 +35,7 @@ const TransactDebugger = memo(function TransactDebugger({ vaultId }: TransactDeb
       ['balancer', 'beethovenx'].includes(depositToken.providerId) ? (
         <BalancerZap vaultId={vaultId} />
       ) : null}
+      <QuoteCache />
       <TransactState />
     </div>
   );
@@ -5,6 +5,7 @@ import {
   type TokenAmount,
   type ZapQuote,
   type ZapQuoteStep,
+  type ZapQuoteStepBridge,
   type ZapQuoteStepBuild,
   type ZapQuoteStepDeposit,
   type ZapQuoteStepSplit,
@@ -28,6 +29,8 @@ import { transactActions } from '../../../../../data/reducers/wallet/transact.ts
 import { TransactStep } from '../../../../../data/reducers/wallet/transact-types.ts';
 import { selectZapSwapProviderName } from '../../../../../data/selectors/zap.ts';
 import { BIG_ZERO } from '../../../../../../helpers/big-number.ts';
+import { selectBridgeConfigById } from '../../../../../data/selectors/bridge.ts';
+import { selectChainById } from '../../../../../data/selectors/chains.ts';
 
 const useStyles = legacyMakeStyles(styles);
 
@@ -222,6 +225,35 @@ const StepContentUnused = memo(function StepContentUnused({
   );
 });
 
+const StepContentBridge = memo(function StepContentBridge({
+  step,
+}: StepContentProps<ZapQuoteStepBridge>) {
+  const { t } = useTranslation();
+  const fromChain = useAppSelector(state => selectChainById(state, step.fromToken.chainId));
+  const toChain = useAppSelector(state => selectChainById(state, step.toToken.chainId));
+  const bridgeTitles = useAppSelector(state =>
+    step.bridgeIds.map(id => selectBridgeConfigById(state, id).title).join(', ')
+  );
+
+  return (
+    <Trans
+      t={t}
+      i18nKey="Transact-Route-Step-Bridge"
+      values={{
+        fromToken: step.fromToken.symbol,
+        toToken: step.toToken.symbol,
+        fromChain: fromChain.name,
+        toChain: toChain.name,
+        via: bridgeTitles,
+      }}
+      components={{
+        fromAmount: <TokenAmountFromEntity amount={step.fromAmount} token={step.fromToken} />,
+        toAmount: <TokenAmountFromEntity amount={step.toAmount} token={step.toToken} />,
+      }}
+    />
+  );
+});
+
 type StepContentMap = {
   [K in ZapQuoteStep as K['type']]: ComponentType<StepContentProps<K>>;
 };
@@ -235,6 +267,7 @@ const StepContentComponents: StepContentMap = {
   unused: StepContentUnused,
   stake: StepContentStake,
   unstake: StepContentUnstake,
+  bridge: StepContentBridge,
 };
 
 type StepProps = {
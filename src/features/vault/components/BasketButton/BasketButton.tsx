@@ -0,0 +1,39 @@
+import { memo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css, type CssStyles } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import type { VaultEntity } from '../../../data/entities/vault.ts';
+import { selectVaultById } from '../../../data/selectors/vaults.ts';
+import { basketActions } from '../../../data/reducers/wallet/basket.ts';
+import ShoppingBasket from '../../../../images/icons/mui/ShoppingBasket.svg?react';
+import { ButtonLink } from '../../../../components/Button/ButtonLink.tsx';
+import { styles } from '../SaveButton/styles.ts';
+
+interface BasketButtonProps {
+  vaultId: VaultEntity['id'];
+  css?: CssStyles;
+}
+
+export const BasketButton = memo(function BasketButton({
+  vaultId,
+  css: cssProp,
+}: BasketButtonProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const chainId = useAppSelector(state => selectVaultById(state, vaultId).chainId);
+  const handleClick = useCallback(() => {
+    dispatch(basketActions.addVault({ vaultId, chainId }));
+  }, [dispatch, vaultId, chainId]);
+
+  return (
+    <ButtonLink
+      borderless={true}
+      css={css.raw(styles.shareButton, cssProp)}
+      to="/basket"
+      onClick={handleClick}
+      title={t('Basket-Add')}
+    >
+      <ShoppingBasket className={css(styles.icon)} />
+    </ButtonLink>
+  );
+});
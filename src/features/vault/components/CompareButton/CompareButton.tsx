@@ -0,0 +1,30 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css, type CssStyles } from '@repo/styles/css';
+import type { VaultEntity } from '../../../data/entities/vault.ts';
+import CompareArrows from '../../../../images/icons/mui/CompareArrows.svg?react';
+import { ButtonLink } from '../../../../components/Button/ButtonLink.tsx';
+import { styles } from '../SaveButton/styles.ts';
+
+interface CompareButtonProps {
+  vaultId: VaultEntity['id'];
+  css?: CssStyles;
+}
+
+export const CompareButton = memo(function CompareButton({
+  vaultId,
+  css: cssProp,
+}: CompareButtonProps) {
+  const { t } = useTranslation();
+
+  return (
+    <ButtonLink
+      borderless={true}
+      css={css.raw(styles.shareButton, cssProp)}
+      to={`/compare?ids=${encodeURIComponent(vaultId)}`}
+      title={t('Compare-Title')}
+    >
+      <CompareArrows className={css(styles.icon)} />
+    </ButtonLink>
+  );
+});
@@ -1,14 +1,16 @@
 import { Fragment, memo, useMemo } from 'react';
 import { legacyMakeStyles } from '../../../../../helpers/mui.ts';
 import { styles } from './styles.ts';
-import { formatTotalApy } from '../../../../../helpers/format.ts';
+import { formatLargePercent, formatTotalApy } from '../../../../../helpers/format.ts';
 import { StatLoader } from '../../../../../components/StatLoader/StatLoader.tsx';
 import { useTranslation } from 'react-i18next';
 import { css, type CssStyles } from '@repo/styles/css';
 import {
   type ApyLabelsType,
+  type ApyYieldSource,
   getApyComponents,
   getApyLabelsForType,
+  getApyYieldSplit,
 } from '../../../../../helpers/apy.ts';
 import type { TotalApy } from '../../../../data/reducers/apy.ts';
 
@@ -17,12 +19,15 @@ const useStyles = legacyMakeStyles(styles);
 export type ApyDetailsProps = {
   values: TotalApy;
   type: ApyLabelsType;
+  /** source of the vault component, if known for the vault's platform */
+  vaultYieldSource?: ApyYieldSource;
   css?: CssStyles;
 };
 
 export const ApyDetails = memo(function ApyDetails({
   values,
   type,
+  vaultYieldSource,
   css: cssProp,
 }: ApyDetailsProps) {
   const { t } = useTranslation();
@@ -31,6 +36,10 @@ export const ApyDetails = memo(function ApyDetails({
   const { yearly } = getApyComponents();
   const hasComponents = useMemo(() => yearly.some(key => !!values[key]), [yearly, values]);
   const isBoosted = !!values.boostedTotalDaily;
+  const split = useMemo(
+    () => getApyYieldSplit(values, vaultYieldSource),
+    [values, vaultYieldSource]
+  );
 
   if (!hasComponents && !isBoosted) {
     return null;
@@ -61,6 +70,28 @@ export const ApyDetails = memo(function ApyDetails({
           </Fragment>
         ))}
       </div>
+      {hasComponents ? (
+        <>
+          <div className={classes.realYieldTitle}>{t('Vault-Apy-RealYield')}</div>
+          <div className={classes.apys}>
+            <div>
+              <div className={classes.apyLabel}>{t('Vault-Apy-RealYield-Fees')}</div>
+              <div className={classes.apyValue}>{formatLargePercent(split.realYieldApr, 2)}</div>
+            </div>
+            <div>
+              <div className={classes.apyLabel}>{t('Vault-Apy-RealYield-Emissions')}</div>
+              <div className={classes.apyValue}>{formatLargePercent(split.emissionApr, 2)}</div>
+            </div>
+            <div>
+              <div className={classes.apyLabel}>{t('Vault-Apy-RealYield-Share')}</div>
+              <div className={classes.apyValue}>{formatLargePercent(split.realYieldShare, 0)}</div>
+            </div>
+          </div>
+          {values.vaultApr && !vaultYieldSource ? (
+            <div className={classes.realYieldNote}>{t('Vault-Apy-RealYield-VaultAssumed')}</div>
+          ) : null}
+        </>
+      ) : null}
     </div>
   );
 });
@@ -6,6 +6,12 @@ export const styles = {
     color: 'text.middle',
     marginBottom: '8px',
   }),
+  realYieldTitle: css.raw({
+    textStyle: 'h3',
+    color: 'text.middle',
+    marginTop: '16px',
+    marginBottom: '8px',
+  }),
   apys: css.raw({
     display: 'flex',
     flexWrap: 'wrap',
@@ -19,4 +25,9 @@ export const styles = {
     textStyle: 'body.medium',
     color: 'text.middle',
   }),
+  realYieldNote: css.raw({
+    textStyle: 'body.sm',
+    color: 'text.dark',
+    marginTop: '8px',
+  }),
 };
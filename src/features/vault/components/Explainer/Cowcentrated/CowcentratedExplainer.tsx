@@ -1,7 +1,10 @@
 import { memo, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { CardTitle } from '../../Card/CardTitle.tsx';
-import { selectVaultTotalApy } from '../../../../data/selectors/apy.ts';
+import {
+  selectVaultApyYieldSourceOrUndefined,
+  selectVaultTotalApy,
+} from '../../../../data/selectors/apy.ts';
 import {
   isCowcentratedGovVault,
   isCowcentratedStandardVault,
@@ -34,6 +37,9 @@ const CowcentratedExplainer = memo(function CowcentratedExplainer({
   const boost = useAppSelector(state => selectCurrentBoostByVaultIdOrUndefined(state, vaultId));
   const chain = useAppSelector(state => selectChainById(state, vault.chainId));
   const apys = useAppSelector(state => selectVaultTotalApy(state, vaultId));
+  const vaultYieldSource = useAppSelector(state =>
+    selectVaultApyYieldSourceOrUndefined(state, vaultId)
+  );
   const strategyAddress = useAppSelector(state =>
     selectVaultStrategyAddressOrUndefined(state, vault.cowcentratedIds.clm)
   );
@@ -93,7 +99,11 @@ const CowcentratedExplainer = memo(function CowcentratedExplainer({
       description={<CowcentratedLikeDescription vaultId={vaultId} />}
       details={
         showApy ? (
-          <ApyDetails type={getApyLabelsTypeForVault(vault, apys.totalType)} values={apys} />
+          <ApyDetails
+            type={getApyLabelsTypeForVault(vault, apys.totalType)}
+            values={apys}
+            vaultYieldSource={vaultYieldSource}
+          />
         ) : undefined
       }
     />
@@ -1,7 +1,10 @@
 import { memo, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { CardTitle } from '../../Card/CardTitle.tsx';
-import { selectVaultTotalApyOrUndefined } from '../../../../data/selectors/apy.ts';
+import {
+  selectVaultApyYieldSourceOrUndefined,
+  selectVaultTotalApyOrUndefined,
+} from '../../../../data/selectors/apy.ts';
 import { shouldVaultShowInterest, type VaultEntity } from '../../../../data/entities/vault.ts';
 import { selectErc4626VaultById } from '../../../../data/selectors/vaults.ts';
 import { selectChainById } from '../../../../data/selectors/chains.ts';
@@ -23,6 +26,9 @@ const Erc4626Explainer = memo(function Erc4626Explainer({ vaultId }: Erc4626Expl
   const boost = useAppSelector(state => selectCurrentBoostByVaultIdOrUndefined(state, vaultId));
   const chain = useAppSelector(state => selectChainById(state, vault.chainId));
   const apys = useAppSelector(state => selectVaultTotalApyOrUndefined(state, vaultId));
+  const vaultYieldSource = useAppSelector(state =>
+    selectVaultApyYieldSourceOrUndefined(state, vaultId)
+  );
   const showApy = apys && shouldVaultShowInterest(vault);
 
   const links = useMemo(() => {
@@ -50,7 +56,11 @@ const Erc4626Explainer = memo(function Erc4626Explainer({ vaultId }: Erc4626Expl
       description={<Erc4626Description vaultId={vaultId} />}
       details={
         showApy ? (
-          <ApyDetails type={getApyLabelsTypeForVault(vault, apys.totalType)} values={apys} />
+          <ApyDetails
+            type={getApyLabelsTypeForVault(vault, apys.totalType)}
+            values={apys}
+            vaultYieldSource={vaultYieldSource}
+          />
         ) : null
       }
     />
@@ -2,7 +2,10 @@ import { memo, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { CardTitle } from '../../Card/CardTitle.tsx';
 import { StandardDescription } from '../Description/StandardDescription.tsx';
-import { selectVaultTotalApyOrUndefined } from '../../../../data/selectors/apy.ts';
+import {
+  selectVaultApyYieldSourceOrUndefined,
+  selectVaultTotalApyOrUndefined,
+} from '../../../../data/selectors/apy.ts';
 import { shouldVaultShowInterest, type VaultEntity } from '../../../../data/entities/vault.ts';
 import {
   selectStandardVaultById,
@@ -28,6 +31,9 @@ const StandardExplainer = memo(function StandardExplainer({ vaultId }: StandardE
   const boost = useAppSelector(state => selectCurrentBoostByVaultIdOrUndefined(state, vaultId));
   const chain = useAppSelector(state => selectChainById(state, vault.chainId));
   const apys = useAppSelector(state => selectVaultTotalApyOrUndefined(state, vaultId));
+  const vaultYieldSource = useAppSelector(state =>
+    selectVaultApyYieldSourceOrUndefined(state, vaultId)
+  );
   const strategyAddress = useAppSelector(state =>
     selectVaultStrategyAddressOrUndefined(state, vaultId)
   );
@@ -66,7 +72,11 @@ const StandardExplainer = memo(function StandardExplainer({ vaultId }: StandardE
       details={
         <>
           {showApy ? (
-            <ApyDetails type={getApyLabelsTypeForVault(vault, apys.totalType)} values={apys} />
+            <ApyDetails
+              type={getApyLabelsTypeForVault(vault, apys.totalType)}
+              values={apys}
+              vaultYieldSource={vaultYieldSource}
+            />
           ) : null}
           {showLendingOracle ? <LendingOracle vaultId={vault.id} /> : null}
         </>
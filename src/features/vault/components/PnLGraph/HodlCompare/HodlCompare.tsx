@@ -0,0 +1,140 @@
+import { memo, type ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { shallowEqual } from 'react-redux';
+import { css, type CssStyles } from '@repo/styles/css';
+import type BigNumber from 'bignumber.js';
+import { legacyMakeStyles } from '../../../../../helpers/mui.ts';
+import { useAppSelector } from '../../../../../store.ts';
+import type { VaultEntity } from '../../../../data/entities/vault.ts';
+import {
+  selectVaultHodlCompare,
+  selectVaultHodlOracleIds,
+} from '../../../../data/selectors/analytics.ts';
+import { useOracleIdToUsdPrices } from '../../../../data/hooks/historical.tsx';
+import { HODL_PRICE_BUCKET } from '../../../../../helpers/hodl.ts';
+import {
+  formatLargePercent,
+  formatLargeUsd,
+  formatPositiveOrNegative,
+} from '../../../../../helpers/format.ts';
+import { BIG_ZERO } from '../../../../../helpers/big-number.ts';
+import { IconWithTooltip } from '../../../../../components/Tooltip/IconWithTooltip.tsx';
+import { styles } from './styles.ts';
+
+const useStyles = legacyMakeStyles(styles);
+
+interface HodlPriceLoadersProps {
+  vaultId: VaultEntity['id'];
+}
+
+/** Fetches the price history of each lp token, needed to value the deposits as held tokens */
+export const HodlPriceLoaders = memo(function HodlPriceLoaders({ vaultId }: HodlPriceLoadersProps) {
+  const oracleIds = useAppSelector(state => selectVaultHodlOracleIds(state, vaultId), shallowEqual);
+
+  if (!oracleIds) {
+    return null;
+  }
+
+  return (
+    <>
+      {oracleIds.map(oracleId => (
+        <HodlPriceLoader key={oracleId} oracleId={oracleId} />
+      ))}
+    </>
+  );
+});
+
+const HodlPriceLoader = memo(function HodlPriceLoader({ oracleId }: { oracleId: string }) {
+  useOracleIdToUsdPrices(oracleId, HODL_PRICE_BUCKET);
+  return null;
+});
+
+interface HodlCompareProps {
+  vaultId: VaultEntity['id'];
+  address: string;
+  css?: CssStyles;
+}
+
+export const HodlCompare = memo(function HodlCompare({
+  vaultId,
+  address,
+  css: cssProp,
+}: HodlCompareProps) {
+  const { t } = useTranslation();
+  const hodl = useAppSelector(state => selectVaultHodlCompare(state, vaultId, address));
+
+  return (
+    <>
+      <HodlPriceLoaders vaultId={vaultId} />
+      {hodl ?
+        <div className={css(styles.container, cssProp)}>
+          <HodlCompareItem
+            label={t('pnl-hodl-value')}
+            tooltipText={t(
+              hodl.estimated ? 'pnl-hodl-tooltip-value-estimated' : 'pnl-hodl-tooltip-value'
+            )}
+            value={`${hodl.estimated ? '~' : ''}${formatLargeUsd(hodl.hodlUsd)}`}
+          />
+          <HodlCompareItem
+            label={t('pnl-hodl-vs')}
+            tooltipText={t('pnl-hodl-tooltip-vs')}
+            value={<SignedUsd value={hodl.vsHodl.usd} />}
+            subValue={formatLargePercent(hodl.vsHodl.percentage)}
+          />
+          <HodlCompareItem
+            label={t('pnl-hodl-yield')}
+            tooltipText={t('pnl-hodl-tooltip-yield')}
+            value={<SignedUsd value={hodl.yieldUsd} />}
+          />
+          <HodlCompareItem
+            label={t('pnl-hodl-divergence')}
+            tooltipText={t('pnl-hodl-tooltip-divergence')}
+            value={<SignedUsd value={hodl.divergence.usd} />}
+            subValue={formatLargePercent(hodl.divergence.percentage)}
+          />
+        </div>
+      : null}
+    </>
+  );
+});
+
+interface HodlCompareItemProps {
+  label: string;
+  tooltipText: string;
+  value: ReactNode;
+  subValue?: string;
+}
+
+const HodlCompareItem = memo(function HodlCompareItem({
+  label,
+  tooltipText,
+  value,
+  subValue,
+}: HodlCompareItemProps) {
+  const classes = useStyles();
+
+  return (
+    <div className={classes.item}>
+      <div className={classes.labelContainer}>
+        <div className={classes.label}>{label}</div>
+        <IconWithTooltip tooltip={tooltipText} iconCss={styles.center} />
+      </div>
+      <div className={classes.value}>{value}</div>
+      {subValue && <div className={classes.subValue}>{subValue}</div>}
+    </div>
+  );
+});
+
+const SignedUsd = memo(function SignedUsd({ value }: { value: BigNumber }) {
+  return (
+    <span
+      className={css(
+        value.gt(BIG_ZERO) ? styles.greenValue
+        : value.lt(BIG_ZERO) ? styles.redValue
+        : undefined
+      )}
+    >
+      {formatPositiveOrNegative(value, formatLargeUsd(value))}
+    </span>
+  );
+});
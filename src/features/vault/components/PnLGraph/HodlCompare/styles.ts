@@ -0,0 +1,60 @@
+import { css } from '@repo/styles/css';
+
+export const styles = {
+  container: css.raw({
+    display: 'grid',
+    gap: '1px',
+    gridTemplateColumns: 'repeat(4, 1fr)',
+    mdDown: {
+      gridTemplateColumns: 'repeat(2, 1fr)',
+    },
+  }),
+  item: css.raw({
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'flex-start',
+    padding: '16px 24px',
+    backgroundColor: 'background.content',
+    mdDown: {
+      padding: '16px',
+    },
+  }),
+  labelContainer: css.raw({
+    display: 'flex',
+    alignItems: 'center',
+    columnGap: '4px',
+    '& svg': {
+      color: 'text.dark',
+      height: '16px',
+      width: '16px',
+      '&:hover': {
+        cursor: 'pointer',
+      },
+    },
+  }),
+  label: css.raw({
+    textStyle: 'body.sm.medium',
+    fontWeight: 'bold',
+    color: 'text.dark',
+    textTransform: 'uppercase',
+  }),
+  value: css.raw({
+    textStyle: 'body.medium',
+    color: 'text.middle',
+    fontWeight: 'medium',
+  }),
+  greenValue: css.raw({
+    color: 'green',
+  }),
+  redValue: css.raw({
+    color: 'indicators.error',
+  }),
+  subValue: css.raw({
+    textStyle: 'body.sm.medium',
+    color: 'text.dark',
+  }),
+  center: css.raw({
+    display: 'flex',
+    alignItems: 'center',
+  }),
+};
@@ -31,6 +31,7 @@ import { useVaultPeriodsFeesGraph } from './components/FeesGraph/hooks.tsx';
 import { ErrorBoundary } from '../../../../../components/ErrorBoundary/ErrorBoundary.tsx';
 import { GraphNoData } from '../../../../../components/GraphNoData/GraphNoData.tsx';
 import type { ToggleButtonItem } from '../../../../../components/ToggleButtons/ToggleButtons.tsx';
+import { HodlCompare } from '../HodlCompare/HodlCompare.tsx';
 
 const useStyles = legacyMakeStyles(styles);
 
@@ -90,6 +91,7 @@ export const OverviewGraph = memo(function OverviewGraph({
   return (
     <CardContent css={styles.content}>
       <OverviewGraphHeader vaultId={vaultId} />
+      <HodlCompare vaultId={vaultId} address={address} />
       <div className={classes.graphContainer}>
         {canShowGraph ? (
           <ErrorBoundary>
@@ -207,6 +209,7 @@ export const DashboardOverviewGraph = memo(function DashboardOverviewGraph({
             handlePeriod={setPeriod}
             position={isCowcentratedStandardVault(vault)}
           />
+          <HodlCompare vaultId={vaultId} address={address} css={styles.hodlDashboard} />
         </>
       ) : (
         <GraphNoData reason="wait-collect" />
@@ -53,4 +53,7 @@ export const styles = {
   footerDashboard: css.raw({
     borderTop: '2px solid {colors.bayOfMany}',
   }),
+  hodlDashboard: css.raw({
+    borderTop: '2px solid {colors.bayOfMany}',
+  }),
 };
@@ -17,6 +17,7 @@ import { CardTitle } from '../../Card/CardTitle.tsx';
 import { useTranslation } from 'react-i18next';
 import { StatSwitcher } from '../../StatSwitcher/StatSwitcher.tsx';
 import type { ToggleButtonItem } from '../../../../../components/ToggleButtons/ToggleButtons.tsx';
+import { HodlCompare } from '../HodlCompare/HodlCompare.tsx';
 
 const useStyles = legacyMakeStyles(styles);
 
@@ -73,6 +74,7 @@ export const StandardPnLGraph = memo(function StandardPnLGraph({
       </CardHeader>
       <CardContent css={styles.content}>
         <Header vaultId={vaultId} />
+        <HodlCompare vaultId={vaultId} address={address} />
         <div className={classes.graphContainer}>
           {canShowGraph ?
             <Graph vaultId={vaultId} period={period} address={address} />
@@ -110,6 +112,7 @@ export const DashboardPnLGraph = memo(function DashboardPnLGraph({
         period={period}
         handlePeriod={handlePeriod}
       />
+      <HodlCompare vaultId={vaultId} address={address} css={styles.hodlDashboard} />
     </div>
   );
 });
@@ -24,6 +24,7 @@ import { GraphNoData } from '../../../../../../../components/GraphNoData/GraphNo
 import { useXAxis, useYAxis } from '../../../../../../../helpers/graph/hooks.tsx';
 import { useBreakpoint } from '../../../../../../../components/MediaQueries/useBreakpoint.ts';
 import { token } from '@repo/styles/tokens';
+import { HodlPriceLoaders } from '../../../HodlCompare/HodlCompare.tsx';
 
 const useStyles = legacyMakeStyles(styles);
 
@@ -50,9 +51,15 @@ export const Graph = memo(function Graph({ vaultId, period, address }: GraphProp
   const usdAxis = useYAxis(minUsd, maxUsd, makeUsdTickFormatter);
   const underlyingAxis = useYAxis(minUnderlying, maxUnderlying, makeUnderlyingTickFormatter);
   const dateAxis = useXAxis(GRAPH_TIME_BUCKETS[period], data.length, xsDown);
+  const showHodl = data.length > 0 && data[0].hodlUsd !== undefined;
 
   if (isLoading) {
-    return <GraphLoader imgHeight={220} />;
+    return (
+      <>
+        <HodlPriceLoaders vaultId={vaultId} />
+        <GraphLoader imgHeight={220} />
+      </>
+    );
   }
 
   if (!data.length) {
@@ -61,7 +68,8 @@ export const Graph = memo(function Graph({ vaultId, period, address }: GraphProp
 
   return (
     <div className={classes.graphContainer}>
-      <Legend vaultId={vaultId} />
+      <HodlPriceLoaders vaultId={vaultId} />
+      <Legend vaultId={vaultId} showHodl={showHodl} />
       <ResponsiveContainer width="100%" height={200}>
         <LineChart
           width={450}
@@ -96,6 +104,17 @@ export const Graph = memo(function Graph({ vaultId, period, address }: GraphProp
             dot={false}
             type="linear"
           />
+          {showHodl ?
+            <Line
+              yAxisId="usd"
+              strokeWidth={1.5}
+              dataKey="hodlUsd"
+              stroke="#999CB3"
+              strokeDasharray="4 4"
+              dot={false}
+              type="linear"
+            />
+          : null}
           <YAxis
             stroke="#4DB258"
             strokeWidth={1.5}
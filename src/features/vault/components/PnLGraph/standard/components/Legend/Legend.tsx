@@ -32,9 +32,10 @@ const useStyles = legacyMakeStyles({
 
 export interface LegendProps {
   vaultId: VaultEntity['id'];
+  showHodl?: boolean;
 }
 
-export const Legend = memo(function Legend({ vaultId }: LegendProps) {
+export const Legend = memo(function Legend({ vaultId, showHodl = false }: LegendProps) {
   const classes = useStyles();
   const { t } = useTranslation();
 
@@ -56,6 +57,9 @@ export const Legend = memo(function Legend({ vaultId }: LegendProps) {
         )}
       />
       <LegendItem color="#5C70D6" text={t('pnl-graph-legend-usd')} />
+      {showHodl ?
+        <LegendItem color="#999CB3" text={t('pnl-graph-legend-hodl')} />
+      : null}
     </div>
   );
 });
@@ -37,6 +37,7 @@ type PayloadData = {
   datetime: string;
   underlyingBalance: string;
   usdBalance: string;
+  hodlUsd?: number | null;
 };
 
 interface TooltipProps {
@@ -53,6 +54,7 @@ export const PnLTooltip = memo(function PnLTooltip({ active, payload }: TooltipP
     const formattedDate = format(new Date(payload[0].payload.datetime), 'MMM d, yyyy h:mm a');
     const shares = new BigNumber(payload[0].payload.underlyingBalance);
     const usdBalance = new BigNumber(payload[0].payload.usdBalance);
+    const { hodlUsd } = payload[0].payload;
 
     return (
       <div className={classes.container}>
@@ -65,6 +67,12 @@ export const PnLTooltip = memo(function PnLTooltip({ active, payload }: TooltipP
           <div>{t('pnl-tooltip-deposit-usd')}</div>
           <div className={classes.value}>{formatLargeUsd(usdBalance)}</div>
         </div>
+        {hodlUsd !== undefined && hodlUsd !== null ?
+          <div className={classes.item}>
+            <div>{t('pnl-tooltip-hodl-usd')}</div>
+            <div className={classes.value}>{formatLargeUsd(new BigNumber(hodlUsd))}</div>
+          </div>
+        : null}
       </div>
     );
   }
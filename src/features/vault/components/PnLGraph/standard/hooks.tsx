@@ -4,10 +4,11 @@ import { useAppSelector } from '../../../../../store.ts';
 import {
   selectUserDepositedTimelineByVaultId,
   selectUserFirstDepositDateByVaultId,
+  selectVaultHodlTokens,
 } from '../../../../data/selectors/analytics.ts';
-import { getInvestorTimeseries } from '../../../../../helpers/graph/timeseries.ts';
+import { getInvestorTimeseries, type PriceTsRow } from '../../../../../helpers/graph/timeseries.ts';
 import { differenceInHours, getUnixTime, isAfter } from 'date-fns';
-import { maxBy, minBy } from 'lodash-es';
+import { isEqual, maxBy, minBy } from 'lodash-es';
 import {
   selectVaultById,
   selectVaultPricePerFullShare,
@@ -22,6 +23,12 @@ import { selectUserVaultBalanceInShareTokenIncludingDisplaced } from '../../../.
 import { useVaultIdToUnderlyingUsdPrices } from '../../../../data/hooks/historical.tsx';
 import { useVaultIdToShareToUnderlying } from '../../../../data/hooks/analytics.tsx';
 import type { GraphBucket } from '../../../../../helpers/graph/types.ts';
+import { getHodlTimeseries } from '../../../../../helpers/hodl.ts';
+
+export type PnLChartRow = PriceTsRow & {
+  /** usd value of the deposited lp tokens had they been held instead, only for lp vaults */
+  hodlUsd?: number | null;
+};
 
 // Same object reference for empty chart data
 export const NO_CHART_DATA = { data: [], minUnderlying: 0, maxUnderlying: 0, minUsd: 0, maxUsd: 0 };
@@ -57,6 +64,8 @@ export const usePnLChartData = (
     willRetry: underlyingWillRetry,
   } = useVaultIdToUnderlyingUsdPrices(vaultId, timeBucket);
 
+  const hodlTokens = useAppSelector(state => selectVaultHodlTokens(state, vaultId), isEqual);
+
   const isLoading = underlyingLoading || sharesLoading;
   const willRetry = sharesWillRetry || underlyingWillRetry;
 
@@ -77,7 +86,7 @@ export const usePnLChartData = (
         price => price.t > vaultLastDepositUnix
       );
 
-      const data = getInvestorTimeseries(
+      const investorData = getInvestorTimeseries(
         timeBucket,
         vaultTimeline.current,
         filteredSharesToUnderlying,
@@ -88,9 +97,25 @@ export const usePnLChartData = (
         currentMooTokenBalance
       );
 
-      if (data && data.length > 0) {
-        const minUsd = minBy(data, row => row.usdBalance)?.usdBalance || 0;
-        const maxUsd = maxBy(data, row => row.usdBalance)?.usdBalance || 0;
+      if (investorData && investorData.length > 0) {
+        let data: PnLChartRow[] = investorData;
+        let minUsd = minBy(data, row => row.usdBalance)?.usdBalance || 0;
+        let maxUsd = maxBy(data, row => row.usdBalance)?.usdBalance || 0;
+
+        if (hodlTokens) {
+          const hodlUsd = getHodlTimeseries(
+            investorData.map(row => row.datetime),
+            vaultTimeline.current,
+            hodlTokens
+          );
+          data = investorData.map((row, i) => ({ ...row, hodlUsd: hodlUsd[i] }));
+          for (const value of hodlUsd) {
+            if (value !== null) {
+              minUsd = Math.min(minUsd, value);
+              maxUsd = Math.max(maxUsd, value);
+            }
+          }
+        }
 
         const minUnderlying = minBy(data, row => row.underlyingBalance)?.underlyingBalance || 0;
         const maxUnderlying = maxBy(data, row => row.underlyingBalance)?.underlyingBalance || 0;
@@ -111,6 +136,7 @@ export const usePnLChartData = (
     currentPpfs,
     vaultTimeline,
     timeBucket,
+    hodlTokens,
   ]);
 
   return { chartData, isLoading, willRetry };
@@ -0,0 +1,172 @@
+import { type ChangeEvent, memo, useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../../../store.ts';
+import { isCowcentratedLikeVault, type VaultEntity } from '../../../data/entities/vault.ts';
+import { selectVaultById } from '../../../data/selectors/vaults.ts';
+import { selectAlertRulesByVaultId } from '../../../data/selectors/alerts.ts';
+import {
+  type AlertRule,
+  type AlertRuleCondition,
+  type AlertRuleType,
+  alertsActions,
+} from '../../../data/reducers/alerts.ts';
+import { Card } from '../Card/Card.tsx';
+import { CardHeader } from '../Card/CardHeader.tsx';
+import { CardTitle } from '../Card/CardTitle.tsx';
+import { CardContent } from '../Card/CardContent.tsx';
+import { LabelledCheckbox } from '../../../../components/LabelledCheckbox/LabelledCheckbox.tsx';
+import { BaseInput } from '../../../../components/Form/Input/BaseInput.tsx';
+
+const DEFAULT_CONDITIONS = {
+  'vault-status': { type: 'vault-status' },
+  'clm-out-of-range': { type: 'clm-out-of-range' },
+  'apy-below': { type: 'apy-below', threshold: 0.05 },
+  'boost-ended': { type: 'boost-ended' },
+  'rewards-above': { type: 'rewards-above', thresholdUsd: 10 },
+} as const satisfies { [K in AlertRuleType]: Extract<AlertRuleCondition, { type: K }> };
+
+const RULE_LABEL_KEYS: Record<AlertRuleType, string> = {
+  'vault-status': 'Alerts-Rule-VaultStatus',
+  'clm-out-of-range': 'Alerts-Rule-OutOfRange',
+  'apy-below': 'Alerts-Rule-ApyBelow',
+  'boost-ended': 'Alerts-Rule-BoostEnded',
+  'rewards-above': 'Alerts-Rule-RewardsAbove',
+};
+
+type PositionAlertsProps = {
+  vaultId: VaultEntity['id'];
+};
+
+export const PositionAlerts = memo(function PositionAlerts({ vaultId }: PositionAlertsProps) {
+  const { t } = useTranslation();
+  const vault = useAppSelector(state => selectVaultById(state, vaultId));
+  const rules = useAppSelector(state => selectAlertRulesByVaultId(state, vaultId));
+  const types = useMemo(
+    () =>
+      (Object.keys(DEFAULT_CONDITIONS) as AlertRuleType[]).filter(
+        type => type !== 'clm-out-of-range' || isCowcentratedLikeVault(vault)
+      ),
+    [vault]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('Alerts-Title')}</CardTitle>
+      </CardHeader>
+      <CardContent className={contentClass}>
+        <div className={descriptionClass}>{t('Alerts-Description')}</div>
+        {types.map(type => (
+          <PositionAlertRule
+            key={type}
+            vaultId={vaultId}
+            type={type}
+            rule={rules.find(rule => rule.type === type)}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+});
+
+type PositionAlertRuleProps = {
+  vaultId: VaultEntity['id'];
+  type: AlertRuleType;
+  rule: AlertRule | undefined;
+};
+
+const PositionAlertRule = memo(function PositionAlertRule({
+  vaultId,
+  type,
+  rule,
+}: PositionAlertRuleProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+
+  const handleChange = useCallback(
+    (checked: boolean) => {
+      if (!checked) {
+        if (rule) {
+          dispatch(alertsActions.removeRule(rule.id));
+        }
+      } else if (!rule) {
+        dispatch(alertsActions.addRule({ ...DEFAULT_CONDITIONS[type], vaultId }));
+      }
+    },
+    [dispatch, rule, type, vaultId]
+  );
+
+  return (
+    <div className={ruleClass}>
+      <LabelledCheckbox checked={!!rule} onChange={handleChange} label={t(RULE_LABEL_KEYS[type])} />
+      {rule && rule.type === 'apy-below' ?
+        <ThresholdInput ruleId={rule.id} value={rule.threshold} scale={100} suffix="%" />
+      : rule && rule.type === 'rewards-above' ?
+        <ThresholdInput ruleId={rule.id} value={rule.thresholdUsd} scale={1} suffix="USD" />
+      : null}
+    </div>
+  );
+});
+
+type ThresholdInputProps = {
+  ruleId: AlertRule['id'];
+  value: number;
+  /** input value = rule threshold * scale */
+  scale: number;
+  suffix: string;
+};
+
+const ThresholdInput = memo(function ThresholdInput({
+  ruleId,
+  value,
+  scale,
+  suffix,
+}: ThresholdInputProps) {
+  const dispatch = useAppDispatch();
+  const [input, setInput] = useState(() => (value * scale).toString());
+
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      setInput(e.target.value);
+      const parsed = parseFloat(e.target.value);
+      if (Number.isFinite(parsed) && parsed >= 0) {
+        dispatch(alertsActions.setRuleThreshold({ id: ruleId, threshold: parsed / scale }));
+      }
+    },
+    [dispatch, ruleId, scale]
+  );
+
+  return (
+    <BaseInput
+      value={input}
+      onChange={handleChange}
+      inputMode="decimal"
+      endAdornment={suffix}
+      className={thresholdClass}
+      error={!Number.isFinite(parseFloat(input))}
+    />
+  );
+});
+
+const contentClass = css({
+  gap: '12px',
+});
+
+const descriptionClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+});
+
+const ruleClass = css({
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '12px',
+  minHeight: '40px',
+});
+
+const thresholdClass = css({
+  width: '120px',
+  flexShrink: 0,
+});
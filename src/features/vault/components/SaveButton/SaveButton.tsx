@@ -1,13 +1,25 @@
-import { memo, useCallback } from 'react';
+import { type ChangeEvent, type FormEvent, memo, useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { shallowEqual } from 'react-redux';
 import { legacyMakeStyles } from '../../../../helpers/mui.ts';
 import type { VaultEntity } from '../../../data/entities/vault.ts';
 import { useAppDispatch, useAppSelector } from '../../../../store.ts';
 import BookmarkBorder from '../../../../images/icons/mui/BookmarkBorder.svg?react';
 import Bookmark from '../../../../images/icons/mui/Bookmark.svg?react';
-import { savedVaultsActions } from '../../../data/reducers/saved-vaults.ts';
-import { selectIsVaultIdSaved } from '../../../data/selectors/saved-vaults.ts';
+import { type SavedVaultList, savedVaultsActions } from '../../../data/reducers/saved-vaults.ts';
+import {
+  selectIsVaultIdInAnySavedList,
+  selectIsVaultIdSaved,
+  selectSavedVaultListIdsByVaultId,
+  selectSavedVaultLists,
+} from '../../../data/selectors/saved-vaults.ts';
 import { styles } from './styles.ts';
 import { css, type CssStyles } from '@repo/styles/css';
+import { DropdownProvider } from '../../../../components/Dropdown/DropdownProvider.tsx';
+import { DropdownButtonTrigger } from '../../../../components/Dropdown/DropdownTrigger.tsx';
+import { DropdownContent } from '../../../../components/Dropdown/DropdownContent.tsx';
+import { LabelledCheckbox } from '../../../../components/LabelledCheckbox/LabelledCheckbox.tsx';
+import { BaseInput } from '../../../../components/Form/Input/BaseInput.tsx';
 import { Button } from '../../../../components/Button/Button.tsx';
 
 const useStyles = legacyMakeStyles(styles);
@@ -19,22 +31,102 @@ interface SaveButtonProps {
 
 export const SaveButton = memo(function SaveButton({ vaultId, css: cssProp }: SaveButtonProps) {
   const classes = useStyles();
+  const { t } = useTranslation();
+  const isSaved = useAppSelector(state => selectIsVaultIdInAnySavedList(state, vaultId));
 
-  const dispatch = useAppDispatch();
+  return (
+    <DropdownProvider placement="bottom-end" autoWidth={false}>
+      <DropdownButtonTrigger
+        borderless={true}
+        css={css.raw(styles.shareButton, cssProp)}
+        title={t('SavedLists-Save')}
+      >
+        {isSaved ?
+          <Bookmark className={classes.icon} />
+        : <BookmarkBorder className={classes.icon} />}
+      </DropdownButtonTrigger>
+      <DropdownContent padding="normal" gap="small">
+        <SavedListsMenu vaultId={vaultId} />
+      </DropdownContent>
+    </DropdownProvider>
+  );
+});
 
+const SavedListsMenu = memo(function SavedListsMenu({ vaultId }: { vaultId: VaultEntity['id'] }) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const classes = useStyles();
   const isSaved = useAppSelector(state => selectIsVaultIdSaved(state, vaultId));
+  const lists = useAppSelector(selectSavedVaultLists);
+  const listIds = useAppSelector(
+    state => selectSavedVaultListIdsByVaultId(state, vaultId),
+    shallowEqual
+  );
+  const [name, setName] = useState('');
 
-  const handleSave = useCallback(() => {
+  const handleSavedChange = useCallback(() => {
     dispatch(savedVaultsActions.setSavedVaultIds(vaultId));
   }, [dispatch, vaultId]);
 
+  const handleNameChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      setName(e.target.value);
+    },
+    [setName]
+  );
+
+  const handleCreate = useCallback(
+    (e: FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      if (name.trim()) {
+        dispatch(savedVaultsActions.createList({ name, vaultIds: [vaultId] }));
+        setName('');
+      }
+    },
+    [dispatch, name, vaultId]
+  );
+
   return (
-    <Button borderless={true} css={css.raw(styles.shareButton, cssProp)} onClick={handleSave}>
-      {isSaved ? (
-        <Bookmark className={classes.icon} />
-      ) : (
-        <BookmarkBorder className={classes.icon} />
-      )}
-    </Button>
+    <>
+      <LabelledCheckbox checked={isSaved} onChange={handleSavedChange} label={t('Filter-Saved')} />
+      {lists.map(list => (
+        <SavedListCheckbox
+          key={list.id}
+          list={list}
+          vaultId={vaultId}
+          checked={listIds.includes(list.id)}
+        />
+      ))}
+      <form onSubmit={handleCreate} className={classes.newList}>
+        <BaseInput
+          value={name}
+          onChange={handleNameChange}
+          placeholder={t('SavedLists-NewList')}
+          className={classes.newListInput}
+        />
+        <Button type="submit" size="sm" disabled={!name.trim()}>
+          {t('SavedLists-Create')}
+        </Button>
+      </form>
+    </>
   );
 });
+
+type SavedListCheckboxProps = {
+  list: SavedVaultList;
+  vaultId: VaultEntity['id'];
+  checked: boolean;
+};
+
+const SavedListCheckbox = memo(function SavedListCheckbox({
+  list,
+  vaultId,
+  checked,
+}: SavedListCheckboxProps) {
+  const dispatch = useAppDispatch();
+  const handleChange = useCallback(() => {
+    dispatch(savedVaultsActions.toggleListVault({ id: list.id, vaultId }));
+  }, [dispatch, list.id, vaultId]);
+
+  return <LabelledCheckbox checked={checked} onChange={handleChange} label={list.name} />;
+});
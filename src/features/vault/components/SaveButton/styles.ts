@@ -21,6 +21,15 @@ export const styles = {
     flexGrow: '0',
     fontSize: '16px',
   }),
+  newList: css.raw({
+    display: 'flex',
+    gap: '8px',
+    marginTop: '4px',
+  }),
+  newListInput: css.raw({
+    flex: '1 1 auto',
+    minWidth: '160px',
+  }),
   iconHolder: css.raw({
     height: '24px',
     width: '24px',
@@ -15,6 +15,8 @@ import { styles } from './styles.ts';
 import { ShareButton } from '../ShareButton/ShareButton.tsx';
 import { punctuationWrap } from '../../../../helpers/string.ts';
 import { SaveButton } from '../SaveButton/SaveButton.tsx';
+import { CompareButton } from '../CompareButton/CompareButton.tsx';
+import { BasketButton } from '../BasketButton/BasketButton.tsx';
 import { selectVaultTokenSymbols } from '../../../data/selectors/tokens.ts';
 import { VaultClmLikeTag } from '../../../../components/VaultIdentity/components/VaultTags/VaultTags.tsx';
 import { css } from '@repo/styles/css';
@@ -63,6 +65,8 @@ export const VaultHeader = memo(function VaultHeader({ vaultId }: VaultHeaderPro
         </div>
         <div className={classes.shareHolder}>
           <SaveButton vaultId={vaultId} />
+          <CompareButton vaultId={vaultId} />
+          {vault.status === 'active' ? <BasketButton vaultId={vaultId} /> : null}
           {vault.status === 'active' ? (
             <ShareButton hideText={true} vaultId={vaultId} mobileAlternative={true} />
           ) : null}
@@ -0,0 +1,81 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppSelector } from '../../store.ts';
+import { selectWatchlistEntries } from '../data/selectors/watchlist.ts';
+import { Container } from '../../components/Container/Container.tsx';
+import { AddWatchlistAddress } from './components/AddWatchlistAddress.tsx';
+import { WatchlistSummary } from './components/WatchlistSummary.tsx';
+import { WatchlistExposure } from './components/WatchlistExposure.tsx';
+import { WatchlistWallets } from './components/WatchlistWallets.tsx';
+import { useWatchlistLoadedAddresses } from './hooks.ts';
+
+const WatchlistPage = memo(function WatchlistPage() {
+  const { t } = useTranslation();
+  const entries = useAppSelector(selectWatchlistEntries);
+  const loadedAddresses = useWatchlistLoadedAddresses();
+
+  return (
+    <div className={pageClass}>
+      <div className={headerClass}>
+        <Container maxWidth="lg">
+          <div className={titleAddClass}>
+            <div className={titleClass}>{t('Watchlist-Title')}</div>
+            <AddWatchlistAddress />
+          </div>
+          <WatchlistSummary
+            addresses={loadedAddresses}
+            loading={entries.length - loadedAddresses.length}
+          />
+        </Container>
+      </div>
+      {entries.length > 0 ?
+        <>
+          <WatchlistExposure addresses={loadedAddresses} />
+          <WatchlistWallets entries={entries} />
+        </>
+      : <Container maxWidth="lg">
+          <div className={emptyClass}>{t('Watchlist-Empty')}</div>
+        </Container>
+      }
+    </div>
+  );
+});
+
+const pageClass = css({
+  flex: '1 1 auto',
+  paddingBottom: '48px',
+});
+
+const headerClass = css({
+  backgroundColor: 'background.header',
+  padding: '24px 0px',
+  lg: {
+    padding: '24px 0 48px 0',
+  },
+});
+
+const titleAddClass = css({
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'flex-start',
+  marginBottom: '24px',
+  mdDown: {
+    flexDirection: 'column',
+    rowGap: '12px',
+  },
+});
+
+const titleClass = css({
+  textStyle: 'h1',
+});
+
+const emptyClass = css({
+  textStyle: 'body',
+  color: 'text.middle',
+  padding: '48px 0',
+  textAlign: 'center',
+});
+
+// eslint-disable-next-line no-restricted-syntax -- default export required for React.lazy()
+export default WatchlistPage;
@@ -0,0 +1,90 @@
+import { type ChangeEvent, type FormEvent, memo, useCallback, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppDispatch } from '../../../store.ts';
+import { watchlistActions } from '../../data/reducers/watchlist.ts';
+import { isMaybeDomain, isValidAddress } from '../../../helpers/addresses.ts';
+import { useResolveDomain } from '../../data/hooks/resolver.tsx';
+import { isFulfilledStatus } from '../../data/reducers/wallet/resolver-types.ts';
+import { BaseInput } from '../../../components/Form/Input/BaseInput.tsx';
+import { Button } from '../../../components/Button/Button.tsx';
+
+export const AddWatchlistAddress = memo(function AddWatchlistAddress() {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const [userInput, setUserInput] = useState('');
+  const [label, setLabel] = useState('');
+  const isDomain = isMaybeDomain(userInput);
+  const resolverStatus = useResolveDomain(isDomain ? userInput : '');
+
+  const resolved = useMemo(() => {
+    if (isDomain) {
+      return isFulfilledStatus(resolverStatus) ?
+          { address: resolverStatus.value, domain: userInput }
+        : undefined;
+    }
+    return isValidAddress(userInput) ? { address: userInput, domain: undefined } : undefined;
+  }, [isDomain, resolverStatus, userInput]);
+
+  const handleInputChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => setUserInput(e.target.value.trim()),
+    [setUserInput]
+  );
+  const handleLabelChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => setLabel(e.target.value),
+    [setLabel]
+  );
+
+  const handleSubmit = useCallback(
+    (e: FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      if (resolved) {
+        dispatch(
+          watchlistActions.addWatchlistAddress({
+            address: resolved.address,
+            domain: resolved.domain,
+            label: label.trim() || undefined,
+          })
+        );
+        setUserInput('');
+        setLabel('');
+      }
+    },
+    [dispatch, resolved, label]
+  );
+
+  return (
+    <form className={formClass} onSubmit={handleSubmit}>
+      <BaseInput
+        value={userInput}
+        onChange={handleInputChange}
+        placeholder={t('Watchlist-Add-Address')}
+        className={inputClass}
+      />
+      <BaseInput
+        value={label}
+        onChange={handleLabelChange}
+        placeholder={t('Watchlist-Add-Label')}
+        className={inputClass}
+      />
+      <Button type="submit" size="sm" variant="success" disabled={!resolved}>
+        {t('Watchlist-Add')}
+      </Button>
+    </form>
+  );
+});
+
+const formClass = css({
+  display: 'flex',
+  alignItems: 'center',
+  columnGap: '12px',
+  mdDown: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+    rowGap: '12px',
+  },
+});
+
+const inputClass = css({
+  minWidth: '200px',
+});
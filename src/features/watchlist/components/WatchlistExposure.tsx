@@ -0,0 +1,64 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { css } from '@repo/styles/css';
+import { useAppSelector } from '../../../store.ts';
+import {
+  selectDashboardUsersExposureByChain,
+  selectDashboardUsersExposureByPlatform,
+  selectDashboardUsersExposureByToken,
+  selectDashboardUsersStablecoinsExposure,
+} from '../../data/selectors/dashboard.ts';
+import { Section } from '../../../components/Section/Section.tsx';
+import { ExposureChart } from '../../dashboard/components/ExposureChart/ExposureChart.tsx';
+import { StablesExposureBar } from '../../dashboard/components/StablesExposure/StablesExposure.tsx';
+
+type WatchlistExposureProps = {
+  addresses: string[];
+};
+
+export const WatchlistExposure = memo(function WatchlistExposure({
+  addresses,
+}: WatchlistExposureProps) {
+  const { t } = useTranslation();
+  const chainExposure = useAppSelector(state =>
+    selectDashboardUsersExposureByChain(state, addresses)
+  );
+  const platformExposure = useAppSelector(state =>
+    selectDashboardUsersExposureByPlatform(state, addresses)
+  );
+  const tokenExposure = useAppSelector(state =>
+    selectDashboardUsersExposureByToken(state, addresses)
+  );
+  const stablesExposure = useAppSelector(state =>
+    selectDashboardUsersStablecoinsExposure(state, addresses)
+  );
+
+  if (!chainExposure.length) {
+    return null;
+  }
+
+  return (
+    <Section title={t('Overview')}>
+      <div className={chartsClass}>
+        <ExposureChart title={t('Exposure-Chain')} type="chain" data={chainExposure} />
+        <ExposureChart title={t('Exposure-Platform')} type="platform" data={platformExposure} />
+        <ExposureChart title={t('Exposure-Tokens')} type="token" data={tokenExposure} />
+      </div>
+      <StablesExposureBar data={stablesExposure} />
+    </Section>
+  );
+});
+
+const chartsClass = css({
+  marginBottom: '24px',
+  display: 'grid',
+  gridTemplateColumns: 'repeat(3,1fr)',
+  columnGap: '24px',
+  rowGap: '24px',
+  lgDown: {
+    gridTemplateColumns: 'repeat(2,1fr)',
+  },
+  mdDown: {
+    gridTemplateColumns: '1fr',
+  },
+});
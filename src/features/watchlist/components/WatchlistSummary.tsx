@@ -0,0 +1,65 @@
+import { memo, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppSelector } from '../../../store.ts';
+import { selectDashboardUsersStats } from '../../data/selectors/dashboard.ts';
+import { formatLargeUsd } from '../../../helpers/format.ts';
+import { SummaryStats } from '../../../components/SummaryStats/SummaryStats.tsx';
+import WalletIcon from '../../../images/icons/wallet.svg?react';
+import DailyIcon from '../../../images/icons/daily-yield.svg?react';
+import MonthlyIcon from '../../../images/icons/monthly-yield.svg?react';
+import { css } from '@repo/styles/css';
+
+type WatchlistSummaryProps = {
+  addresses: string[];
+  /** number of wallets still loading */
+  loading: number;
+};
+
+export const WatchlistSummary = memo(function WatchlistSummary({
+  addresses,
+  loading,
+}: WatchlistSummaryProps) {
+  const { t } = useTranslation();
+  const stats = useAppSelector(state => selectDashboardUsersStats(state, addresses));
+
+  const items = useMemo(
+    () => [
+      {
+        title: t('Watchlist-Summary-Deposit'),
+        value: formatLargeUsd(stats.deposited),
+        Icon: WalletIcon,
+      },
+      {
+        title: t('Summary-Yield'),
+        value: formatLargeUsd(stats.yieldUsd.toNumber()),
+        Icon: MonthlyIcon,
+      },
+      {
+        title: t('Watchlist-Summary-Pnl'),
+        value: formatLargeUsd(stats.pnlUsd.toNumber()),
+        Icon: MonthlyIcon,
+      },
+      {
+        title: t('Summary-Daily'),
+        value: formatLargeUsd(stats.daily),
+        Icon: DailyIcon,
+      },
+    ],
+    [t, stats]
+  );
+
+  return (
+    <>
+      <SummaryStats items={items} />
+      {loading > 0 ?
+        <div className={loadingClass}>{t('Watchlist-Loading', { count: loading })}</div>
+      : null}
+    </>
+  );
+});
+
+const loadingClass = css({
+  marginTop: '12px',
+  textStyle: 'body.sm',
+  color: 'text.dark',
+});
@@ -0,0 +1,146 @@
+import { memo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router';
+import { css } from '@repo/styles/css';
+import { useAppDispatch, useAppSelector } from '../../../store.ts';
+import { type WatchlistEntry, watchlistActions } from '../../data/reducers/watchlist.ts';
+import { selectUserGlobalStats } from '../../data/selectors/apy.ts';
+import { selectUserTotalPnlUsd, selectUserTotalYieldUsd } from '../../data/selectors/dashboard.ts';
+import { useResolveAddress } from '../../data/hooks/resolver.tsx';
+import { isFulfilledStatus } from '../../data/reducers/wallet/resolver-types.ts';
+import { useInitDashboard } from '../../dashboard/hooks.tsx';
+import { formatAddressShort, formatDomain, formatLargeUsd } from '../../../helpers/format.ts';
+import { Section } from '../../../components/Section/Section.tsx';
+import { Button } from '../../../components/Button/Button.tsx';
+import { TextLoader } from '../../../components/TextLoader/TextLoader.tsx';
+
+type WatchlistWalletsProps = {
+  entries: WatchlistEntry[];
+};
+
+export const WatchlistWallets = memo(function WatchlistWallets({ entries }: WatchlistWalletsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Section title={t('Watchlist-Wallets')}>
+      <div className={tableClass}>
+        <div className={headerRowClass}>
+          <div>{t('Watchlist-Wallet')}</div>
+          <div>{t('Summary-Deposit')}</div>
+          <div>{t('Summary-Yield')}</div>
+          <div>{t('Watchlist-Summary-Pnl')}</div>
+          <div>{t('Summary-Daily')}</div>
+          <div />
+        </div>
+        {entries.map(entry => (
+          <WatchlistWallet key={entry.address} entry={entry} />
+        ))}
+      </div>
+    </Section>
+  );
+});
+
+type WatchlistWalletProps = {
+  entry: WatchlistEntry;
+};
+
+const WatchlistWallet = memo(function WatchlistWallet({ entry }: WatchlistWalletProps) {
+  const { t } = useTranslation();
+  const dispatch = useAppDispatch();
+  const { address, label, domain } = entry;
+  const loading = useInitDashboard(address);
+  const resolvedDomain = useResolveAddress(domain ? undefined : address);
+  const name =
+    label ||
+    (domain ? formatDomain(domain, 20) : undefined) ||
+    (isFulfilledStatus(resolvedDomain) ? formatDomain(resolvedDomain.value, 20) : undefined) ||
+    formatAddressShort(address);
+
+  const handleRemove = useCallback(() => {
+    dispatch(watchlistActions.removeWatchlistAddress(address));
+  }, [dispatch, address]);
+
+  return (
+    <div className={rowClass}>
+      <Link to={`/dashboard/${address}`} className={nameClass} title={address}>
+        {name}
+      </Link>
+      {loading ?
+        <>
+          <TextLoader placeholder="$00,000" />
+          <TextLoader placeholder="$00,000" />
+          <TextLoader placeholder="$00,000" />
+          <TextLoader placeholder="$00,000" />
+        </>
+      : <WatchlistWalletStats address={address} />}
+      <Button size="xs" variant="filter" onClick={handleRemove}>
+        {t('Watchlist-Remove')}
+      </Button>
+    </div>
+  );
+});
+
+const WatchlistWalletStats = memo(function WatchlistWalletStats({ address }: { address: string }) {
+  const stats = useAppSelector(state => selectUserGlobalStats(state, address));
+  const yieldUsd = useAppSelector(state => selectUserTotalYieldUsd(state, address));
+  const pnlUsd = useAppSelector(state => selectUserTotalPnlUsd(state, address));
+
+  return (
+    <>
+      <div>{formatLargeUsd(stats.deposited)}</div>
+      <div>{formatLargeUsd(yieldUsd.toNumber())}</div>
+      <div>{formatLargeUsd(pnlUsd.toNumber())}</div>
+      <div>{formatLargeUsd(stats.daily)}</div>
+    </>
+  );
+});
+
+const tableClass = css({
+  display: 'flex',
+  flexDirection: 'column',
+  borderRadius: '8px',
+  overflow: 'hidden',
+  backgroundColor: 'background.content',
+});
+
+const rowClass = css({
+  display: 'grid',
+  gridTemplateColumns: '2fr repeat(4, 1fr) auto',
+  columnGap: '16px',
+  alignItems: 'center',
+  padding: '16px 24px',
+  textStyle: 'body.medium',
+  color: 'text.light',
+  '& + &': {
+    borderTop: 'solid 1px',
+    borderColor: 'background.content.dark',
+  },
+  mdDown: {
+    gridTemplateColumns: '1fr 1fr auto',
+    rowGap: '8px',
+  },
+});
+
+const headerRowClass = css({
+  display: 'grid',
+  gridTemplateColumns: '2fr repeat(4, 1fr) auto',
+  columnGap: '16px',
+  padding: '16px 24px',
+  textStyle: 'subline.sm',
+  color: 'text.dark',
+  backgroundColor: 'background.content.dark',
+  mdDown: {
+    display: 'none',
+  },
+});
+
+const nameClass = css({
+  color: 'text.light',
+  textDecoration: 'none',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+  _hover: {
+    color: 'text.lightest',
+  },
+});
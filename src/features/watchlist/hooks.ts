@@ -0,0 +1,13 @@
+import { shallowEqual } from 'react-redux';
+import { useAppSelector } from '../../store.ts';
+import { selectWatchlistAddresses } from '../data/selectors/watchlist.ts';
+import { selectIsDashboardDataLoadedByAddress } from '../data/selectors/analytics.ts';
+
+/** watched addresses whose dashboard data has loaded, only these are included in the totals */
+export function useWatchlistLoadedAddresses() {
+  const addresses = useAppSelector(selectWatchlistAddresses);
+  return useAppSelector(
+    state => addresses.filter(address => selectIsDashboardDataLoadedByAddress(state, address)),
+    shallowEqual
+  );
+}
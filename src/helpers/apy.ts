@@ -1,5 +1,6 @@
 import { createCachedFactory, createFactory } from '../features/data/utils/factory-utils.ts';
 import type {
+  TotalApy,
   TotalApyComponent,
   TotalApyDailyComponent,
   TotalApyKey,
@@ -52,6 +53,87 @@ export const getApyComponents = createFactory(() => {
   } as const;
 });
 
+export type ApyYieldSource = 'fee' | 'emission';
+
+/**
+ * Whether each component is paid from fees/protocol revenue (real yield) or from token emissions.
+ * The vault component depends on the farm, so its default can be overridden per platform.
+ */
+const YIELD_SOURCES = {
+  vault: 'emission',
+  clm: 'fee',
+  rewardPoolTrading: 'fee',
+  rewardPool: 'emission',
+  trading: 'fee',
+  merkl: 'emission',
+  stellaSwap: 'emission',
+  liquidStaking: 'fee',
+  composablePool: 'fee',
+  boost: 'emission',
+  merklBoost: 'emission',
+} as const satisfies Record<TotalApyComponent, ApyYieldSource>;
+
+/** Share of the yield that must be fee-based for a vault to count as earning real yield */
+export const REAL_YIELD_MIN_SHARE = 0.5;
+
+export const getApyYieldSources = createCachedFactory(
+  (vaultYieldSource: ApyYieldSource = YIELD_SOURCES.vault) => {
+    const { components } = getApyComponents();
+    const sources = { ...YIELD_SOURCES, vault: vaultYieldSource };
+    const feeComponents = components.filter(c => sources[c] === 'fee');
+    const emissionComponents = components.filter(c => sources[c] === 'emission');
+
+    return {
+      feeComponents,
+      feeDaily: feeComponents.map(c => `${c}Daily` as const satisfies TotalApyDailyComponent),
+      feeYearly: feeComponents.map(c => `${c}Apr` as const satisfies TotalApyYearlyComponent),
+      emissionComponents,
+      emissionDaily: emissionComponents.map(
+        c => `${c}Daily` as const satisfies TotalApyDailyComponent
+      ),
+      emissionYearly: emissionComponents.map(
+        c => `${c}Apr` as const satisfies TotalApyYearlyComponent
+      ),
+    } as const;
+  },
+  vaultYieldSource => vaultYieldSource ?? 'default'
+);
+
+export type ApyYieldSplit = {
+  /** sum of the fee-based component aprs */
+  realYieldApr: number;
+  realYieldDaily: number;
+  /** sum of the emission-based component aprs */
+  emissionApr: number;
+  emissionDaily: number;
+  /** fraction of the component aprs that is fee-based, 0 when there are no components */
+  realYieldShare: number;
+};
+
+/**
+ * Splits the components of `TotalApy` by yield source.
+ * Components are summed as aprs, so compounding of the vault component is not included.
+ */
+export function getApyYieldSplit(
+  values: TotalApy,
+  vaultYieldSource?: ApyYieldSource
+): ApyYieldSplit {
+  const { feeDaily, feeYearly, emissionDaily, emissionYearly } =
+    getApyYieldSources(vaultYieldSource);
+  const sum = (keys: Array<TotalApyKey>) => keys.reduce((acc, key) => acc + (values[key] || 0), 0);
+  const realYieldApr = sum(feeYearly);
+  const emissionApr = sum(emissionYearly);
+  const totalApr = realYieldApr + emissionApr;
+
+  return {
+    realYieldApr,
+    realYieldDaily: sum(feeDaily),
+    emissionApr,
+    emissionDaily: sum(emissionDaily),
+    realYieldShare: totalApr > 0 ? realYieldApr / totalApr : 0,
+  };
+}
+
 export type ApyLabelsType = VaultEntity['type'] | 'cowcentrated-compounds';
 
 export type ApyLabels = {
@@ -0,0 +1,63 @@
+import BigNumber from 'bignumber.js';
+
+// https://stackoverflow.com/a/45831280/2523414
+function downloadBlob(blob: Blob, filename: string) {
+  const e = document.createEvent('MouseEvents');
+  const a = document.createElement('a');
+  a.download = filename;
+  a.href = window.URL.createObjectURL(blob);
+  a.dataset.downloadurl = [blob.type, a.download, a.href].join(':');
+  // @ts-ignore
+  e.initEvent('click', true, false, window, 0, 0, 0, 0, 0, false, false, false, false, 0, null);
+  a.dispatchEvent(e);
+}
+
+export function downloadObjectAsJsonFile(
+  obj: object,
+  filename: string = 'download.json',
+  pretty: boolean = true
+) {
+  const str = pretty ? JSON.stringify(obj, null, 2) : JSON.stringify(obj);
+  downloadBlob(new Blob([str], { type: 'application/json' }), filename);
+}
+
+type CsvValue = string | number | boolean | Date | BigNumber | object | null | undefined;
+
+/** text starting with one of these is run as a formula by spreadsheet apps */
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+/** signed numbers are not formulas, so they can skip the escaping */
+const CSV_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const stringValue =
+    value instanceof Date ? value.toISOString()
+    : BigNumber.isBigNumber(value) ? value.toString(10)
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+  // only strings can hold formulas, and numeric ones are left alone so negative values stay numeric
+  const safeValue =
+    (
+      typeof value === 'string' &&
+      CSV_FORMULA_PREFIX.test(stringValue) &&
+      !CSV_NUMBER.test(stringValue)
+    ) ?
+      `'${stringValue}`
+    : stringValue;
+  return `"${safeValue.replace(/"/g, '""')}"`;
+}
+
+/** Header row is taken from the keys of the first row */
+export function downloadRowsAsCsvFile<T extends Record<string, CsvValue>>(
+  rows: T[],
+  filename: string = 'download.csv'
+) {
+  const columns = rows.length ? Object.keys(rows[0]) : [];
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(',')),
+  ];
+  downloadBlob(new Blob([lines.join('\r\n')], { type: 'text/csv' }), filename);
+}
@@ -15,7 +15,7 @@ import type {
   ClmUserHarvestsTimelineHarvest,
 } from '../../features/data/actions/analytics.ts';
 import type { ApiPoint } from '../../features/data/apis/beefy/beefy-data-api-types.ts';
-import { ClmPnl } from '../pnl.ts';
+import { ClmPnl, PnL } from '../pnl.ts';
 import type { TokenEntity } from '../../features/data/entities/token.ts';
 import { getBigNumberInterpolator, type Interpolator } from '../math.ts';
 import type { GraphBucket } from './types.ts';
@@ -767,3 +767,237 @@ export function getClmInvestorFeesTimeSeries(
   );
   return generator.generate();
 }
+
+export type PortfolioTimeseriesTransaction = {
+  datetime: Date;
+  shares: BigNumber;
+  sharesToUnderlying: BigNumber;
+  underlyingToUsd: BigNumber;
+};
+
+export type PortfolioTimeseriesVault = {
+  vaultId: string;
+  /** every deposit/withdraw, oldest first */
+  transactions: PortfolioTimeseriesTransaction[];
+  /** empty when the share price is only known at each transaction, e.g. gov and clm vaults */
+  sharesToUnderlying: DatabarnProductPriceRow[];
+  underlyingToUsd: ApiPoint[];
+  liveSharesToUnderlying: BigNumber;
+  liveUnderlyingToUsd: BigNumber;
+};
+
+export type PortfolioTimeseriesPoint = {
+  /** timestamp in milliseconds */
+  t: number;
+  depositedUsd: number;
+  /** yield on held shares plus yield realized by withdrawals */
+  yieldUsd: number;
+  /** unrealized plus realized pnl */
+  pnlUsd: number;
+};
+
+type PortfolioVaultPosition = {
+  shares: BigNumber;
+  /** underlying amount of the held shares when acquired */
+  entryUnderlying: BigNumber;
+  /** usd value of the held shares when acquired */
+  entryUsd: BigNumber;
+  realizedYieldUsd: BigNumber;
+  realizedPnlUsd: BigNumber;
+};
+
+const EMPTY_PORTFOLIO_POSITION: PortfolioVaultPosition = {
+  shares: BIG_ZERO,
+  entryUnderlying: BIG_ZERO,
+  entryUsd: BIG_ZERO,
+  realizedYieldUsd: BIG_ZERO,
+  realizedPnlUsd: BIG_ZERO,
+};
+
+class PortfolioTimeSeriesGenerator {
+  protected readonly nowUnix: number;
+  protected readonly firstUnix: number;
+  protected readonly lastUnix: number;
+  protected readonly bucketSize: number;
+  protected readonly bucketBeforeFirstUnix: number;
+
+  constructor(
+    protected vaults: PortfolioTimeseriesVault[],
+    firstDate: Date,
+    lastDate: Date,
+    bucketSizeMs: number
+  ) {
+    this.nowUnix = getUnixTime(new Date());
+    this.firstUnix = getUnixTime(firstDate);
+    this.lastUnix = Math.min(this.nowUnix, getUnixTime(lastDate));
+    this.bucketSize = bucketSizeMs / 1000;
+    this.bucketBeforeFirstUnix = Math.floor(this.firstUnix / this.bucketSize) * this.bucketSize;
+  }
+
+  protected getPositions(vault: PortfolioTimeseriesVault): TimeValueAfter<PortfolioVaultPosition> {
+    const pnl = new PnL();
+    let realizedPnlUsd = BIG_ZERO;
+    let realizedLotsCount = 0;
+
+    const points = vault.transactions.map(tx => {
+      pnl.addTransaction({
+        shares: tx.shares,
+        price: tx.underlyingToUsd,
+        ppfs: tx.sharesToUnderlying,
+        datetime: tx.datetime,
+      });
+
+      const realizedLots = pnl.getRealizedLots();
+      for (; realizedLotsCount < realizedLots.length; ++realizedLotsCount) {
+        realizedPnlUsd = realizedPnlUsd.plus(realizedLots[realizedLotsCount].gainUsd);
+      }
+      const costBasis = pnl.getRemainingCostBasis();
+
+      return {
+        t: getUnixTime(tx.datetime),
+        v: {
+          shares: pnl.getRemainingShares(),
+          entryUnderlying: costBasis.underlying,
+          entryUsd: costBasis.usd,
+          realizedYieldUsd: pnl.getRealizedYield().usd,
+          realizedPnlUsd,
+        },
+      };
+    });
+
+    return new TimeValueAfter(points, EMPTY_PORTFOLIO_POSITION);
+  }
+
+  protected getSharesToUnderlying(vault: PortfolioTimeseriesVault): TimeValueAfter<BigNumber> {
+    return new TimeValueAfter<BigNumber>(
+      [
+        {
+          t: this.nowUnix,
+          v: vault.liveSharesToUnderlying,
+        },
+      ]
+        .concat(
+          vault.transactions.map(tx => ({
+            t: getUnixTime(tx.datetime),
+            v: tx.sharesToUnderlying,
+          }))
+        )
+        .concat(
+          vault.sharesToUnderlying
+            .filter(row => row.value && !row.value.isNaN())
+            .map(row => ({
+              t: getUnixTime(row.date),
+              v: row.value,
+            }))
+        ),
+      BIG_ONE
+    );
+  }
+
+  protected getUnderlyingToUsd(vault: PortfolioTimeseriesVault): TimeBigNumberInterpolator {
+    return new TimeBigNumberInterpolator(
+      [
+        {
+          t: this.nowUnix,
+          v: vault.liveUnderlyingToUsd,
+        },
+      ]
+        .concat(
+          vault.transactions.map(tx => ({
+            t: getUnixTime(tx.datetime),
+            v: tx.underlyingToUsd,
+          }))
+        )
+        .concat(
+          vault.underlyingToUsd.map(p => ({
+            t: p.t,
+            v: new BigNumber(p.v),
+          }))
+        )
+    );
+  }
+
+  protected getTimestamps(txTimestamps: number[]) {
+    const timestamps: number[] = txTimestamps.filter(t => t >= this.bucketBeforeFirstUnix);
+    const firstTxTimestamp = Math.min(...txTimestamps);
+
+    for (let t = this.bucketBeforeFirstUnix; t <= this.lastUnix; t += this.bucketSize) {
+      if (t > firstTxTimestamp) {
+        timestamps.push(t);
+      }
+    }
+
+    timestamps.push(this.nowUnix);
+
+    return sortedUniq(timestamps.sort((a, b) => a - b));
+  }
+
+  public generate(): PortfolioTimeseriesPoint[] {
+    const series = this.vaults.map(vault => ({
+      positions: this.getPositions(vault),
+      sharesToUnderlying: this.getSharesToUnderlying(vault),
+      underlyingToUsd: this.getUnderlyingToUsd(vault),
+    }));
+    const timestamps = this.getTimestamps(series.flatMap(s => s.positions.timestamps));
+
+    return timestamps.map(t => {
+      let depositedUsd = BIG_ZERO;
+      let yieldUsd = BIG_ZERO;
+      let pnlUsd = BIG_ZERO;
+
+      for (const { positions, sharesToUnderlying, underlyingToUsd } of series) {
+        const position = positions.getValueAfter(t);
+        const underlyingToUsdAt = underlyingToUsd.getValueAt(t);
+        const underlying = position.shares.times(sharesToUnderlying.getValueAfter(t));
+        const underlyingUsd = underlying.times(underlyingToUsdAt);
+
+        depositedUsd = depositedUsd.plus(underlyingUsd);
+        yieldUsd = yieldUsd
+          .plus(underlying.minus(position.entryUnderlying).times(underlyingToUsdAt))
+          .plus(position.realizedYieldUsd);
+        pnlUsd = pnlUsd.plus(underlyingUsd.minus(position.entryUsd)).plus(position.realizedPnlUsd);
+      }
+
+      return {
+        t: t * 1000, // graph UI wants timestamp in milliseconds
+        depositedUsd: depositedUsd.toNumber(),
+        yieldUsd: yieldUsd.toNumber(),
+        pnlUsd: pnlUsd.toNumber(),
+      };
+    });
+  }
+}
+
+/**
+ * Combines the timelines of every vault a wallet has been in to a single series of total
+ * deposited usd, cumulative yield and pnl
+ */
+export function getPortfolioTimeseries(
+  timeBucket: GraphBucket,
+  vaults: PortfolioTimeseriesVault[]
+): PortfolioTimeseriesPoint[] {
+  const vaultsWithTransactions = vaults.filter(vault => vault.transactions.length > 0);
+  if (vaultsWithTransactions.length === 0) {
+    return [];
+  }
+
+  const { bucketSize: bucketSizeStr, timeRange: timeRangeStr } =
+    graphTimeBucketToSamplingPeriod(timeBucket);
+  const bucketSize = samplingPeriodMs[bucketSizeStr];
+  const timeRange = samplingPeriodMs[timeRangeStr];
+  const lastDate = new Date(Math.floor(new Date().getTime() / bucketSize) * bucketSize);
+  const rangeStartDate = new Date(lastDate.getTime() - timeRange);
+  const firstDepositDate = new Date(
+    Math.min(...vaultsWithTransactions.map(vault => vault.transactions[0].datetime.getTime()))
+  );
+  const firstDate = max([firstDepositDate, rangeStartDate]);
+
+  const generator = new PortfolioTimeSeriesGenerator(
+    vaultsWithTransactions,
+    firstDate,
+    lastDate,
+    bucketSize
+  );
+
+  return generator.generate();
+}
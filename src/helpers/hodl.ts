@@ -0,0 +1,185 @@
+import type BigNumber from 'bignumber.js';
+import { getUnixTime } from 'date-fns';
+import { sortBy } from 'lodash-es';
+import { BIG_ZERO, toBigNumber } from './big-number.ts';
+import { PnL, type PnlRemainingLot } from './pnl.ts';
+import type { ApiPoint, ApiTimeBucket } from '../features/data/apis/beefy/beefy-data-api-types.ts';
+import type {
+  TimelineEntryStandard,
+  TimelineUnderlyingBreakdown,
+} from '../features/data/entities/analytics.ts';
+import { roundDownMinutes } from './date.ts';
+
+/** deposit dates can be any time in the past, so daily prices over all time are used */
+export const HODL_PRICE_BUCKET = '1d_all' satisfies ApiTimeBucket;
+
+export type HodlToken = {
+  oracleId: string;
+  address: string;
+  symbol: string;
+  /** share of the lp value held in this token, from the current pool reserves */
+  weight: BigNumber;
+  /** usd price history, oldest first as returned by the data api */
+  prices: ApiPoint[];
+  livePrice: BigNumber;
+};
+
+/**
+ * Last known price at or before `unix`, the first price if `unix` is before all of them,
+ * or the live price if there is no history at all or `unix` is after it
+ */
+export function getHodlTokenPriceAt(token: HodlToken, unix: number): BigNumber {
+  const { prices } = token;
+  if (prices.length === 0 || unix > prices[prices.length - 1].t) {
+    return token.livePrice;
+  }
+
+  let low = 0;
+  let high = prices.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (prices[mid].t <= unix) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return toBigNumber(prices[low].v);
+}
+
+/** Underlying breakdown recorded with each transaction, keyed by its datetime in ms */
+export type HodlBreakdowns = Map<number, TimelineUnderlyingBreakdown[]>;
+
+export function getHodlBreakdowns(timeline: TimelineEntryStandard[]): HodlBreakdowns {
+  const breakdowns: HodlBreakdowns = new Map();
+  for (const row of timeline) {
+    if (row.underlyingBreakdown?.length) {
+      breakdowns.set(row.datetime.getTime(), row.underlyingBreakdown);
+    }
+  }
+  return breakdowns;
+}
+
+/** Token amounts in the lot's underlying at deposit, if the deposit recorded a breakdown of every token */
+function getLotBreakdownAmounts(
+  lot: PnlRemainingLot,
+  tokens: HodlToken[],
+  breakdowns: HodlBreakdowns
+): BigNumber[] | undefined {
+  const breakdown = lot.entryDate && breakdowns.get(lot.entryDate.getTime());
+  if (!breakdown) {
+    return undefined;
+  }
+
+  const underlying = lot.shares.times(lot.entryPpfs);
+  const amounts: BigNumber[] = [];
+  for (const token of tokens) {
+    const tokenBreakdown = breakdown.find(
+      b => b.token.toLowerCase() === token.address.toLowerCase()
+    );
+    if (!tokenBreakdown) {
+      return undefined;
+    }
+    amounts.push(underlying.times(tokenBreakdown.underlyingToToken));
+  }
+  return amounts;
+}
+
+/** True if any lot has no recorded breakdown, so its amounts are estimated from the current pool weights */
+export function isHodlEstimated(
+  lots: PnlRemainingLot[],
+  tokens: HodlToken[],
+  breakdowns: HodlBreakdowns
+): boolean {
+  return lots.some(lot => !getLotBreakdownAmounts(lot, tokens, breakdowns));
+}
+
+/**
+ * Token amounts that would be held, from the underlying breakdown at each deposit when the
+ * timeline recorded one, otherwise by splitting the usd value of the lot over the lp tokens
+ * (by current weight) at that day's prices
+ */
+export function getHodlTokenAmounts(
+  lots: PnlRemainingLot[],
+  tokens: HodlToken[],
+  breakdowns: HodlBreakdowns
+): BigNumber[] {
+  const amounts = tokens.map(() => BIG_ZERO);
+  for (const lot of lots) {
+    const lotAmounts = getLotBreakdownAmounts(lot, tokens, breakdowns);
+    if (lotAmounts) {
+      lotAmounts.forEach((amount, i) => (amounts[i] = amounts[i].plus(amount)));
+      continue;
+    }
+
+    const lotUsd = lot.shares.times(lot.entryPpfs).times(lot.entryPrice);
+    tokens.forEach((token, i) => {
+      const price =
+        lot.entryDate ? getHodlTokenPriceAt(token, getUnixTime(lot.entryDate)) : token.livePrice;
+      if (price.gt(BIG_ZERO)) {
+        amounts[i] = amounts[i].plus(lotUsd.times(token.weight).dividedBy(price));
+      }
+    });
+  }
+  return amounts;
+}
+
+export function getHodlUsd(amounts: BigNumber[], prices: BigNumber[]): BigNumber {
+  return amounts.reduce((total, amount, i) => total.plus(amount.times(prices[i])), BIG_ZERO);
+}
+
+/** Replays the timeline through PnL so the remaining lots are known after each transaction */
+export function getHodlLotsTimeline(
+  timeline: TimelineEntryStandard[]
+): { datetime: Date; lots: PnlRemainingLot[] }[] {
+  const pnl = new PnL();
+  const result: { datetime: Date; lots: PnlRemainingLot[] }[] = [];
+
+  for (const row of sortBy(timeline, row => row.datetime.getTime())) {
+    if (row.shareDiff && row.shareToUnderlyingPrice && row.underlyingToUsdPrice) {
+      pnl.addTransaction({
+        shares: row.shareDiff,
+        price: row.underlyingToUsdPrice,
+        ppfs: row.shareToUnderlyingPrice,
+        datetime: row.datetime,
+      });
+      result.push({ datetime: row.datetime, lots: pnl.getRemainingLots() });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Usd value at each timestamp (ms) of the tokens that would be held instead of the position,
+ * null before the first deposit
+ */
+export function getHodlTimeseries(
+  timestamps: number[],
+  timeline: TimelineEntryStandard[],
+  tokens: HodlToken[]
+): (number | null)[] {
+  const breakdowns = getHodlBreakdowns(timeline);
+  const amountsTimeline = getHodlLotsTimeline(timeline).map(({ datetime, lots }) => ({
+    // graph timeseries starts at the deposit hour
+    t: roundDownMinutes(new Date(datetime)).getTime(),
+    amounts: getHodlTokenAmounts(lots, tokens, breakdowns),
+  }));
+
+  let idx = -1;
+  return timestamps.map(t => {
+    while (idx < amountsTimeline.length - 1 && amountsTimeline[idx + 1].t <= t) {
+      ++idx;
+    }
+    if (idx === -1) {
+      return null;
+    }
+
+    const unix = Math.floor(t / 1000);
+    return getHodlUsd(
+      amountsTimeline[idx].amounts,
+      tokens.map(token => getHodlTokenPriceAt(token, unix))
+    ).toNumber();
+  });
+}
@@ -1,10 +1,13 @@
 import BigNumber from 'bignumber.js';
+import { orderBy } from 'lodash-es';
 import { BIG_ZERO } from './big-number.ts';
 
 interface PnlTransaction {
   shares: BigNumber;
   price: BigNumber;
   ppfs: BigNumber;
+  datetime?: Date;
+  transactionHash?: string | null;
 }
 
 export interface PnLBreakdown {
@@ -12,28 +15,59 @@ export interface PnLBreakdown {
   usd: BigNumber;
 }
 
+/** Which lots are sold first: first in, last in, or highest cost per share */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo';
+
+export interface PnlRealizedLot {
+  shares: BigNumber;
+  acquiredAt: Date | undefined;
+  disposedAt: Date | undefined;
+  /** usd value of the shares when acquired */
+  costBasisUsd: BigNumber;
+  /** usd value of the shares when disposed */
+  proceedsUsd: BigNumber;
+  gainUsd: BigNumber;
+  transactionHash: string | null | undefined;
+}
+
+export interface PnlRemainingLot {
+  shares: BigNumber;
+  entryPrice: BigNumber;
+  entryPpfs: BigNumber;
+  entryDate: Date | undefined;
+}
+
 type PnLState = {
-  sharesFifo: {
+  lots: {
     boughtShares: BigNumber;
     remainingShares: BigNumber;
     entryPrice: BigNumber;
     entryPpfs: BigNumber;
+    entryDate: Date | undefined;
   }[];
   realizedPnl: PnLBreakdown;
+  /** underlying gained from ppfs growth by the shares sold */
+  realizedYield: PnLBreakdown;
+  realizedLots: PnlRealizedLot[];
 };
 
-// this one is a FIFO pnl calculator:
+// this one is a FIFO pnl calculator by default:
 // https://money.stackexchange.com/a/144091
 export class PnL {
   private state: PnLState;
 
-  constructor() {
+  constructor(private readonly method: CostBasisMethod = 'fifo') {
     this.state = {
-      sharesFifo: [],
+      lots: [],
       realizedPnl: {
         shares: BIG_ZERO,
         usd: BIG_ZERO,
       },
+      realizedYield: {
+        shares: BIG_ZERO,
+        usd: BIG_ZERO,
+      },
+      realizedLots: [],
     };
   }
 
@@ -43,11 +77,12 @@ export class PnL {
     }
 
     if (transaction.shares.isPositive()) {
-      this.state.sharesFifo.push({
+      this.state.lots.push({
         boughtShares: transaction.shares,
         remainingShares: transaction.shares,
         entryPrice: transaction.price,
         entryPpfs: transaction.ppfs,
+        entryDate: transaction.datetime,
       });
       return;
     }
@@ -55,9 +90,8 @@ export class PnL {
     let remainingSharesToSell = transaction.shares.negated();
     let trxPnl = BIG_ZERO;
     let trxPnlUsd = BIG_ZERO;
-    let idx = 0;
-    for (; idx < this.state.sharesFifo.length; idx++) {
-      const { remainingShares, entryPpfs: ppfs, entryPrice } = this.state.sharesFifo[idx];
+    for (const idx of this.getSellOrder()) {
+      const { remainingShares, entryPpfs: ppfs, entryPrice, entryDate } = this.state.lots[idx];
       if (remainingShares.isZero()) {
         continue;
       }
@@ -73,8 +107,26 @@ export class PnL {
       trxPnl = trxPnl.plus(withdrawShareAmount.minus(entryShareAmount));
       trxPnlUsd = trxPnlUsd.plus(withdrawUsdAmount.minus(entryUsdAmount));
 
+      const costBasisUsd = sharesToSell.times(ppfs).times(entryPrice);
+      const proceedsUsd = withdrawShareAmount.times(transaction.price);
+      this.state.realizedLots.push({
+        shares: sharesToSell,
+        acquiredAt: entryDate,
+        disposedAt: transaction.datetime,
+        costBasisUsd,
+        proceedsUsd,
+        gainUsd: proceedsUsd.minus(costBasisUsd),
+        transactionHash: transaction.transactionHash,
+      });
+
+      const yieldAmount = sharesToSell.times(transaction.ppfs.minus(ppfs));
+      this.state.realizedYield.shares = this.state.realizedYield.shares.plus(yieldAmount);
+      this.state.realizedYield.usd = this.state.realizedYield.usd.plus(
+        yieldAmount.times(transaction.price)
+      );
+
       remainingSharesToSell = remainingSharesToSell.minus(sharesToSell);
-      this.state.sharesFifo[idx].remainingShares = remainingShares.minus(sharesToSell);
+      this.state.lots[idx].remainingShares = remainingShares.minus(sharesToSell);
 
       if (remainingSharesToSell.isZero()) {
         break;
@@ -86,13 +138,29 @@ export class PnL {
     return;
   }
 
+  private getSellOrder(): number[] {
+    const indexes = this.state.lots.map((_, idx) => idx);
+    switch (this.method) {
+      case 'lifo':
+        return indexes.reverse();
+      case 'hifo':
+        return orderBy(
+          indexes,
+          idx => this.state.lots[idx].entryPpfs.times(this.state.lots[idx].entryPrice).toNumber(),
+          'desc'
+        );
+      default:
+        return indexes;
+    }
+  }
+
   getUnrealizedPnl(currentPrice: BigNumber, ppfs: BigNumber): PnLBreakdown {
     const unrealizedPnl = {
       usd: BIG_ZERO,
       shares: BIG_ZERO,
     };
 
-    for (const { remainingShares, entryPpfs, entryPrice } of this.state.sharesFifo) {
+    for (const { remainingShares, entryPpfs, entryPrice } of this.state.lots) {
       if (remainingShares.isZero()) {
         continue;
       }
@@ -112,18 +180,51 @@ export class PnL {
     return this.state.realizedPnl;
   }
 
+  getRealizedYield(): PnLBreakdown {
+    return this.state.realizedYield;
+  }
+
+  /** each part of a lot sold, using the cost basis method given to the constructor */
+  getRealizedLots(): PnlRealizedLot[] {
+    return this.state.realizedLots;
+  }
+
   getRemainingShares(): BigNumber {
     let remainingShares = BIG_ZERO;
-    for (const trx of this.state.sharesFifo) {
+    for (const trx of this.state.lots) {
       remainingShares = remainingShares.plus(trx.remainingShares);
     }
     return remainingShares;
   }
 
+  /** lots that still have shares left, in the order they were bought */
+  getRemainingLots(): PnlRemainingLot[] {
+    return this.state.lots
+      .filter(lot => !lot.remainingShares.isZero())
+      .map(({ remainingShares, entryPrice, entryPpfs, entryDate }) => ({
+        shares: remainingShares,
+        entryPrice,
+        entryPpfs,
+        entryDate,
+      }));
+  }
+
+  /** underlying amount and usd value of the remaining shares when they were acquired */
+  getRemainingCostBasis(): { underlying: BigNumber; usd: BigNumber } {
+    let underlying = BIG_ZERO;
+    let usd = BIG_ZERO;
+    for (const { remainingShares, entryPpfs, entryPrice } of this.state.lots) {
+      const entryUnderlying = remainingShares.times(entryPpfs);
+      underlying = underlying.plus(entryUnderlying);
+      usd = usd.plus(entryUnderlying.times(entryPrice));
+    }
+    return { underlying, usd };
+  }
+
   getRemainingSharesAvgEntryPrice(): BigNumber {
     let totalShares = BIG_ZERO;
     let totalCost = BIG_ZERO;
-    for (const { remainingShares, entryPrice } of this.state.sharesFifo) {
+    for (const { remainingShares, entryPrice } of this.state.lots) {
       totalShares = totalShares.plus(remainingShares);
       totalCost = totalCost.plus(remainingShares.times(entryPrice));
     }
@@ -136,7 +237,7 @@ export class PnL {
   getRemainingSharesAvgEntryPpfs(): BigNumber {
     let totalShares = BIG_ZERO;
     let totalPpfs = BIG_ZERO;
-    for (const { remainingShares, entryPpfs } of this.state.sharesFifo) {
+    for (const { remainingShares, entryPpfs } of this.state.lots) {
       totalShares = totalShares.plus(remainingShares);
       totalPpfs = totalPpfs.plus(remainingShares.times(entryPpfs));
     }
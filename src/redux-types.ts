@@ -28,10 +28,17 @@ import type { DataLoaderState } from './features/data/reducers/data-loader-types
 import type { FeesState } from './features/data/reducers/fees.ts';
 import type { StepperState } from './features/data/reducers/wallet/stepper.ts';
 import type { TransactState } from './features/data/reducers/wallet/transact-types.ts';
+import type { BasketState } from './features/data/reducers/wallet/basket.ts';
 import type { TreasuryState } from './features/data/reducers/treasury.ts';
 import type { ProposalsState } from './features/data/reducers/proposals.ts';
 import type { HistoricalState } from './features/data/reducers/historical-types.ts';
 import type { SavedVaultsState } from './features/data/reducers/saved-vaults.ts';
+import type { UserSettingsState } from './features/data/reducers/user-settings.ts';
+import type { WatchlistState } from './features/data/reducers/watchlist.ts';
+import type { AlertsState } from './features/data/reducers/alerts.ts';
+import type { WebhooksState } from './features/data/reducers/webhooks.ts';
+import type { BridgeHistoryState } from './features/data/reducers/bridge-history.ts';
+import type { CrossChainDepositsState } from './features/data/reducers/cross-chain-deposits.ts';
 import type { ResolverState } from './features/data/reducers/wallet/resolver-types.ts';
 import type { BridgesState } from './features/data/reducers/bridges.ts';
 import type { MigrationState } from './features/data/reducers/wallet/migration.ts';
@@ -81,11 +88,18 @@ export interface BeefyState {
     filteredVaults: FilteredVaultsState;
     vaultsList: VaultsListState;
     transact: TransactState;
+    basket: BasketState;
     bridge: BridgeState;
+    bridgeHistory: BridgeHistoryState;
+    crossChainDeposits: CrossChainDepositsState;
     onRamp: OnRampTypes;
     stepperState: StepperState;
     treasury: TreasuryState;
     savedVaults: SavedVaultsState;
+    userSettings: UserSettingsState;
+    watchlist: WatchlistState;
+    alerts: AlertsState;
+    webhooks: WebhooksState;
     addToWallet: AddToWalletState;
     version: VersionState;
     tenderly?: TenderlyState;